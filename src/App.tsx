@@ -1,4 +1,4 @@
-import { useCallback, useRef, useState, useEffect } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
 import { ProjectProvider, useProjectOptional } from '@/context/ProjectContext';
 import { AuthProvider } from '@/context/AuthContext';
 import { PersonProfilesProvider } from '@/context/PersonProfilesContext';
@@ -11,6 +11,11 @@ import { WorkloadLineChart } from '@/components/dashboard/WorkloadLineChart';
 import { ProjectTable } from '@/components/dashboard/ProjectTable';
 import { GanttTimeline } from '@/components/dashboard/GanttTimeline';
 import { PersonSummaryCards } from '@/components/dashboard/PersonSummaryCard';
+import { SyncConflictDialog } from '@/components/dashboard/SyncConflictDialog';
+import { SearchPalette } from '@/components/layout/SearchPalette';
+import { CommandPalette } from '@/components/layout/CommandPalette';
+import { CommandsProvider, useRegisterCommands } from '@/context/CommandsContext';
+import { exportToExcel, copyAsCSV } from '@/lib/exportUtils';
 import { parseExcelFile } from '@/lib/parseExcel';
 import { getPersons } from '@/lib/workloadEngine';
 import { useAuth } from '@/context/AuthContext';
@@ -73,7 +78,7 @@ function DashboardContent() {
       </div>
     );
   }
-  const { state, dispatch, isBoardLoading } = projectCtx;
+  const { state, dispatch, isBoardLoading, activeBaseline, scheduleVariance } = projectCtx;
   const [lastFile, setLastFile] = useState<File | null>(null);
   const [fileHandle, setFileHandle] = useState<FileSystemFileHandle | null>(null);
   const [reloadToast, setReloadToast] = useState<string | null>(null);
@@ -184,17 +189,42 @@ function DashboardContent() {
     }
   }, [state.config, dispatch]);
 
-  // Keyboard shortcut: Ctrl+R to reload
-  useEffect(() => {
-    const handler = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'r' && state.projects.length > 0) {
-        e.preventDefault();
-        handleReload();
-      }
-    };
-    window.addEventListener('keydown', handler);
-    return () => window.removeEventListener('keydown', handler);
-  }, [handleReload, state.projects.length]);
+  // Ctrl+R reloads the Excel file; without projects the browser reload goes through
+  const hasProjects = state.projects.length > 0;
+  useRegisterCommands(useMemo(() => [
+    {
+      id: 'file.reload',
+      title: 'Recargar archivo Excel',
+      section: 'board' as const,
+      keywords: ['actualizar', 'importar'],
+      defaultBinding: 'Ctrl+R',
+      enabled: hasProjects,
+      run: handleReload,
+    },
+    {
+      id: 'file.import',
+      title: 'Importar archivo',
+      section: 'board' as const,
+      keywords: ['excel', 'cargar'],
+      run: () => setShowImportWizard(true),
+    },
+    {
+      id: 'file.exportExcel',
+      title: 'Exportar a Excel',
+      section: 'board' as const,
+      keywords: ['xlsx', 'descargar'],
+      enabled: hasProjects,
+      run: () => exportToExcel(state.projects, 'proyectos.xlsx', activeBaseline ? scheduleVariance : undefined, state.config.taskTypes),
+    },
+    {
+      id: 'file.copyCsv',
+      title: 'Copiar como CSV',
+      section: 'board' as const,
+      keywords: ['portapapeles', 'exportar'],
+      enabled: hasProjects,
+      run: () => copyAsCSV(state.projects, state.config.taskTypes),
+    },
+  ], [hasProjects, handleReload, state.projects, state.config.taskTypes, activeBaseline, scheduleVariance]));
 
   const hasBoardParam = typeof window !== 'undefined' && !!new URLSearchParams(window.location.search).get('board');
 
@@ -268,6 +298,15 @@ function DashboardContent() {
         />
       )}
 
+      {/* Concurrent edit conflicts */}
+      <SyncConflictDialog />
+
+      {/* Ctrl+K board search */}
+      <SearchPalette />
+
+      {/* Ctrl+Shift+P command palette */}
+      <CommandPalette />
+
       {/* Reload toast */}
       {reloadToast && (
         <div className={`fixed bottom-4 right-4 z-50 px-4 py-3 rounded-lg text-sm shadow-lg transition-all fade-in ${
@@ -296,7 +335,9 @@ export function App() {
         <PersonProfilesProvider>
           <AppErrorBoundary>
             <ProjectProvider>
-              <DashboardContent />
+              <CommandsProvider>
+                <DashboardContent />
+              </CommandsProvider>
             </ProjectProvider>
           </AppErrorBoundary>
         </PersonProfilesProvider>
@@ -1,29 +1,44 @@
 import { useState } from 'react';
 import { useProject } from '@/context/ProjectContext';
 import { usePersonProfiles } from '@/context/PersonProfilesContext';
-import { X, Plus, Trash2, Users, Upload } from 'lucide-react';
-import type { NonWorkingDay } from '@/lib/types';
+import { useUiFeedback } from '@/context/UiFeedbackContext';
+import { X, Plus, Trash2, Users, Upload, CalendarOff, FolderTree, Shapes } from 'lucide-react';
+import type { NonWorkingDay, RollupRules, TaskType, VersionSnapshotSettings } from '@/lib/types';
+import type { PersonProfile } from '@/lib/personProfiles';
+import { DEFAULT_PERSON_CAPACITY } from '@/lib/personProfiles';
 import { computeProjectFields } from '@/lib/workloadEngine';
 import { DATE_FORMAT_OPTIONS } from '@/lib/dateUtils';
 import { getPersons } from '@/lib/workloadEngine';
+import { COLUMN_ROLLUP_LABELS, ROLLUP_FIELD_OPTIONS, isRollupColumn, type ColumnRollup } from '@/lib/rollupRules';
+import { TASK_TYPE_COLORS, TASK_TYPE_ICONS, TASK_TYPE_ICON_LABELS } from '@/lib/taskTypes';
+import { TaskTypeIcon } from '@/components/shared/TaskTypeIcon';
 
 interface ConfigModalProps {
   onClose: () => void;
 }
 
+// A type being edited remembers the name it was loaded with, so renames carry its tasks along
+type TaskTypeDraft = TaskType & { originalName: string | null };
+
 export function ConfigModal({ onClose }: ConfigModalProps) {
-  const { state, dispatch, filteredProjects } = useProject();
-  const { getAvatarUrl, setAvatar, deleteProfile } = usePersonProfiles();
+  const { state, dispatch, filteredProjects, dynamicColumns, setRollupRules, setTaskTypes, canEditActiveBoard } = useProject();
+  const { toast } = useUiFeedback();
+  const { getAvatarUrl, setAvatar, deleteProfile, getProfile, updateProfile } = usePersonProfiles();
   const [hoursPerDay, setHoursPerDay] = useState(state.config.hoursPerDay);
   const [weekendDays, setWeekendDays] = useState<number[]>(state.config.weekendDays);
   const [holidays, setHolidays] = useState<NonWorkingDay[]>(state.config.holidays);
   const [dateFormat, setDateFormat] = useState(state.config.dateFormat);
+  const [versionSnapshots, setVersionSnapshots] = useState<VersionSnapshotSettings>(state.config.versionSnapshots);
+  const [rollup, setRollup] = useState<RollupRules>(state.config.rollup);
+  const [taskTypes, setTaskTypeDrafts] = useState<TaskTypeDraft[]>(() => state.config.taskTypes.map((t) => ({ ...t, originalName: t.name })));
+  const [taskTypesChanged, setTaskTypesChanged] = useState(false);
   const [newHolidayDate, setNewHolidayDate] = useState('');
   const [newHolidayName, setNewHolidayName] = useState('');
   const [newHolidayRecurring, setNewHolidayRecurring] = useState(true);
   
   // Person management state
-  const [activeTab, setActiveTab] = useState<'general' | 'persons'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'persons' | 'rollup' | 'types'>('general');
+  const [expandedPerson, setExpandedPerson] = useState<string | null>(null);
 
   const dayNames = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
 
@@ -47,14 +62,54 @@ export function ConfigModal({ onClose }: ConfigModalProps) {
     setHolidays((prev) => prev.filter((_, i) => i !== idx));
   };
 
+  const updateTaskType = (idx: number, changes: Partial<TaskType>) => {
+    setTaskTypeDrafts((prev) => prev.map((t, i) => (i === idx ? { ...t, ...changes } : t)));
+    setTaskTypesChanged(true);
+  };
+
+  const addTaskType = () => {
+    setTaskTypeDrafts((prev) => [
+      ...prev,
+      { name: `Tipo ${prev.length + 1}`, color: TASK_TYPE_COLORS[prev.length % TASK_TYPE_COLORS.length], icon: 'circle', countsTowardLoad: true, isMilestone: false, originalName: null },
+    ]);
+    setTaskTypesChanged(true);
+  };
+
+  const removeTaskType = (idx: number) => {
+    setTaskTypeDrafts((prev) => prev.filter((_, i) => i !== idx));
+    setTaskTypesChanged(true);
+  };
+
+  const typeNameKeys = taskTypes.map((t) => t.name.trim().toLowerCase());
+  const taskTypesError = typeNameKeys.some((k) => !k)
+    ? 'Cada tipo necesita un nombre.'
+    : typeNameKeys.some((k, i) => typeNameKeys.indexOf(k) !== i)
+      ? 'Hay tipos con el mismo nombre.'
+      : null;
+
   const handleSave = () => {
-    const newConfig = { ...state.config, hoursPerDay, weekendDays, holidays, dateFormat };
+    const newConfig = { ...state.config, hoursPerDay, weekendDays, holidays, dateFormat, versionSnapshots };
     dispatch({ type: 'SET_CONFIG', payload: newConfig });
     // Recompute projects with new config
     if (state.projects.length > 0) {
       const recomputed = state.projects.map((p) => computeProjectFields(p, newConfig));
       dispatch({ type: 'SET_PROJECTS', payload: { projects: recomputed, fileName: state.fileName || '' } });
     }
+    if (taskTypesChanged && !taskTypesError) {
+      const renamed: Record<string, string> = {};
+      taskTypes.forEach((t) => {
+        if (t.originalName && t.originalName !== t.name.trim()) renamed[t.originalName] = t.name.trim();
+      });
+      const types = taskTypes.map(({ originalName: _originalName, ...t }) => ({ ...t, name: t.name.trim() }));
+      setTaskTypes(types, renamed).catch((err) => {
+        toast('error', `No se pudieron guardar los tipos de tarea: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    }
+    if (rollup !== state.config.rollup) {
+      setRollupRules(rollup).catch((err) => {
+        toast('error', `No se pudieron guardar las reglas de grupos: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    }
     onClose();
   };
 
@@ -91,10 +146,162 @@ export function ConfigModal({ onClose }: ConfigModalProps) {
             <Users size={14} />
             Personas
           </button>
+          <button
+            onClick={() => setActiveTab('rollup')}
+            className={`px-5 py-2.5 text-sm font-medium transition-colors flex items-center gap-1.5 ${
+              activeTab === 'rollup'
+                ? 'text-text-primary border-b-2 border-text-primary'
+                : 'text-text-secondary hover:text-text-primary'
+            }`}
+          >
+            <FolderTree size={14} />
+            Grupos
+          </button>
+          <button
+            onClick={() => setActiveTab('types')}
+            className={`px-5 py-2.5 text-sm font-medium transition-colors flex items-center gap-1.5 ${
+              activeTab === 'types'
+                ? 'text-text-primary border-b-2 border-text-primary'
+                : 'text-text-secondary hover:text-text-primary'
+            }`}
+          >
+            <Shapes size={14} />
+            Tipos
+          </button>
         </div>
 
         <div className="px-5 py-4 space-y-5">
-          {activeTab === 'general' ? (
+          {activeTab === 'types' ? (
+            <div className="space-y-3">
+              <div className="text-sm text-text-secondary">
+                Tipos de tarea de este tablero. El primero se usa para las tareas nuevas; las tareas de un tipo eliminado pasan al primero.
+              </div>
+              <div className="space-y-2">
+                {taskTypes.map((t, i) => (
+                  <div key={i} className="rounded border border-border p-2 space-y-1.5">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={t.color}
+                        disabled={!canEditActiveBoard}
+                        onChange={(e) => updateTaskType(i, { color: e.target.value })}
+                        className="h-7 w-7 shrink-0 rounded border border-border bg-white p-0.5 disabled:opacity-60"
+                        title="Color"
+                      />
+                      <TaskTypeIcon icon={t.icon} color={t.color} size={14} className="shrink-0" />
+                      <input
+                        type="text"
+                        value={t.name}
+                        disabled={!canEditActiveBoard}
+                        onChange={(e) => updateTaskType(i, { name: e.target.value })}
+                        className="flex-1 min-w-0 px-2 py-1 border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-person-1/30 disabled:opacity-60"
+                      />
+                      <select
+                        value={t.icon}
+                        disabled={!canEditActiveBoard}
+                        onChange={(e) => updateTaskType(i, { icon: e.target.value })}
+                        className="px-2 py-1 border border-border rounded text-xs bg-white focus:outline-none focus:ring-2 focus:ring-person-1/30 disabled:opacity-60"
+                        title="Icono"
+                      >
+                        {TASK_TYPE_ICONS.map((icon) => (
+                          <option key={icon} value={icon}>{TASK_TYPE_ICON_LABELS[icon]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => removeTaskType(i)}
+                        disabled={!canEditActiveBoard || taskTypes.length <= 1}
+                        className="text-text-secondary hover:text-[#B71C1C] transition-colors disabled:opacity-40"
+                        title="Eliminar tipo"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-4 pl-9">
+                      <label className="flex items-center gap-1.5 text-xs text-text-primary cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={t.countsTowardLoad}
+                          disabled={!canEditActiveBoard}
+                          onChange={(e) => updateTaskType(i, { countsTowardLoad: e.target.checked })}
+                        />
+                        Suma carga
+                      </label>
+                      <label className="flex items-center gap-1.5 text-xs text-text-primary cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={t.isMilestone}
+                          disabled={!canEditActiveBoard}
+                          onChange={(e) => updateTaskType(i, { isMilestone: e.target.checked })}
+                        />
+                        Es hito
+                      </label>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {canEditActiveBoard ? (
+                <button onClick={addTaskType} className="flex items-center gap-1 px-2.5 py-1.5 text-xs rounded bg-accent-blue text-[#1A5276] hover:bg-[#b8d4e3] transition-colors">
+                  <Plus size={12} />
+                  Agregar tipo
+                </button>
+              ) : (
+                <div className="text-xs text-text-secondary">Solo los editores del tablero pueden cambiar los tipos.</div>
+              )}
+              {taskTypesError && <div className="text-xs text-[#B71C1C]">{taskTypesError}</div>}
+            </div>
+          ) : activeTab === 'rollup' ? (
+            <div className="space-y-3">
+              <div className="text-sm text-text-secondary">
+                Como resumen los grupos a sus tareas en este tablero. Con "Propio del grupo" el valor se escribe directamente en la fila del grupo.
+              </div>
+              {(Object.keys(ROLLUP_FIELD_OPTIONS) as (keyof typeof ROLLUP_FIELD_OPTIONS)[]).map((field) => (
+                <div key={field} className="flex items-center gap-3">
+                  <label className="w-32 text-sm text-text-primary">{ROLLUP_FIELD_OPTIONS[field].label}</label>
+                  <select
+                    value={rollup[field]}
+                    disabled={!canEditActiveBoard}
+                    onChange={(e) => setRollup((prev) => ({ ...prev, [field]: e.target.value }))}
+                    className="flex-1 px-3 py-1.5 border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-person-1/30 focus:border-person-1 bg-white disabled:opacity-60"
+                  >
+                    {ROLLUP_FIELD_OPTIONS[field].options.map((opt) => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              {dynamicColumns.filter(isRollupColumn).length > 0 && (
+                <div className="pt-2 border-t border-border space-y-3">
+                  <div className="text-xs font-medium text-text-secondary">Columnas numericas</div>
+                  {dynamicColumns.filter(isRollupColumn).map((col) => (
+                    <div key={col.id} className="flex items-center gap-3">
+                      <label className="w-32 text-sm text-text-primary truncate" title={col.name}>{col.name}</label>
+                      <select
+                        value={rollup.columns[col.id] || 'none'}
+                        disabled={!canEditActiveBoard}
+                        onChange={(e) => {
+                          const mode = e.target.value as ColumnRollup;
+                          setRollup((prev) => {
+                            const columns = { ...prev.columns };
+                            if (mode === 'none') delete columns[col.id];
+                            else columns[col.id] = mode;
+                            return { ...prev, columns };
+                          });
+                        }}
+                        className="flex-1 px-3 py-1.5 border border-border rounded text-sm focus:outline-none focus:ring-2 focus:ring-person-1/30 focus:border-person-1 bg-white disabled:opacity-60"
+                      >
+                        {(Object.keys(COLUMN_ROLLUP_LABELS) as ColumnRollup[]).map((mode) => (
+                          <option key={mode} value={mode}>{COLUMN_ROLLUP_LABELS[mode]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {!canEditActiveBoard && (
+                <div className="text-xs text-text-secondary">Solo los editores del tablero pueden cambiar estas reglas.</div>
+              )}
+            </div>
+          ) : activeTab === 'general' ? (
             <>
               {/* Hours per day */}
               <div>
@@ -182,11 +389,32 @@ export function ConfigModal({ onClose }: ConfigModalProps) {
                   </button>
                 </div>
               </div>
+
+              {/* Automatic version snapshots */}
+              <div>
+                <label className="block text-sm font-medium text-text-primary mb-1.5">Versiones automáticas</label>
+                <div className="space-y-1.5">
+                  {([
+                    ['onImport', 'Antes de importar un archivo'],
+                    ['beforeBulk', 'Antes de ediciones masivas'],
+                    ['daily', 'Una versión diaria'],
+                  ] as [keyof VersionSnapshotSettings, string][]).map(([key, label]) => (
+                    <label key={key} className="flex items-center gap-2 text-xs text-text-primary cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={versionSnapshots[key]}
+                        onChange={(e) => setVersionSnapshots((prev) => ({ ...prev, [key]: e.target.checked }))}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
             </>
           ) : (
             <div className="space-y-4">
               <div className="text-sm text-text-secondary">
-                Gestiona las fotos y perfiles de las personas. Los cambios se reflejarán en todas las vistas del tablero.
+                Gestiona las fotos, capacidad diaria y ausencias de las personas. La carga se calcula contra la disponibilidad real de cada persona.
               </div>
               
               {/* Person list */}
@@ -197,42 +425,69 @@ export function ConfigModal({ onClose }: ConfigModalProps) {
                     persons.map((person) => {
                       const avatarUrl = getAvatarUrl(person);
                       return (
-                        <div key={person} className="flex items-center gap-3 p-2 rounded hover:bg-bg-secondary">
-                          {avatarUrl ? (
-                            <img
-                              src={avatarUrl}
-                              alt={person}
-                              className="w-8 h-8 rounded-full object-cover border border-border"
-                            />
-                          ) : (
-                            <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center text-xs font-medium text-gray-600">
-                              {person.charAt(0).toUpperCase()}
-                            </div>
-                          )}
-                          <span className="text-sm text-text-primary flex-1">{person}</span>
+                        <div key={person}>
+                          <div className="flex items-center gap-3 p-2 rounded hover:bg-bg-secondary">
+                            {avatarUrl ? (
+                              <img
+                                src={avatarUrl}
+                                alt={person}
+                                className="w-8 h-8 rounded-full object-cover border border-border"
+                              />
+                            ) : (
+                              <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center text-xs font-medium text-gray-600">
+                                {person.charAt(0).toUpperCase()}
+                              </div>
+                            )}
+                            <span className="text-sm text-text-primary flex-1">{person}</span>
+
+                            <select
+                              value={String(getProfile(person)?.capacity ?? DEFAULT_PERSON_CAPACITY)}
+                              onChange={(e) => void updateProfile(person, { capacity: Number(e.target.value) })}
+                              title="Capacidad diaria"
+                              className="text-xs px-1.5 py-1 rounded border border-border bg-white focus:outline-none focus:ring-2 focus:ring-person-1/30"
+                            >
+                              {CAPACITY_OPTIONS.map((opt) => (
+                                <option key={opt} value={String(opt)}>{Math.round(opt * 100)}%</option>
+                              ))}
+                            </select>
+
+                            <button
+                              className={`text-xs px-2 py-1 rounded border border-border hover:bg-bg-secondary ${expandedPerson === person ? 'bg-bg-secondary' : ''}`}
+                              onClick={() => setExpandedPerson((prev) => (prev === person ? null : person))}
+                              title="Ausencias"
+                            >
+                              <CalendarOff size={12} />
+                            </button>
                           
-                          <label className="text-xs px-2 py-1 rounded border border-border hover:bg-bg-secondary cursor-pointer">
-                            <input
-                              type="file"
-                              accept="image/png,image/jpeg,image/webp"
-                              className="hidden"
-                              onChange={async (e) => {
-                                const file = e.target.files?.[0];
-                                if (file) {
-                                  await setAvatar(person, file);
-                                  e.currentTarget.value = '';
-                                }
-                              }}
-                            />
-                            <Upload size={12} />
-                          </label>
+                            <label className="text-xs px-2 py-1 rounded border border-border hover:bg-bg-secondary cursor-pointer">
+                              <input
+                                type="file"
+                                accept="image/png,image/jpeg,image/webp"
+                                className="hidden"
+                                onChange={async (e) => {
+                                  const file = e.target.files?.[0];
+                                  if (file) {
+                                    await setAvatar(person, file);
+                                    e.currentTarget.value = '';
+                                  }
+                                }}
+                              />
+                              <Upload size={12} />
+                            </label>
                           
-                          <button
-                            className="text-xs px-2 py-1 rounded border border-red-200 text-red-600 hover:bg-red-50"
-                            onClick={() => deleteProfile(person)}
-                          >
-                            <Trash2 size={12} />
-                          </button>
+                            <button
+                              className="text-xs px-2 py-1 rounded border border-red-200 text-red-600 hover:bg-red-50"
+                              onClick={() => deleteProfile(person)}
+                            >
+                              <Trash2 size={12} />
+                            </button>
+                          </div>
+                          {expandedPerson === person && (
+                            <PersonAbsencesEditor
+                              profile={getProfile(person)}
+                              onChange={(absences) => void updateProfile(person, { absences })}
+                            />
+                          )}
                         </div>
                       );
                     })
@@ -251,7 +506,7 @@ export function ConfigModal({ onClose }: ConfigModalProps) {
           <button onClick={onClose} className="px-4 py-2 text-sm text-text-secondary hover:text-text-primary transition-colors">
             Cancelar
           </button>
-          <button onClick={handleSave} className="px-4 py-2 text-sm font-medium bg-text-primary text-white rounded-md hover:bg-[#2c2a25] transition-colors">
+          <button onClick={handleSave} disabled={taskTypesChanged && !!taskTypesError} className="px-4 py-2 text-sm font-medium bg-text-primary text-white rounded-md hover:bg-[#2c2a25] transition-colors disabled:opacity-40">
             Guardar
           </button>
         </div>
@@ -259,3 +514,72 @@ export function ConfigModal({ onClose }: ConfigModalProps) {
     </div>
   );
 }
+
+const CAPACITY_OPTIONS = [1, 0.75, 0.5, 0.25];
+
+function PersonAbsencesEditor({
+  profile,
+  onChange,
+}: {
+  profile: PersonProfile | undefined;
+  onChange: (absences: NonNullable<PersonProfile['absences']>) => void;
+}) {
+  const absences = profile?.absences || [];
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [reason, setReason] = useState('');
+
+  const addAbsence = () => {
+    if (!start) return;
+    const effectiveEnd = end && end >= start ? end : start;
+    onChange([
+      ...absences,
+      { id: crypto.randomUUID(), start, end: effectiveEnd, reason: reason.trim() || 'Ausencia' },
+    ].sort((a, b) => a.start.localeCompare(b.start)));
+    setStart('');
+    setEnd('');
+    setReason('');
+  };
+
+  return (
+    <div className="ml-11 mr-2 mb-2 space-y-1.5">
+      {absences.map((a) => (
+        <div key={a.id} className="flex items-center gap-2 text-xs bg-bg-secondary rounded px-2.5 py-1.5">
+          <span className="tabular-nums">{a.start === a.end ? a.start : `${a.start} → ${a.end}`}</span>
+          <span className="flex-1 text-text-primary truncate">{a.reason}</span>
+          <button
+            onClick={() => onChange(absences.filter((x) => x.id !== a.id))}
+            className="text-text-secondary hover:text-[#B71C1C] transition-colors"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-1.5">
+        <input
+          type="date"
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+          className="px-1.5 py-1 border border-border rounded text-xs focus:outline-none focus:ring-2 focus:ring-person-1/30"
+        />
+        <input
+          type="date"
+          value={end}
+          min={start || undefined}
+          onChange={(e) => setEnd(e.target.value)}
+          className="px-1.5 py-1 border border-border rounded text-xs focus:outline-none focus:ring-2 focus:ring-person-1/30"
+        />
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Vacaciones, incapacidad..."
+          className="flex-1 min-w-0 px-1.5 py-1 border border-border rounded text-xs focus:outline-none focus:ring-2 focus:ring-person-1/30"
+        />
+        <button onClick={addAbsence} className="p-1.5 rounded bg-accent-blue text-[#1A5276] hover:bg-[#b8d4e3] transition-colors">
+          <Plus size={12} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -8,9 +8,20 @@ import {
   computeProjectFields,
 } from '@/lib/workloadEngine';
 import { buildHierarchy, isParent } from '@/lib/hierarchyEngine';
+import {
+  parseSuccessorIds,
+  encodeDependencyIds,
+  computeDependencySchedule,
+  buildDependencyGraph,
+  wouldCreateDependencyCycle,
+  propagateScheduleShift,
+} from '@/lib/dependencyGraph';
 import { getDateRange, format } from '@/lib/dateUtils';
 import { differenceInCalendarDays, addDays } from 'date-fns';
+import { acquireSyncHold } from '@/lib/syncScheduler';
+import { useSyncHold } from '@/lib/useSyncScheduler';
 import { getLoadColor, PERSON_COLORS } from '@/lib/constants';
+import { defaultTaskTypeName, isMilestoneType, taskTypeColor } from '@/lib/taskTypes';
 import {
   ChevronDown,
   ChevronUp,
@@ -26,11 +37,27 @@ import {
   Copy,
   Trash2,
   Pencil,
+  AlertTriangle,
+  Route,
+  ArrowRightToLine,
+  Flag,
+  TrendingDown,
 } from 'lucide-react';
-import type { Project } from '@/lib/types';
+import type { Project, TaskType } from '@/lib/types';
+import { formatVariance, type BaselineEntry, type ScheduleVariance } from '@/lib/baselines';
+import { formatSpi, type ProjectProgressMetrics } from '@/lib/earnedValue';
 import { branchLabel } from '@/lib/branchUtils';
+import type {
+  ColorMode,
+  CustomColorField,
+  CustomGroupField,
+  GroupMode,
+  OrderMode,
+  TimelineLayout,
+} from '@/lib/savedViews';
 import { GanttTreeOverlay } from '@/modules/gantt/components/GanttTreeOverlay';
 import { useGanttTreeGeometry } from '@/modules/gantt/hooks/useGanttTreeGeometry';
+import { revealElement } from '@/utils/revealElement';
 import React from 'react';
 import { createPortal } from 'react-dom';
 
@@ -43,11 +70,6 @@ import { COLORS, TYPOGRAPHY, DIMENSIONS, SHADOWS, TRANSITIONS } from '@/lib/desi
 //  TYPES
 // â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•
 
-type ColorMode = 'load' | 'person' | 'type' | 'custom';
-type CustomColorField = 'branch' | 'type';
-type GroupMode = 'none' | 'person' | 'type' | 'custom';
-type CustomGroupField = 'branch' | 'priority';
-type OrderMode = 'chronological' | 'custom';
 type TimePreset = '2W' | '1M' | '3M' | '6M' | 'ALL';
 
 interface TooltipData {
@@ -102,15 +124,9 @@ interface TimelineGroup {
   projects: Project[];
 }
 
-interface TimelineViewPreset {
+interface TimelineViewPreset extends TimelineLayout {
   id: string;
   name: string;
-  groupMode: GroupMode;
-  customGroupField: CustomGroupField;
-  orderMode: OrderMode;
-  colorMode: ColorMode;
-  customColorField: CustomColorField;
-  showMilestonesOnly: boolean;
 }
 
 // â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•
@@ -157,8 +173,10 @@ const PRESET_LABELS: Record<TimePreset, string> = {
 //  PURE UTILITIES
 // â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•
 
-function isMilestoneProject(project: Project): boolean {
+// Zero-day tasks on a single day, or any task whose type is a milestone type
+function isMilestoneProject(project: Project, taskTypes: TaskType[]): boolean {
   if (!project.startDate || !project.endDate) return false;
+  if (isMilestoneType(project.type, taskTypes)) return true;
   const same =
     project.startDate.getFullYear() === project.endDate.getFullYear() &&
     project.startDate.getMonth() === project.endDate.getMonth() &&
@@ -166,41 +184,21 @@ function isMilestoneProject(project: Project): boolean {
   return same && Number(project.daysRequired || 0) <= 0;
 }
 
-function parseDependencyIds(project: Project, all: Project[]): string[] {
-  const raw = (project.blocksTo || '').trim();
-  if (!raw) return [];
-  const byId = new Map(all.map((p) => [p.id, p]));
-  const byName = new Map(
-    all.map((p) => [(p.name || '').trim().toLowerCase(), p]),
-  );
-  const parse = (tokens: string[]) => {
-    const out: string[] = [];
-    tokens.forEach((t) => {
-      const c = t.trim();
-      if (!c) return;
-      if (byId.has(c)) {
-        out.push(c);
-        return;
-      }
-      const h = byName.get(c.toLowerCase());
-      if (h) out.push(h.id);
-    });
-    return [...new Set(out)];
-  };
-  if (raw.startsWith('[')) {
-    try {
-      const p = JSON.parse(raw);
-      if (Array.isArray(p)) return parse(p.map(String));
-    } catch {
-      /* empty */
-    }
+function resolveBarResizeDates(s: BarResizeState): { start: Date; end: Date } | null {
+  const start = new Date(s.originStart);
+  const end = new Date(s.originEnd);
+  if (s.type === 'start') {
+    start.setDate(start.getDate() + s.offsetDays);
+  } else {
+    end.setDate(end.getDate() + s.offsetDays);
   }
-  return parse(raw.split(/[|,]/g));
+  return start <= end ? { start, end } : null;
 }
 
-function encodeDependencyIds(ids: string[]): string | null {
-  const c = [...new Set(ids.map((x) => x.trim()).filter(Boolean))];
-  return c.length === 0 ? null : JSON.stringify(c);
+function resolveMilestoneDragDate(s: MilestoneDragState): Date {
+  const d = new Date(s.originDate);
+  d.setDate(d.getDate() + s.offsetDays);
+  return d;
 }
 
 function clamp(v: number, min: number, max: number) {
@@ -252,6 +250,7 @@ function computeBarProps(
   colorMode: ColorMode,
   customColorField: CustomColorField,
   personColorMap: Map<string, string>,
+  taskTypes: TaskType[],
 ): BarProps | null {
   if (!project.startDate || !project.endDate) return null;
   const sOff = differenceInCalendarDays(project.startDate, rangeStart);
@@ -261,12 +260,8 @@ function computeBarProps(
 
   const lc = getLoadColor(project.dailyLoad);
   const pc = personColorMap.get(project.assignees[0] || '') || '#64748B';
-  const tc = colorFromString(project.type || 'Proyecto');
-  const cv =
-    customColorField === 'branch'
-      ? branchLabel(project.branch)
-      : project.type;
-  const cc = colorFromString(cv || 'Sin valor');
+  const tc = taskTypeColor(project.type, taskTypes) || colorFromString(project.type || defaultTaskTypeName(taskTypes));
+  const cc = customColorField === 'branch' ? colorFromString(branchLabel(project.branch) || 'Sin valor') : tc;
   const solid =
     colorMode === 'person'
       ? pc
@@ -579,6 +574,11 @@ interface GanttRowProps {
   getBarProps: (p: Project) => BarProps | null;
   dependencies: { from: Project; to: Project }[];
   dependencyNames: string[];
+  criticalProjectIds: Set<string>;
+  scheduleWarning: string | null;
+  progressMetrics: ProjectProgressMetrics | null;
+  cascadePreview: { startDate: Date; endDate: Date } | null;
+  baseline: BaselineEntry | null;
   barResize: BarResizeState | null;
   milestoneDrag: MilestoneDragState | null;
   editingProjectId: string | null;
@@ -624,6 +624,11 @@ const GanttRow = React.memo(function GanttRow({
   getBarProps: getBarPropsFn,
   dependencies: depsFor,
   dependencyNames: depNames,
+  criticalProjectIds,
+  scheduleWarning,
+  progressMetrics,
+  cascadePreview,
+  baseline,
   barResize,
   milestoneDrag,
   editingProjectId,
@@ -706,6 +711,11 @@ const GanttRow = React.memo(function GanttRow({
 
   const dragOff = milestoneDrag?.projectId === node.id ? milestoneDrag.offsetDays : 0;
   const indentStepPx = 12;
+  const isCritical = criticalProjectIds.has(node.id);
+  const cascadeBar = cascadePreview ? getBarPropsFn({ ...node, ...cascadePreview }) : null;
+  const baselineBar = baseline?.startDate && baseline.endDate
+    ? getBarPropsFn({ ...node, startDate: baseline.startDate, endDate: baseline.endDate })
+    : null;
 
   // Visual resize preview
   const resizeState = barResize?.projectId === node.id ? barResize : null;
@@ -724,7 +734,7 @@ const GanttRow = React.memo(function GanttRow({
   }
 
   return (
-    <div ref={rowRef} className="relative z-0 flex border-b border-border hover:bg-bg-secondary/20 transition-colors group group/bar">
+    <div ref={rowRef} data-project-id={node.id} className="relative z-0 flex border-b border-border hover:bg-bg-secondary/20 transition-colors group group/bar">
       {/* Sidebar */}
       <div
         className="relative px-3 py-2 border-r border-border sticky left-0 z-50 bg-white group-hover/bar:bg-bg-secondary transition-colors"
@@ -907,6 +917,19 @@ const GanttRow = React.memo(function GanttRow({
                 </span>
                 <span>·</span>
                 <span className="tabular-nums">{node.daysRequired}d</span>
+                {scheduleWarning && (
+                  <span title={scheduleWarning} className="text-amber-600 inline-flex">
+                    <AlertTriangle size={11} />
+                  </span>
+                )}
+                {progressMetrics?.behind && (
+                  <span
+                    title={`Atrasado: plan ${Math.round(progressMetrics.planned)}% · real ${Math.round(progressMetrics.actual ?? 0)}% · SPI ${formatSpi(progressMetrics.spi)}`}
+                    className="text-red-600 inline-flex"
+                  >
+                    <TrendingDown size={11} />
+                  </span>
+                )}
               </div>
             </>
           )}
@@ -915,6 +938,22 @@ const GanttRow = React.memo(function GanttRow({
 
       {/* Timeline cell */}
       <div className="relative z-0 flex-1 h-12 flex items-center overflow-hidden">
+        {/* Baseline ghost: planned dates under the live bar */}
+        {baselineBar && (
+          <div
+            className="absolute pointer-events-none"
+            style={{
+              left: baselineBar.left,
+              width: baselineBar.width,
+              top: 39,
+              height: 5,
+              borderRadius: DIMENSIONS.radius.sm,
+              border: `1px dashed ${COLORS.textTertiary}`,
+              background: COLORS.bgInset,
+              zIndex: 0,
+            }}
+          />
+        )}
         {ms ? (
           <div
             className="absolute z-[1] h-3.5 w-3.5 rotate-45 rounded-[2px] border shadow-sm cursor-pointer hover:scale-125 transition-transform"
@@ -947,7 +986,7 @@ const GanttRow = React.memo(function GanttRow({
               left: visualLeft,
               width: visualWidth,
               background: bar.style.bg,
-              border: `1px solid ${bar.style.border}`,
+              border: isCritical ? `2px solid ${COLORS.danger}` : `1px solid ${bar.style.border}`,
               boxShadow: SHADOWS.sm,
             }}
             onMouseEnter={(ev) => {
@@ -1099,6 +1138,24 @@ const GanttRow = React.memo(function GanttRow({
           </div>
         )}
 
+        {/* Pushed-dependent preview while dragging a predecessor */}
+        {cascadeBar && (
+          <div
+            className="absolute pointer-events-none"
+            style={{
+              left: cascadeBar.left,
+              width: cascadeBar.width,
+              top: 10,
+              height: 28,
+              borderRadius: DIMENSIONS.radius.sm,
+              border: `1.5px dashed ${COLORS.warning}`,
+              background: COLORS.warningSoft,
+              opacity: 0.85,
+              zIndex: 2,
+            }}
+          />
+        )}
+
         {/* Dependency arrows */}
         {depsFor.map((dep) => {
           const tb = getBarPropsFn(dep.to);
@@ -1107,6 +1164,8 @@ const GanttRow = React.memo(function GanttRow({
           const tx = tb.left;
           if (tx <= fx) return null;
           const y = 24;
+          const criticalLink = isCritical && criticalProjectIds.has(dep.to.id);
+          const arrowColor = criticalLink ? COLORS.danger : '#6889C8';
           return (
             <svg
               key={`${dep.from.id}-${dep.to.id}`}
@@ -1116,14 +1175,14 @@ const GanttRow = React.memo(function GanttRow({
               <path
                 d={`M ${fx} ${y} C ${fx + 20} ${y}, ${tx - 20} ${y}, ${tx} ${y}`}
                 fill="none"
-                stroke="#6889C8"
-                strokeWidth="1.5"
-                strokeDasharray="4 2"
+                stroke={arrowColor}
+                strokeWidth={criticalLink ? 2 : 1.5}
+                strokeDasharray={criticalLink ? undefined : '4 2'}
                 opacity="0.75"
               />
               <polygon
                 points={`${tx - 5},${y - 4} ${tx},${y} ${tx - 5},${y + 4}`}
-                fill="#6889C8"
+                fill={arrowColor}
                 opacity="0.75"
               />
             </svg>
@@ -1260,6 +1319,8 @@ function GanttTooltip({
   containerWidth,
   containerHeight,
   dependencyNames,
+  variance,
+  progress,
 }: {
   project: Project;
   x: number;
@@ -1268,6 +1329,8 @@ function GanttTooltip({
   containerWidth: number;
   containerHeight: number;
   dependencyNames: string[];
+  variance: ScheduleVariance | null;
+  progress: ProjectProgressMetrics | null;
 }) {
   const lc = getLoadColor(project.dailyLoad);
   const pct = Math.round(project.dailyLoad * 100);
@@ -1334,6 +1397,30 @@ function GanttTooltip({
             {pct}%
           </span>
         </div>
+        {progress && progress.actual !== null && (
+          <>
+            <div className="text-text-secondary">Avance plan / real</div>
+            <div className="text-text-primary tabular-nums">
+              {Math.round(progress.planned)}% / {Math.round(progress.actual)}%
+            </div>
+            <div className="text-text-secondary">SPI</div>
+            <div className={progress.behind ? 'text-[#B71C1C] font-medium' : 'text-text-primary'}>
+              {formatSpi(progress.spi)}
+            </div>
+          </>
+        )}
+        {variance && (
+          <>
+            <div className="text-text-secondary">Var. inicio</div>
+            <div className={(variance.startVariance ?? 0) > 0 ? 'text-[#B71C1C] font-medium' : 'text-text-primary'}>
+              {formatVariance(variance.startVariance)}d
+            </div>
+            <div className="text-text-secondary">Var. fin</div>
+            <div className={(variance.finishVariance ?? 0) > 0 ? 'text-[#B71C1C] font-medium' : 'text-text-primary'}>
+              {formatVariance(variance.finishVariance)}d
+            </div>
+          </>
+        )}
       </div>
       {project.blockedBy && (
         <div className="mt-2.5 pt-2 border-t border-border text-[11px]">
@@ -1366,8 +1453,19 @@ export function GanttTimeline() {
     filteredProjects,
     dateRange: globalRange,
     activeBoardId,
+    baselines,
+    activeBaselineId,
+    activeBaseline,
+    scheduleVariance,
+    createBaseline,
+    setActiveBaselineId,
+    canEditActiveBoard,
+    progressMetrics,
+    shareViewLayout,
+    takePendingViewLayout,
+    takeRevealRequest,
   } = useProject();
-  const { confirm } = useUiFeedback();
+  const { confirm, toast, promptText } = useUiFeedback();
   const { getAvatarUrl } = usePersonProfiles();
 
   // â”€â”€ State â”€â”€
@@ -1389,6 +1487,9 @@ export function GanttTimeline() {
     string | null
   >(null);
   const [showMilestonesOnly, setShowMilestonesOnly] = useState(false);
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
+  const [showBaseline, setShowBaseline] = useState(false);
+  const [pushDependents, setPushDependents] = useState(false);
   const [scrollX, setScrollX] = useState(0);
   const [zoomScale, setZoomScale] = useState(1);
   const [activePreset, setActivePreset] = useState<TimePreset | null>('ALL');
@@ -1401,6 +1502,7 @@ export function GanttTimeline() {
   const [barResize, setBarResize] = useState<BarResizeState | null>(null);
   const [milestoneDrag, setMilestoneDrag] =
     useState<MilestoneDragState | null>(null);
+  useSyncHold('drag', barResize !== null || milestoneDrag !== null, 'Arrastre en el Gantt');
 
   const {
     rowRefs: treeRowRefs,
@@ -1448,8 +1550,8 @@ export function GanttTimeline() {
   // â”€â”€ Memoized data â”€â”€
   const activeProjects = useMemo(() => {
     const f = getActiveProjects(filteredProjects);
-    return showMilestonesOnly ? f.filter(isMilestoneProject) : f;
-  }, [filteredProjects, showMilestonesOnly]);
+    return showMilestonesOnly ? f.filter((p) => isMilestoneProject(p, state.config.taskTypes)) : f;
+  }, [filteredProjects, showMilestonesOnly, state.config.taskTypes]);
 
   const allPersons = useMemo(
     () => getPersons(getActiveProjects(filteredProjects)),
@@ -1598,7 +1700,7 @@ export function GanttTimeline() {
     [activeBoardId],
   );
 
-  const currentViewSnapshot = useMemo(
+  const currentViewSnapshot = useMemo<TimelineLayout>(
     () => ({
       groupMode,
       customGroupField,
@@ -1654,7 +1756,7 @@ export function GanttTimeline() {
     const byId = new Map(activeProjects.map((p) => [p.id, p]));
     const m = new Map<string, string[]>();
     activeProjects.forEach((p) => {
-      const names = parseDependencyIds(p, activeProjects)
+      const names = parseSuccessorIds(p, activeProjects)
         .map((id) => byId.get(id)?.name || '')
         .filter(Boolean);
       m.set(p.id, names);
@@ -1666,7 +1768,7 @@ export function GanttTimeline() {
     const deps: { from: Project; to: Project }[] = [];
     const byId = new Map(activeProjects.map((p) => [p.id, p]));
     activeProjects.forEach((proj) => {
-      parseDependencyIds(proj, activeProjects).forEach((tid) => {
+      parseSuccessorIds(proj, activeProjects).forEach((tid) => {
         const t = byId.get(tid);
         if (t && t.id !== proj.id) deps.push({ from: proj, to: t });
       });
@@ -1674,6 +1776,85 @@ export function GanttTimeline() {
     return deps;
   }, [activeProjects]);
 
+  const dependencySchedule = useMemo(
+    () => computeDependencySchedule(activeProjects, state.config),
+    [activeProjects, state.config],
+  );
+
+  const criticalProjectIds = useMemo(() => {
+    if (!showCriticalPath) return new Set<string>();
+    return new Set(dependencySchedule.criticalPath);
+  }, [showCriticalPath, dependencySchedule]);
+
+  const scheduleWarningsByProject = useMemo(() => {
+    const byId = new Map(activeProjects.map((p) => [p.id, p]));
+    const m = new Map<string, string>();
+    dependencySchedule.violationsBySuccessor.forEach((list, successorId) => {
+      const names = list
+        .map((v) => byId.get(v.predecessorId)?.name)
+        .filter(Boolean)
+        .join(', ');
+      m.set(successorId, `Inicia antes de que termine: ${names}`);
+    });
+    dependencySchedule.cycles.forEach((cycle) => {
+      cycle.forEach((id) => {
+        if (!m.has(id)) m.set(id, 'Dependencia circular');
+      });
+    });
+    return m;
+  }, [activeProjects, dependencySchedule]);
+
+  const pendingDragDates = useMemo(() => {
+    if (barResize && barResize.offsetDays !== 0) {
+      const resolved = resolveBarResizeDates(barResize);
+      return resolved ? { projectId: barResize.projectId, ...resolved } : null;
+    }
+    if (milestoneDrag && milestoneDrag.offsetDays !== 0) {
+      const d = resolveMilestoneDragDate(milestoneDrag);
+      return { projectId: milestoneDrag.projectId, start: d, end: d };
+    }
+    return null;
+  }, [barResize, milestoneDrag]);
+
+  const cascadePreview = useMemo(() => {
+    if (!pushDependents || !pendingDragDates) return null;
+    return propagateScheduleShift(
+      state.projects,
+      pendingDragDates.projectId,
+      pendingDragDates.start,
+      pendingDragDates.end,
+      state.config,
+    );
+  }, [pushDependents, pendingDragDates, state.projects, state.config]);
+
+  // Commit a dragged date change, cascading to dependents as one undoable step
+  const commitDragDates = useCallback(
+    (projectId: string, start: Date, end: Date) => {
+      if (!pushDependents) {
+        dispatch({
+          type: 'UPDATE_PROJECT',
+          payload: { id: projectId, updates: { startDate: start, endDate: end } },
+        });
+        return;
+      }
+      const cascade = propagateScheduleShift(state.projects, projectId, start, end, state.config);
+      dispatch({
+        type: 'BULK_UPDATE_PROJECTS',
+        payload: {
+          ...cascade.updates,
+          [projectId]: { startDate: start, endDate: end },
+        },
+      });
+      if (cascade.shifts.length > 0) {
+        toast(
+          'info',
+          `${cascade.shifts.length} dependiente${cascade.shifts.length !== 1 ? 's' : ''} desplazado${cascade.shifts.length !== 1 ? 's' : ''}`,
+        );
+      }
+    },
+    [pushDependents, state.projects, state.config, dispatch, toast],
+  );
+
   const getBarPropsForProject = useCallback(
     (project: Project): BarProps | null => {
       if (!range) return null;
@@ -1685,9 +1866,10 @@ export function GanttTimeline() {
         colorMode,
         customColorField,
         personColorMap,
+        state.config.taskTypes,
       );
     },
-    [range, totalDays, dayWidth, colorMode, customColorField, personColorMap],
+    [range, totalDays, dayWidth, colorMode, customColorField, personColorMap, state.config.taskTypes],
   );
 
   // â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•
@@ -1724,6 +1906,7 @@ export function GanttTimeline() {
       const maxScroll = Math.max(0, totalDays * newDW - viewW);
       const sx = clamp(newScrollX, 0, maxScroll);
 
+      acquireSyncHold('zoom', { key: 'gantt', reason: 'Zoom del Gantt' });
       setActivePreset(null);
       setZoomScale(z);
       setScrollX(sx);
@@ -1749,6 +1932,7 @@ export function GanttTimeline() {
 
   const applyPreset = useCallback(
     (preset: TimePreset) => {
+      acquireSyncHold('zoom', { key: 'gantt', reason: 'Zoom del Gantt' });
       setActivePreset(preset);
       const viewW = getTimelineViewWidth();
       if (viewW <= 0 || !range || totalDays <= 0) return;
@@ -1846,20 +2030,31 @@ export function GanttTimeline() {
   }, []);
 
   const saveDeps = useCallback(
-    (pid: string, ids: string[]) =>
+    (pid: string, ids: string[]) => {
+      // Validate against the graph without this project's current successors
+      const graph = buildDependencyGraph(
+        state.projects.map((p) => (p.id === pid ? { ...p, blocksTo: null } : p)),
+      );
+      const rejected = ids.filter((id) => wouldCreateDependencyCycle(pid, id, graph));
+      if (rejected.length > 0) {
+        toast('error', 'Se omitieron dependencias que crearían un ciclo.');
+      }
       dispatch({
         type: 'UPDATE_PROJECT',
         payload: {
           id: pid,
-          updates: { blocksTo: encodeDependencyIds(ids) },
+          updates: {
+            blocksTo: encodeDependencyIds(ids.filter((id) => !rejected.includes(id))),
+          },
         },
-      }),
-    [dispatch],
+      });
+    },
+    [dispatch, state.projects, toast],
   );
 
   const toggleMilestone = useCallback(
     async (project: Project) => {
-      if (!isMilestoneProject(project)) {
+      if (!isMilestoneProject(project, state.config.taskTypes)) {
         const ok = await confirm({
           title: 'Convertir en hito',
           message: 'Ajustara fecha fin = inicio y duracion = 0. ¿Continuar?',
@@ -1874,6 +2069,14 @@ export function GanttTimeline() {
             updates: { startDate: d, endDate: d, daysRequired: 0 },
           },
         });
+      } else if (isMilestoneType(project.type, state.config.taskTypes)) {
+        // Its type keeps it a milestone, so it moves to the first regular type
+        const regular = state.config.taskTypes.find((t) => !t.isMilestone);
+        if (!regular) return;
+        dispatch({
+          type: 'UPDATE_PROJECT',
+          payload: { id: project.id, updates: { type: regular.name } },
+        });
       } else {
         dispatch({
           type: 'UPDATE_PROJECT',
@@ -1881,9 +2084,23 @@ export function GanttTimeline() {
         });
       }
     },
-    [dispatch, confirm],
+    [dispatch, confirm, state.config.taskTypes],
   );
 
+  const handleSaveBaseline = useCallback(async () => {
+    if (!canEditActiveBoard) return;
+    const name = await promptText({
+      title: 'Guardar línea base',
+      label: 'Nombre de la línea base',
+      initialValue: format(new Date(), 'dd/MM/yyyy'),
+      confirmText: 'Guardar',
+    });
+    if (!name?.trim()) return;
+    createBaseline(name);
+    setShowBaseline(true);
+    toast('success', `Línea base "${name.trim()}" guardada.`);
+  }, [canEditActiveBoard, promptText, createBaseline, toast]);
+
   const handleCreateProjectFrom = useCallback((source: Project) => {
     const anchor = source.startDate || source.endDate || new Date();
     const start = new Date(anchor);
@@ -1897,7 +2114,7 @@ export function GanttTimeline() {
       assignees: source.assignees || [],
       daysRequired: Math.max(1, Number(source.daysRequired || 1)),
       priority: source.priority || 1,
-      type: source.type || 'Proyecto',
+      type: source.type || defaultTaskTypeName(state.config.taskTypes),
       blockedBy: null,
       blocksTo: null,
       reportedLoad: null,
@@ -1989,7 +2206,7 @@ export function GanttTimeline() {
     moveProjectByStep(projectId, 1);
   }, [moveProjectByStep]);
 
-  const applyTimelineView = useCallback((view: TimelineViewPreset) => {
+  const applyTimelineView = useCallback((view: TimelineLayout) => {
     setGroupMode(view.groupMode);
     setCustomGroupField(view.customGroupField);
     setOrderMode(view.orderMode);
@@ -2288,15 +2505,8 @@ export function GanttTimeline() {
     const onUp = () => {
       const s = milestoneDragRef.current;
       if (s && s.offsetDays !== 0) {
-        const d = new Date(s.originDate);
-        d.setDate(d.getDate() + s.offsetDays);
-        dispatch({
-          type: 'UPDATE_PROJECT',
-          payload: {
-            id: s.projectId,
-            updates: { startDate: d, endDate: d },
-          },
-        });
+        const d = resolveMilestoneDragDate(s);
+        commitDragDates(s.projectId, d, d);
       }
       setMilestoneDrag(null);
     };
@@ -2306,7 +2516,7 @@ export function GanttTimeline() {
       window.removeEventListener('mousemove', onMove);
       window.removeEventListener('mouseup', onUp);
     };
-  }, [milestoneDrag, dayWidth, dispatch]);
+  }, [milestoneDrag, dayWidth, commitDragDates]);
 
   // Bar resize
   useEffect(() => {
@@ -2318,22 +2528,8 @@ export function GanttTimeline() {
     const onUp = () => {
       const s = barResizeRef.current;
       if (s && s.offsetDays !== 0) {
-        const start = new Date(s.originStart);
-        const end = new Date(s.originEnd);
-        if (s.type === 'start') {
-          start.setDate(start.getDate() + s.offsetDays);
-        } else {
-          end.setDate(end.getDate() + s.offsetDays);
-        }
-        if (start <= end) {
-          dispatch({
-            type: 'UPDATE_PROJECT',
-            payload: {
-              id: s.projectId,
-              updates: { startDate: start, endDate: end },
-            },
-          });
-        }
+        const resolved = resolveBarResizeDates(s);
+        if (resolved) commitDragDates(s.projectId, resolved.start, resolved.end);
       }
       setBarResize(null);
     };
@@ -2343,7 +2539,7 @@ export function GanttTimeline() {
       window.removeEventListener('mousemove', onMove);
       window.removeEventListener('mouseup', onUp);
     };
-  }, [barResize, dayWidth, dispatch]);
+  }, [barResize, dayWidth, commitDragDates]);
 
   // Sidebar resize
   useEffect(() => {
@@ -2419,6 +2615,61 @@ export function GanttTimeline() {
     }
   }, [timelineViewsStorageKey, timelineViews, activeTimelineViewId]);
 
+  // Board-level saved views carry the timeline layout; they take over from the local preset
+  useEffect(() => {
+    const layout = takePendingViewLayout('timeline');
+    if (!layout) return;
+    applyTimelineView(layout);
+    setActiveTimelineViewId('__current__');
+  }, [takePendingViewLayout, applyTimelineView]);
+
+  useEffect(() => {
+    shareViewLayout('timeline', currentViewSnapshot);
+  }, [shareViewLayout, currentViewSnapshot]);
+
+  // Jumps from search open the task's group and lift the milestones-only filter if it hides
+  // the task, then scroll to its bar and tint the row once it has rendered
+  const [pendingRevealId, setPendingRevealId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const taskId = takeRevealRequest();
+    if (!taskId) return;
+    const task = state.projects.find((p) => p.id === taskId);
+    if (task && !isMilestoneProject(task, state.config.taskTypes)) setShowMilestonesOnly(false);
+    setPendingRevealId(taskId);
+  }, [takeRevealRequest, state.projects, state.config.taskTypes]);
+
+  useEffect(() => {
+    if (!pendingRevealId) return;
+    const group = groupedTimeline.find((g) => g.projects.some((p) => p.id === pendingRevealId));
+    if (group && collapsedGroups.has(group.id)) {
+      setCollapsedGroups((prev) => {
+        const next = new Set(prev);
+        next.delete(group.id);
+        return next;
+      });
+      return;
+    }
+    const container = scrollContainerRef.current;
+    const row = container?.querySelector<HTMLElement>(`[data-project-id="${CSS.escape(pendingRevealId)}"]`);
+    if (!container || !row) return;
+    setPendingRevealId(null);
+    const task = activeProjects.find((p) => p.id === pendingRevealId);
+    if (task?.startDate && task.endDate && range) {
+      const startDay = differenceInCalendarDays(task.startDate, range.start);
+      const endDay = differenceInCalendarDays(task.endDate, range.start) + 1;
+      panToDay((startDay + endDay) / 2);
+    }
+    // Vertical only; the horizontal position belongs to the timeline's own scroll state
+    const rowRect = row.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    container.scrollTo({
+      top: container.scrollTop + rowRect.top - containerRect.top - (container.clientHeight - rowRect.height) / 2,
+      behavior: 'smooth',
+    });
+    revealElement(row, { scroll: false });
+  }, [pendingRevealId, groupedTimeline, collapsedGroups, activeProjects, range, panToDay]);
+
   // â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•
   //  EARLY RETURN
   // â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•â•
@@ -2505,13 +2756,25 @@ export function GanttTimeline() {
           getBarProps={getBarPropsForProject}
           dependencies={depsFor}
           dependencyNames={depNames}
+          criticalProjectIds={criticalProjectIds}
+          scheduleWarning={scheduleWarningsByProject.get(n.id) || null}
+          progressMetrics={progressMetrics.get(n.id) || null}
+          cascadePreview={
+            cascadePreview?.updates[n.id]
+              ? {
+                  startDate: cascadePreview.updates[n.id].startDate as Date,
+                  endDate: cascadePreview.updates[n.id].endDate as Date,
+                }
+              : null
+          }
+          baseline={showBaseline ? activeBaseline?.get(n.id) || null : null}
           barResize={barResize}
           milestoneDrag={milestoneDrag}
           editingProjectId={editingProjectId}
           editingProjectName={editingProjectName}
           isExpanded={exp}
           hasChildren={hasKids}
-          isMilestone={isMilestoneProject(n)}
+          isMilestone={isMilestoneProject(n, state.config.taskTypes)}
           onBarHover={handleBarHover}
           onBarLeave={handleBarLeave}
           onStartEditName={startEditName}
@@ -2785,6 +3048,121 @@ export function GanttTimeline() {
               <option value="type">Tipo</option>
             </select>
           )}
+          <button
+            type="button"
+            onClick={() => setShowCriticalPath((prev) => !prev)}
+            aria-pressed={showCriticalPath}
+            style={{
+              height: DIMENSIONS.inputHeight,
+              borderRadius: DIMENSIONS.radius.sm,
+              border: `1px solid ${showCriticalPath ? COLORS.danger : COLORS.border}`,
+              padding: '0 8px',
+              fontSize: '11px',
+              background: showCriticalPath ? COLORS.dangerSoft : COLORS.bg,
+              color: showCriticalPath ? COLORS.danger : COLORS.textSecondary,
+              fontFamily: TYPOGRAPHY.fontFamily,
+              cursor: 'pointer',
+              transition: `all ${TRANSITIONS.hover}`,
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: '4px',
+            }}
+            title={
+              dependencySchedule.cycles.length > 0
+                ? `Ruta critica (${dependencySchedule.cycles.length} ciclo(s) de dependencias ignorados)`
+                : 'Resaltar ruta critica'
+            }
+          >
+            <Route size={12} />
+            Ruta critica
+            {dependencySchedule.violations.length > 0 && (
+              <span style={{ color: COLORS.warning, fontWeight: 600 }}>
+                · {dependencySchedule.violations.length}
+              </span>
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={() => setPushDependents((prev) => !prev)}
+            aria-pressed={pushDependents}
+            style={{
+              height: DIMENSIONS.inputHeight,
+              borderRadius: DIMENSIONS.radius.sm,
+              border: `1px solid ${pushDependents ? COLORS.warning : COLORS.border}`,
+              padding: '0 8px',
+              fontSize: '11px',
+              background: pushDependents ? COLORS.warningSoft : COLORS.bg,
+              color: pushDependents ? COLORS.warning : COLORS.textSecondary,
+              fontFamily: TYPOGRAPHY.fontFamily,
+              cursor: 'pointer',
+              transition: `all ${TRANSITIONS.hover}`,
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: '4px',
+            }}
+            title="Al mover o redimensionar una barra, desplazar sus dependientes en dias habiles"
+          >
+            <ArrowRightToLine size={12} />
+            Empujar dependientes
+            {cascadePreview && cascadePreview.shifts.length > 0 && (
+              <span style={{ fontWeight: 600 }}>· {cascadePreview.shifts.length}</span>
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              if (baselines.length === 0) void handleSaveBaseline();
+              else setShowBaseline((prev) => !prev);
+            }}
+            aria-pressed={showBaseline}
+            style={{
+              height: DIMENSIONS.inputHeight,
+              borderRadius: DIMENSIONS.radius.sm,
+              border: `1px solid ${showBaseline ? COLORS.accentBorder : COLORS.border}`,
+              padding: '0 8px',
+              fontSize: '11px',
+              background: showBaseline ? COLORS.accentSoft : COLORS.bg,
+              color: showBaseline ? COLORS.accentText : COLORS.textSecondary,
+              fontFamily: TYPOGRAPHY.fontFamily,
+              cursor: 'pointer',
+              transition: `all ${TRANSITIONS.hover}`,
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: '4px',
+            }}
+            title={baselines.length === 0 ? 'Guardar la planificación actual como línea base' : 'Mostrar la línea base bajo cada barra'}
+          >
+            <Flag size={12} />
+            Línea base
+          </button>
+          {showBaseline && baselines.length > 0 && (
+            <select
+              value={activeBaselineId || ''}
+              onChange={(e) => {
+                if (e.target.value === '__new__') void handleSaveBaseline();
+                else setActiveBaselineId(e.target.value === baselines[0]?.id ? null : e.target.value);
+              }}
+              style={{
+                height: DIMENSIONS.inputHeight,
+                borderRadius: DIMENSIONS.radius.sm,
+                border: `1px solid ${COLORS.border}`,
+                padding: '0 6px',
+                fontSize: '11px',
+                background: COLORS.bg,
+                color: COLORS.text,
+                fontFamily: TYPOGRAPHY.fontFamily,
+                maxWidth: '180px',
+              }}
+              title="Línea base activa"
+            >
+              {baselines.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name}
+                </option>
+              ))}
+              {canEditActiveBoard && <option value="__new__">+ Guardar nueva...</option>}
+            </select>
+          )}
           {(activeToolbarChips.length > 0 || showMilestonesOnly) && (
           <div style={{
             marginLeft: 'auto',
@@ -3121,6 +3499,8 @@ export function GanttTimeline() {
               dependencyNames={
                 dependencyNamesByProject.get(tooltip.project.id) || []
               }
+              variance={showBaseline ? scheduleVariance.get(tooltip.project.id) || null : null}
+              progress={progressMetrics.get(tooltip.project.id) || null}
             />
           )}
         </div>
@@ -3333,7 +3713,7 @@ export function GanttTimeline() {
             const s = activeProjects.find(
               (p) => p.id === dependencyEditorProjectId,
             );
-            return s ? parseDependencyIds(s, activeProjects) : [];
+            return s ? parseSuccessorIds(s, activeProjects) : [];
           })()}
           onClose={() => setDependencyEditorProjectId(null)}
           onSave={(ids) => {
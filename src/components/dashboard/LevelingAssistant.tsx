@@ -0,0 +1,191 @@
+import { useMemo, useState } from 'react';
+import { useProject } from '@/context/ProjectContext';
+import { useUiFeedback } from '@/context/UiFeedbackContext';
+import { X, ArrowRight, Scale } from 'lucide-react';
+import type { Project } from '@/lib/types';
+import { getPersons } from '@/lib/workloadEngine';
+import { formatDateShort } from '@/lib/dateUtils';
+import { proposeWorkloadLeveling } from '@/lib/workloadLeveling';
+
+interface LevelingAssistantProps {
+  initialPerson?: string | null;
+  onClose: () => void;
+}
+
+const THRESHOLD_OPTIONS = [1, 0.9, 0.8, 0.7];
+const ALL_PERSONS = '__all__';
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+export function LevelingAssistant({ initialPerson = null, onClose }: LevelingAssistantProps) {
+  const { state, dispatch, filteredProjects, personAvailability, canEditActiveBoard } = useProject();
+  const { toast } = useUiFeedback();
+  const persons = useMemo(() => getPersons(filteredProjects), [filteredProjects]);
+  const [person, setPerson] = useState<string>(initialPerson && persons.includes(initialPerson) ? initialPerson : ALL_PERSONS);
+  const [threshold, setThreshold] = useState(1);
+  // Proposals build on each other, so the selection is always the first N of them (null: all)
+  const [acceptedCount, setAcceptedCount] = useState<number | null>(null);
+
+  // Hidden tasks still load their people; only visible ones are offered for moving
+  const visibleIds = useMemo(() => new Set(filteredProjects.map((p) => p.id)), [filteredProjects]);
+  const result = useMemo(
+    () => proposeWorkloadLeveling(state.projects, state.config, {
+      threshold,
+      person: person === ALL_PERSONS ? null : person,
+      availability: personAvailability,
+      movableIds: visibleIds,
+    }),
+    [state.projects, state.config, threshold, person, personAvailability, visibleIds]
+  );
+
+  const accepted = Math.min(acceptedCount ?? result.proposals.length, result.proposals.length);
+  const selected = result.proposals.slice(0, accepted);
+  const peakAfter = accepted > 0 ? result.peakAfterEach[accepted - 1] : result.peakBefore;
+
+  // Unchecking a proposal drops the ones after it; checking one takes the ones before it too
+  const toggleProposal = (index: number) => {
+    setAcceptedCount(index < accepted ? index : index + 1);
+  };
+
+  const applyProposals = (proposals: typeof result.proposals) => {
+    if (proposals.length === 0) return;
+    const updates: Record<string, Partial<Project>> = {};
+    proposals.forEach((p) => {
+      updates[p.projectId] = { startDate: p.toStart, endDate: p.toEnd };
+    });
+    dispatch({ type: 'BULK_UPDATE_PROJECTS', payload: updates });
+    toast('success', `${proposals.length} ${proposals.length === 1 ? 'proyecto ajustado' : 'proyectos ajustados'}`);
+    onClose();
+  };
+
+  const peakPersons = Object.keys(result.peakBefore)
+    .filter((p) => result.peakBefore[p] > threshold || result.peakAfter[p] !== result.peakBefore[p])
+    .sort((a, b) => result.peakBefore[b] - result.peakBefore[a]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-border">
+          <h3 className="text-base font-semibold text-text-primary flex items-center gap-2">
+            <Scale size={16} />
+            Nivelar carga
+          </h3>
+          <button onClick={onClose} className="p-1 rounded hover:bg-bg-secondary transition-colors">
+            <X size={18} className="text-text-secondary" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 px-5 py-3 border-b border-border text-xs">
+          <label className="flex items-center gap-1.5 text-text-secondary">
+            Persona
+            <select
+              value={person}
+              onChange={(e) => { setPerson(e.target.value); setAcceptedCount(null); }}
+              className="px-2 py-1 rounded-md border border-border bg-white text-text-primary"
+            >
+              <option value={ALL_PERSONS}>Todo el tablero</option>
+              {persons.map((p) => (
+                <option key={p} value={p}>{p}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1.5 text-text-secondary">
+            Umbral
+            <select
+              value={threshold}
+              onChange={(e) => { setThreshold(Number(e.target.value)); setAcceptedCount(null); }}
+              className="px-2 py-1 rounded-md border border-border bg-white text-text-primary"
+            >
+              {THRESHOLD_OPTIONS.map((t) => (
+                <option key={t} value={t}>{pct(t)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {peakPersons.length > 0 && (
+            <div>
+              <div className="text-[11px] font-semibold uppercase tracking-wide text-text-secondary mb-1.5">Pico de carga</div>
+              <div className="grid grid-cols-2 gap-1.5">
+                {peakPersons.map((p) => (
+                  <div key={p} className="flex items-center justify-between px-2.5 py-1.5 rounded-md bg-bg-secondary text-xs">
+                    <span className="text-text-primary truncate">{p}</span>
+                    <span className="flex items-center gap-1 tabular-nums">
+                      <span className={result.peakBefore[p] > threshold ? 'text-red-600 font-medium' : 'text-text-secondary'}>{pct(result.peakBefore[p])}</span>
+                      <ArrowRight size={12} className="text-text-secondary" />
+                      <span className={(peakAfter[p] ?? 0) > threshold ? 'text-red-600 font-medium' : 'text-green-700 font-medium'}>{pct(peakAfter[p] ?? 0)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result.proposals.length === 0 ? (
+            <div className="text-center py-6 text-xs text-text-secondary">
+              {result.overloadBefore > 0
+                ? 'No se encontraron cambios que reduzcan la sobrecarga dentro de la holgura disponible.'
+                : 'No hay sobrecarga por encima del umbral.'}
+            </div>
+          ) : (
+            <div>
+              <div className="text-[11px] font-semibold uppercase tracking-wide text-text-secondary mb-1.5">Propuestas</div>
+              <div className="text-[11px] text-text-secondary mb-1.5">
+                Cada propuesta se calcula sobre las anteriores: al desmarcar una se desmarcan también las siguientes.
+              </div>
+              <div className="space-y-1.5">
+                {result.proposals.map((p, index) => (
+                  <label key={p.projectId} className="flex items-start gap-2.5 px-2.5 py-2 rounded-md border border-border hover:bg-bg-secondary cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={index < accepted}
+                      onChange={() => toggleProposal(index)}
+                      className="mt-0.5"
+                    />
+                    <div className="flex-1 min-w-0 text-xs">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-text-primary truncate">{p.projectName}</span>
+                        <span className="text-text-secondary flex-shrink-0">
+                          {p.kind === 'move' ? 'Mover' : 'Extender'} {p.shiftDays} {p.shiftDays === 1 ? 'día hábil' : 'días hábiles'}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-1.5 text-text-secondary mt-0.5">
+                        <span className="line-through">{formatDateShort(p.fromStart)} – {formatDateShort(p.fromEnd)}</span>
+                        <ArrowRight size={11} />
+                        <span className="text-text-primary">{formatDateShort(p.toStart)} – {formatDateShort(p.toEnd)}</span>
+                      </div>
+                      <div className="text-[11px] text-text-secondary mt-0.5">
+                        Prioridad {p.priority} · {p.assignees.join(', ')}
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-5 py-4 border-t border-border">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-text-secondary hover:text-text-primary transition-colors">
+            Cancelar
+          </button>
+          <button
+            onClick={() => applyProposals(selected)}
+            disabled={!canEditActiveBoard || selected.length === 0 || selected.length === result.proposals.length}
+            className="px-4 py-2 text-sm font-medium border border-border rounded-md hover:bg-bg-secondary transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Aplicar seleccionadas ({selected.length})
+          </button>
+          <button
+            onClick={() => applyProposals(result.proposals)}
+            disabled={!canEditActiveBoard || result.proposals.length === 0}
+            className="px-4 py-2 text-sm font-medium bg-text-primary text-white rounded-md hover:bg-[#2c2a25] transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Aplicar todas
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
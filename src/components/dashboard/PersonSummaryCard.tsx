@@ -292,6 +292,12 @@ export function PersonSummaryCards() {
                   <p className="text-[11px] text-text-secondary mt-0.5">
                     Avance prom.: {avgProgress === null ? '—' : `${avgProgress}%`}
                   </p>
+                  {(summary.avgCapacity < 1 || summary.absentDays > 0) && (
+                    <p className="text-[11px] text-text-secondary mt-0.5">
+                      Capacidad: {Math.round(summary.avgCapacity * 100)}%
+                      {summary.absentDays > 0 && ` · ${summary.absentDays} día${summary.absentDays !== 1 ? 's' : ''} ausente`}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -2,6 +2,7 @@ import { Fragment, useMemo, useState, useCallback, useRef, useEffect } from 'rea
 import { useProject } from '@/context/ProjectContext';
 import { useAuth } from '@/context/AuthContext';
 import { useUiFeedback } from '@/context/UiFeedbackContext';
+import { useRegisterCommands } from '@/context/CommandsContext';
 import { usePersonProfiles } from '@/context/PersonProfilesContext';
 import { LoadBubble } from '@/components/shared/LoadBubble';
 import { formatDateShort, format, isValidDateValue } from '@/lib/dateUtils';
@@ -13,17 +14,26 @@ import {
 } from 'lucide-react';
 import type { Project } from '@/lib/types';
 import type { DynamicColumn, DynamicCellValue } from '@/lib/types';
+import type { CommandDefinition } from '@/lib/commands';
 import {
   listBoardColumns,
   listTaskColumnValues,
   createBoardColumn,
   updateBoardColumn,
   deleteBoardColumn,
-  upsertTaskColumnValue,
   deleteTaskColumnValue,
 } from '@/lib/dynamicColumnsRepository';
 import { supabase } from '@/lib/supabaseClient';
-import { addTaskComment, deleteTaskComment, listTaskComments, type TaskComment } from '@/lib/taskCommentsRepository';
+import { listTaskComments, type TaskComment } from '@/lib/taskCommentsRepository';
+import { computeTimeRollup, groupEntriesByTask } from '@/lib/timeTracking';
+import { evaluateFormulaColumns, formatFormulaValue, type FormulaAggregate } from '@/lib/formulaEngine';
+import { rollupDynamicValues } from '@/lib/rollupRules';
+import { countsTowardLoad } from '@/lib/taskTypes';
+import { extractMentions } from '@/lib/commentThreads';
+import { activityFromColumnValue, activityFromComment } from '@/lib/activityLog';
+import { runOrQueue, type OutboxMutation } from '@/lib/mutationOutbox';
+import { useSyncHold } from '@/lib/useSyncScheduler';
+import { saveColumnsCache, loadColumnsCache, saveCommentsCache, loadCommentsCache } from '@/lib/offlineStore';
 import { loadPersonProfiles, savePersonProfiles } from '@/lib/personProfiles';
 import {
   DndContext,
@@ -54,13 +64,24 @@ import { SortableRow } from '@/modules/table/components/SortableRow';
 import { TableTreeOverlay } from '@/modules/table/components/TableTreeOverlay';
 import { DynamicColumnsDialog } from '@/modules/table/components/DynamicColumnsDialog';
 import { CommentsPanel } from '@/modules/table/components/CommentsPanel';
+import { CellEditor } from '@/modules/table/components/CellEditor';
+import { TimeEntriesPanel } from '@/modules/table/components/TimeEntriesPanel';
+import { FormulaEditorDialog } from '@/modules/table/components/FormulaEditor';
 
 // Import modular hooks
 import { useProjectTableState } from '@/modules/table/hooks/useProjectTableState';
 import { useProjectTableActions } from '@/modules/table/hooks/useProjectTableActions';
 import { useProjectTableHandlers } from '@/modules/table/hooks/useProjectTableHandlers';
-
-type SortKey = keyof Project;
+import { useTimeEntries, type TimeEntryDraft } from '@/modules/table/hooks/useTimeEntries';
+import { useCommentActivity } from '@/modules/table/hooks/useCommentActivity';
+import { useCellGrid, findCellElement, type CellOptions } from '@/modules/table/hooks/useCellGrid';
+import { cellEditKind, cellWrite, formatCellText, readCell, type CellWrite, type GridColumn } from '@/modules/table/utils/cellGrid';
+import type { GridPaste } from '@/modules/table/utils/clipboardGrid';
+import { revealElement } from '@/utils/revealElement';
+
+// Variance keys sort by the baseline comparison, which is not stored on the project
+type VarianceSortKey = 'startVariance' | 'finishVariance';
+type SortKey = keyof Project | VarianceSortKey | 'loggedHours';
 type SortDir = 'asc' | 'desc';
 type ColumnKey =
   | 'drag'
@@ -73,7 +94,11 @@ type ColumnKey =
   | 'priority'
   | 'type'
   | 'load'
-  | 'status';
+  | 'status'
+  | 'startVar'
+  | 'finishVar'
+  | 'hoursEst'
+  | 'hoursLogged';
 
 type ColumnToken = `essential:${EssentialColumnId}` | `dynamic:${string}`;
 
@@ -87,7 +112,11 @@ type EssentialColumnId =
   | 'priority'
   | 'type'
   | 'load'
-  | 'status';
+  | 'status'
+  | 'startVar'
+  | 'finishVar'
+  | 'hoursEst'
+  | 'hoursLogged';
 
 type RenderColumn =
   | {
@@ -118,6 +147,7 @@ const dynamicDisplayLabelEs: Record<DynamicDisplayType, string> = {
   checkbox: 'Casilla',
   progress: 'Progreso',
   stars: 'Estrellas',
+  formula: 'Fórmula',
 };
 
 const dedupeTokens = <T extends string>(tokens: T[]): T[] => {
@@ -131,6 +161,10 @@ const dedupeTokens = <T extends string>(tokens: T[]): T[] => {
   return out;
 };
 
+// The project column identifies rows and is always shown
+const isHideableColumnToken = (token: string): token is ColumnToken =>
+  (token.startsWith('essential:') || token.startsWith('dynamic:')) && token !== 'essential:project';
+
 const GROUP_CONVERSION_WARNING_MESSAGE = 'Al convertir este elemento en Grupo se perderán sus datos para pasar a ser resumen su interior. ¿Continuar?';
 const INDENT_SIZE_PX = 24;
 const MAX_DND_DEPTH = 8;
@@ -177,6 +211,9 @@ const normalizeDynamicValue = (column: DynamicColumn, raw: DynamicCellValue): Dy
     }
     case 'checkbox':
       return Boolean(raw);
+    // Computed on the client from the formula, never stored
+    case 'formula':
+      return null;
     case 'text':
     default:
       if (raw === null) return '';
@@ -196,7 +233,7 @@ const isValueMismatched = (raw: DynamicCellValue, normalized: DynamicCellValue):
 
 export function ProjectTable() {
   // Core hooks - siempre al nivel superior
-  const { state, dispatch, orderedFilteredProjects, allPersons, allBranches, activeBoardId, remoteEditingByRow, remoteEditingByColumn, announceEditingPresence } = useProject();
+  const { state, dispatch, orderedFilteredProjects, allPersons, allBranches, activeBoardId, remoteEditingByRow, remoteEditingByColumn, announceEditingPresence, activeBaseline, scheduleVariance, progressMetrics, portfolioProgress, shareDynamicColumnValues, notifyCommentMentions, recordActivity, loadTaskActivity, shareViewLayout, takePendingViewLayout, takeRevealRequest, canEditActiveBoard } = useProject();
   
   // Defensa contra state undefined
   if (!state) {
@@ -211,12 +248,20 @@ export function ProjectTable() {
   const { confirm, toast } = useUiFeedback();
   const { getAvatarUrl, setAvatar } = usePersonProfiles();
   const tableRootRef = useRef<HTMLDivElement | null>(null);
+  const timeEntries = useTimeEntries(activeBoardId, user?.id ?? null);
+  const [timeEntriesTaskId, setTimeEntriesTaskId] = useState<string | null>(null);
+  const [formulaEditorColumnId, setFormulaEditorColumnId] = useState<string | null>(null);
+  const timeRollup = useMemo(() => computeTimeRollup(state.projects, timeEntries.entries), [state.projects, timeEntries.entries]);
+  const timeEntriesByTask = useMemo(() => groupEntriesByTask(timeEntries.entries), [timeEntries.entries]);
+  const hasTimeEntries = timeEntries.entries.length > 0;
+  const commentActivity = useCommentActivity(activeBoardId, user?.id ?? null);
   
   // Modular hooks - usando la estructura existente
   const tableState = useProjectTableState();
   const tableActions = useProjectTableActions({
     state,
     dispatch,
+    scheduleVariance: activeBaseline ? scheduleVariance : null,
     setBranchCatalog: tableState.setBranchCatalog,
     setPersonCatalog: tableState.setPersonCatalog,
     setPersonProfiles: tableState.setPersonProfiles,
@@ -296,6 +341,7 @@ export function ProjectTable() {
     maxColumnWidths,
     layoutSeedOrder, setLayoutSeedOrder,
     columnOrder, setColumnOrder,
+    hiddenColumns, setHiddenColumns,
     groupHintAtRef,
     bulkMenuRef,
     contentScrollRef,
@@ -308,9 +354,38 @@ export function ProjectTable() {
     dynamicAppliedSeqRef,
   } = tableState;
 
+  // Number columns with a rollup rule show the summary of their tasks on group rows
+  const rolledDynamicValues = useMemo(
+    () => rollupDynamicValues(state.projects, dynamicColumns, dynamicValues, state.config.rollup),
+    [state.projects, dynamicColumns, dynamicValues, state.config.rollup]
+  );
+
+  // Built-in columns a group row keeps its own value in when its rollup rule is 'own'
+  const groupEditableColumns = useMemo(() => {
+    const rules = state.config.rollup;
+    const ids = new Set<string>();
+    if (rules.dates === 'own') { ids.add('start'); ids.add('end'); }
+    if (rules.assignees === 'own') ids.add('assignees');
+    if (rules.daysRequired === 'own') ids.add('days');
+    if (rules.priority === 'own') ids.add('priority');
+    return ids;
+  }, [state.config.rollup]);
+
+  // Tasks of types that add no load (like 'En radar') sit behind the radar toggle
+  const taskTypes = state.config.taskTypes;
+  const radarTypeNames = useMemo(() => taskTypes.filter((t) => !t.countsTowardLoad).map((t) => t.name), [taskTypes]);
+
+  // Formula columns are evaluated here, group rows from their children
+  const formulaResults = useMemo(
+    () => evaluateFormulaColumns(state.projects, dynamicColumns, rolledDynamicValues, state.config),
+    [state.projects, dynamicColumns, rolledDynamicValues, state.config]
+  );
+
   // Estado para edición de nombre de proyecto
   const [editingName, setEditingName] = useState<string | null>(null);
   const [editNameValue, setEditNameValue] = useState('');
+  useSyncHold('inline-edit', editingName !== null, 'Edición de nombre');
+  useSyncHold('drag', dragPreview.activeId !== null, 'Reordenar filas');
   const [treeOverlayVersion, setTreeOverlayVersion] = useState(0);
   const treeOverlayHostRef = useRef<HTMLDivElement | null>(null);
 
@@ -351,19 +426,34 @@ export function ProjectTable() {
       dynamicAppliedSeqRef.current = requestSeq;
       setDynamicColumns(cols);
       setDynamicValues(vals);
+      void saveColumnsCache(activeBoardId, cols, vals);
     } catch (err) {
       console.error('Failed to refresh dynamic columns:', err);
+      // Offline: fall back to the last columns seen for this board
+      const cached = await loadColumnsCache(activeBoardId);
+      if (!cached || requestSeq < dynamicAppliedSeqRef.current) return;
+      dynamicAppliedSeqRef.current = requestSeq;
+      setDynamicColumns(cached.columns);
+      setDynamicValues(cached.values);
     }
   }, [activeBoardId, setDynamicColumns, setDynamicValues]);
 
+  // Keep board-level filters and progress metrics in step with edits made here
+  useEffect(() => {
+    if (!activeBoardId || dynamicAppliedSeqRef.current === 0) return;
+    shareDynamicColumnValues(dynamicColumns, dynamicValues);
+  }, [activeBoardId, dynamicColumns, dynamicValues, shareDynamicColumnValues]);
+
   const handleUpsertDynamicCell = useCallback(async (taskId: string, columnId: string, value: DynamicCellValue) => {
     if (!activeBoardId || !user) return;
     const column = dynamicColumns.find((c) => c.id === columnId);
     if (!column) return;
+    const previous = dynamicValues.get(taskId)?.[columnId];
     
     try {
-      await upsertTaskColumnValue({
-        boardId: activeBoardId,
+      // Queued while offline; the value is shown (and cached) right away either way
+      await runOrQueue(activeBoardId, {
+        kind: 'columnValue.upsert',
         taskId,
         columnId,
         value,
@@ -373,12 +463,16 @@ export function ProjectTable() {
         const next = new Map(prev);
         const taskValues = next.get(taskId) || {};
         next.set(taskId, { ...taskValues, [columnId]: value });
+        void saveColumnsCache(activeBoardId, dynamicColumns, next);
         return next;
       });
+      const task = state.projects.find((p) => p.id === taskId);
+      const draft = task ? activityFromColumnValue(task, column, previous, value) : null;
+      if (draft) recordActivity([draft]);
     } catch (err) {
       console.error('Dynamic cell save failed:', err);
     }
-  }, [activeBoardId, user, dynamicColumns, setDynamicValues]);
+  }, [activeBoardId, user, dynamicColumns, dynamicValues, setDynamicValues, state.projects, recordActivity]);
 
   const normalizeDynamicColumnName = useCallback((raw: string) => raw.trim().replace(/\s+/g, ' ').slice(0, 60), []);
 
@@ -406,7 +500,7 @@ export function ProjectTable() {
     });
   }, [buildUniqueDynamicColumnName, setNewColumnDialog]);
 
-  const handleCreateDynamicColumn = useCallback(async (position: number, baseName: string, presetType: DynamicColumn['type'] | 'progress' | 'stars' = 'text') => {
+  const handleCreateDynamicColumn = useCallback(async (position: number, baseName: string, presetType: DynamicColumn['type'] | 'progress' | 'stars' = 'text', formula = '') => {
     if (!activeBoardId || !user) return;
     const cleanName = normalizeDynamicColumnName(baseName);
     const name = buildUniqueDynamicColumnName(cleanName || `Nueva ${presetType}`);
@@ -414,7 +508,11 @@ export function ProjectTable() {
     
     const key = `col_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
     const dbType: DynamicColumn['type'] = presetType === 'progress' || presetType === 'stars' ? 'number' : presetType;
-    const config: Record<string, unknown> = presetType === 'progress' ? { display: 'progress' } : presetType === 'stars' ? { display: 'stars' } : {};
+    const config: Record<string, unknown> = presetType === 'progress'
+      ? { display: 'progress' }
+      : presetType === 'stars'
+        ? { display: 'stars' }
+        : presetType === 'formula' ? { formula, aggregate: 'sum' } : {};
     
     try {
       for (const c of dynamicColumns.filter((c) => c.position >= position)) {
@@ -450,11 +548,24 @@ export function ProjectTable() {
     try {
       await updateBoardColumn(columnId, { type: dbType, config: type === 'progress' || type === 'stars' ? config : {} });
       await refreshDynamicColumns();
+      // A column turned into a formula has nothing to compute yet
+      if (type === 'formula') setFormulaEditorColumnId(columnId);
     } catch (err) {
       setUiToast({ type: 'error', message: `No se pudo cambiar el tipo de columna: ${String(err)}` });
     }
   }, [refreshDynamicColumns, setUiToast]);
 
+  const handleSaveFormula = useCallback(async (columnId: string, formula: string, aggregate: FormulaAggregate) => {
+    const column = dynamicColumns.find((c) => c.id === columnId);
+    if (!column) return;
+    try {
+      await updateBoardColumn(columnId, { config: { ...(column.config || {}), formula, aggregate } });
+      await refreshDynamicColumns();
+    } catch (err) {
+      setUiToast({ type: 'error', message: `No se pudo guardar la formula: ${String(err)}` });
+    }
+  }, [dynamicColumns, refreshDynamicColumns, setUiToast]);
+
   const handleSaveDynamicColumnOptions = useCallback(async (columnId: string, rawOptions: string) => {
     const options = rawOptions
       .split(',')
@@ -527,7 +638,21 @@ export function ProjectTable() {
     { kind: 'essential', token: 'essential:type', id: 'type', label: 'Tipo', sortKey: 'type', widthKey: 'type', nonEditableName: true },
     { kind: 'essential', token: 'essential:load', id: 'load', label: 'Carga', sortKey: 'dailyLoad', widthKey: 'load', nonEditableName: true },
     { kind: 'essential', token: 'essential:status', id: 'status', label: 'Estatus', sortKey: 'status', widthKey: 'status', nonEditableName: true },
-  ]), []);
+    // Only meaningful against a baseline; hidden until one exists
+    ...(activeBaseline
+      ? [
+          { kind: 'essential', token: 'essential:startVar', id: 'startVar', label: 'Var. inicio', sortKey: 'startVariance', widthKey: 'startVar', nonEditableName: true } as const,
+          { kind: 'essential', token: 'essential:finishVar', id: 'finishVar', label: 'Var. fin', sortKey: 'finishVariance', widthKey: 'finishVar', nonEditableName: true } as const,
+        ]
+      : []),
+    // Shown once the board has logged time
+    ...(hasTimeEntries
+      ? [
+          { kind: 'essential', token: 'essential:hoursEst', id: 'hoursEst', label: 'Horas est.', sortKey: 'totalHours', widthKey: 'hoursEst', nonEditableName: true } as const,
+          { kind: 'essential', token: 'essential:hoursLogged', id: 'hoursLogged', label: 'Horas reales', sortKey: 'loggedHours', widthKey: 'hoursLogged', nonEditableName: true } as const,
+        ]
+      : []),
+  ]), [activeBaseline, hasTimeEntries]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -537,11 +662,13 @@ export function ProjectTable() {
       if (!raw) {
         setLayoutSeedOrder(null);
         setColumnWidths(defaultColumnWidths);
+        setHiddenColumns([]);
         return;
       }
       const parsed = JSON.parse(raw) as {
         order?: string[];
         widths?: Partial<Record<ColumnKey, number>>;
+        hidden?: string[];
       };
       const seed = Array.isArray(parsed.order)
         ? parsed.order.filter((x): x is ColumnToken => typeof x === 'string' && (x.startsWith('essential:') || x.startsWith('dynamic:')))
@@ -558,11 +685,23 @@ export function ProjectTable() {
       setLayoutSeedOrder(safeSeed && safeSeed.length > 0 ? safeSeed : null);
       setColumnWidths(safeWidths);
       setColumnOrder([]);
+      setHiddenColumns(Array.isArray(parsed.hidden) ? parsed.hidden.filter(isHideableColumnToken) : []);
     } catch {
       setLayoutSeedOrder(null);
       setColumnWidths(defaultColumnWidths);
+      setHiddenColumns([]);
     }
-  }, [activeBoardId, defaultColumnWidths, setColumnOrder, setColumnWidths, setLayoutSeedOrder]);
+  }, [activeBoardId, defaultColumnWidths, setColumnOrder, setColumnWidths, setLayoutSeedOrder, setHiddenColumns]);
+
+  // Saved views and view links decide which columns are hidden
+  useEffect(() => {
+    const hidden = takePendingViewLayout('hiddenColumns');
+    if (hidden) setHiddenColumns(hidden.filter(isHideableColumnToken));
+  }, [takePendingViewLayout, setHiddenColumns]);
+
+  useEffect(() => {
+    shareViewLayout('hiddenColumns', hiddenColumns);
+  }, [shareViewLayout, hiddenColumns]);
 
   useEffect(() => {
     const essentialTokens = essentialColumnDefs.map((c) => c.token);
@@ -598,12 +737,13 @@ export function ProjectTable() {
         JSON.stringify({
           order: columnOrder,
           widths: columnWidths,
+          hidden: hiddenColumns,
         }),
       );
     } catch {
       // ignore storage errors
     }
-  }, [activeBoardId, columnOrder, columnWidths]);
+  }, [activeBoardId, columnOrder, columnWidths, hiddenColumns]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -676,7 +816,7 @@ export function ProjectTable() {
     [personCatalog, allPersons]
   );
 
-  const renderColumns = useMemo(() => {
+  const allRenderColumns = useMemo(() => {
     const essentialByToken = new Map(essentialColumnDefs.map((c) => [c.token, c]));
     const dynamicByToken = new Map(
       dynamicColumns.map((col) => [
@@ -703,6 +843,26 @@ export function ProjectTable() {
       .filter((x): x is RenderColumn => Boolean(x));
   }, [columnOrder, dynamicColumns, essentialColumnDefs]);
 
+  const renderColumns = useMemo(() => {
+    if (hiddenColumns.length === 0) return allRenderColumns;
+    const hidden = new Set<string>(hiddenColumns);
+    return allRenderColumns.filter((c) => !hidden.has(c.token));
+  }, [allRenderColumns, hiddenColumns]);
+
+  const hiddenRenderColumns = useMemo(() => {
+    const hidden = new Set<string>(hiddenColumns);
+    return allRenderColumns.filter((c) => hidden.has(c.token));
+  }, [allRenderColumns, hiddenColumns]);
+
+  const handleHideColumn = useCallback((token: string) => {
+    if (!isHideableColumnToken(token)) return;
+    setHiddenColumns((prev) => (prev.includes(token) ? prev : [...prev, token]));
+  }, [setHiddenColumns]);
+
+  const handleShowColumn = useCallback((token: string | 'all') => {
+    setHiddenColumns((prev) => (token === 'all' ? [] : prev.filter((t) => t !== token)));
+  }, [setHiddenColumns]);
+
   const expandedMap = useMemo(() => {
     const map = new Map<string, boolean>();
     (orderedFilteredProjects || []).forEach((p) => {
@@ -725,13 +885,19 @@ export function ProjectTable() {
 
     const filtered = visibleOrderedProjects.filter((project) => {
       if (search && !project.name.toLowerCase().includes(search.toLowerCase())) return false;
-      if (!showRadar && project.type === 'En radar') return false;
+      if (!showRadar && !countsTowardLoad(project, taskTypes)) return false;
       return true;
     });
 
     const sorted = filtered.sort((a, b) => {
       let comparison = 0;
-      if (sortKey && sortKey in a && sortKey in b) {
+      if (sortKey === 'startVariance' || sortKey === 'finishVariance') {
+        const aVal = scheduleVariance.get(a.id)?.[sortKey] ?? null;
+        const bVal = scheduleVariance.get(b.id)?.[sortKey] ?? null;
+        if (aVal !== null && bVal !== null) comparison = aVal - bVal;
+      } else if (sortKey === 'loggedHours') {
+        comparison = (timeRollup.get(a.id)?.loggedHours ?? 0) - (timeRollup.get(b.id)?.loggedHours ?? 0);
+      } else if (sortKey && sortKey in a && sortKey in b) {
         const aVal = a[sortKey];
         const bVal = b[sortKey];
         if (aVal !== null && bVal !== null) {
@@ -742,17 +908,41 @@ export function ProjectTable() {
       return sortDir === 'desc' ? -comparison : comparison;
     });
 
-    const scheduled = sorted.filter((p) => p.startDate && p.endDate && p.type !== 'En radar');
-    const unscheduled = sorted.filter((p) => (!p.startDate || !p.endDate) && p.type !== 'En radar');
-    const radar = sorted.filter((p) => p.type === 'En radar');
+    const scheduled = sorted.filter((p) => p.startDate && p.endDate && countsTowardLoad(p, taskTypes));
+    const unscheduled = sorted.filter((p) => (!p.startDate || !p.endDate) && countsTowardLoad(p, taskTypes));
+    const radar = sorted.filter((p) => !countsTowardLoad(p, taskTypes));
 
     return { scheduled, unscheduled, radar };
-  }, [visibleOrderedProjects, search, sortKey, sortDir, showRadar]);
+  }, [visibleOrderedProjects, search, sortKey, sortDir, showRadar, scheduleVariance, timeRollup, taskTypes]);
+
+  // Jumps from search land on the row: selected, shown past the table's own search
+  // and radar toggle, then scrolled to and tinted once it has rendered
+  const [pendingRevealId, setPendingRevealId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const taskId = takeRevealRequest();
+    if (!taskId) return;
+    const task = state.projects.find((p) => p.id === taskId);
+    if (task && search && !task.name.toLowerCase().includes(search.toLowerCase())) setSearch('');
+    if (task && !countsTowardLoad(task, taskTypes)) setShowRadar(true);
+    setMultiSelectMode(false);
+    setSelectedRowIds(new Set());
+    setSelectedRowId(taskId);
+    setPendingRevealId(taskId);
+  }, [takeRevealRequest, state.projects, taskTypes, search, setSearch, setShowRadar, setMultiSelectMode, setSelectedRowIds, setSelectedRowId]);
+
+  useEffect(() => {
+    if (!pendingRevealId) return;
+    const row = rowRefs.current[pendingRevealId];
+    if (!row) return;
+    setPendingRevealId(null);
+    revealElement(row);
+  }, [pendingRevealId, sortedProjects, rowRefs]);
 
   const radarCountRaw = useMemo(() => {
     if (!visibleOrderedProjects || !Array.isArray(visibleOrderedProjects)) return 0;
-    return visibleOrderedProjects.filter((p) => p.type === 'En radar').length;
-  }, [visibleOrderedProjects]);
+    return visibleOrderedProjects.filter((p) => !countsTowardLoad(p, taskTypes)).length;
+  }, [visibleOrderedProjects, taskTypes]);
 
   // Flat list for compatibility
   const flatSortedProjects = [...sortedProjects.scheduled, ...sortedProjects.unscheduled, ...sortedProjects.radar];
@@ -1106,6 +1296,113 @@ export function ProjectTable() {
     dispatch({ type: 'UPDATE_HIERARCHY', payload: { projectId, newParentId } });
   }, [state.projectOrder, state.projects, dispatch]);
 
+  // ── Spreadsheet focus: keyboard navigation and editing over the visible cells ──
+
+  const gridRowIds = useMemo(
+    () => [...sortedProjects.scheduled, ...sortedProjects.unscheduled, ...sortedProjects.radar].map((p) => p.id),
+    [sortedProjects]
+  );
+  const projectById = useMemo(() => new Map(state.projects.map((p) => [p.id, p])), [state.projects]);
+  const groupRowIds = useMemo(
+    () => new Set(state.projects.map((p) => p.parentId).filter((id): id is string => !!id)),
+    [state.projects]
+  );
+
+  const isGroupRow = useCallback((rowId: string) => groupRowIds.has(rowId), [groupRowIds]);
+
+  const readGridValue = useCallback((rowId: string, column: GridColumn): DynamicCellValue => {
+    const project = projectById.get(rowId);
+    if (!project) return null;
+    if (column.kind === 'dynamic' && column.column.type === 'formula') {
+      const result = formulaResults.get(rowId)?.[column.column.id];
+      return result && !result.error ? formatFormulaValue(result.value) : null;
+    }
+    return readCell(project, rolledDynamicValues.get(rowId), column, taskTypes);
+  }, [projectById, rolledDynamicValues, formulaResults, taskTypes]);
+
+  const gridOptionsFor = useCallback((column: GridColumn): CellOptions => {
+    if (column.kind === 'dynamic') {
+      const options = Array.isArray(column.column.config?.options) ? (column.column.config.options as string[]) : [];
+      return { options, strict: options.length > 0 };
+    }
+    if (column.id === 'branch') return { options: branchOptions, strict: false };
+    if (column.id === 'assignees') return { options: personOptions, strict: false };
+    if (column.id === 'type') return { options: state.config.taskTypes.map((t) => t.name), strict: true };
+    return { options: [], strict: false };
+  }, [branchOptions, personOptions, state.config.taskTypes]);
+
+  // Built-in fields of several rows go out as one bulk update, so undo takes them back together
+  const applyGridWrites = useCallback((writes: CellWrite[]) => {
+    const updates: Record<string, Partial<Project>> = {};
+    writes.forEach((write) => {
+      if (write.target === 'dynamic') {
+        void handleUpsertDynamicCell(write.rowId, write.columnId, write.value);
+        return;
+      }
+      updates[write.rowId] = { ...updates[write.rowId], ...write.updates };
+      (Array.isArray(write.updates.branch) ? write.updates.branch : []).forEach(tableActions.handleAddBranchOption);
+      (write.updates.assignees || []).forEach(tableActions.handleAddPersonOption);
+    });
+    const ids = Object.keys(updates);
+    if (ids.length === 1) tableActions.handleUpdate(ids[0], updates[ids[0]]);
+    else if (ids.length > 1) dispatch({ type: 'BULK_UPDATE_PROJECTS', payload: updates });
+  }, [handleUpsertDynamicCell, tableActions, dispatch]);
+
+  // New rows from a paste go below the last visible row, as its siblings, in the same step as the pasted cells
+  const applyGridPaste = useCallback(({ writes, newRows, rejected }: GridPaste) => {
+    const updates: Record<string, Partial<Project>> = {};
+    const dynamicWrites = writes.filter((w): w is Extract<CellWrite, { target: 'dynamic' }> => w.target === 'dynamic');
+    writes.forEach((write) => {
+      if (write.target === 'project') updates[write.rowId] = { ...updates[write.rowId], ...write.updates };
+    });
+    const lastRow = projectById.get(gridRowIds[gridRowIds.length - 1]);
+    const added = newRows.map((cells) => {
+      const overrides: Partial<Project> = { parentId: lastRow?.parentId ?? null, hierarchyLevel: lastRow?.hierarchyLevel ?? 0 };
+      cells.forEach(({ column, value }) => {
+        const write = cellWrite('', column, value);
+        if (write?.target === 'project') Object.assign(overrides, write.updates);
+      });
+      const project = tableActions.createProjectDraft(overrides);
+      cells.forEach(({ column, value }) => {
+        const write = cellWrite(project.id, column, value);
+        if (write?.target === 'dynamic') dynamicWrites.push(write);
+      });
+      return project;
+    });
+    [...Object.values(updates), ...added].forEach((changes) => {
+      (Array.isArray(changes.branch) ? changes.branch : []).forEach(tableActions.handleAddBranchOption);
+      (changes.assignees || []).forEach(tableActions.handleAddPersonOption);
+    });
+    if (Object.keys(updates).length > 0 || added.length > 0) {
+      dispatch({ type: 'PASTE_PROJECTS', payload: { updates, added, afterId: lastRow?.id ?? null } });
+    }
+    dynamicWrites.forEach((write) => void handleUpsertDynamicCell(write.rowId, write.columnId, write.value));
+    if (added.length > 0) toast('success', added.length === 1 ? 'Se agrego 1 fila con el pegado.' : `Se agregaron ${added.length} filas con el pegado.`);
+    if (rejected > 0) toast('error', rejected === 1 ? '1 celda no se pego: el valor no es valido para su columna.' : `${rejected} celdas no se pegaron: los valores no son validos para sus columnas.`);
+  }, [projectById, gridRowIds, tableActions, dispatch, handleUpsertDynamicCell, toast]);
+
+  const cellGrid = useCellGrid({
+    rowIds: gridRowIds,
+    columns: renderColumns,
+    rowRefs,
+    tableRootRef,
+    canEdit: canEditActiveBoard,
+    isGroupRow,
+    groupEditableColumns,
+    readValue: readGridValue,
+    optionsFor: gridOptionsFor,
+    applyWrites: applyGridWrites,
+    applyPaste: applyGridPaste,
+    taskTypes,
+  });
+  const activeCellRowId = cellGrid.active?.rowId ?? null;
+
+  // The focused cell's row is the selected row, so row commands act on it
+  useEffect(() => {
+    if (!activeCellRowId || multiSelectMode) return;
+    setSelectedRowId(activeCellRowId);
+  }, [activeCellRowId, multiSelectMode, setSelectedRowId]);
+
   const confirmParentConversionIfNeeded = useCallback(async (targetParentId: string | null): Promise<boolean> => {
     if (!targetParentId) return true;
     const parent = state.projects.find((p) => p.id === targetParentId);
@@ -1165,6 +1462,9 @@ export function ProjectTable() {
 
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
+      // With a focused cell, Escape and Tab belong to the cell grid
+      if (activeCellRowId) return;
+
       // Escape cancels selection
       if (e.key === 'Escape') {
         setSelectedRowId(null);
@@ -1234,18 +1534,6 @@ export function ProjectTable() {
 
       if (!selectedRowId) return;
 
-      // Add row below:
-      // Windows/Linux: Ctrl + "+" (usually Ctrl + Shift + "=")
-      // macOS: Cmd + Shift + "+"
-      const isAddBelowShortcut =
-        (e.ctrlKey && !e.metaKey && (e.key === '+' || e.key === '=' || e.code === 'NumpadAdd')) ||
-        (e.metaKey && e.shiftKey && (e.key === '+' || e.key === '='));
-      if (isAddBelowShortcut) {
-        e.preventDefault();
-        tableActions.handleAddBelow(selectedRowId);
-        return;
-      }
-
       e.preventDefault();
       if (e.shiftKey) {
         handleOutdent(selectedRowId);
@@ -1256,7 +1544,7 @@ export function ProjectTable() {
 
     window.addEventListener('keydown', onKeyDown, { capture: true });
     return () => window.removeEventListener('keydown', onKeyDown, { capture: true });
-  }, [selectedRowId, selectedRowIds, multiSelectMode, handleIndent, handleOutdent, tableActions, state.projectOrder, state.projects]);
+  }, [activeCellRowId, selectedRowId, selectedRowIds, multiSelectMode, handleIndent, handleOutdent, state.projectOrder, state.projects]);
 
   useEffect(() => {
     const hasAnySelection = selectedRowId !== null || selectedRowIds.size > 0;
@@ -1310,15 +1598,174 @@ export function ProjectTable() {
     if (!activeBoardId) return;
     try {
       const rows = await listTaskComments(activeBoardId, taskId);
+      void saveCommentsCache(activeBoardId, taskId, rows);
       setComments(rows);
       setCommentsTaskId(taskId);
       setCommentsOpen(true);
+      commentActivity.markRead(taskId);
     } catch (err) {
-      setUiToast({ type: 'error', message: `No se pudieron cargar comentarios: ${String(err)}` });
+      const cached = await loadCommentsCache(activeBoardId, taskId);
+      if (!cached) {
+        setUiToast({ type: 'error', message: `No se pudieron cargar comentarios: ${String(err)}` });
+        return;
+      }
+      setComments(cached);
+      setCommentsTaskId(taskId);
+      setCommentsOpen(true);
+      setUiToast({ type: 'info', message: 'Sin conexión: mostrando comentarios guardados' });
     }
-  }, [activeBoardId, setComments, setCommentsTaskId, setCommentsOpen, setUiToast]);
+  }, [activeBoardId, setComments, setCommentsTaskId, setCommentsOpen, setUiToast, commentActivity]);
+
+  // Palette commands for the selected row, or for the checked rows in multi-select mode
+  const selectedRowProject = useMemo(
+    () => (selectedRowId ? state.projects.find((p) => p.id === selectedRowId) || null : null),
+    [selectedRowId, state.projects]
+  );
+  const checkedRowCount = multiSelectMode ? selectedRowIds.size : 0;
 
-  const handleAddComment = useCallback(async () => {
+  const rowCommands = useMemo<CommandDefinition[]>(() => {
+    if (checkedRowCount > 0) {
+      return [
+        { id: 'row.indent', title: `Aumentar sangria de ${checkedRowCount} filas`, section: 'row', keywords: ['indentar', 'subtarea'], defaultBinding: 'Alt+Shift+ArrowRight', enabled: canEditActiveBoard, run: handleBulkIndent },
+        { id: 'row.outdent', title: `Reducir sangria de ${checkedRowCount} filas`, section: 'row', keywords: ['desindentar', 'subir nivel'], defaultBinding: 'Alt+Shift+ArrowLeft', enabled: canEditActiveBoard, run: handleBulkOutdent },
+        { id: 'row.duplicate', title: `Duplicar ${checkedRowCount} filas`, section: 'row', keywords: ['copiar'], enabled: canEditActiveBoard, run: handleBulkDuplicate },
+        { id: 'row.delete', title: `Eliminar ${checkedRowCount} filas`, section: 'row', keywords: ['borrar'], enabled: canEditActiveBoard, run: handleBulkDelete },
+      ];
+    }
+    if (!selectedRowProject) return [];
+    const rowId = selectedRowProject.id;
+    return [
+      { id: 'row.addBelow', title: 'Agregar fila debajo', section: 'row', keywords: ['nueva fila', 'insertar'], defaultBinding: 'Ctrl++', enabled: canEditActiveBoard, run: () => tableActions.handleAddBelow(rowId) },
+      { id: 'row.addAbove', title: 'Agregar fila encima', section: 'row', keywords: ['nueva fila', 'insertar'], enabled: canEditActiveBoard, run: () => tableActions.handleAddAbove(rowId) },
+      { id: 'row.addInside', title: 'Agregar subtarea', section: 'row', keywords: ['hijo', 'dentro'], enabled: canEditActiveBoard, run: () => tableActions.handleAddInside(rowId) },
+      { id: 'row.duplicate', title: 'Duplicar fila', section: 'row', keywords: ['copiar'], enabled: canEditActiveBoard, run: () => tableActions.handleDuplicateRow(rowId) },
+      {
+        id: 'row.moveTo',
+        title: 'Mover a...',
+        section: 'row',
+        keywords: ['cambiar grupo', 'padre', 'reubicar'],
+        enabled: canEditActiveBoard,
+        // Same targets as the row menu: existing groups outside the row's own subtree
+        choices: () => {
+          const blocked = new Set([rowId, ...getDescendants(rowId, state.projects).map((d) => d.id)]);
+          const groups = state.projects.filter((p) => (
+            !blocked.has(p.id)
+            && p.id !== selectedRowProject.parentId
+            && state.projects.some((child) => child.parentId === p.id)
+          ));
+          return [
+            ...(selectedRowProject.parentId ? [{ id: '__root__', label: 'Nivel superior', hint: 'sin grupo' }] : []),
+            ...groups.map((g) => ({ id: g.id, label: g.name || 'Sin nombre' })),
+          ];
+        },
+        run: (choiceId) => {
+          if (!choiceId) return;
+          tableActions.handleMoveToParent(rowId, choiceId === '__root__' ? null : choiceId);
+        },
+      },
+      { id: 'row.indent', title: 'Aumentar sangria', section: 'row', keywords: ['indentar', 'subtarea'], defaultBinding: 'Alt+Shift+ArrowRight', enabled: canEditActiveBoard, run: () => handleIndent(rowId) },
+      { id: 'row.outdent', title: 'Reducir sangria', section: 'row', keywords: ['desindentar', 'subir nivel'], defaultBinding: 'Alt+Shift+ArrowLeft', enabled: canEditActiveBoard, run: () => handleOutdent(rowId) },
+      { id: 'row.comments', title: 'Abrir comentarios', section: 'row', keywords: ['conversacion', 'notas'], enabled: !!activeBoardId, run: () => handleOpenComments(rowId) },
+      { id: 'row.logTime', title: 'Registrar horas', section: 'row', keywords: ['tiempo', 'timesheet'], run: () => setTimeEntriesTaskId(rowId) },
+      { id: 'row.delete', title: 'Eliminar fila', section: 'row', keywords: ['borrar'], enabled: canEditActiveBoard, run: () => tableActions.handleDelete(rowId) },
+    ];
+  }, [
+    checkedRowCount,
+    selectedRowProject,
+    canEditActiveBoard,
+    activeBoardId,
+    state.projects,
+    tableActions,
+    handleBulkIndent,
+    handleBulkOutdent,
+    handleBulkDuplicate,
+    handleBulkDelete,
+    handleIndent,
+    handleOutdent,
+    handleOpenComments,
+  ]);
+  useRegisterCommands(rowCommands);
+
+  const cellCommands = useMemo<CommandDefinition[]>(() => {
+    if (!cellGrid.range) return [];
+    return [
+      {
+        id: 'cells.fillDown',
+        title: 'Rellenar hacia abajo',
+        section: 'row',
+        keywords: ['copiar', 'celdas', 'rango'],
+        defaultBinding: 'Ctrl+D',
+        enabled: canEditActiveBoard && !cellGrid.editing,
+        run: cellGrid.fillDown,
+      },
+    ];
+  }, [cellGrid.range, cellGrid.editing, cellGrid.fillDown, canEditActiveBoard]);
+  useRegisterCommands(cellCommands);
+
+  // Send a comment mutation; when it is queued, apply it to the open list locally instead of re-listing.
+  // Reactions are always applied locally, re-listing the thread for each one would be wasteful.
+  const commitCommentMutation = useCallback(async (
+    mutation: Extract<OutboxMutation, { kind: 'comment.add' | 'comment.update' | 'comment.delete' | 'comment.react' }>
+  ) => {
+    if (!activeBoardId || !commentsTaskId) return;
+    const result = await runOrQueue(activeBoardId, mutation);
+    const current = comments;
+    let rows: TaskComment[];
+    if (result === 'sent' && mutation.kind !== 'comment.react') {
+      rows = await listTaskComments(activeBoardId, commentsTaskId);
+    } else if (mutation.kind === 'comment.add') {
+      rows = [{
+        id: `pending-${Date.now()}`,
+        board_id: activeBoardId,
+        task_id: mutation.taskId,
+        user_id: mutation.userId,
+        body: mutation.body.trim(),
+        author_label: mutation.authorLabel || null,
+        author_avatar_url: mutation.authorAvatarUrl || null,
+        created_at: new Date().toISOString(),
+        parent_id: mutation.parentId || null,
+        mentions: mutation.mentions || [],
+      }, ...current];
+    } else if (mutation.kind === 'comment.update') {
+      const editedAt = new Date().toISOString();
+      rows = current.map((c) => (c.id === mutation.commentId
+        ? {
+            ...c,
+            body: mutation.body.trim(),
+            mentions: mutation.mentions,
+            edited_at: editedAt,
+            edit_history: [...(c.edit_history || []), { body: c.body, edited_at: editedAt }],
+          }
+        : c));
+    } else if (mutation.kind === 'comment.react') {
+      rows = current.map((c) => {
+        if (c.id !== mutation.commentId) return c;
+        const others = (c.reactions || []).filter((r) => !(r.user_id === mutation.userId && r.emoji === mutation.emoji));
+        return {
+          ...c,
+          reactions: mutation.active
+            ? [...others, { comment_id: c.id, user_id: mutation.userId, emoji: mutation.emoji }]
+            : others,
+        };
+      });
+    } else {
+      rows = current.filter((c) => c.id !== mutation.commentId && c.parent_id !== mutation.commentId);
+    }
+    setComments(rows);
+    void saveCommentsCache(activeBoardId, commentsTaskId, rows);
+    const task = state.projects.find((p) => p.id === commentsTaskId);
+    if (task && mutation.kind === 'comment.add') {
+      recordActivity([activityFromComment(task, 'add', mutation.body)]);
+    } else if (task && mutation.kind === 'comment.update') {
+      const before = current.find((c) => c.id === mutation.commentId);
+      recordActivity([activityFromComment(task, 'edit', mutation.body, before?.body)]);
+    } else if (task && mutation.kind === 'comment.delete') {
+      const before = current.find((c) => c.id === mutation.commentId);
+      recordActivity([activityFromComment(task, 'delete', before?.body || '')]);
+    }
+  }, [activeBoardId, commentsTaskId, comments, setComments, state.projects, recordActivity]);
+
+  const handleAddComment = useCallback(async (parentId: string | null) => {
     if (!activeBoardId || !user || !commentsTaskId || !commentDraft.trim()) return;
     const authorLabel = (user.user_metadata?.full_name as string | undefined)
       || (user.user_metadata?.name as string | undefined)
@@ -1327,24 +1774,27 @@ export function ProjectTable() {
     const authorAvatarUrl = (user.user_metadata?.avatar_url as string | undefined)
       || (user.user_metadata?.picture as string | undefined)
       || null;
+    const mentions = extractMentions(commentDraft, personOptions);
     try {
-      await addTaskComment({
-        boardId: activeBoardId,
+      await commitCommentMutation({
+        kind: 'comment.add',
         taskId: commentsTaskId,
         userId: user.id,
         body: commentDraft,
         authorLabel,
         authorAvatarUrl,
+        parentId,
+        mentions,
       });
+      notifyCommentMentions(commentsTaskId, mentions, commentDraft);
       setCommentDraft('');
-      const rows = await listTaskComments(activeBoardId, commentsTaskId);
-      setComments(rows);
+      commentActivity.markRead(commentsTaskId);
     } catch (err) {
       setUiToast({ type: 'error', message: `No se pudo guardar comentario: ${String(err)}` });
     }
-  }, [activeBoardId, user, commentsTaskId, commentDraft, setCommentDraft, setComments, setUiToast]);
+  }, [activeBoardId, user, commentsTaskId, commentDraft, personOptions, setCommentDraft, commitCommentMutation, notifyCommentMentions, commentActivity, setUiToast]);
 
-  const handleAddLinkComment = useCallback(async () => {
+  const handleAddLinkComment = useCallback(async (parentId: string | null) => {
     if (!activeBoardId || !user || !commentsTaskId) return;
     const raw = linkUrlDraft.trim();
     if (!raw) return;
@@ -1365,35 +1815,81 @@ export function ProjectTable() {
       || (user.user_metadata?.picture as string | undefined)
       || null;
     try {
-      await addTaskComment({
-        boardId: activeBoardId,
+      await commitCommentMutation({
+        kind: 'comment.add',
         taskId: commentsTaskId,
         userId: user.id,
         body,
         authorLabel,
         authorAvatarUrl,
+        parentId,
       });
       setLinkUrlDraft('');
       setLinkTitleDraft('');
-      const rows = await listTaskComments(activeBoardId, commentsTaskId);
-      setComments(rows);
     } catch (err) {
       setUiToast({ type: 'error', message: `No se pudo guardar enlace: ${String(err)}` });
     }
-  }, [activeBoardId, user, commentsTaskId, linkUrlDraft, linkTitleDraft, setLinkUrlDraft, setLinkTitleDraft, setComments, setUiToast]);
+  }, [activeBoardId, user, commentsTaskId, linkUrlDraft, linkTitleDraft, setLinkUrlDraft, setLinkTitleDraft, commitCommentMutation, setUiToast]);
 
   const handleDeleteComment = useCallback(async (commentId: string) => {
     if (!activeBoardId || !commentsTaskId) return;
+    if (commentId.startsWith('pending-')) {
+      setUiToast({ type: 'info', message: 'El comentario aún está en cola; se podrá eliminar cuando se envíe' });
+      return;
+    }
     const ok = await confirm('Eliminar comentario', 'Esta accion no se puede deshacer.');
     if (!ok) return;
     try {
-      await deleteTaskComment(commentId);
-      const rows = await listTaskComments(activeBoardId, commentsTaskId);
-      setComments(rows);
+      await commitCommentMutation({ kind: 'comment.delete', commentId });
     } catch (err) {
       setUiToast({ type: 'error', message: `No se pudo eliminar comentario: ${String(err)}` });
     }
-  }, [activeBoardId, commentsTaskId, confirm, setComments, setUiToast]);
+  }, [activeBoardId, commentsTaskId, confirm, commitCommentMutation, setUiToast]);
+
+  const handleEditComment = useCallback(async (commentId: string, body: string) => {
+    if (!activeBoardId || !commentsTaskId || !body.trim()) return;
+    try {
+      await commitCommentMutation({
+        kind: 'comment.update',
+        commentId,
+        body,
+        mentions: extractMentions(body, personOptions),
+      });
+    } catch (err) {
+      setUiToast({ type: 'error', message: `No se pudo editar comentario: ${String(err)}` });
+    }
+  }, [activeBoardId, commentsTaskId, personOptions, commitCommentMutation, setUiToast]);
+
+  const handleToggleCommentReaction = useCallback(async (commentId: string, emoji: string, active: boolean) => {
+    if (!activeBoardId || !user || !commentsTaskId) return;
+    try {
+      await commitCommentMutation({ kind: 'comment.react', commentId, userId: user.id, emoji, active });
+    } catch (err) {
+      setUiToast({ type: 'error', message: `No se pudo guardar la reacción: ${String(err)}` });
+    }
+  }, [activeBoardId, user, commentsTaskId, commitCommentMutation, setUiToast]);
+
+  const handleLogTime = useCallback(async (draft: TimeEntryDraft) => {
+    try {
+      await timeEntries.logTime(draft);
+    } catch (err) {
+      setUiToast({ type: 'error', message: `No se pudieron registrar las horas: ${String(err)}` });
+    }
+  }, [timeEntries, setUiToast]);
+
+  const handleDeleteTimeEntry = useCallback(async (entryId: string) => {
+    const ok = await confirm({
+      title: 'Eliminar registro de horas',
+      message: 'Esta accion no se puede deshacer.',
+      confirmText: 'Eliminar',
+    });
+    if (!ok) return;
+    try {
+      await timeEntries.removeEntry(entryId);
+    } catch (err) {
+      setUiToast({ type: 'error', message: `No se pudo eliminar el registro: ${String(err)}` });
+    }
+  }, [timeEntries, confirm, setUiToast]);
 
   const getDepth = useCallback((projectId: string): number => {
     let depth = 0;
@@ -1674,6 +2170,12 @@ export function ProjectTable() {
           showRadar={showRadar}
           setShowRadar={setShowRadar}
           radarCount={radarCountRaw}
+          radarTypeNames={radarTypeNames}
+          portfolioProgress={portfolioProgress}
+          showOnlyBehind={state.filters.showOnlyBehind}
+          setShowOnlyBehind={(show) => dispatch({ type: 'SET_FILTERS', payload: { showOnlyBehind: show } })}
+          hiddenColumns={hiddenRenderColumns.map((c) => ({ token: c.token, label: c.kind === 'dynamic' ? c.column.name || c.label : c.label }))}
+          onShowColumn={handleShowColumn}
         />
       </div>
 
@@ -1707,8 +2209,10 @@ export function ProjectTable() {
               onDuplicateDynamicColumn={handleDuplicateDynamicColumn}
               onDeleteDynamicColumn={handleDeleteDynamicColumn}
             onSaveDynamicColumnOptions={handleSaveDynamicColumnOptions}
+            onEditFormula={setFormulaEditorColumnId}
             onMoveColumnLeft={handleMoveColumnLeft}
             onMoveColumnRight={handleMoveColumnRight}
+            onHideColumn={handleHideColumn}
             onSortColumn={(key, dir) => {
               setSortKey(key as SortKey);
               setSortDir(dir);
@@ -1766,6 +2270,7 @@ export function ProjectTable() {
                         onOutdent={handleOutdent}
                         onSetPersonAvatar={tableActions.handleSetPersonAvatar}
                         onOpenComments={handleOpenComments}
+                        onLogTime={setTimeEntriesTaskId}
                         onPresenceChange={tableHandlers.handlePresenceChange}
                         onShowGroupEditHint={tableHandlers.handleShowGroupEditHint}
                         onAddBranchOption={tableActions.handleAddBranchOption}
@@ -1775,12 +2280,23 @@ export function ProjectTable() {
                         personProfiles={personProfiles}
                         allPersons={personOptions}
                         allBranches={branchOptions}
+                        taskTypes={taskTypes}
                         onRenamePersonGlobal={tableActions.handleRenamePersonGlobal}
                         onDeletePersonGlobal={tableActions.handleDeletePersonGlobal}
                         onMergePersonsGlobal={tableActions.handleMergePersonsGlobal}
                         onAddPersonOption={tableActions.handleAddPersonOption}
-                        dynamicValues={dynamicValues.get(project.id)}
+                        dynamicValues={rolledDynamicValues.get(project.id)}
+                        scheduleVariance={scheduleVariance.get(project.id)}
+                        progressMetrics={progressMetrics.get(project.id)}
+                        timeRollup={timeRollup.get(project.id)}
+                        formulaValues={formulaResults.get(project.id)}
+                        groupEditableColumns={groupEditableColumns}
+                        unreadComments={commentActivity.unreadByTask.get(project.id) || 0}
                         onUpdateDynamicCell={handleUpsertDynamicCell}
+                        activeCellToken={activeCellRowId === project.id ? cellGrid.active?.token : null}
+                        rangeCellTokens={cellGrid.rangeTokens.get(project.id)}
+                        onCellMouseDown={cellGrid.handleCellMouseDown}
+                        onCellMouseEnter={cellGrid.handleCellMouseEnter}
                         onAddDynamicTagOption={async (columnId, label) => {
                         const column = dynamicColumns.find((c) => c.id === columnId);
                         if (!column) return;
@@ -1851,6 +2367,26 @@ export function ProjectTable() {
           </DragOverlay>
         </DndContext>
 
+      {cellGrid.editing && cellGrid.active && cellGrid.activeColumn && (() => {
+        const address = cellGrid.active;
+        const column = cellGrid.activeColumn;
+        const cell = findCellElement(rowRefs, address);
+        if (!cell) return null;
+        const kind = cellEditKind(column);
+        return (
+          <CellEditor
+            key={`${address.rowId}:${address.token}`}
+            cell={cell}
+            kind={kind}
+            initialText={cellGrid.editing.seed ?? formatCellText(kind, readGridValue(address.rowId, column))}
+            replacing={cellGrid.editing.seed !== null}
+            options={gridOptionsFor(column).options}
+            onCommit={cellGrid.commitEdit}
+            onCancel={cellGrid.cancelEdit}
+          />
+        );
+      })()}
+
       <DynamicColumnsDialog
         newColumnDialog={newColumnDialog}
         setNewColumnDialog={setNewColumnDialog}
@@ -1865,6 +2401,20 @@ export function ProjectTable() {
         onCreateColumn={handleCreateDynamicColumn}
       />
 
+      {formulaEditorColumnId && (() => {
+        const column = dynamicColumns.find((c) => c.id === formulaEditorColumnId && c.type === 'formula');
+        if (!column) return null;
+        return (
+          <FormulaEditorDialog
+            key={column.id}
+            column={column}
+            columns={dynamicColumns}
+            onSave={handleSaveFormula}
+            onClose={() => setFormulaEditorColumnId(null)}
+          />
+        );
+      })()}
+
       <CommentsPanel
         commentsOpen={commentsOpen}
         setCommentsOpen={setCommentsOpen}
@@ -1874,14 +2424,31 @@ export function ProjectTable() {
         setCommentsTaskId={setCommentsTaskId}
         commentDraft={commentDraft}
         setCommentDraft={setCommentDraft}
+        linkUrlDraft={linkUrlDraft}
+        setLinkUrlDraft={setLinkUrlDraft}
         linkTitleDraft={linkTitleDraft}
         setLinkTitleDraft={setLinkTitleDraft}
         onAddComment={handleAddComment}
         onAddLinkComment={handleAddLinkComment}
+        onEditComment={handleEditComment}
         onDeleteComment={handleDeleteComment}
+        onToggleReaction={handleToggleCommentReaction}
+        onLoadActivity={loadTaskActivity}
+        persons={personOptions}
+        personProfiles={personProfiles}
         user={user || undefined}
       />
 
+      <TimeEntriesPanel
+        project={timeEntriesTaskId ? state.projects.find((p) => p.id === timeEntriesTaskId) || null : null}
+        entries={timeEntriesTaskId ? timeEntriesByTask.get(timeEntriesTaskId) || [] : []}
+        rollup={timeEntriesTaskId ? timeRollup.get(timeEntriesTaskId) || null : null}
+        allPersons={personOptions}
+        onClose={() => setTimeEntriesTaskId(null)}
+        onLogTime={handleLogTime}
+        onDeleteEntry={handleDeleteTimeEntry}
+      />
+
       {moveCopyColumnId && (
         <div className="fixed inset-0 z-[240] bg-black/30 flex items-center justify-center p-4">
           <div className="w-full max-w-md rounded-xl border border-border bg-white shadow-2xl p-4">
@@ -1900,12 +2467,12 @@ export function ProjectTable() {
                 .filter((token) => {
                   const q = moveCopyQuery.trim().toLowerCase();
                   if (!q) return true;
-                  const rc = renderColumns.find((c) => c.token === token);
+                  const rc = allRenderColumns.find((c) => c.token === token);
                   const label = rc?.kind === 'dynamic' ? (rc.column.name || rc.label) : rc?.label || token;
                   return String(label).toLowerCase().includes(q);
                 })
                 .map((token) => {
-                  const rc = renderColumns.find((c) => c.token === token);
+                  const rc = allRenderColumns.find((c) => c.token === token);
                   const label = rc?.kind === 'dynamic' ? (rc.column.name || rc.label) : rc?.label || token;
                   const selected = moveCopyTargetId === token;
                   return (
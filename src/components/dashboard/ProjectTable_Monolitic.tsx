@@ -106,6 +106,7 @@ const dynamicDisplayLabelEs: Record<DynamicDisplayType, string> = {
   checkbox: 'Casilla',
   progress: 'Avance',
   stars: 'Estrellas',
+  formula: 'Formula',
 };
 
 function isProgressColumn(column: DynamicColumn): boolean {
@@ -0,0 +1,200 @@
+import { useMemo, useState } from 'react';
+import { useProject } from '@/context/ProjectContext';
+import { useUiFeedback } from '@/context/UiFeedbackContext';
+import { AlertTriangle } from 'lucide-react';
+import type { CloudTaskRow } from '@/lib/cloudBoardRepository';
+import { parseStoredBranch } from '@/lib/cloudBoardRepository';
+import { CONFLICT_FIELDS, type ConflictChoice, type ConflictChoices, type ConflictFieldKey } from '@/lib/rowConflicts';
+import { normalizeBranchList } from '@/lib/branchUtils';
+
+type ChoicesById = Record<string, ConflictChoices>;
+
+const CHOICE_LABELS: Record<ConflictChoice, string> = {
+  mine: 'Mío',
+  theirs: 'Suyo',
+  both: 'Ambos',
+};
+
+// Whole-row choices when the task was deleted on one side
+const DELETED_CHOICE_LABELS: Record<'remote' | 'local', Record<'mine' | 'theirs', string>> = {
+  remote: { mine: 'Conservar', theirs: 'Eliminar' },
+  local: { mine: 'Eliminar', theirs: 'Conservar' },
+};
+
+const DELETED_MESSAGES: Record<'remote' | 'local', string> = {
+  remote: 'Otro editor eliminó esta tarea mientras la editabas.',
+  local: 'Eliminaste esta tarea, pero otro editor la modificó mientras tanto.',
+};
+
+export function SyncConflictDialog() {
+  const { state, syncConflicts, resolveSyncConflicts } = useProject();
+  const { toast } = useUiFeedback();
+  const [choices, setChoices] = useState<ChoicesById>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const nameById = useMemo(() => new Map(state.projects.map((p) => [p.id, p.name])), [state.projects]);
+  const fieldByKey = useMemo(() => new Map(CONFLICT_FIELDS.map((f) => [f.key, f])), []);
+
+  if (syncConflicts.length === 0) return null;
+
+  const formatValue = (row: CloudTaskRow, key: ConflictFieldKey): string => {
+    const value = row[key];
+    if (value === null || value === undefined || value === '') return '—';
+    if (key === 'assignees') return (value as string[]).join(', ') || '—';
+    if (key === 'branch') return normalizeBranchList(parseStoredBranch(String(value))).join(', ') || '—';
+    if (key === 'parent_id') return nameById.get(String(value)) || String(value);
+    if (key === 'blocks_to') {
+      try {
+        const ids = JSON.parse(String(value));
+        if (Array.isArray(ids)) return ids.map((id) => nameById.get(String(id)) || String(id)).join(', ');
+      } catch {
+        // plain text
+      }
+    }
+    return String(value);
+  };
+
+  const choose = (rowId: string, key: ConflictFieldKey | 'row', choice: ConflictChoice) => {
+    setChoices((prev) => ({ ...prev, [rowId]: { ...prev[rowId], [key]: choice } }));
+  };
+
+  const chooseAll = (choice: 'mine' | 'theirs') => {
+    const next: ChoicesById = {};
+    syncConflicts.forEach((c) => {
+      next[c.id] = c.deleted ? { row: choice } : Object.fromEntries(c.fields.map((key) => [key, choice]));
+    });
+    setChoices(next);
+  };
+
+  const handleApply = async () => {
+    const payload: ChoicesById = {};
+    syncConflicts.forEach((c) => {
+      payload[c.id] = { ...choices[c.id] };
+    });
+    setIsSaving(true);
+    try {
+      await resolveSyncConflicts(payload);
+      setChoices({});
+      toast('success', 'Conflictos resueltos');
+    } catch (err) {
+      toast('error', `No se pudieron guardar los cambios: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl mx-4 max-h-[85vh] flex flex-col">
+        <div className="px-5 py-4 border-b border-border">
+          <h3 className="text-base font-semibold text-text-primary flex items-center gap-2">
+            <AlertTriangle size={16} className="text-amber-600" />
+            Cambios en conflicto
+          </h3>
+          <p className="mt-1 text-xs text-text-secondary">
+            Otro editor cambió las mismas tareas mientras editabas. Elige qué conservar en cada caso.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {syncConflicts.map((conflict) => {
+            const deleted = conflict.deleted;
+            return (
+              <div key={conflict.id} className="rounded-md border border-border">
+                <div className="px-3 py-2 bg-bg-secondary text-xs font-semibold text-text-primary truncate">
+                  {conflict.name}
+                </div>
+                {deleted ? (
+                  <div className="flex items-center justify-between gap-3 px-3 py-2 border-t border-border text-xs">
+                    <span className="text-text-secondary">{DELETED_MESSAGES[deleted]}</span>
+                    <div className="flex items-center gap-0.5 rounded-md border border-border p-0.5 w-44">
+                      {(['mine', 'theirs'] as const).map((choice) => (
+                        <button
+                          key={choice}
+                          type="button"
+                          onClick={() => choose(conflict.id, 'row', choice)}
+                          className={`flex-1 px-2 py-0.5 rounded transition-colors ${
+                            (choices[conflict.id]?.row ?? 'mine') === choice
+                              ? 'bg-text-primary text-white'
+                              : 'text-text-secondary hover:bg-bg-secondary hover:text-text-primary'
+                          }`}
+                        >
+                          {DELETED_CHOICE_LABELS[deleted][choice]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-text-secondary">
+                        <th className="px-3 py-1.5 font-medium w-32">Campo</th>
+                        <th className="px-3 py-1.5 font-medium">Mío</th>
+                        <th className="px-3 py-1.5 font-medium">Suyo</th>
+                        <th className="px-3 py-1.5 font-medium w-44" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {conflict.fields.map((key) => {
+                        const field = fieldByKey.get(key);
+                        const selected = choices[conflict.id]?.[key] ?? 'mine';
+                        const options: ConflictChoice[] = field?.combinable ? ['mine', 'theirs', 'both'] : ['mine', 'theirs'];
+                        return (
+                          <tr key={key} className="border-t border-border">
+                            <td className="px-3 py-1.5 text-text-secondary">{field?.label || key}</td>
+                            <td className={`px-3 py-1.5 ${selected === 'mine' ? 'text-text-primary font-medium' : 'text-text-secondary'}`}>
+                              {formatValue(conflict.mine, key)}
+                            </td>
+                            <td className={`px-3 py-1.5 ${selected === 'theirs' ? 'text-text-primary font-medium' : 'text-text-secondary'}`}>
+                              {formatValue(conflict.theirs, key)}
+                            </td>
+                            <td className="px-3 py-1.5">
+                              <div className="flex items-center gap-0.5 rounded-md border border-border p-0.5">
+                                {options.map((choice) => (
+                                  <button
+                                    key={choice}
+                                    type="button"
+                                    onClick={() => choose(conflict.id, key, choice)}
+                                    className={`flex-1 px-2 py-0.5 rounded transition-colors ${
+                                      selected === choice
+                                        ? 'bg-text-primary text-white'
+                                        : 'text-text-secondary hover:bg-bg-secondary hover:text-text-primary'
+                                    }`}
+                                  >
+                                    {CHOICE_LABELS[choice]}
+                                  </button>
+                                ))}
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-5 py-4 border-t border-border">
+          <div className="flex items-center gap-2">
+            <button onClick={() => chooseAll('mine')} className="px-3 py-1.5 text-xs border border-border rounded-md hover:bg-bg-secondary transition-colors">
+              Conservar todo lo mío
+            </button>
+            <button onClick={() => chooseAll('theirs')} className="px-3 py-1.5 text-xs border border-border rounded-md hover:bg-bg-secondary transition-colors">
+              Aceptar todo lo suyo
+            </button>
+          </div>
+          <button
+            onClick={handleApply}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium bg-text-primary text-white rounded-md hover:bg-[#2c2a25] transition-colors disabled:opacity-40"
+          >
+            {isSaving ? 'Guardando...' : 'Aplicar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
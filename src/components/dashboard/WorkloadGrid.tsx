@@ -4,22 +4,26 @@ import { usePersonProfiles } from '@/context/PersonProfilesContext';
 import { LoadBubble } from '@/components/shared/LoadBubble';
 import { Toggle } from '@/components/shared/Toggle';
 import { DateRangeSlider } from '@/components/shared/DateRangeSlider';
+import { LevelingAssistant } from '@/components/dashboard/LevelingAssistant';
 import { ZoomControls, type TimePreset } from '@/components/shared/ZoomControls';
 import { aggregateByPeriod, getPersons } from '@/lib/workloadEngine';
 import { isParent, aggregateFromChildren } from '@/lib/hierarchyEngine';
 import { format, isSameDay, addMonths, addWeeks, addDays, startOfMonth, startOfWeek, isToday, eachDayOfInterval, getDay, isValid, subDays } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { ChevronLeft, ChevronRight, Calendar, X, ChevronsLeft, ChevronsRight } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Calendar, X, ChevronsLeft, ChevronsRight, Scale } from 'lucide-react';
 import type { Granularity, ProjectLoad, Project } from '@/lib/types';
 import { getLoadColor, PERSON_COLORS } from '@/lib/constants';
 import { isWorkingDay } from '@/lib/dateUtils';
 import { branchLabel } from '@/lib/branchUtils';
+import { acquireSyncHold } from '@/lib/syncScheduler';
+import { defaultTaskTypeName } from '@/lib/taskTypes';
 
 interface DetailPanel {
   person: string;
   periodStart: Date;
   periodEnd: Date;
   load: number;
+  capacity: number;
   projects: ProjectLoad[];
 }
 
@@ -29,6 +33,7 @@ export function WorkloadGrid() {
   const [viewStart, setViewStart] = useState<Date | null>(null);
   const [detailPanel, setDetailPanel] = useState<DetailPanel | null>(null);
   const [showDateSlider, setShowDateSlider] = useState(false);
+  const [showLeveling, setShowLeveling] = useState(false);
   const [customRange, setCustomRange] = useState<{ start: Date; end: Date } | null>(null);
   
   // Estado para zoom compartido
@@ -216,6 +221,7 @@ export function WorkloadGrid() {
       periodStart: cell.start,
       periodEnd: cell.end,
       load: cell.avgLoad,
+      capacity: cell.avgCapacity,
       projects: cell.projects,
     });
   }, [gridData]);
@@ -240,6 +246,8 @@ export function WorkloadGrid() {
 
   // Manejador de zoom compatible con ZoomControls
   const handleZoomChange = useCallback((newZoom: number, preset: TimePreset | null) => {
+    // Sliding hold: each zoom step extends it, so a refresh cannot reset the view mid-gesture
+    acquireSyncHold('zoom', { key: 'workload-grid', reason: 'Zoom de carga' });
     setZoomScale(newZoom);
     setActivePreset(preset);
     
@@ -345,6 +353,15 @@ export function WorkloadGrid() {
               <Calendar size={14} className="inline mr-1" />
               Fechas
             </button>
+
+            <button
+              onClick={() => setShowLeveling(true)}
+              className="px-2.5 py-1.5 text-xs font-medium rounded-lg border bg-white border-border text-text-secondary hover:bg-bg-secondary hover:text-text-primary transition-colors"
+              title="Proponer cambios de fechas para resolver sobrecargas"
+            >
+              <Scale size={14} className="inline mr-1" />
+              Nivelar carga
+            </button>
           </div>
 
           {/* Zoom Controls compartido */}
@@ -532,9 +549,17 @@ export function WorkloadGrid() {
         <DetailSidePanel
           panel={detailPanel}
           projects={detailProjects}
+          defaultType={defaultTaskTypeName(state.config.taskTypes)}
           onClose={() => setDetailPanel(null)}
         />
       )}
+
+      {showLeveling && (
+        <LevelingAssistant
+          initialPerson={detailPanel?.person ?? null}
+          onClose={() => setShowLeveling(false)}
+        />
+      )}
     </div>
   );
 }
@@ -542,10 +567,13 @@ export function WorkloadGrid() {
 function DetailSidePanel({
   panel,
   projects,
+  defaultType,
   onClose,
 }: {
   panel: DetailPanel;
   projects: { projectId: string; projectName: string; dailyLoad: number; fullProject?: Project }[];
+  // Tasks of this type show no type label
+  defaultType: string;
   onClose: () => void;
 }) {
   const color = getLoadColor(panel.load);
@@ -593,6 +621,13 @@ function DetailSidePanel({
             <div className="text-xs text-text-secondary mt-0.5">
               {projects.length} proyecto{projects.length !== 1 ? 's' : ''} activo{projects.length !== 1 ? 's' : ''}
             </div>
+            {panel.capacity < 1 && (
+              <div className="text-[11px] text-text-secondary mt-0.5">
+                {panel.capacity <= 0
+                  ? 'Persona ausente en este periodo'
+                  : `Sobre capacidad personal de ${Math.round(panel.capacity * 100)}%`}
+              </div>
+            )}
           </div>
         </div>
 
@@ -628,7 +663,7 @@ function DetailSidePanel({
                     {p.fullProject && (
                       <div className="text-[11px] text-text-secondary mt-0.5">
                         {branchLabel(p.fullProject.branch)}
-                        {p.fullProject.type !== 'Proyecto' && ` · ${p.fullProject.type}`}
+                        {p.fullProject.type !== defaultType && ` · ${p.fullProject.type}`}
                       </div>
                     )}
                   </div>
@@ -10,6 +10,7 @@ import { transformToProjectsWithDiagnostics, saveMappingConfig } from './helpers
 import { detectHierarchyChanges } from '@/lib/hierarchyEngine';
 import { useProject } from '@/context/ProjectContext';
 import { useUiFeedback } from '@/context/UiFeedbackContext';
+import { useSyncHold } from '@/lib/useSyncScheduler';
 import { createProjectsFromSample } from '@/lib/parseExcel';
 import { SAMPLE_DATA } from '@/lib/constants';
 import type { Project } from '@/lib/types';
@@ -28,8 +29,10 @@ const STEPS = [
 ];
 
 export function ImportWizard({ onComplete, onClose, isModal = false }: ImportWizardProps) {
-  const { state, dispatch } = useProject();
+  const { state, dispatch, createVersionSnapshot } = useProject();
   const { confirm, toast } = useUiFeedback();
+  // No cloud reloads while the wizard is open; one deferred reload runs when it closes
+  useSyncHold('import', true, 'Importación');
   const [currentStep, setCurrentStep] = useState(1);
   const [sheetData, setSheetData] = useState<ParsedSheetData | null>(null);
   const [mappings, setMappings] = useState<ColumnMapping[]>([]);
@@ -45,9 +48,10 @@ export function ImportWizard({ onComplete, onClose, isModal = false }: ImportWiz
   // Load sample data (skip wizard)
   const handleLoadSample = useCallback(() => {
     const projects = createProjectsFromSample(SAMPLE_DATA, state.config);
+    createVersionSnapshot('Antes de importar', { trigger: 'onImport' });
     dispatch({ type: 'SET_PROJECTS', payload: { projects, fileName: 'datos-ejemplo.xlsx' } });
     onComplete();
-  }, [state.config, dispatch, onComplete]);
+  }, [state.config, dispatch, createVersionSnapshot, onComplete]);
 
   // Step 2: Column mapping complete
   const handleStep2Complete = useCallback((newMappings: ColumnMapping[]) => {
@@ -94,6 +98,7 @@ export function ImportWizard({ onComplete, onClose, isModal = false }: ImportWiz
       }
     }
 
+    createVersionSnapshot('Antes de importar', { trigger: 'onImport' });
     dispatch({ type: 'SET_PROJECTS', payload: { projects, fileName: sheetData.fileName } });
     if (diagnostics.invalidDateCells.length > 0) {
       toast('info', `Importación completada: ${diagnostics.invalidDateCells.length} celdas con fecha inválida se descartaron.`);
@@ -102,7 +107,7 @@ export function ImportWizard({ onComplete, onClose, isModal = false }: ImportWiz
     setImportedProjects(projects);
     setImportedFileName(sheetData.fileName);
     setCurrentStep(4);
-  }, [sheetData, state.config, dispatch, confirm, toast]);
+  }, [sheetData, state.config, dispatch, createVersionSnapshot, confirm, toast]);
 
   // Step 3: Validation complete, do import
   const handleStep3Complete = useCallback(async (skipRows: number[]) => {
@@ -140,6 +145,7 @@ export function ImportWizard({ onComplete, onClose, isModal = false }: ImportWiz
       }
     }
 
+    createVersionSnapshot('Antes de importar', { trigger: 'onImport' });
     dispatch({ type: 'SET_PROJECTS', payload: { projects, fileName: sheetData.fileName } });
     if (diagnostics.invalidDateCells.length > 0) {
       toast('info', `Importación completada: ${diagnostics.invalidDateCells.length} celdas con fecha inválida se descartaron.`);
@@ -148,7 +154,7 @@ export function ImportWizard({ onComplete, onClose, isModal = false }: ImportWiz
     setImportedProjects(projects);
     setImportedFileName(sheetData.fileName);
     setCurrentStep(4);
-  }, [sheetData, mappings, state.config, dispatch, confirm, toast]);
+  }, [sheetData, mappings, state.config, dispatch, createVersionSnapshot, confirm, toast]);
 
   // Step 4: Finish
   const handleFinish = useCallback(() => {
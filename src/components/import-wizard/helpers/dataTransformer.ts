@@ -1,8 +1,10 @@
 import * as XLSX from 'xlsx';
-import type { Project, AppConfig } from '@/lib/types';
+import type { Project, AppConfig, TaskType } from '@/lib/types';
 import { computeProjectFields } from '@/lib/workloadEngine';
 import { parseAssignees } from '@/lib/assigneeHelpers';
 import { normalizeBranchList } from '@/lib/branchUtils';
+import { DEFAULT_TASK_TYPES } from '@/lib/constants';
+import { matchTaskType } from '@/lib/taskTypes';
 import type { ColumnMapping } from './columnDetector';
 import {
   enrichRowsWithParent,
@@ -28,7 +30,7 @@ function buildStrictDate(year: number, month1Based: number, day: number): Date |
   return d;
 }
 
-function parseExcelDate(value: unknown): Date | null {
+export function parseExcelDate(value: unknown): Date | null {
   if (!value) return null;
   if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
   if (typeof value === 'number') {
@@ -57,7 +59,7 @@ function parseExcelDate(value: unknown): Date | null {
   return null;
 }
 
-function parsePriority(value: unknown): number {
+export function parsePriority(value: unknown): number {
   if (!value) return 1;
   if (typeof value === 'number') return Math.max(1, Math.min(5, Math.round(value)));
   if (typeof value === 'string') {
@@ -76,13 +78,9 @@ function parsePriority(value: unknown): number {
   return 1;
 }
 
-function parseType(value: unknown): 'Proyecto' | 'Lanzamiento' | 'En radar' {
-  if (!value) return 'Proyecto';
-  const str = String(value).toLowerCase().trim()
-    .normalize('NFD').replace(/[\u0300-\u036f]/g, '');
-  if (str.includes('lanzamiento') || str.includes('launch')) return 'Lanzamiento';
-  if (str.includes('radar') || str.includes('en radar')) return 'En radar';
-  return 'Proyecto';
+/** Name of the board type the cell refers to (see matchTaskType) */
+export function parseType(value: unknown, taskTypes: TaskType[] = DEFAULT_TASK_TYPES): string {
+  return matchTaskType(value, taskTypes);
 }
 
 function parsePercentage(value: unknown): number | null {
@@ -178,7 +176,7 @@ export function transformToProjectsWithDiagnostics(
       assignees: parseAssignees(getVal(row, 'assignee') ? String(getVal(row, 'assignee')) : null),
       daysRequired: Number(getVal(row, 'daysRequired')) || 0,
       priority: parsePriority(getVal(row, 'priority')),
-      type: parseType(getVal(row, 'type')),
+      type: parseType(getVal(row, 'type'), config.taskTypes),
       blockedBy: getVal(row, 'blockedBy') ? String(getVal(row, 'blockedBy')).trim() : null,
       blocksTo: getVal(row, 'blocksTo') ? String(getVal(row, 'blocksTo')).trim() : null,
       reportedLoad: parsePercentage(getVal(row, 'reportedLoad')),
@@ -254,7 +252,8 @@ export function transformToProjectsWithDiagnostics(
 export function buildRawForValidation(
   rows: Record<string, unknown>[],
   mappings: ColumnMapping[],
-  skipGroupRows: number[] = []
+  skipGroupRows: number[] = [],
+  taskTypes: TaskType[] = DEFAULT_TASK_TYPES
 ): Array<Record<string, unknown> & { _rowIndex: number }> {
   const skipSet = new Set(skipGroupRows);
   const fieldToColumn = new Map<string, string>();
@@ -285,7 +284,7 @@ export function buildRawForValidation(
           mapped[field] = parsePriority(val);
           break;
         case 'type':
-          mapped[field] = parseType(val);
+          mapped[field] = parseType(val, taskTypes);
           break;
         case 'reportedLoad':
           mapped[field] = parsePercentage(val);
@@ -3,6 +3,9 @@
  */
 
 import { normalizeString, levenshteinDistance } from './fuzzyMatch';
+import type { TaskType } from '@/lib/types';
+import { DEFAULT_TASK_TYPES } from '@/lib/constants';
+import { countsTowardLoad } from '@/lib/taskTypes';
 
 export type ValidationSeverity = 'error' | 'warning' | 'info';
 
@@ -51,8 +54,9 @@ interface RawProject {
 
 /**
  * Validate all imported data and return issues
+ * Load warnings are skipped for types that do not count toward load
  */
-export function validateImportData(projects: RawProject[]): ValidationResult {
+export function validateImportData(projects: RawProject[], taskTypes: TaskType[] = DEFAULT_TASK_TYPES): ValidationResult {
   const issues: ValidationIssue[] = [];
   const allNames: string[] = [];
   const allAssignees: string[] = [];
@@ -84,7 +88,7 @@ export function validateImportData(projects: RawProject[]): ValidationResult {
           message: `Fila ${row + 1}: "${proj.name}" — Días requeridos inválido`,
           suggestion: 'Debe ser un número positivo',
         });
-      } else if (days === 0 && proj.type !== 'En radar') {
+      } else if (days === 0 && countsTowardLoad({ type: proj.type || '' }, taskTypes)) {
         issues.push({
           rowIndex: row,
           field: 'daysRequired',
@@ -116,7 +120,7 @@ export function validateImportData(projects: RawProject[]): ValidationResult {
     }
 
     // 4. Missing dates warning (when assignee exists)
-    if (proj.assignees.length > 0 && (!proj.startDate || !proj.endDate) && proj.type !== 'En radar') {
+    if (proj.assignees.length > 0 && (!proj.startDate || !proj.endDate) && countsTowardLoad({ type: proj.type || '' }, taskTypes)) {
       issues.push({
         rowIndex: row,
         field: 'startDate',
@@ -127,7 +131,7 @@ export function validateImportData(projects: RawProject[]): ValidationResult {
     }
 
     // 5. Missing assignee warning (when dates exist)
-    if (proj.startDate && proj.endDate && proj.assignees.length === 0 && proj.type !== 'En radar') {
+    if (proj.startDate && proj.endDate && proj.assignees.length === 0 && countsTowardLoad({ type: proj.type || '' }, taskTypes)) {
       issues.push({
         rowIndex: row,
         field: 'assignee',
@@ -1,4 +1,5 @@
 import { useState, useMemo } from 'react';
+import { useProject } from '@/context/ProjectContext';
 import { DataPreviewTable } from '../ui/DataPreviewTable';
 import { ValidationMessage, ValidationSummary } from '../ui/ValidationMessage';
 import { validateImportData } from '../helpers/validationEngine';
@@ -19,6 +20,8 @@ interface Step3Props {
 }
 
 export function Step3_DataPreview({ sheetData, mappings, onComplete, onBack }: Step3Props) {
+  const { state } = useProject();
+  const taskTypes = state.config.taskTypes;
   const [expandedSection, setExpandedSection] = useState<'errors' | 'warnings' | 'info' | null>('errors');
   const [skipGroupRows, setSkipGroupRows] = useState<number[]>([]);
 
@@ -36,8 +39,8 @@ export function Step3_DataPreview({ sheetData, mappings, onComplete, onBack }: S
 
   // Build raw data for validation
   const rawProjects = useMemo(() => {
-    return buildRawForValidation(sheetData.rows, mappings, skipGroupRows);
-  }, [sheetData.rows, mappings, skipGroupRows]);
+    return buildRawForValidation(sheetData.rows, mappings, skipGroupRows, taskTypes);
+  }, [sheetData.rows, mappings, skipGroupRows, taskTypes]);
 
   // Hierarchy preview: compute parent mapping using indent levels (exceljs-provided or fallback)
   const hierarchyPreview = useMemo(() => {
@@ -93,8 +96,8 @@ export function Step3_DataPreview({ sheetData, mappings, onComplete, onBack }: S
 
   // Run validation
   const validation = useMemo(() => {
-    return validateImportData(rawProjects);
-  }, [rawProjects]);
+    return validateImportData(rawProjects, taskTypes);
+  }, [rawProjects, taskTypes]);
 
   const errors = validation.issues.filter(i => i.severity === 'error');
   const warnings = validation.issues.filter(i => i.severity === 'warning');
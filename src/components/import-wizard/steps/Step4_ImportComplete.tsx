@@ -1,5 +1,7 @@
 import { CheckCircle, Users, Calendar, FolderOpen, Lightbulb, ArrowRight } from 'lucide-react';
 import type { Project } from '@/lib/types';
+import { useProject } from '@/context/ProjectContext';
+import { TaskTypeIcon } from '@/components/shared/TaskTypeIcon';
 
 interface Step4Props {
   projects: Project[];
@@ -8,6 +10,7 @@ interface Step4Props {
 }
 
 export function Step4_ImportComplete({ projects, fileName, onFinish }: Step4Props) {
+  const { state } = useProject();
   // Calculate stats
   const persons = [...new Set(projects.flatMap(p => p.assignees))];
   const activeDates = projects.filter(p => p.startDate && p.endDate);
@@ -19,11 +22,9 @@ export function Step4_ImportComplete({ projects, fileName, onFinish }: Step4Prop
     if (p.endDate && (!maxDate || p.endDate > maxDate)) maxDate = p.endDate;
   }
 
-  const projectTypes = {
-    proyecto: projects.filter(p => p.type === 'Proyecto').length,
-    lanzamiento: projects.filter(p => p.type === 'Lanzamiento').length,
-    enRadar: projects.filter(p => p.type === 'En radar').length,
-  };
+  const projectTypes = state.config.taskTypes
+    .map(t => ({ type: t, count: projects.filter(p => p.type === t.name).length }))
+    .filter(x => x.count > 0);
 
   const withDates = projects.filter(p => p.startDate && p.endDate).length;
   const withoutDates = projects.length - withDates;
@@ -58,21 +59,12 @@ export function Step4_ImportComplete({ projects, fileName, onFinish }: Step4Prop
             {projects.length}
           </p>
           <div className="flex flex-wrap gap-1 mt-1.5">
-            {projectTypes.proyecto > 0 && (
-              <span className="text-[10px] px-1.5 py-0.5 rounded bg-white border border-border text-text-secondary">
-                {projectTypes.proyecto} proyectos
+            {projectTypes.map(({ type, count }) => (
+              <span key={type.name} className="inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded bg-white border border-border text-text-secondary">
+                <TaskTypeIcon icon={type.icon} color={type.color} size={10} />
+                {count} {type.name}
               </span>
-            )}
-            {projectTypes.lanzamiento > 0 && (
-              <span className="text-[10px] px-1.5 py-0.5 rounded bg-accent-blue text-[#1A5276]">
-                {projectTypes.lanzamiento} lanzamientos
-              </span>
-            )}
-            {projectTypes.enRadar > 0 && (
-              <span className="text-[10px] px-1.5 py-0.5 rounded bg-bg-secondary text-text-secondary">
-                {projectTypes.enRadar} en radar
-              </span>
-            )}
+            ))}
           </div>
         </div>
 
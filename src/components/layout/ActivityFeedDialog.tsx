@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { useProject } from '@/context/ProjectContext';
+import { ActivityList } from '@/components/shared/ActivityList';
+import type { ActivityEntry } from '@/lib/activityLogRepository';
+
+type ActivityFilter = 'all' | 'tasks' | 'comments';
+
+const FILTER_LABELS: Record<ActivityFilter, string> = {
+  all: 'Todo',
+  tasks: 'Cambios en elementos',
+  comments: 'Comentarios',
+};
+
+interface ActivityFeedDialogProps {
+  onClose: () => void;
+}
+
+export function ActivityFeedDialog({ onClose }: ActivityFeedDialogProps) {
+  const { loadBoardActivity } = useProject();
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ActivityFilter>('all');
+  const [query, setQuery] = useState('');
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await loadBoardActivity());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadBoardActivity]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return entries.filter((entry) => {
+      const isComment = entry.action.startsWith('comment.');
+      if (filter === 'comments' && !isComment) return false;
+      if (filter === 'tasks' && isComment) return false;
+      if (!q) return true;
+      return entry.task_name.toLowerCase().includes(q) || (entry.actor_label || '').toLowerCase().includes(q);
+    });
+  }, [entries, filter, query]);
+
+  return (
+    <div className="fixed inset-0 z-[155] flex items-center justify-center bg-black/35" onClick={onClose}>
+      <div className="w-[640px] max-w-[94vw] max-h-[82vh] rounded-xl border border-border bg-white shadow-2xl overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-border flex items-center justify-between">
+          <div className="text-sm font-semibold text-text-primary">Actividad del tablero</div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => void refresh()}
+              disabled={isLoading}
+              className="h-7 w-7 inline-flex items-center justify-center rounded border border-border text-text-secondary hover:bg-bg-secondary disabled:opacity-40"
+              title="Actualizar"
+            >
+              <RefreshCw size={12} className={isLoading ? 'animate-spin' : ''} />
+            </button>
+            <button className="text-xs px-2 py-1 rounded border border-border hover:bg-bg-secondary" onClick={onClose}>Cerrar</button>
+          </div>
+        </div>
+        <div className="px-4 py-2 border-b border-border/70 flex items-center gap-2">
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as ActivityFilter)}
+            className="h-8 px-2 text-xs border border-border rounded-md bg-white"
+          >
+            {(Object.keys(FILTER_LABELS) as ActivityFilter[]).map((key) => (
+              <option key={key} value={key}>{FILTER_LABELS[key]}</option>
+            ))}
+          </select>
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Buscar por elemento o persona..."
+            className="flex-1 h-8 px-2.5 text-xs border border-border rounded-md outline-none focus:ring-2 focus:ring-blue-100"
+          />
+        </div>
+        <div className="flex-1 overflow-auto px-4">
+          {error ? (
+            <div className="py-10 text-center text-sm text-red-700">No se pudo cargar la actividad: {error}</div>
+          ) : isLoading && entries.length === 0 ? (
+            <div className="py-10 text-center text-sm text-text-secondary">Cargando actividad...</div>
+          ) : visible.length === 0 ? (
+            <div className="py-10 text-center text-sm text-text-secondary">No hay actividad para mostrar.</div>
+          ) : (
+            <ActivityList entries={visible} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, CornerDownLeft, Keyboard, Search } from 'lucide-react';
+import { useCommands } from '@/context/CommandsContext';
+import { useUiFeedback } from '@/context/UiFeedbackContext';
+import {
+  COMMAND_SECTION_LABELS,
+  bindingFromEvent,
+  formatBinding,
+  fuzzyMatch,
+  isAssignableBinding,
+  searchCommands,
+  type CommandChoice,
+  type CommandDefinition,
+} from '@/lib/commands';
+import { cn } from '@/utils/cn';
+
+function KeyChord({ binding, className }: { binding: string; className?: string }) {
+  return (
+    <span className={cn('inline-flex items-center gap-0.5', className)}>
+      {formatBinding(binding).map((part, i) => (
+        <kbd key={i} className="min-w-[18px] text-center text-[10px] text-text-secondary border border-border rounded px-1 py-0.5 bg-white">
+          {part}
+        </kbd>
+      ))}
+    </span>
+  );
+}
+
+function Highlighted({ text, positions }: { text: string; positions: number[] }) {
+  if (positions.length === 0) return <>{text}</>;
+  const marked = new Set(positions);
+  return (
+    <>
+      {Array.from(text).map((char, i) => (
+        marked.has(i) ? <span key={i} className="font-semibold text-blue-700">{char}</span> : <Fragment key={i}>{char}</Fragment>
+      ))}
+    </>
+  );
+}
+
+interface PaletteItem {
+  key: string;
+  label: string;
+  positions: number[];
+  hint?: string;
+  binding?: string | null;
+  section?: CommandDefinition['section'];
+  disabled?: boolean;
+  onPick: () => void;
+}
+
+function CommandList({ initialChoicesFor }: { initialChoicesFor: string | null }) {
+  const { commands, bindingFor, closePalette, openPalette, runCommand, getCommandChoices } = useCommands();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [choiceStep, setChoiceStep] = useState<{ command: CommandDefinition; choices: CommandChoice[] } | null>(() => {
+    const command = initialChoicesFor ? commands.find((c) => c.id === initialChoicesFor) : null;
+    return command ? { command, choices: getCommandChoices(command.id) } : null;
+  });
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [choiceStep]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    if (choiceStep) {
+      return choiceStep.choices
+        .map((choice) => ({ choice, match: fuzzyMatch(query, choice.label) }))
+        .filter((entry) => !!entry.match)
+        .sort((a, b) => (query.trim() ? (b.match?.score ?? 0) - (a.match?.score ?? 0) : 0))
+        .map(({ choice, match }) => ({
+          key: choice.id,
+          label: choice.label,
+          hint: choice.hint,
+          positions: match?.positions || [],
+          onPick: () => {
+            closePalette();
+            runCommand(choiceStep.command.id, choice.id);
+          },
+        }));
+    }
+    return searchCommands(commands, query).map(({ command, titlePositions }) => ({
+      key: command.id,
+      label: command.title,
+      positions: titlePositions,
+      binding: bindingFor(command),
+      section: command.section,
+      disabled: command.enabled === false,
+      onPick: () => {
+        if (command.enabled === false) return;
+        if (command.choices) {
+          setChoiceStep({ command, choices: getCommandChoices(command.id) });
+          setQuery('');
+          setActiveIndex(0);
+          return;
+        }
+        closePalette();
+        runCommand(command.id);
+      },
+    }));
+  }, [choiceStep, commands, query, bindingFor, closePalette, runCommand, getCommandChoices]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector<HTMLElement>(`[data-item-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const onInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(items.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      items[activeIndex]?.onPick();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      if (choiceStep) {
+        setChoiceStep(null);
+        setQuery('');
+      } else {
+        closePalette();
+      }
+    } else if (e.key === 'Backspace' && !query && choiceStep) {
+      e.preventDefault();
+      setChoiceStep(null);
+    }
+  };
+
+  // Section headers only make sense in registry order, before the user types
+  const grouped = !choiceStep && !query.trim();
+
+  return (
+    <>
+      <div className="flex items-center gap-2 px-3 border-b border-border">
+        {choiceStep ? (
+          <button
+            type="button"
+            onClick={() => setChoiceStep(null)}
+            className="h-6 inline-flex items-center gap-0.5 rounded px-1 text-[11px] text-text-secondary hover:bg-bg-secondary flex-shrink-0"
+            title="Volver a los comandos"
+          >
+            <ChevronLeft size={13} />
+            {choiceStep.command.title}
+          </button>
+        ) : (
+          <Search size={15} className="text-text-secondary" />
+        )}
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={onInputKeyDown}
+          placeholder={choiceStep ? 'Elige una opcion...' : 'Escribe un comando...'}
+          className="flex-1 h-11 text-sm outline-none bg-transparent"
+        />
+        <kbd className="text-[10px] text-text-secondary border border-border rounded px-1.5 py-0.5">Esc</kbd>
+      </div>
+
+      <div ref={listRef} className="max-h-[52vh] overflow-y-auto py-1">
+        {items.length === 0 ? (
+          <div className="px-4 py-8 text-center text-sm text-text-secondary">
+            {choiceStep && choiceStep.choices.length === 0 ? 'No hay opciones disponibles.' : 'Sin coincidencias.'}
+          </div>
+        ) : (
+          items.map((item, i) => (
+            <Fragment key={item.key}>
+              {grouped && item.section && item.section !== items[i - 1]?.section && (
+                <div className="px-3 pt-2 pb-1 text-[10px] font-medium uppercase tracking-wide text-text-secondary">
+                  {COMMAND_SECTION_LABELS[item.section]}
+                </div>
+              )}
+              <button
+                type="button"
+                data-item-index={i}
+                onMouseEnter={() => setActiveIndex(i)}
+                onClick={item.onPick}
+                className={cn(
+                  'w-full flex items-center gap-3 text-left px-3 py-1.5 text-sm',
+                  item.disabled ? 'text-text-secondary/60 cursor-default' : 'text-text-primary',
+                  i === activeIndex && !item.disabled ? 'bg-blue-50' : i === activeIndex ? 'bg-bg-secondary' : ''
+                )}
+              >
+                <span className="flex-1 truncate">
+                  <Highlighted text={item.label} positions={item.positions} />
+                  {item.hint && <span className="ml-2 text-[11px] text-text-secondary">{item.hint}</span>}
+                </span>
+                {item.disabled && <span className="text-[10px]">No disponible</span>}
+                {item.binding && <KeyChord binding={item.binding} className="flex-shrink-0" />}
+              </button>
+            </Fragment>
+          ))
+        )}
+      </div>
+
+      <div className="px-3 py-1.5 border-t border-border text-[10px] text-text-secondary flex items-center justify-between">
+        <span className="inline-flex items-center gap-1">↑↓ para moverse · <CornerDownLeft size={10} /> para ejecutar</span>
+        <button type="button" onClick={() => openPalette('bindings')} className="inline-flex items-center gap-1 hover:text-text-primary">
+          <Keyboard size={11} /> Atajos de teclado
+        </button>
+      </div>
+    </>
+  );
+}
+
+function KeyBindingsEditor() {
+  const {
+    commands,
+    bindingFor,
+    hasCustomBinding,
+    setKeyBinding,
+    resetKeyBinding,
+    resetAllKeyBindings,
+    setRecordingBinding,
+    closePalette,
+    openPalette,
+  } = useCommands();
+  const { confirm } = useUiFeedback();
+  const [query, setQuery] = useState('');
+  const [recordingFor, setRecordingFor] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    if (!recordingFor) return;
+    setRecordingBinding(true);
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecordingFor(null);
+        return;
+      }
+      const chord = bindingFromEvent(e);
+      if (!chord) return;
+      if (!isAssignableBinding(chord)) {
+        setNotice('Combina la tecla con Ctrl o Alt, o usa una tecla de funcion (F1-F12).');
+        return;
+      }
+      const previousOwner = commands.find((c) => c.id !== recordingFor && bindingFor(c) === chord);
+      setKeyBinding(recordingFor, chord);
+      setNotice(previousOwner ? `${formatBinding(chord).join('+')} se quito de "${previousOwner.title}".` : null);
+      setRecordingFor(null);
+    };
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+    return () => {
+      window.removeEventListener('keydown', onKeyDown, { capture: true });
+      setRecordingBinding(false);
+    };
+  }, [recordingFor, commands, bindingFor, setKeyBinding, setRecordingBinding]);
+
+  const visible = useMemo(
+    () => searchCommands(commands, query).map((r) => r.command),
+    [commands, query]
+  );
+
+  const handleResetAll = async () => {
+    const ok = await confirm({
+      title: 'Restablecer atajos',
+      message: 'Todos los comandos volveran a sus atajos predeterminados.',
+      confirmText: 'Restablecer',
+    });
+    if (ok) {
+      resetAllKeyBindings();
+      setNotice(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-2 px-3 border-b border-border">
+        <button
+          type="button"
+          onClick={() => openPalette('commands')}
+          className="h-6 w-6 inline-flex items-center justify-center rounded text-text-secondary hover:bg-bg-secondary flex-shrink-0"
+          title="Volver a los comandos"
+        >
+          <ChevronLeft size={14} />
+        </button>
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              e.preventDefault();
+              closePalette();
+            }
+          }}
+          placeholder="Buscar comando para cambiar su atajo..."
+          className="flex-1 h-11 text-sm outline-none bg-transparent"
+        />
+      </div>
+
+      {notice && <div className="px-3 py-1.5 text-[11px] text-amber-800 bg-amber-50 border-b border-amber-100">{notice}</div>}
+
+      <div className="max-h-[52vh] overflow-y-auto py-1">
+        {visible.map((command) => {
+          const binding = bindingFor(command);
+          const recording = recordingFor === command.id;
+          return (
+            <div key={command.id} className={cn('flex items-center gap-2 px-3 py-1.5 text-sm', recording && 'bg-blue-50')}>
+              <span className="flex-1 truncate text-text-primary">
+                {command.title}
+                <span className="ml-2 text-[10px] text-text-secondary">{COMMAND_SECTION_LABELS[command.section]}</span>
+              </span>
+              {recording ? (
+                <span className="text-[11px] text-blue-700">Pulsa la combinacion... (Esc cancela)</span>
+              ) : binding ? (
+                <KeyChord binding={binding} />
+              ) : (
+                <span className="text-[11px] text-text-secondary">Sin atajo</span>
+              )}
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setNotice(null);
+                    setRecordingFor(recording ? null : command.id);
+                  }}
+                  className="px-1.5 py-0.5 text-[11px] rounded border border-border hover:bg-bg-secondary"
+                >
+                  {recording ? 'Cancelar' : 'Cambiar'}
+                </button>
+                {binding && !recording && (
+                  <button
+                    type="button"
+                    onClick={() => setKeyBinding(command.id, null)}
+                    className="px-1.5 py-0.5 text-[11px] rounded border border-border hover:bg-bg-secondary"
+                  >
+                    Quitar
+                  </button>
+                )}
+                {hasCustomBinding(command.id) && !recording && (
+                  <button
+                    type="button"
+                    onClick={() => resetKeyBinding(command.id)}
+                    className="px-1.5 py-0.5 text-[11px] rounded text-text-secondary hover:text-text-primary"
+                    title="Volver al atajo predeterminado"
+                  >
+                    Restablecer
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="px-3 py-1.5 border-t border-border text-[10px] text-text-secondary flex items-center justify-between">
+        <span>Los comandos de la fila aparecen al seleccionar una fila en la tabla.</span>
+        <button type="button" onClick={() => void handleResetAll()} className="hover:text-text-primary">
+          Restablecer todos
+        </button>
+      </div>
+    </>
+  );
+}
+
+/** Ctrl+Shift+P palette over every registered command, plus the key binding editor */
+export function CommandPalette() {
+  const { paletteMode, paletteChoicesFor, closePalette } = useCommands();
+
+  if (!paletteMode) return null;
+
+  return (
+    <div className="fixed inset-0 z-[180] flex items-start justify-center bg-black/25 pt-[12vh]" onMouseDown={closePalette}>
+      <div
+        className="w-[620px] max-w-[94vw] rounded-xl border border-border bg-white shadow-2xl overflow-hidden"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        {paletteMode === 'bindings'
+          ? <KeyBindingsEditor />
+          : <CommandList key={paletteChoicesFor || 'commands'} initialChoicesFor={paletteChoicesFor} />}
+      </div>
+    </div>
+  );
+}
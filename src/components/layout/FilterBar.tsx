@@ -1,30 +1,63 @@
 import { useProject } from '@/context/ProjectContext';
+import { useRegisterCommands } from '@/context/CommandsContext';
 import { Toggle } from '@/components/shared/Toggle';
 import { Badge } from '@/components/shared/Badge';
-import { X, Filter, CircleHelp } from 'lucide-react';
-import { useEffect, useRef, useState } from 'react';
+import { TaskTypeIcon } from '@/components/shared/TaskTypeIcon';
+import { QueryBuilderPanel } from '@/components/layout/QueryBuilderPanel';
+import { countQueryConditions } from '@/lib/queryFilter';
+import { X, Filter, CircleHelp, SlidersHorizontal } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 
 export function FilterBar() {
-  const { state, dispatch, allPersons, allBranches, customFilterColumns, customFilterTagOptionsByColumn } = useProject();
+  const { state, dispatch, allPersons, allBranches, customFilterColumns, customFilterTagOptionsByColumn, queryFields } = useProject();
   const [showPersons, setShowPersons] = useState(false);
   const [showBranches, setShowBranches] = useState(false);
   const [showTypes, setShowTypes] = useState(false);
   const [showCustom, setShowCustom] = useState(false);
+  const [showQuery, setShowQuery] = useState(false);
   const personsRef = useRef<HTMLDivElement | null>(null);
   const branchesRef = useRef<HTMLDivElement | null>(null);
   const typesRef = useRef<HTMLDivElement | null>(null);
   const customRef = useRef<HTMLDivElement | null>(null);
+  const queryRef = useRef<HTMLDivElement | null>(null);
   const isLoadContext = state.activeView === 'grid' || state.activeView === 'chart' || state.activeView === 'persons';
 
-  const types = ['Proyecto', 'Lanzamiento', 'En radar'];
+  const taskTypes = state.config.taskTypes;
   const customColumn = customFilterColumns.find((c) => c.id === state.filters.customColumnId) || null;
   const hasCustomSelection = !!customColumn && (state.filters.customTags.length > 0 || state.filters.customStars.length > 0);
+  const queryConditionCount = countQueryConditions(state.filters.query);
   const hasFilters =
     state.filters.persons.length > 0 ||
     state.filters.branches.length > 0 ||
     state.filters.types.length > 0 ||
     hasCustomSelection ||
-    state.filters.showOnlyActive;
+    queryConditionCount > 0 ||
+    state.filters.showOnlyActive ||
+    state.filters.showOnlyBehind;
+
+  useRegisterCommands(useMemo(() => [
+    {
+      id: 'filters.reset',
+      title: 'Limpiar filtros',
+      section: 'view' as const,
+      keywords: ['quitar filtros', 'reset'],
+      enabled: hasFilters,
+      run: () => dispatch({ type: 'RESET_FILTERS' }),
+    },
+    {
+      id: 'filters.advanced',
+      title: 'Abrir filtro avanzado',
+      section: 'view' as const,
+      keywords: ['consulta', 'condiciones', 'query'],
+      run: () => {
+        setShowPersons(false);
+        setShowBranches(false);
+        setShowTypes(false);
+        setShowCustom(false);
+        setShowQuery(true);
+      },
+    },
+  ], [hasFilters, dispatch]));
 
   const togglePerson = (p: string) => {
     const persons = state.filters.persons.includes(p)
@@ -71,6 +104,7 @@ export function FilterBar() {
       setShowBranches(false);
       setShowTypes(false);
       setShowCustom(false);
+      setShowQuery(false);
     };
 
     const onPointerDown = (event: MouseEvent) => {
@@ -79,7 +113,8 @@ export function FilterBar() {
       const insideBranches = !!branchesRef.current?.contains(target);
       const insideTypes = !!typesRef.current?.contains(target);
       const insideCustom = !!customRef.current?.contains(target);
-      if (!insidePersons && !insideBranches && !insideTypes && !insideCustom) {
+      const insideQuery = !!queryRef.current?.contains(target);
+      if (!insidePersons && !insideBranches && !insideTypes && !insideCustom && !insideQuery) {
         closeAll();
       }
     };
@@ -126,7 +161,7 @@ export function FilterBar() {
 
       <div ref={personsRef} className="relative">
         <button
-          onClick={() => { setShowPersons(!showPersons); setShowBranches(false); setShowTypes(false); setShowCustom(false); }}
+          onClick={() => { setShowPersons(!showPersons); setShowBranches(false); setShowTypes(false); setShowCustom(false); setShowQuery(false); }}
           className="px-2.5 py-1 text-xs rounded-md border border-border hover:bg-bg-secondary transition-colors text-text-secondary"
         >
           Personas {state.filters.persons.length > 0 && `(${state.filters.persons.length})`}
@@ -145,7 +180,7 @@ export function FilterBar() {
 
       <div ref={branchesRef} className="relative">
         <button
-          onClick={() => { setShowBranches(!showBranches); setShowPersons(false); setShowTypes(false); setShowCustom(false); }}
+          onClick={() => { setShowBranches(!showBranches); setShowPersons(false); setShowTypes(false); setShowCustom(false); setShowQuery(false); }}
           className="px-2.5 py-1 text-xs rounded-md border border-border hover:bg-bg-secondary transition-colors text-text-secondary"
         >
           Sucursales {state.filters.branches.length > 0 && `(${state.filters.branches.length})`}
@@ -164,17 +199,18 @@ export function FilterBar() {
 
       <div ref={typesRef} className="relative">
         <button
-          onClick={() => { setShowTypes(!showTypes); setShowPersons(false); setShowBranches(false); setShowCustom(false); }}
+          onClick={() => { setShowTypes(!showTypes); setShowPersons(false); setShowBranches(false); setShowCustom(false); setShowQuery(false); }}
           className="px-2.5 py-1 text-xs rounded-md border border-border hover:bg-bg-secondary transition-colors text-text-secondary"
         >
           Tipo {state.filters.types.length > 0 && `(${state.filters.types.length})`}
         </button>
         {showTypes && (
           <div className="absolute top-full mt-1 left-0 bg-white border border-border rounded-md shadow-lg z-50 p-2 min-w-[140px]">
-            {types.map((t) => (
-              <label key={t} className="flex items-center gap-2 px-2 py-1.5 text-xs hover:bg-bg-secondary rounded cursor-pointer">
-                <input type="checkbox" checked={state.filters.types.includes(t)} onChange={() => toggleType(t)} className="rounded" />
-                {t}
+            {taskTypes.map((t) => (
+              <label key={t.name} className="flex items-center gap-2 px-2 py-1.5 text-xs hover:bg-bg-secondary rounded cursor-pointer">
+                <input type="checkbox" checked={state.filters.types.includes(t.name)} onChange={() => toggleType(t.name)} className="rounded" />
+                <TaskTypeIcon icon={t.icon} color={t.color} />
+                {t.name}
               </label>
             ))}
           </div>
@@ -183,7 +219,7 @@ export function FilterBar() {
 
       <div ref={customRef} className="relative">
         <button
-          onClick={() => { setShowCustom(!showCustom); setShowPersons(false); setShowBranches(false); setShowTypes(false); }}
+          onClick={() => { setShowCustom(!showCustom); setShowPersons(false); setShowBranches(false); setShowTypes(false); setShowQuery(false); }}
           className="px-2.5 py-1 text-xs rounded-md border border-border hover:bg-bg-secondary transition-colors text-text-secondary"
         >
           Personalizado {hasCustomSelection && `(${state.filters.customTags.length + state.filters.customStars.length})`}
@@ -234,6 +270,25 @@ export function FilterBar() {
         )}
       </div>
 
+      <div ref={queryRef} className="relative">
+        <button
+          onClick={() => { setShowQuery(!showQuery); setShowPersons(false); setShowBranches(false); setShowTypes(false); setShowCustom(false); }}
+          className="inline-flex items-center gap-1 px-2.5 py-1 text-xs rounded-md border border-border hover:bg-bg-secondary transition-colors text-text-secondary"
+        >
+          <SlidersHorizontal size={12} />
+          Avanzado {queryConditionCount > 0 && `(${queryConditionCount})`}
+        </button>
+        {showQuery && (
+          <div className="absolute top-full mt-1 left-0 bg-white border border-border rounded-md shadow-lg z-50 p-3 max-h-[420px] overflow-y-auto">
+            <QueryBuilderPanel
+              query={state.filters.query}
+              fields={queryFields}
+              onChange={(query) => dispatch({ type: 'SET_FILTERS', payload: { query } })}
+            />
+          </div>
+        )}
+      </div>
+
       <label className="flex items-center gap-1.5 text-xs text-text-secondary cursor-pointer">
         <input
           type="checkbox"
@@ -244,6 +299,16 @@ export function FilterBar() {
         Solo activos
       </label>
 
+      <label className="flex items-center gap-1.5 text-xs text-text-secondary cursor-pointer" title="Proyectos con SPI por debajo de lo planificado">
+        <input
+          type="checkbox"
+          checked={state.filters.showOnlyBehind}
+          onChange={(e) => dispatch({ type: 'SET_FILTERS', payload: { showOnlyBehind: e.target.checked } })}
+          className="rounded"
+        />
+        Solo atrasados
+      </label>
+
       {state.filters.persons.map((p) => (
         <Badge key={p} variant="blue" removable onRemove={() => togglePerson(p)}>{p}</Badge>
       ))}
@@ -261,6 +326,12 @@ export function FilterBar() {
         </Badge>
       ))}
 
+      {queryConditionCount > 0 && (
+        <Badge variant="yellow" removable onRemove={() => dispatch({ type: 'SET_FILTERS', payload: { query: null } })}>
+          Filtro avanzado: {queryConditionCount} {queryConditionCount === 1 ? 'condicion' : 'condiciones'}
+        </Badge>
+      )}
+
       {hasFilters && (
         <button
           onClick={() => dispatch({ type: 'RESET_FILTERS' })}
@@ -2,6 +2,11 @@
 import { useProject } from '@/context/ProjectContext';
 import { useAuth } from '@/context/AuthContext';
 import { useUiFeedback } from '@/context/UiFeedbackContext';
+import { useRegisterCommands } from '@/context/CommandsContext';
+import { useSyncSchedulerState } from '@/lib/useSyncScheduler';
+import { VersionDiffDialog } from '@/components/layout/VersionDiffDialog';
+import { NotificationBell } from '@/components/layout/NotificationBell';
+import { ActivityFeedDialog } from '@/components/layout/ActivityFeedDialog';
 import {
   RefreshCw,
   Undo2,
@@ -18,7 +23,10 @@ import {
   FolderOpen,
   MoreHorizontal,
   History,
+  Activity,
   Upload,
+  CloudOff,
+  Pin,
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { es } from 'date-fns/locale';
@@ -65,11 +73,16 @@ export function Header({ onReload, fileInputRef, onImport }: HeaderProps) {
     versionHistory,
     createVersionSnapshot,
     restoreVersionSnapshot,
+    setVersionPinned,
     getVersionSnapshot,
     versionHistorySync,
     copyBoardLink,
     inviteMemberByEmail,
+    outboxStatus,
+    retryOutbox,
+    discardQueuedChanges,
   } = useProject();
+  const syncScheduler = useSyncSchedulerState();
   const { user, isConfigured, signInWithGoogle, signOut, updateAvatar } = useAuth();
   const { toast, promptText, confirm } = useUiFeedback();
 
@@ -79,17 +92,21 @@ export function Header({ onReload, fileInputRef, onImport }: HeaderProps) {
   const [menuOpen, setMenuOpen] = useState(false);
   const [openModal, setOpenModal] = useState(false);
   const [versionsModalOpen, setVersionsModalOpen] = useState(false);
+  const [activityFeedOpen, setActivityFeedOpen] = useState(false);
   const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
   const [previewOnlyChanges, setPreviewOnlyChanges] = useState(true);
+  const [compareFromId, setCompareFromId] = useState<string | null>(null);
   const [query, setQuery] = useState('');
   const [rowMenuBoardId, setRowMenuBoardId] = useState<string | null>(null);
   const [rowMenuPos, setRowMenuPos] = useState<{ top: number; left: number } | null>(null);
   const [accountMenuOpen, setAccountMenuOpen] = useState(false);
+  const [outboxMenuOpen, setOutboxMenuOpen] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [, setTimeTick] = useState(0);
   const menuRef = useRef<HTMLDivElement | null>(null);
   const rowMenuRef = useRef<HTMLDivElement | null>(null);
   const accountMenuRef = useRef<HTMLDivElement | null>(null);
+  const outboxMenuRef = useRef<HTMLDivElement | null>(null);
   const avatarInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
@@ -100,29 +117,73 @@ export function Header({ onReload, fileInputRef, onImport }: HeaderProps) {
         setRowMenuPos(null);
       }
       if (accountMenuRef.current && !accountMenuRef.current.contains(ev.target as Node)) setAccountMenuOpen(false);
+      if (outboxMenuRef.current && !outboxMenuRef.current.contains(ev.target as Node)) setOutboxMenuOpen(false);
     };
     document.addEventListener('mousedown', onDocClick);
     return () => document.removeEventListener('mousedown', onDocClick);
   }, []);
 
-  useEffect(() => {
-    const onKeyDown = async (e: KeyboardEvent) => {
-      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 's') return;
-      e.preventDefault();
-      if (!hasActiveBoard) return;
-      try {
-        setSaveStatus('saving');
-        await saveActiveBoardNow();
-        setSaveStatus('saved');
-        window.setTimeout(() => setSaveStatus('idle'), 1200);
-      } catch {
-        setSaveStatus('error');
-        window.setTimeout(() => setSaveStatus('idle'), 1800);
-      }
-    };
-    window.addEventListener('keydown', onKeyDown);
-    return () => window.removeEventListener('keydown', onKeyDown);
-  }, [hasActiveBoard, saveActiveBoardNow]);
+  useRegisterCommands(useMemo(() => [
+    {
+      id: 'board.save',
+      title: 'Guardar tablero ahora',
+      section: 'board' as const,
+      keywords: ['sincronizar'],
+      defaultBinding: 'Ctrl+S',
+      // Stays enabled without a board so Ctrl+S never opens the browser's save dialog
+      run: async () => {
+        if (!hasActiveBoard) return;
+        try {
+          setSaveStatus('saving');
+          await saveActiveBoardNow();
+          setSaveStatus('saved');
+          window.setTimeout(() => setSaveStatus('idle'), 1200);
+        } catch {
+          setSaveStatus('error');
+          window.setTimeout(() => setSaveStatus('idle'), 1800);
+        }
+      },
+    },
+    {
+      id: 'board.snapshot',
+      title: 'Crear version del tablero',
+      section: 'board' as const,
+      keywords: ['snapshot', 'respaldo', 'historial'],
+      enabled: canManageBoard,
+      run: async () => {
+        const name = await promptText({ title: 'Crear version', label: 'Nombre (opcional; las versiones con nombre no se eliminan)', initialValue: '' });
+        if (name === null) return;
+        createVersionSnapshot('Snapshot manual', { label: name });
+        toast('success', 'Version creada.');
+      },
+    },
+    {
+      id: 'board.versions',
+      title: 'Ver historial de versiones',
+      section: 'board' as const,
+      keywords: ['snapshot', 'restaurar'],
+      enabled: hasActiveBoard,
+      run: () => setVersionsModalOpen(true),
+    },
+    {
+      id: 'board.activity',
+      title: 'Ver actividad del tablero',
+      section: 'board' as const,
+      keywords: ['cambios', 'auditoria'],
+      run: () => setActivityFeedOpen(true),
+    },
+    {
+      id: 'board.copyLink',
+      title: 'Copiar enlace del tablero',
+      section: 'board' as const,
+      keywords: ['compartir', 'url'],
+      enabled: hasActiveBoard,
+      run: async () => {
+        await copyBoardLink();
+        toast('success', 'Enlace copiado.');
+      },
+    },
+  ], [hasActiveBoard, canManageBoard, saveActiveBoardNow, promptText, createVersionSnapshot, copyBoardLink, toast]));
 
   // Re-render periodically so "hace X..." updates even without user actions.
   useEffect(() => {
@@ -250,6 +311,14 @@ export function Header({ onReload, fileInputRef, onImport }: HeaderProps) {
                   {realtimeSyncState === 'live' ? 'En vivo' : 'Conexion inestable'}
                 </span>
               )}
+              {realtimeSyncState !== 'disabled' && syncScheduler.isHeld && syncScheduler.pendingReload && (
+                <span
+                  className="text-[10px] ml-1 text-slate-500"
+                  title={`Se actualizará al terminar: ${syncScheduler.holds.map((h) => h.reason).join(', ')}`}
+                >
+                  Actualización en pausa
+                </span>
+              )}
               {!canEditActiveBoard && (
                 <span className="text-[10px] ml-1 text-slate-500">Solo lectura</span>
               )}
@@ -278,6 +347,9 @@ export function Header({ onReload, fileInputRef, onImport }: HeaderProps) {
                 <button disabled={!hasActiveBoard} className="w-full text-left px-2.5 py-2 rounded-lg text-xs hover:bg-bg-secondary flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed" onClick={() => { setVersionsModalOpen(true); setMenuOpen(false); }}>
                   <History size={14} /> Historial de versiones
                 </button>
+                <button className="w-full text-left px-2.5 py-2 rounded-lg text-xs hover:bg-bg-secondary flex items-center gap-2" onClick={() => { setActivityFeedOpen(true); setMenuOpen(false); }}>
+                  <Activity size={14} /> Actividad del tablero
+                </button>
                 <button disabled={!canManageBoard} className="w-full text-left px-2.5 py-2 rounded-lg text-xs hover:bg-bg-secondary flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed" onClick={async () => { if (!canManageBoard) return; const email = await promptText({ title: 'Compartir tablero', label: 'Correo del usuario' }); if (!email) return; const roleRaw = await promptText({ title: 'Rol del usuario', label: 'editor o viewer', initialValue: 'viewer' }); const role = roleRaw === 'editor' ? 'editor' : 'viewer'; try { await inviteMemberByEmail(email, role); toast('success', 'Invitacion aplicada correctamente.'); setMenuOpen(false); } catch (err) { toast('error', `No se pudo invitar: ${formatUiError(err)}`); } }}>
                   <Share2 size={14} /> Compartir
                 </button>
@@ -309,6 +381,66 @@ export function Header({ onReload, fileInputRef, onImport }: HeaderProps) {
             )}
           </div>
         )}
+
+        {canUseCloud && outboxStatus.count > 0 && (
+          <div className="relative" ref={outboxMenuRef}>
+            <button
+              onClick={() => setOutboxMenuOpen((v) => !v)}
+              className={`inline-flex items-center gap-1 px-2 py-1 rounded-md border text-[11px] transition-colors ${
+                outboxStatus.lastError
+                  ? 'border-red-200 bg-red-50 text-red-700 hover:bg-red-100'
+                  : 'border-amber-200 bg-amber-50 text-amber-700 hover:bg-amber-100'
+              }`}
+              title="Cambios guardados en este equipo pendientes de enviar"
+            >
+              <CloudOff size={12} />
+              {outboxStatus.isReplaying ? 'Enviando...' : `${outboxStatus.count} en cola`}
+            </button>
+            {outboxMenuOpen && (
+              <div className="absolute left-0 mt-1.5 w-64 rounded-xl border border-border bg-white shadow-[0_10px_24px_rgba(15,23,42,0.08)] z-[140] p-3 space-y-2">
+                <div className="text-xs text-text-primary">
+                  {outboxStatus.count} {outboxStatus.count === 1 ? 'cambio pendiente' : 'cambios pendientes'} de enviar.
+                  Se reenviarán en orden al recuperar la conexión.
+                </div>
+                {outboxStatus.lastError && (
+                  <div className="text-[11px] text-red-600 break-words">Último error: {outboxStatus.lastError}</div>
+                )}
+                <div className="flex justify-end gap-1.5">
+                  <button
+                    className="px-2.5 py-1 text-xs rounded-md text-red-600 hover:bg-red-50"
+                    onClick={async () => {
+                      const ok = await confirm({
+                        title: 'Descartar cambios en cola',
+                        message: 'Los cambios pendientes se perderán y el tablero se recargará desde la nube.',
+                        confirmText: 'Descartar',
+                        tone: 'danger',
+                      });
+                      if (!ok) return;
+                      try {
+                        await discardQueuedChanges();
+                        setOutboxMenuOpen(false);
+                        toast('info', 'Cambios en cola descartados.');
+                      } catch (err) {
+                        toast('error', `No se pudo recargar el tablero: ${formatUiError(err)}`);
+                      }
+                    }}
+                  >
+                    Descartar
+                  </button>
+                  <button
+                    disabled={outboxStatus.isReplaying}
+                    className="px-2.5 py-1 text-xs rounded-md bg-text-primary text-white hover:bg-[#2c2a25] disabled:opacity-40"
+                    onClick={async () => {
+                      await retryOutbox();
+                    }}
+                  >
+                    Reintentar
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-2">
@@ -333,6 +465,8 @@ export function Header({ onReload, fileInputRef, onImport }: HeaderProps) {
           </button>
         )}
 
+        {hasActiveBoard && <NotificationBell />}
+
         {onImport && (
           <button
             onClick={onImport}
@@ -491,9 +625,11 @@ export function Header({ onReload, fileInputRef, onImport }: HeaderProps) {
                 <button
                   disabled={!canManageBoard}
                   className="text-xs px-2.5 py-1 rounded border border-border hover:bg-bg-secondary disabled:opacity-40 disabled:cursor-not-allowed"
-                  onClick={() => {
+                  onClick={async () => {
                     if (!canManageBoard) return;
-                    createVersionSnapshot('Snapshot manual');
+                    const name = await promptText({ title: 'Crear version', label: 'Nombre (opcional; las versiones con nombre no se eliminan)', initialValue: '' });
+                    if (name === null) return;
+                    createVersionSnapshot('Snapshot manual', { label: name });
                     toast('success', 'Version creada.');
                   }}
                 >
@@ -502,24 +638,51 @@ export function Header({ onReload, fileInputRef, onImport }: HeaderProps) {
                 <button className="text-xs px-2 py-1 rounded border border-border hover:bg-bg-secondary" onClick={() => setVersionsModalOpen(false)}>Cerrar</button>
               </div>
             </div>
+            <div className="px-4 py-2 border-b border-border/70 text-[11px] text-text-secondary">
+              Se conservan todas las versiones de las ultimas 24 h, una por dia durante 30 dias y una por semana despues. Las versiones fijadas o con nombre nunca se eliminan.
+            </div>
             <div className="overflow-auto max-h-[68vh]">
               {versionHistory.length === 0 ? (
                 <div className="px-4 py-10 text-center text-sm text-text-secondary">Aun no hay versiones guardadas para este tablero.</div>
               ) : versionHistory.map((v) => (
                 <div key={v.id} className="px-4 py-3 border-b border-border/70 flex items-center justify-between gap-4">
                   <div className="min-w-0">
-                    <div className="text-sm text-text-primary truncate">{v.reason}</div>
+                    <div className="text-sm text-text-primary truncate flex items-center gap-1.5">
+                      {(v.pinned || v.label) && <Pin size={12} className="shrink-0 text-amber-600" />}
+                      {v.label ? <span className="font-medium">{v.label}</span> : v.reason}
+                      {v.label && <span className="text-[11px] text-text-secondary">· {v.reason}</span>}
+                    </div>
                     <div className="text-[11px] text-text-secondary">
                       {formatDistanceToNow(new Date(v.createdAt), { addSuffix: true, locale: es })} · {v.createdByLabel} · {v.projectCount} proyectos · {v.changedProjects} cambios
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
+                    <button
+                      disabled={!canManageBoard}
+                      title={v.pinned ? 'Desfijar: la version vuelve a la politica de retencion' : 'Fijar: la version nunca se elimina'}
+                      className={`text-xs px-2 py-1.5 rounded-md border border-border hover:bg-bg-secondary disabled:opacity-40 disabled:cursor-not-allowed ${v.pinned ? 'text-amber-700 bg-amber-50' : ''}`}
+                      onClick={async () => {
+                        try {
+                          await setVersionPinned(v.id, !v.pinned);
+                        } catch (err) {
+                          toast('error', `No se pudo actualizar la version: ${formatUiError(err)}`);
+                        }
+                      }}
+                    >
+                      <Pin size={12} />
+                    </button>
                     <button
                       className="text-xs px-2.5 py-1.5 rounded-md border border-border hover:bg-bg-secondary"
                       onClick={() => setPreviewVersionId(v.id)}
                     >
                       Preview
                     </button>
+                    <button
+                      className="text-xs px-2.5 py-1.5 rounded-md border border-border hover:bg-bg-secondary"
+                      onClick={() => setCompareFromId(v.id)}
+                    >
+                      Comparar
+                    </button>
                     <button
                       disabled={!canManageBoard}
                       className="text-xs px-2.5 py-1.5 rounded-md border border-border hover:bg-bg-secondary disabled:opacity-40 disabled:cursor-not-allowed"
@@ -554,6 +717,16 @@ export function Header({ onReload, fileInputRef, onImport }: HeaderProps) {
         </div>
       )}
 
+      {activityFeedOpen && <ActivityFeedDialog onClose={() => setActivityFeedOpen(false)} />}
+
+      {compareFromId && (
+        <VersionDiffDialog
+          initialFromId={compareFromId}
+          canRestore={canManageBoard}
+          onClose={() => setCompareFromId(null)}
+        />
+      )}
+
       {previewSnapshot && (
         <div className="fixed inset-0 z-[160] flex items-center justify-center bg-black/40" onClick={() => setPreviewVersionId(null)}>
           <div className="w-[980px] max-w-[96vw] max-h-[86vh] rounded-xl border border-border bg-white shadow-2xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
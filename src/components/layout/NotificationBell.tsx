@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from 'react';
+import { AtSign, Bell, CalendarClock, Lock, Settings2, UserPlus } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useProject } from '@/context/ProjectContext';
+import { useUiFeedback } from '@/context/UiFeedbackContext';
+import type { NotificationKind, NotificationPreferences } from '@/lib/notificationsRepository';
+
+const KIND_ICONS: Record<NotificationKind, typeof Bell> = {
+  assignment: UserPlus,
+  mention: AtSign,
+  due: CalendarClock,
+  blocked: Lock,
+};
+
+const KIND_LABELS: Record<NotificationKind, string> = {
+  assignment: 'Cuando me asignan un elemento',
+  mention: 'Cuando me mencionan en un comentario',
+  due: 'Cuando algo mío está por vencer o vencido',
+  blocked: 'Cuando algo mío queda bloqueado',
+};
+
+export function NotificationBell() {
+  const {
+    notifications,
+    unreadNotificationCount,
+    notificationPreferences,
+    updateNotificationPreferences,
+    markNotificationsRead,
+    allPersons,
+  } = useProject();
+  const { toast } = useUiFeedback();
+  const [open, setOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [draft, setDraft] = useState<NotificationPreferences>(notificationPreferences);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onDocClick = (ev: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(ev.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', onDocClick);
+    return () => document.removeEventListener('mousedown', onDocClick);
+  }, [open]);
+
+  const openSettings = () => {
+    setDraft(notificationPreferences);
+    setSettingsOpen(true);
+  };
+
+  const savePreferences = async () => {
+    try {
+      await updateNotificationPreferences(draft);
+      setSettingsOpen(false);
+      toast('success', 'Preferencias de notificación guardadas.');
+    } catch (err) {
+      toast('error', `No se pudieron guardar las preferencias: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="relative" ref={rootRef}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="relative h-8 w-8 inline-flex items-center justify-center text-text-secondary hover:text-text-primary bg-bg-secondary/90 hover:bg-white border border-border rounded-lg transition-all"
+        title={unreadNotificationCount > 0 ? `${unreadNotificationCount} notificaciones sin leer` : 'Notificaciones'}
+        aria-label="Notificaciones"
+      >
+        <Bell size={14} />
+        {unreadNotificationCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold leading-4 text-center">
+            {unreadNotificationCount > 99 ? '99+' : unreadNotificationCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-1.5 w-80 rounded-xl border border-border bg-white shadow-[0_10px_24px_rgba(15,23,42,0.08)] z-[140]">
+          <div className="px-3 py-2.5 border-b border-border flex items-center justify-between gap-2">
+            <span className="text-xs font-semibold text-text-primary">
+              {settingsOpen ? 'Preferencias' : 'Notificaciones'}
+            </span>
+            <div className="flex items-center gap-1">
+              {!settingsOpen && unreadNotificationCount > 0 && (
+                <button
+                  onClick={() => markNotificationsRead('all')}
+                  className="px-2 py-1 text-[11px] rounded-md text-text-secondary hover:text-text-primary hover:bg-bg-secondary"
+                >
+                  Marcar todo como leído
+                </button>
+              )}
+              <button
+                onClick={() => (settingsOpen ? setSettingsOpen(false) : openSettings())}
+                className={`h-6 w-6 inline-flex items-center justify-center rounded-md hover:bg-bg-secondary ${settingsOpen ? 'text-text-primary bg-bg-secondary' : 'text-text-secondary'}`}
+                title="Preferencias de notificación"
+              >
+                <Settings2 size={13} />
+              </button>
+            </div>
+          </div>
+
+          {settingsOpen ? (
+            <div className="p-3 space-y-3">
+              <label className="block">
+                <span className="text-[11px] text-text-secondary">En este tablero soy</span>
+                <select
+                  value={draft.person || ''}
+                  onChange={(e) => setDraft((d) => ({ ...d, person: e.target.value || null }))}
+                  className="mt-1 w-full h-8 rounded-lg border border-border px-2 text-xs bg-white outline-none focus:ring-2 focus:ring-blue-100"
+                >
+                  <option value="">Sin elegir (no recibo avisos)</option>
+                  {allPersons.map((person) => (
+                    <option key={person} value={person}>{person}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="space-y-1.5">
+                {(Object.keys(KIND_LABELS) as NotificationKind[]).map((kind) => (
+                  <label key={kind} className="flex items-center gap-2 text-xs text-text-primary">
+                    <input
+                      type="checkbox"
+                      checked={draft[kind]}
+                      onChange={(e) => setDraft((d) => ({ ...d, [kind]: e.target.checked }))}
+                    />
+                    {KIND_LABELS[kind]}
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-text-primary">
+                Avisar
+                <input
+                  type="number"
+                  min={0}
+                  max={30}
+                  value={draft.dueDaysAhead}
+                  disabled={!draft.due}
+                  onChange={(e) => setDraft((d) => ({ ...d, dueDaysAhead: Math.max(0, Math.min(30, Number(e.target.value) || 0)) }))}
+                  className="w-14 h-7 rounded-md border border-border px-2 text-xs disabled:opacity-50"
+                />
+                días antes del fin
+              </label>
+              <div className="flex justify-end gap-1.5">
+                <button
+                  onClick={() => setSettingsOpen(false)}
+                  className="px-2.5 py-1 text-xs rounded-md text-text-secondary hover:bg-bg-secondary"
+                >
+                  Cancelar
+                </button>
+                <button
+                  onClick={() => void savePreferences()}
+                  className="px-2.5 py-1 text-xs rounded-md bg-text-primary text-white hover:bg-[#2c2a25]"
+                >
+                  Guardar
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="max-h-96 overflow-auto py-1">
+              {!notificationPreferences.person && (
+                <button
+                  onClick={openSettings}
+                  className="mx-3 my-2 w-[calc(100%-1.5rem)] text-left rounded-lg border border-amber-200 bg-amber-50 px-2.5 py-2 text-[11px] text-amber-800 hover:bg-amber-100"
+                >
+                  Elige qué persona eres en este tablero para recibir avisos.
+                </button>
+              )}
+              {notifications.length === 0 ? (
+                <p className="px-3 py-4 text-xs text-text-secondary text-center">No hay notificaciones.</p>
+              ) : (
+                notifications.map((n) => {
+                  const Icon = KIND_ICONS[n.kind] || Bell;
+                  return (
+                    <button
+                      key={n.id}
+                      onClick={() => markNotificationsRead([n.id])}
+                      className={`w-full text-left px-3 py-2 flex items-start gap-2.5 hover:bg-bg-secondary ${n.read_at ? '' : 'bg-blue-50/40'}`}
+                    >
+                      <span className={`mt-0.5 h-6 w-6 flex-shrink-0 rounded-full inline-flex items-center justify-center ${n.read_at ? 'bg-bg-secondary text-text-secondary' : 'bg-blue-100 text-blue-700'}`}>
+                        <Icon size={12} />
+                      </span>
+                      <span className="min-w-0 flex-1">
+                        <span className={`block text-xs ${n.read_at ? 'text-text-secondary' : 'text-text-primary font-medium'}`}>{n.title}</span>
+                        {n.body && <span className="block text-[11px] text-text-secondary break-words">{n.body}</span>}
+                        <span className="block text-[10px] text-text-secondary/80 mt-0.5">
+                          {n.actor_label ? `${n.actor_label} · ` : ''}
+                          {formatDistanceToNow(new Date(n.created_at), { addSuffix: true, locale: es })}
+                        </span>
+                      </span>
+                      {!n.read_at && <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-blue-600" />}
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { Plus, Trash2, X } from 'lucide-react';
+import {
+  QUERY_MAX_DEPTH,
+  QUERY_OPERATORS,
+  QUERY_OPERATOR_LABELS,
+  createQueryCondition,
+  createQueryGroup,
+  removeQueryNode,
+  updateQueryNode,
+  type QueryCondition,
+  type QueryField,
+  type QueryGroup,
+  type QueryNode,
+  type QueryOperator,
+  type QueryValue,
+} from '@/lib/queryFilter';
+import { cn } from '@/utils/cn';
+
+const SECTION_LABELS: Record<QueryField['section'], string> = {
+  project: 'Proyecto',
+  computed: 'Calculados',
+  column: 'Columnas',
+};
+
+const NO_VALUE_OPERATORS = new Set<QueryOperator>(['is_true', 'is_false', 'is_empty', 'is_not_empty']);
+
+const inputClass = 'h-7 rounded-md border border-border px-2 text-xs bg-white outline-none focus:ring-2 focus:ring-blue-100';
+
+interface NodeHandlers {
+  fields: QueryField[];
+  onUpdate: (nodeId: string, update: (node: QueryNode) => QueryNode) => void;
+  onRemove: (nodeId: string) => void;
+}
+
+function ListValueInput({ field, value, onChange }: { field: QueryField; value: QueryValue; onChange: (v: QueryValue) => void }) {
+  const selected = Array.isArray(value) ? value : [];
+  const options = field.options || [];
+  if (options.length === 0) {
+    return (
+      <input
+        className={cn(inputClass, 'flex-1 min-w-[120px]')}
+        value={selected.join(', ')}
+        placeholder="Valores separados por coma"
+        onChange={(e) => onChange(e.target.value.split(',').map((x) => x.trim()).filter(Boolean))}
+      />
+    );
+  }
+  const toggle = (option: string) => {
+    onChange(selected.includes(option) ? selected.filter((x) => x !== option) : [...selected, option]);
+  };
+  return (
+    <div className="flex-1 min-w-[120px] flex flex-wrap gap-1 max-h-[72px] overflow-y-auto">
+      {options.map((option) => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => toggle(option)}
+          className={cn(
+            'px-1.5 py-0.5 text-[11px] rounded border transition-colors',
+            selected.includes(option)
+              ? 'border-blue-300 bg-blue-50 text-blue-700'
+              : 'border-border text-text-secondary hover:bg-bg-secondary'
+          )}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ScalarValueInput({ field, value, onChange }: { field: QueryField; value: QueryValue; onChange: (v: QueryValue) => void }) {
+  const current = value === null || Array.isArray(value) ? '' : String(value);
+  if (field.kind === 'number') {
+    return (
+      <input
+        type="number"
+        className={cn(inputClass, 'w-20')}
+        value={current}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+      />
+    );
+  }
+  if (field.kind === 'date') {
+    return <input type="date" className={cn(inputClass, 'w-32')} value={current} onChange={(e) => onChange(e.target.value || null)} />;
+  }
+  return (
+    <input
+      className={cn(inputClass, 'flex-1 min-w-[120px]')}
+      value={current}
+      placeholder="Valor"
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
+
+function ConditionRow({ condition, fields, onUpdate, onRemove }: NodeHandlers & { condition: QueryCondition }) {
+  const field = fields.find((f) => f.key === condition.field) || null;
+  const operators = field ? QUERY_OPERATORS[field.kind] : [];
+  const patch = (changes: Partial<QueryCondition>) => onUpdate(condition.id, (node) => ({ ...(node as QueryCondition), ...changes }));
+
+  const changeField = (key: string) => {
+    const next = fields.find((f) => f.key === key);
+    if (!next) return;
+    const fresh = createQueryCondition(next);
+    onUpdate(condition.id, () => ({ ...fresh, id: condition.id }));
+  };
+
+  const changeOperator = (operator: QueryOperator) => {
+    // List and scalar operators never share a kind, so values stay valid
+    patch({ operator, valueTo: operator === 'between' ? condition.valueTo : null });
+  };
+
+  const sections = (Object.keys(SECTION_LABELS) as QueryField['section'][])
+    .map((section) => ({ section, items: fields.filter((f) => f.section === section) }))
+    .filter((s) => s.items.length > 0);
+
+  return (
+    <div className="flex items-start gap-1.5">
+      <select
+        className={cn(inputClass, 'w-36', !field && 'text-red-600')}
+        value={field ? field.key : ''}
+        onChange={(e) => changeField(e.target.value)}
+      >
+        {!field && <option value="">Campo eliminado</option>}
+        {sections.map(({ section, items }) => (
+          <optgroup key={section} label={SECTION_LABELS[section]}>
+            {items.map((f) => (
+              <option key={f.key} value={f.key}>{f.label}</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      {field && (
+        <select
+          className={cn(inputClass, 'w-32')}
+          value={condition.operator}
+          onChange={(e) => changeOperator(e.target.value as QueryOperator)}
+        >
+          {operators.map((op) => (
+            <option key={op} value={op}>{QUERY_OPERATOR_LABELS[op]}</option>
+          ))}
+        </select>
+      )}
+      {field && !NO_VALUE_OPERATORS.has(condition.operator) && (
+        field.kind === 'tags' || field.kind === 'select' ? (
+          <ListValueInput field={field} value={condition.value} onChange={(value) => patch({ value })} />
+        ) : (
+          <div className="flex flex-1 items-center gap-1">
+            <ScalarValueInput field={field} value={condition.value} onChange={(value) => patch({ value })} />
+            {condition.operator === 'between' && (
+              <>
+                <span className="text-[11px] text-text-secondary">y</span>
+                <ScalarValueInput field={field} value={condition.valueTo} onChange={(valueTo) => patch({ valueTo })} />
+              </>
+            )}
+          </div>
+        )
+      )}
+      {(!field || NO_VALUE_OPERATORS.has(condition.operator)) && <div className="flex-1" />}
+      <button
+        type="button"
+        onClick={() => onRemove(condition.id)}
+        className="h-7 w-7 flex-shrink-0 inline-flex items-center justify-center rounded text-text-secondary hover:bg-bg-secondary hover:text-red-600"
+        title="Quitar condicion"
+      >
+        <X size={13} />
+      </button>
+    </div>
+  );
+}
+
+function GroupEditor({ group, depth, fields, onUpdate, onRemove }: NodeHandlers & { group: QueryGroup; depth: number }) {
+  const appendChild = (child: QueryNode) => {
+    onUpdate(group.id, (node) => ({ ...(node as QueryGroup), children: [...(node as QueryGroup).children, child] }));
+  };
+
+  const addCondition = () => appendChild(createQueryCondition(fields[0]));
+
+  // A nested group is mostly used to mix in the other combinator
+  const addGroup = () => appendChild({
+    ...createQueryGroup(group.combinator === 'and' ? 'or' : 'and'),
+    children: [createQueryCondition(fields[0])],
+  });
+
+  return (
+    <div className={cn('space-y-1.5', depth > 1 && 'rounded-lg border border-border bg-bg-secondary/40 p-2')}>
+      <div className="flex items-center gap-2">
+        <select
+          className={cn(inputClass, 'w-48')}
+          value={group.combinator}
+          onChange={(e) => onUpdate(group.id, (node) => ({ ...(node as QueryGroup), combinator: e.target.value as QueryGroup['combinator'] }))}
+        >
+          <option value="and">Cumple todas (Y)</option>
+          <option value="or">Cumple alguna (O)</option>
+        </select>
+        <div className="flex-1" />
+        {depth > 1 && (
+          <button
+            type="button"
+            onClick={() => onRemove(group.id)}
+            className="h-7 w-7 inline-flex items-center justify-center rounded text-text-secondary hover:bg-white hover:text-red-600"
+            title="Quitar grupo"
+          >
+            <Trash2 size={13} />
+          </button>
+        )}
+      </div>
+
+      {group.children.map((child) => (
+        child.kind === 'group' ? (
+          <GroupEditor key={child.id} group={child} depth={depth + 1} fields={fields} onUpdate={onUpdate} onRemove={onRemove} />
+        ) : (
+          <ConditionRow key={child.id} condition={child} fields={fields} onUpdate={onUpdate} onRemove={onRemove} />
+        )
+      ))}
+
+      <div className="flex items-center gap-3 pt-0.5">
+        <button type="button" onClick={addCondition} className="inline-flex items-center gap-1 text-xs text-blue-700 hover:underline">
+          <Plus size={12} /> Condicion
+        </button>
+        {depth < QUERY_MAX_DEPTH && (
+          <button type="button" onClick={addGroup} className="inline-flex items-center gap-1 text-xs text-blue-700 hover:underline">
+            <Plus size={12} /> Grupo
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface QueryBuilderPanelProps {
+  query: QueryGroup | null;
+  fields: QueryField[];
+  onChange: (query: QueryGroup | null) => void;
+}
+
+export function QueryBuilderPanel({ query, fields, onChange }: QueryBuilderPanelProps) {
+  const root = query || createQueryGroup();
+
+  // An emptied root clears the query so it stops counting as an active filter
+  const commit = (next: QueryGroup) => onChange(next.children.length > 0 ? next : null);
+
+  return (
+    <div className="w-[620px] max-w-[92vw] space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-text-primary">Filtro avanzado</span>
+        {query && (
+          <button type="button" onClick={() => onChange(null)} className="text-[11px] text-text-secondary hover:text-text-primary">
+            Quitar todo
+          </button>
+        )}
+      </div>
+      <GroupEditor
+        group={root}
+        depth={1}
+        fields={fields}
+        onUpdate={(nodeId, update) => commit(updateQueryNode(root, nodeId, update))}
+        onRemove={(nodeId) => commit(removeQueryNode(root, nodeId))}
+      />
+      <p className="text-[11px] text-text-secondary">
+        Las condiciones sin valor se ignoran. Los grupos padre de un proyecto que cumple siguen visibles.
+      </p>
+    </div>
+  );
+}
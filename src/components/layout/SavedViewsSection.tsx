@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from 'react';
+import { Bookmark, Link2, MoreHorizontal, Plus, Users } from 'lucide-react';
+import { useProject } from '@/context/ProjectContext';
+import { useAuth } from '@/context/AuthContext';
+import { useUiFeedback } from '@/context/UiFeedbackContext';
+import { isSupabaseConfigured } from '@/lib/supabaseClient';
+import { cn } from '@/utils/cn';
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export function SavedViewsSection() {
+  const {
+    savedViews,
+    activeSavedViewId,
+    activeSavedViewModified,
+    applySavedView,
+    saveCurrentView,
+    overwriteSavedView,
+    updateSavedView,
+    deleteSavedView,
+    canEditSavedView,
+    copyViewLink,
+    activeBoardId,
+  } = useProject();
+  const { user } = useAuth();
+  const { toast, confirm, promptText } = useUiFeedback();
+  const [menuOpenFor, setMenuOpenFor] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const canShare = isSupabaseConfigured && !!activeBoardId && !!user;
+
+  useEffect(() => {
+    if (!menuOpenFor) return;
+    const onDocClick = (ev: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(ev.target as Node)) setMenuOpenFor(null);
+    };
+    document.addEventListener('mousedown', onDocClick);
+    return () => document.removeEventListener('mousedown', onDocClick);
+  }, [menuOpenFor]);
+
+  const handleSaveCurrent = async () => {
+    const name = await promptText({ title: 'Guardar vista', label: 'Nombre de la vista', placeholder: 'Ej. Atrasados de Ana' });
+    if (!name?.trim()) return;
+    try {
+      await saveCurrentView(name, false);
+      toast('success', 'Vista guardada.');
+    } catch (err) {
+      toast('error', `No se pudo guardar la vista: ${errorText(err)}`);
+    }
+  };
+
+  const handleCopyLink = async (viewId?: string) => {
+    setMenuOpenFor(null);
+    try {
+      await copyViewLink(viewId);
+      toast('success', 'Enlace de la vista copiado.');
+    } catch (err) {
+      toast('error', `No se pudo copiar enlace: ${errorText(err)}`);
+    }
+  };
+
+  const runViewAction = async (action: () => Promise<void>, success: string, failure: string) => {
+    setMenuOpenFor(null);
+    try {
+      await action();
+      toast('success', success);
+    } catch (err) {
+      toast('error', `${failure}: ${errorText(err)}`);
+    }
+  };
+
+  return (
+    <div ref={rootRef} className="mt-3 pt-3 border-t border-border">
+      <div className="flex items-center justify-between px-2.5 pb-1">
+        <span className="text-[11px] font-medium uppercase tracking-wide text-text-secondary">Vistas guardadas</span>
+        <div className="flex items-center gap-0.5">
+          <button
+            onClick={() => void handleCopyLink()}
+            className="h-6 w-6 inline-flex items-center justify-center rounded text-text-secondary hover:bg-white/60 hover:text-text-primary"
+            title="Copiar enlace de la vista actual"
+          >
+            <Link2 size={13} />
+          </button>
+          <button
+            onClick={() => void handleSaveCurrent()}
+            className="h-6 w-6 inline-flex items-center justify-center rounded text-text-secondary hover:bg-white/60 hover:text-text-primary"
+            title="Guardar vista actual"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+      </div>
+
+      {savedViews.length === 0 ? (
+        <p className="px-2.5 py-1 text-[11px] text-text-secondary">Guarda filtros, vista y columnas para volver a ellos.</p>
+      ) : (
+        <div className="space-y-0.5">
+          {savedViews.map((view) => {
+            const isActive = view.id === activeSavedViewId;
+            const editable = canEditSavedView(view);
+            const isOwn = !view.owner_id || view.owner_id === user?.id;
+            return (
+              <div key={view.id} className="group relative">
+                <button
+                  onClick={() => applySavedView(view.id)}
+                  className={cn(
+                    'w-full h-8 flex items-center gap-2 pl-2.5 pr-8 rounded-md text-xs transition-all',
+                    isActive ? 'bg-white text-text-primary font-medium shadow-sm' : 'text-text-secondary hover:bg-white/50 hover:text-text-primary'
+                  )}
+                  title={view.shared && !isOwn ? `Compartida por ${view.owner_label || 'otro miembro'}` : view.name}
+                >
+                  <Bookmark size={13} className="flex-shrink-0" />
+                  <span className="truncate">{view.name}</span>
+                  {view.shared && <Users size={11} className="flex-shrink-0 text-text-secondary" />}
+                  {isActive && activeSavedViewModified && (
+                    <span className="h-1.5 w-1.5 flex-shrink-0 rounded-full bg-amber-500" title="Con cambios sin guardar" />
+                  )}
+                </button>
+                <button
+                  onClick={() => setMenuOpenFor(menuOpenFor === view.id ? null : view.id)}
+                  className="absolute right-1 top-1 h-6 w-6 inline-flex items-center justify-center rounded text-text-secondary hover:bg-bg-secondary opacity-0 group-hover:opacity-100"
+                  title="Opciones de la vista"
+                >
+                  <MoreHorizontal size={13} />
+                </button>
+                {menuOpenFor === view.id && (
+                  <div className="absolute left-full top-0 ml-1 z-[270] w-56 rounded-xl border border-border bg-white shadow-[0_10px_24px_rgba(15,23,42,0.08)] p-1.5">
+                    {editable && (
+                      <button
+                        className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary"
+                        onClick={() => void runViewAction(() => overwriteSavedView(view.id), 'Vista actualizada.', 'No se pudo actualizar la vista')}
+                      >
+                        Guardar la vista actual aquí
+                      </button>
+                    )}
+                    {editable && (
+                      <button
+                        className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary"
+                        onClick={async () => {
+                          setMenuOpenFor(null);
+                          const name = await promptText({ title: 'Renombrar vista', label: 'Nombre de la vista', initialValue: view.name });
+                          if (!name?.trim() || name.trim() === view.name) return;
+                          await runViewAction(() => updateSavedView(view.id, { name: name.trim() }), 'Vista renombrada.', 'No se pudo renombrar la vista');
+                        }}
+                      >
+                        Renombrar...
+                      </button>
+                    )}
+                    {editable && canShare && (
+                      <button
+                        className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary"
+                        onClick={() => void runViewAction(
+                          () => updateSavedView(view.id, { shared: !view.shared }),
+                          view.shared ? 'La vista ya no se comparte.' : 'Vista compartida con el tablero.',
+                          'No se pudo cambiar el acceso'
+                        )}
+                      >
+                        {view.shared ? 'Dejar de compartir' : 'Compartir con el tablero'}
+                      </button>
+                    )}
+                    <button
+                      className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary"
+                      onClick={() => void handleCopyLink(view.id)}
+                    >
+                      Copiar enlace
+                    </button>
+                    {editable && (
+                      <>
+                        <div className="my-1 border-t border-border" />
+                        <button
+                          className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg text-red-600 hover:bg-red-50"
+                          onClick={async () => {
+                            setMenuOpenFor(null);
+                            const ok = await confirm({
+                              title: 'Eliminar vista',
+                              message: view.shared
+                                ? `Se eliminara "${view.name}" para todos los miembros del tablero.`
+                                : `Se eliminara "${view.name}".`,
+                              confirmText: 'Eliminar',
+                              tone: 'danger',
+                            });
+                            if (!ok) return;
+                            await runViewAction(() => deleteSavedView(view.id), 'Vista eliminada.', 'No se pudo eliminar la vista');
+                          }}
+                        >
+                          Eliminar
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Columns3, FileText, MapPin, MessageSquare, Search, Users } from 'lucide-react';
+import { useProject } from '@/context/ProjectContext';
+import { useRegisterCommands } from '@/context/CommandsContext';
+import {
+  highlightSegments,
+  matchExcerpt,
+  searchBoard,
+  searchTerms,
+  type BoardSearchIndex,
+  type SearchField,
+  type SearchResult,
+} from '@/lib/boardSearch';
+import { cn } from '@/utils/cn';
+
+const FIELD_ICONS: Record<SearchField, typeof FileText> = {
+  name: FileText,
+  branch: MapPin,
+  assignee: Users,
+  column: Columns3,
+  comment: MessageSquare,
+};
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, i) => (
+        segment.hit
+          ? <mark key={i} className="bg-amber-100 text-inherit rounded-sm">{segment.text}</mark>
+          : <span key={i}>{segment.text}</span>
+      ))}
+    </>
+  );
+}
+
+/** Ctrl+K search over the active board; picking a result jumps to it in the table or timeline */
+export function SearchPalette() {
+  const { state, loadSearchIndex, revealTask } = useProject();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [index, setIndex] = useState<BoardSearchIndex | null>(null);
+  const [commentsUnavailable, setCommentsUnavailable] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const hasProjects = state.projects.length > 0;
+
+  useRegisterCommands(useMemo(() => [{
+    id: 'board.search',
+    title: 'Buscar en el tablero',
+    section: 'board' as const,
+    keywords: ['encontrar', 'ir a tarea'],
+    defaultBinding: 'Ctrl+K',
+    enabled: hasProjects,
+    run: () => setOpen((prev) => !prev),
+  }], [hasProjects]));
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setIndex(null);
+    setCommentsUnavailable(false);
+    setActiveIndex(0);
+    window.setTimeout(() => inputRef.current?.select(), 0);
+    void loadSearchIndex().then((loaded) => {
+      if (cancelled) return;
+      setIndex(loaded.index);
+      setCommentsUnavailable(loaded.commentsUnavailable);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Rebuilt each time the palette opens, not while it is open
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const terms = useMemo(() => searchTerms(query), [query]);
+  const results = useMemo(() => (index ? searchBoard(index, query) : []), [index, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector<HTMLElement>(`[data-result-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const choose = (result: SearchResult) => {
+    setOpen(false);
+    revealTask(result.taskId);
+  };
+
+  const onInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(results.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const picked = results[activeIndex];
+      if (picked) choose(picked);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setOpen(false);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[180] flex items-start justify-center bg-black/25 pt-[12vh]" onMouseDown={() => setOpen(false)}>
+      <div
+        className="w-[620px] max-w-[94vw] rounded-xl border border-border bg-white shadow-2xl overflow-hidden"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-3 border-b border-border">
+          <Search size={15} className="text-text-secondary" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={onInputKeyDown}
+            placeholder="Buscar en nombres, sucursales, personas, columnas y comentarios..."
+            className="flex-1 h-11 text-sm outline-none bg-transparent"
+          />
+          <kbd className="text-[10px] text-text-secondary border border-border rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-[52vh] overflow-y-auto py-1">
+          {!index ? (
+            <div className="px-4 py-8 text-center text-sm text-text-secondary">Preparando busqueda...</div>
+          ) : terms.length === 0 ? (
+            <div className="px-4 py-8 text-center text-sm text-text-secondary">Escribe para buscar en el tablero.</div>
+          ) : results.length === 0 ? (
+            <div className="px-4 py-8 text-center text-sm text-text-secondary">Sin resultados para "{query.trim()}".</div>
+          ) : (
+            results.map((result, i) => (
+              <button
+                key={result.taskId}
+                type="button"
+                data-result-index={i}
+                onMouseEnter={() => setActiveIndex(i)}
+                onClick={() => choose(result)}
+                className={cn('w-full text-left px-3 py-2', i === activeIndex ? 'bg-blue-50' : 'hover:bg-bg-secondary')}
+              >
+                <div className="text-sm text-text-primary truncate">
+                  <Highlighted text={result.taskName} terms={terms} />
+                </div>
+                {result.matches.filter((m) => m.field !== 'name').map((match, j) => {
+                  const Icon = FIELD_ICONS[match.field];
+                  return (
+                    <div key={j} className="mt-0.5 flex items-start gap-1.5 text-[11px] text-text-secondary">
+                      <Icon size={11} className="mt-[2px] flex-shrink-0" />
+                      <span className="flex-shrink-0 font-medium">{match.label}:</span>
+                      <span className="truncate">
+                        <Highlighted text={matchExcerpt(match.text, terms)} terms={terms} />
+                      </span>
+                    </div>
+                  );
+                })}
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="px-3 py-1.5 border-t border-border text-[10px] text-text-secondary flex items-center justify-between">
+          <span>↑↓ para moverse · Enter para ir al elemento</span>
+          {commentsUnavailable && <span>No se pudieron buscar los comentarios</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { useProject } from '@/context/ProjectContext';
+import { useRegisterCommands } from '@/context/CommandsContext';
 import type { ViewType } from '@/lib/types';
 import { BarChart3, LineChart, Table2, CalendarRange, Users, Settings, PanelLeftClose, PanelLeft } from 'lucide-react';
 import { cn } from '@/utils/cn';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { ConfigModal } from '../dashboard/ConfigModal';
+import { SavedViewsSection } from './SavedViewsSection';
 
 const navItems: { view: ViewType; label: string; icon: typeof BarChart3; disabled?: boolean }[] = [
   { view: 'grid', label: 'Vista de Carga', icon: BarChart3 },
@@ -21,6 +23,34 @@ export function Sidebar() {
   const showOverlay = collapsed;
   const revealLabels = !collapsed || hoverExpanded;
   const overlayWidthClass = hoverExpanded ? 'w-56' : 'w-14';
+  const hasProjects = state.projects.length > 0;
+
+  useRegisterCommands(useMemo(() => [
+    ...navItems.map(({ view, label, disabled }, index) => ({
+      id: `view.${view}`,
+      title: `Ir a ${label}`,
+      section: 'view' as const,
+      keywords: ['vista', 'cambiar vista'],
+      defaultBinding: `Alt+${index + 1}`,
+      enabled: hasProjects && !disabled,
+      run: () => dispatch({ type: 'SET_VIEW', payload: view }),
+    })),
+    {
+      id: 'view.toggleSidebar',
+      title: 'Mostrar u ocultar barra lateral',
+      section: 'view' as const,
+      keywords: ['sidebar', 'panel', 'menu'],
+      defaultBinding: 'Ctrl+B',
+      run: () => dispatch({ type: 'TOGGLE_SIDEBAR' }),
+    },
+    {
+      id: 'settings.open',
+      title: 'Abrir configuracion',
+      section: 'general' as const,
+      keywords: ['ajustes', 'preferencias', 'horas por dia'],
+      run: () => setConfigOpen(true),
+    },
+  ], [hasProjects, dispatch]));
 
   const renderSidebarContent = (showLabels: boolean, compactHeader = false) => (
     <>
@@ -60,6 +90,8 @@ export function Sidebar() {
             {showLabels && <span className="truncate whitespace-nowrap leading-none">{label}</span>}
           </button>
         ))}
+        {/* Item menus open to the side, which the collapsed overlay would clip */}
+        {state.projects.length > 0 && showLabels && !compactHeader && <SavedViewsSection />}
       </nav>
 
       <div className="px-2 py-3 border-t border-border">
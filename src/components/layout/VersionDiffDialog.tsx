@@ -0,0 +1,264 @@
+import { useCallback, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ArrowRight, GitCompare } from 'lucide-react';
+import { useProject } from '@/context/ProjectContext';
+import { useUiFeedback } from '@/context/UiFeedbackContext';
+import { formatDateShort, isValidDateValue } from '@/lib/dateUtils';
+import { normalizeBranchList } from '@/lib/branchUtils';
+import {
+  diffVersions,
+  VERSION_DIFF_FIELDS,
+  type ProjectDiffEntry,
+  type VersionContent,
+  type VersionDiffField,
+  type VersionRestoreSelection,
+} from '@/lib/versionDiff';
+import type { Project } from '@/lib/types';
+
+const CURRENT_ID = 'current';
+
+const KIND_BADGES: Record<ProjectDiffEntry['kind'], { label: string; className: string }> = {
+  added: { label: 'Añadido', className: 'bg-emerald-100 text-emerald-800' },
+  removed: { label: 'Eliminado', className: 'bg-red-100 text-red-800' },
+  modified: { label: 'Modificado', className: 'bg-amber-100 text-amber-800' },
+};
+
+interface VersionDiffDialogProps {
+  initialFromId: string;
+  canRestore: boolean;
+  onClose: () => void;
+}
+
+export function VersionDiffDialog({ initialFromId, canRestore, onClose }: VersionDiffDialogProps) {
+  const {
+    state,
+    versionHistory,
+    getVersionSnapshot,
+    createVersionSnapshot,
+    restoreVersionSnapshot,
+    saveActiveBoardNow,
+  } = useProject();
+  const { toast, confirm } = useUiFeedback();
+  const [fromId, setFromId] = useState(initialFromId);
+  const [toId, setToId] = useState(CURRENT_ID);
+  const [selection, setSelection] = useState<VersionRestoreSelection>({});
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const resolveContent = useCallback((id: string): VersionContent | null => {
+    if (id === CURRENT_ID) return { projects: state.projects, projectOrder: state.projectOrder };
+    const snapshot = getVersionSnapshot(id);
+    return snapshot ? { projects: snapshot.projects, projectOrder: snapshot.projectOrder } : null;
+  }, [state.projects, state.projectOrder, getVersionSnapshot]);
+  const fromContent = useMemo(() => resolveContent(fromId), [fromId, resolveContent]);
+  const toContent = useMemo(() => resolveContent(toId), [toId, resolveContent]);
+
+  const diff = useMemo(
+    () => (fromContent && toContent ? diffVersions(fromContent, toContent) : null),
+    [fromContent, toContent]
+  );
+
+  const nameById = useMemo(() => {
+    const map = new Map<string, string>();
+    [fromContent, toContent].forEach((content) => content?.projects.forEach((p) => map.set(p.id, p.name)));
+    return map;
+  }, [fromContent, toContent]);
+
+  const fromLabel = versionHistory.find((v) => v.id === fromId)?.reason || 'Versión';
+  const selectedCount = Object.keys(selection).length;
+
+  const formatValue = (field: VersionDiffField, value: Project[VersionDiffField]): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'startDate' || field === 'endDate') {
+      const date = value instanceof Date ? value : new Date(String(value));
+      return isValidDateValue(date) ? formatDateShort(date) : '—';
+    }
+    if (field === 'branch') return normalizeBranchList(value).join(', ') || '—';
+    if (field === 'assignees') return (value as string[]).join(', ') || '—';
+    if (field === 'parentId') return nameById.get(String(value)) || String(value);
+    if (field === 'progress') return `${value}%`;
+    return String(value);
+  };
+
+  const toggleProject = (entry: ProjectDiffEntry) => {
+    setSelection((prev) => {
+      const next = { ...prev };
+      if (next[entry.id] === 'all') delete next[entry.id];
+      else next[entry.id] = 'all';
+      return next;
+    });
+  };
+
+  const toggleField = (entry: ProjectDiffEntry, field: VersionDiffField) => {
+    setSelection((prev) => {
+      const next = { ...prev };
+      const current = next[entry.id];
+      const fields = current === 'all' ? entry.changes.map((c) => c.field) : current || [];
+      const updated = fields.includes(field) ? fields.filter((f) => f !== field) : [...fields, field];
+      if (updated.length === 0) delete next[entry.id];
+      else next[entry.id] = updated;
+      return next;
+    });
+  };
+
+  const isFieldSelected = (entryId: string, field: VersionDiffField) => {
+    const current = selection[entryId];
+    return current === 'all' || (Array.isArray(current) && current.includes(field));
+  };
+
+  const handleRestore = async () => {
+    if (!canRestore || selectedCount === 0) return;
+    const ok = await confirm({
+      title: 'Restaurar selección',
+      message: `Se aplicarán ${selectedCount} ${selectedCount === 1 ? 'proyecto' : 'proyectos'} de "${fromLabel}" sobre el tablero actual. El resto del tablero no cambia.`,
+      confirmText: 'Restaurar',
+      tone: 'danger',
+    });
+    if (!ok) return;
+    setIsRestoring(true);
+    try {
+      createVersionSnapshot('Respaldo antes de restaurar selección');
+      const restored = await restoreVersionSnapshot(fromId, selection);
+      if (!restored) throw new Error('No se pudo restaurar la version seleccionada.');
+      await saveActiveBoardNow();
+      setSelection({});
+      toast('success', 'Selección restaurada correctamente.');
+    } catch (err) {
+      toast('error', `No se pudo restaurar: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const versionOptions = versionHistory.map((v) => (
+    <option key={v.id} value={v.id}>
+      {v.reason} · {formatDistanceToNow(new Date(v.createdAt), { addSuffix: true, locale: es })}
+    </option>
+  ));
+
+  return (
+    <div className="fixed inset-0 z-[160] flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div className="w-[980px] max-w-[96vw] max-h-[86vh] rounded-xl border border-border bg-white shadow-2xl overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-border flex items-center justify-between gap-3">
+          <div className="text-sm font-semibold text-text-primary flex items-center gap-2">
+            <GitCompare size={15} /> Comparar versiones
+          </div>
+          <div className="flex items-center gap-2 text-xs">
+            <select
+              value={fromId}
+              onChange={(e) => {
+                setFromId(e.target.value);
+                setSelection({});
+              }}
+              className="max-w-[240px] px-2 py-1 border border-border rounded-md bg-white"
+            >
+              {versionOptions}
+            </select>
+            <ArrowRight size={14} className="text-text-secondary" />
+            <select
+              value={toId}
+              onChange={(e) => {
+                setToId(e.target.value);
+                setSelection({});
+              }}
+              className="max-w-[240px] px-2 py-1 border border-border rounded-md bg-white"
+            >
+              <option value={CURRENT_ID}>Estado actual</option>
+              {versionOptions}
+            </select>
+            <button className="px-2 py-1 rounded border border-border hover:bg-bg-secondary" onClick={onClose}>Cerrar</button>
+          </div>
+        </div>
+
+        {diff && (
+          <div className="px-4 py-2 border-b border-border flex flex-wrap items-center gap-2 text-[11px]">
+            <span className="px-2 py-0.5 rounded bg-emerald-50 text-emerald-700">{diff.added} añadidos</span>
+            <span className="px-2 py-0.5 rounded bg-red-50 text-red-700">{diff.removed} eliminados</span>
+            <span className="px-2 py-0.5 rounded bg-amber-50 text-amber-700">{diff.modified} modificados</span>
+            <span className="px-2 py-0.5 rounded bg-slate-100 text-slate-700">{diff.moved} movidos</span>
+            <span className="px-2 py-0.5 rounded bg-slate-100 text-slate-700">{diff.hierarchyChanges.length} cambios de jerarquía</span>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto">
+          {!diff ? (
+            <div className="px-4 py-10 text-center text-sm text-text-secondary">No se encontró la versión seleccionada.</div>
+          ) : diff.entries.length === 0 ? (
+            <div className="px-4 py-10 text-center text-sm text-text-secondary">Las dos versiones son iguales.</div>
+          ) : (
+            <>
+              {diff.hierarchyChanges.length > 0 && (
+                <div className="px-4 py-3 border-b border-border/70">
+                  <div className="text-[11px] font-semibold text-text-secondary uppercase tracking-wide mb-1">Jerarquía</div>
+                  {diff.hierarchyChanges.map((change) => (
+                    <div key={change.projectId || change.projectPath} className="text-xs text-text-primary">
+                      {change.projectName}:{' '}
+                      <span className="text-text-secondary">{change.oldParentId ? nameById.get(change.oldParentId) || change.oldParentId : 'Raíz'}</span>
+                      {' → '}
+                      <span className="font-medium">{change.newParentId ? nameById.get(change.newParentId) || change.newParentId : 'Raíz'}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {diff.entries.map((entry) => {
+                const badge = KIND_BADGES[entry.kind];
+                return (
+                  <div key={entry.id} className="px-4 py-3 border-b border-border/70">
+                    <label className="flex items-center gap-2 text-sm text-text-primary">
+                      <input
+                        type="checkbox"
+                        disabled={!canRestore}
+                        checked={selection[entry.id] === 'all'}
+                        onChange={() => toggleProject(entry)}
+                      />
+                      <span className="truncate">{entry.name}</span>
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded ${badge.className}`}>{badge.label}</span>
+                      {entry.moved && <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-100 text-slate-700">Movido</span>}
+                    </label>
+                    {entry.changes.length > 0 && (
+                      <table className="mt-2 ml-6 text-xs">
+                        <tbody>
+                          {entry.changes.map((change) => (
+                            <tr key={change.field}>
+                              <td className="pr-2 py-0.5">
+                                <input
+                                  type="checkbox"
+                                  disabled={!canRestore}
+                                  checked={isFieldSelected(entry.id, change.field)}
+                                  onChange={() => toggleField(entry, change.field)}
+                                />
+                              </td>
+                              <td className="pr-3 py-0.5 text-text-secondary w-32">
+                                {VERSION_DIFF_FIELDS.find((f) => f.key === change.field)?.label || change.field}
+                              </td>
+                              <td className="pr-2 py-0.5 text-red-700 line-through">{formatValue(change.field, change.before)}</td>
+                              <td className="pr-2 py-0.5 text-text-secondary">→</td>
+                              <td className="py-0.5 text-emerald-700">{formatValue(change.field, change.after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-border flex items-center justify-between gap-3">
+          <span className="text-[11px] text-text-secondary">
+            Lo seleccionado vuelve al valor de "{fromLabel}" en el tablero actual.
+          </span>
+          <button
+            disabled={!canRestore || selectedCount === 0 || isRestoring}
+            onClick={handleRestore}
+            className="px-4 py-2 text-sm font-medium bg-text-primary text-white rounded-md hover:bg-[#2c2a25] transition-colors disabled:opacity-40"
+          >
+            {isRestoring ? 'Restaurando...' : `Restaurar selección${selectedCount > 0 ? ` (${selectedCount})` : ''}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { describeActivity } from '@/lib/activityLog';
+import type { ActivityEntry } from '@/lib/activityLogRepository';
+
+interface ActivityListProps {
+  entries: ActivityEntry[];
+  // In a task's own panel the task name is redundant
+  showTask?: boolean;
+}
+
+export function ActivityList({ entries, showTask = true }: ActivityListProps) {
+  return (
+    <ul className="divide-y divide-border/70">
+      {entries.map((entry) => (
+        <li key={entry.id} className="py-2.5">
+          <div className="text-xs text-text-primary">
+            <span className="font-medium">{entry.actor_label || 'Alguien'}</span>{' '}
+            {describeActivity(entry.action, showTask ? entry.task_name : null)}
+          </div>
+          <div className="text-[10px] text-text-secondary/80 mt-0.5" title={new Date(entry.created_at).toLocaleString('es-ES')}>
+            {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true, locale: es })}
+          </div>
+          {entry.changes.length > 0 && (
+            <table className="mt-1.5 text-[11px]">
+              <tbody>
+                {entry.changes.map((change) => (
+                  <tr key={change.field} className="align-top">
+                    <td className="pr-3 py-0.5 text-text-secondary whitespace-nowrap">{change.label}</td>
+                    <td className="pr-2 py-0.5 text-red-700 line-through break-words">{change.from || '—'}</td>
+                    <td className="pr-2 py-0.5 text-text-secondary">→</td>
+                    <td className="py-0.5 text-emerald-700 break-words">{change.to || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {entry.detail && (
+            <p className="mt-1 text-[11px] text-text-secondary break-words">{entry.detail}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,26 @@
+import { Bug, Circle, Flag, Folder, Lightbulb, Radar, Rocket, Star, Wrench, type LucideIcon } from 'lucide-react';
+import type { TaskTypeIconKey } from '@/lib/taskTypes';
+
+const ICONS: Record<TaskTypeIconKey, LucideIcon> = {
+  folder: Folder,
+  rocket: Rocket,
+  radar: Radar,
+  flag: Flag,
+  star: Star,
+  wrench: Wrench,
+  bug: Bug,
+  lightbulb: Lightbulb,
+  circle: Circle,
+};
+
+interface TaskTypeIconProps {
+  icon: string;
+  color?: string;
+  size?: number;
+  className?: string;
+}
+
+export function TaskTypeIcon({ icon, color, size = 12, className }: TaskTypeIconProps) {
+  const Icon = ICONS[icon as TaskTypeIconKey] || Circle;
+  return <Icon size={size} className={className} style={color ? { color } : undefined} />;
+}
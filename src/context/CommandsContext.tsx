@@ -0,0 +1,320 @@
+import React, { createContext, useCallback, useContext, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useUiFeedback } from '@/context/UiFeedbackContext';
+import { isSupabaseConfigured } from '@/lib/supabaseClient';
+import {
+  COMMAND_PALETTE_DEFAULT_BINDING,
+  COMMAND_PALETTE_ID,
+  bindingFromEvent,
+  resolveBinding,
+  type CommandChoice,
+  type CommandDefinition,
+  type CommandSection,
+  type KeyBindingOverrides,
+} from '@/lib/commands';
+import {
+  loadLocalKeyBindings,
+  loadProfileKeyBindings,
+  saveLocalKeyBindings,
+  saveProfileKeyBindings,
+} from '@/lib/keyBindingsRepository';
+
+type PaletteMode = 'commands' | 'bindings';
+
+interface CommandsContextValue {
+  commands: CommandDefinition[];
+  bindingFor: (command: Pick<CommandDefinition, 'id' | 'defaultBinding'>) => string | null;
+  hasCustomBinding: (commandId: string) => boolean;
+  setKeyBinding: (commandId: string, binding: string | null) => void;
+  resetKeyBinding: (commandId: string) => void;
+  resetAllKeyBindings: () => void;
+  // While the binding editor records a chord, bound commands must not fire
+  setRecordingBinding: (recording: boolean) => void;
+  paletteMode: PaletteMode | null;
+  // Command whose choices the palette should list right away (chosen by key binding)
+  paletteChoicesFor: string | null;
+  openPalette: (mode?: PaletteMode) => void;
+  closePalette: () => void;
+  runCommand: (commandId: string, choiceId?: string) => void;
+  getCommandChoices: (commandId: string) => CommandChoice[];
+}
+
+type RegisterCommands = (ownerId: string, commands: CommandDefinition[]) => void;
+
+const CommandsContext = createContext<CommandsContextValue | null>(null);
+const CommandRegistryContext = createContext<RegisterCommands | null>(null);
+
+// Contextual commands come first, both in the palette and when two share a chord
+const SECTION_ORDER: CommandSection[] = ['row', 'board', 'view', 'general'];
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function commandsSignature(commands: CommandDefinition[]): string {
+  return commands
+    .map((c) => `${c.id}|${c.title}|${c.section}|${c.enabled !== false}|${c.defaultBinding || ''}|${!!c.choices}`)
+    .join('\n');
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  const tag = target.tagName.toLowerCase();
+  if (tag === 'input') return (target as HTMLInputElement).type !== 'checkbox';
+  return tag === 'textarea' || tag === 'select' || target.isContentEditable;
+}
+
+/** Symbols typed with Shift ("+" on US layouts) also match their chord without Shift */
+function chordCandidates(chord: string): string[] {
+  const parts = chord.endsWith('++') ? [...chord.slice(0, -2).split('+').filter(Boolean), '+'] : chord.split('+');
+  const key = parts[parts.length - 1];
+  if (!parts.includes('Shift') || /^[A-Z0-9]$/.test(key) || key.length !== 1) return [chord];
+  return [chord, parts.filter((p) => p !== 'Shift').join('+')];
+}
+
+export function CommandsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { toast } = useUiFeedback();
+  const userId = user?.id ?? null;
+  const registryRef = useRef(new Map<string, CommandDefinition[]>());
+  const signaturesRef = useRef(new Map<string, string>());
+  const [registryVersion, setRegistryVersion] = useState(0);
+  const [overrides, setOverrides] = useState<KeyBindingOverrides>(() => loadLocalKeyBindings(null));
+  const overridesRef = useRef(overrides);
+  const recordingRef = useRef(false);
+  const [paletteMode, setPaletteMode] = useState<PaletteMode | null>(null);
+  const [paletteChoicesFor, setPaletteChoicesFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    overridesRef.current = overrides;
+  }, [overrides]);
+
+  useEffect(() => {
+    setOverrides(loadLocalKeyBindings(userId));
+    if (!isSupabaseConfigured || !userId) return;
+    let cancelled = false;
+    void loadProfileKeyBindings(userId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setOverrides(loaded);
+        saveLocalKeyBindings(userId, loaded);
+      })
+      .catch(() => {
+        // Keep the local copy; the column may be missing on older databases
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const persistOverrides = useCallback((next: KeyBindingOverrides) => {
+    setOverrides(next);
+    saveLocalKeyBindings(userId, next);
+    if (!isSupabaseConfigured || !userId) return;
+    void saveProfileKeyBindings(userId, next).catch((err) => {
+      toast('error', `No se pudieron guardar los atajos en tu perfil: ${errorText(err)}`);
+    });
+  }, [userId, toast]);
+
+  const register = useCallback<RegisterCommands>((ownerId, commands) => {
+    const registry = registryRef.current;
+    if (commands.length === 0) registry.delete(ownerId);
+    else registry.set(ownerId, commands);
+    // Closures refresh on every render; the list only re-renders when what it shows changes
+    const signature = commandsSignature(commands);
+    if (signaturesRef.current.get(ownerId) === signature) return;
+    if (commands.length === 0) signaturesRef.current.delete(ownerId);
+    else signaturesRef.current.set(ownerId, signature);
+    setRegistryVersion((v) => v + 1);
+  }, []);
+
+  const openPalette = useCallback((mode: PaletteMode = 'commands') => {
+    setPaletteChoicesFor(null);
+    setPaletteMode(mode);
+  }, []);
+
+  const closePalette = useCallback(() => {
+    setPaletteChoicesFor(null);
+    setPaletteMode(null);
+  }, []);
+
+  const builtInCommands = useMemo<CommandDefinition[]>(() => [
+    {
+      id: COMMAND_PALETTE_ID,
+      title: 'Mostrar paleta de comandos',
+      section: 'general',
+      defaultBinding: COMMAND_PALETTE_DEFAULT_BINDING,
+      run: () => {
+        setPaletteChoicesFor(null);
+        setPaletteMode((mode) => (mode ? null : 'commands'));
+      },
+    },
+    {
+      id: 'palette.keybindings',
+      title: 'Personalizar atajos de teclado',
+      section: 'general',
+      keywords: ['teclas', 'shortcuts', 'combinaciones'],
+      run: () => {
+        setPaletteChoicesFor(null);
+        setPaletteMode('bindings');
+      },
+    },
+  ], []);
+
+  const allCommands = useCallback((): CommandDefinition[] => {
+    const registered = Array.from(registryRef.current.values()).flat();
+    const list = [...registered, ...builtInCommands];
+    return list
+      .map((command, index) => ({ command, index }))
+      .sort((a, b) => SECTION_ORDER.indexOf(a.command.section) - SECTION_ORDER.indexOf(b.command.section) || a.index - b.index)
+      .map(({ command }) => command);
+  }, [builtInCommands]);
+
+  const commands = useMemo(
+    () => allCommands(),
+    // registryVersion marks changes to the registry ref
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [allCommands, registryVersion]
+  );
+
+  const bindingFor = useCallback(
+    (command: Pick<CommandDefinition, 'id' | 'defaultBinding'>) => resolveBinding(command, overrides),
+    [overrides]
+  );
+
+  const hasCustomBinding = useCallback(
+    (commandId: string) => Object.prototype.hasOwnProperty.call(overrides, commandId),
+    [overrides]
+  );
+
+  const setKeyBinding = useCallback((commandId: string, binding: string | null) => {
+    const next: KeyBindingOverrides = { ...overridesRef.current, [commandId]: binding };
+    if (binding) {
+      // A chord belongs to one command: whoever had it loses it
+      allCommands().forEach((command) => {
+        if (command.id !== commandId && resolveBinding(command, next) === binding) next[command.id] = null;
+      });
+      Object.keys(next).forEach((id) => {
+        if (id !== commandId && next[id] === binding) next[id] = null;
+      });
+    }
+    persistOverrides(next);
+  }, [allCommands, persistOverrides]);
+
+  const resetKeyBinding = useCallback((commandId: string) => {
+    const next = { ...overridesRef.current };
+    delete next[commandId];
+    persistOverrides(next);
+  }, [persistOverrides]);
+
+  const resetAllKeyBindings = useCallback(() => persistOverrides({}), [persistOverrides]);
+
+  const setRecordingBinding = useCallback((recording: boolean) => {
+    recordingRef.current = recording;
+  }, []);
+
+  const runCommand = useCallback((commandId: string, choiceId?: string) => {
+    const command = allCommands().find((c) => c.id === commandId);
+    if (!command || command.enabled === false) return;
+    try {
+      const result = command.run(choiceId);
+      if (result instanceof Promise) {
+        result.catch((err) => toast('error', `${command.title}: ${errorText(err)}`));
+      }
+    } catch (err) {
+      toast('error', `${command.title}: ${errorText(err)}`);
+    }
+  }, [allCommands, toast]);
+
+  // Read at open time, since choices depend on state the registry signature ignores
+  const getCommandChoices = useCallback((commandId: string): CommandChoice[] => {
+    const command = allCommands().find((c) => c.id === commandId);
+    return command?.choices ? command.choices() : [];
+  }, [allCommands]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (recordingRef.current || e.defaultPrevented || e.repeat) return;
+      const chord = bindingFromEvent(e);
+      if (!chord) return;
+      // Typing in a field only reaches chords that cannot produce text
+      const typing = isEditableTarget(e.target);
+      if (typing && !chord.startsWith('Ctrl+') && !chord.includes('Alt+')) return;
+      const candidates = chordCandidates(chord);
+      const command = allCommands().find((c) => {
+        if (c.enabled === false) return false;
+        const bound = resolveBinding(c, overridesRef.current);
+        return !!bound && candidates.includes(bound);
+      });
+      if (!command) return;
+      e.preventDefault();
+      if (command.choices) {
+        setPaletteChoicesFor(command.id);
+        setPaletteMode('commands');
+        return;
+      }
+      runCommand(command.id);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [allCommands, runCommand]);
+
+  const value = useMemo<CommandsContextValue>(() => ({
+    commands,
+    bindingFor,
+    hasCustomBinding,
+    setKeyBinding,
+    resetKeyBinding,
+    resetAllKeyBindings,
+    setRecordingBinding,
+    paletteMode,
+    paletteChoicesFor,
+    openPalette,
+    closePalette,
+    runCommand,
+    getCommandChoices,
+  }), [
+    commands,
+    bindingFor,
+    hasCustomBinding,
+    setKeyBinding,
+    resetKeyBinding,
+    resetAllKeyBindings,
+    setRecordingBinding,
+    paletteMode,
+    paletteChoicesFor,
+    openPalette,
+    closePalette,
+    runCommand,
+    getCommandChoices,
+  ]);
+
+  return (
+    <CommandRegistryContext.Provider value={register}>
+      <CommandsContext.Provider value={value}>
+        {children}
+      </CommandsContext.Provider>
+    </CommandRegistryContext.Provider>
+  );
+}
+
+export function useCommands() {
+  const ctx = useContext(CommandsContext);
+  if (!ctx) throw new Error('useCommands must be used within CommandsProvider');
+  return ctx;
+}
+
+/**
+ * Publishes the caller's commands while it is mounted. The list may be rebuilt
+ * on every render; only changes to ids, titles or availability reach the palette.
+ */
+export function useRegisterCommands(commands: CommandDefinition[]) {
+  const register = useContext(CommandRegistryContext);
+  const ownerId = useId();
+
+  useEffect(() => {
+    register?.(ownerId, commands);
+  }, [register, ownerId, commands]);
+
+  useEffect(() => () => register?.(ownerId, []), [register, ownerId]);
+}
@@ -1,21 +1,84 @@
 import React, { createContext, useContext, useReducer, useEffect, useMemo, useRef, useState, useCallback } from 'react';
-import type { AppState, AppAction, Project, DynamicCellValue, DynamicColumn } from '@/lib/types';
-import { DEFAULT_STATE, DEFAULT_FILTERS } from '@/lib/constants';
+import type { AppState, AppAction, Project, DynamicCellValue, DynamicColumn, PersonAvailability, RollupRules, TaskType, VersionSnapshotSettings } from '@/lib/types';
+import { DEFAULT_STATE, DEFAULT_FILTERS, DEFAULT_TASK_TYPES } from '@/lib/constants';
 import { calculateDailyWorkload, applyFilters, getBranches, getActiveProjects, computeProjectFields, getPersonsWithCatalog } from '@/lib/workloadEngine';
-import SyncManager from '@/lib/syncManager';
+import { applyVersionSelection, type VersionRestoreSelection } from '@/lib/versionDiff';
+import { acquireSyncHold, registerCloudReloadHandler, requestCloudReload, runWhenSyncIdle, type ReleaseHold } from '@/lib/syncScheduler';
 import { getDateRange } from '@/lib/dateUtils';
 import { setDateDisplayFormat } from '@/lib/dateUtils';
-import { validateNoCircles, aggregateFromChildren, calculateHierarchyLevel } from '@/lib/hierarchyEngine';
+import { validateNoCircles, aggregateFromChildren, calculateHierarchyLevel, getAncestors } from '@/lib/hierarchyEngine';
 import { isSupabaseConfigured, supabase } from '@/lib/supabaseClient';
-import { loadBoardProjects, saveBoardProjects } from '@/lib/cloudBoardRepository';
+import { loadBoardProjects, saveBoardProjects, saveBoardPatch, loadTaskRowsByIds, updateTaskRowsAtVersion, deleteTaskRows, deleteTaskRowsAtVersion, mapRowToProject, mapProjectToRow, type CloudTaskRow } from '@/lib/cloudBoardRepository';
+import { detectRowConflict, deletedEditedRowConflict, removedRowConflict, resolveRowConflict, type RowConflict, type ConflictChoices } from '@/lib/rowConflicts';
+import {
+  createRowSnapshot,
+  collectTouchedProjectIds,
+  mergeDirtyIds,
+  buildBoardPatch,
+  isEmptyPatch,
+  applyPatchToSnapshot,
+  absorbRealtimeChanges,
+  snapshotOrder,
+  mergeProjectOrder,
+  type BoardPatch,
+  type CloudRowSnapshot,
+  type DirtyProjectIds,
+  type RealtimeRowChange,
+} from '@/lib/boardChangeTracking';
 import { ensureDefaultWorkspaceBoard } from '@/lib/cloudBootstrap';
-import { insertBoardVersionRow, loadBoardVersionRows } from '@/lib/versionHistoryRepository';
+import { insertBoardVersionRow, loadBoardVersionRows, updateBoardVersionPin } from '@/lib/versionHistoryRepository';
+import { applyVersionRetention, isVersionProtected } from '@/lib/versionRetention';
+import {
+  computeProgressMetrics,
+  createActualProgressResolver,
+  summarizePortfolioProgress,
+  type PortfolioProgress,
+  type ProjectProgressMetrics,
+} from '@/lib/earnedValue';
+import { buildProjectBaseline, computeScheduleVariance, BASELINE_LABEL_PREFIX, type ProjectBaseline, type ScheduleVariance } from '@/lib/baselines';
 import { listBoardColumns, listTaskColumnValues } from '@/lib/dynamicColumnsRepository';
+import { loadBoardRollupRules, loadLocalRollupRules, saveBoardRollupRules, saveLocalRollupRules } from '@/lib/rollupRulesRepository';
+import { parseRollupRules } from '@/lib/rollupRules';
+import { loadBoardTaskTypes, loadLocalTaskTypes, saveBoardTaskTypes, saveLocalTaskTypes } from '@/lib/taskTypesRepository';
+import { defaultTaskTypeName, findTaskType, parseTaskTypes } from '@/lib/taskTypes';
+import { loadBoardCache, saveBoardCache, loadColumnsCache, OfflineStoreError, type BoardCacheRecord } from '@/lib/offlineStore';
+import {
+  enqueueMutation,
+  listOutbox,
+  replayOutbox,
+  discardOutbox,
+  subscribeOutbox,
+  isConnectivityError,
+  type TasksPatchHandler,
+} from '@/lib/mutationOutbox';
+import { useNotificationCenter } from '@/lib/useNotificationCenter';
+import { draftsFromAction, draftsFromMentions } from '@/lib/notificationRules';
+import type { AppNotification, NotificationPreferences } from '@/lib/notificationsRepository';
+import { useActivityLog } from '@/lib/useActivityLog';
+import { activityFromAction, activityFromBoardChange, type ActivityDraft } from '@/lib/activityLog';
+import type { ActivityEntry } from '@/lib/activityLogRepository';
+import { useSavedViews } from '@/lib/useSavedViews';
+import type { SavedView } from '@/lib/savedViewsRepository';
+import { columnIdFromField, getQueryFields, type QueryField } from '@/lib/queryFilter';
+import { buildSearchIndex, type BoardSearchIndex } from '@/lib/boardSearch';
+import { listBoardCommentBodies } from '@/lib/taskCommentsRepository';
+import {
+  VIEW_URL_PARAM,
+  decodeViewConfig,
+  encodeViewConfig,
+  viewConfigFingerprint,
+  type SavedViewConfig,
+  type ViewLayout,
+} from '@/lib/savedViews';
 import { useAuth } from '@/context/AuthContext';
+import { usePersonProfiles } from '@/context/PersonProfilesContext';
+import { useUiFeedback } from '@/context/UiFeedbackContext';
+import { buildPersonAvailabilityMap } from '@/lib/personProfiles';
 
 const MAX_HISTORY = 50;
 const LAST_BOARD_ID_KEY = 'workload-dashboard-last-board-id';
 const VERSION_HISTORY_PREFIX = 'workload-dashboard-version-history-v1';
+const ACTIVE_BASELINE_PREFIX = 'workload-dashboard-active-baseline-v1';
 const MAX_VERSION_HISTORY = 60;
 
 type VersionSnapshotStored = {
@@ -29,8 +92,25 @@ type VersionSnapshotStored = {
   fingerprint: string;
   projects: Project[];
   projectOrder: string[];
+  pinned?: boolean;
+  label?: string | null;
+  // Baseline versions freeze the planned schedule used for variance
+  baseline?: boolean;
 };
 
+type VersionSnapshotOptions = {
+  // Automatic snapshots are skipped when their trigger is turned off in the config
+  trigger?: keyof VersionSnapshotSettings;
+  label?: string | null;
+  pinned?: boolean;
+  baseline?: boolean;
+};
+
+const BULK_SNAPSHOT_THROTTLE_MS = 60_000;
+const DAILY_SNAPSHOT_CHECK_MS = 60 * 60_000;
+// Rounds of read, merge and conditional update before a contested row waits for the next save
+const CHECKED_WRITE_ATTEMPTS = 3;
+
 function safeDate(value: unknown): Date | null {
   if (!value) return null;
   const asString = String(value);
@@ -57,7 +137,7 @@ interface HistoryState {
 
 // Check if action modifies project data (should be tracked in history)
 function isUndoableAction(action: AppAction): boolean {
-  return ['UPDATE_PROJECT', 'BULK_UPDATE_PROJECTS', 'ADD_PROJECT', 'DELETE_PROJECT', 'REORDER_PROJECTS', 'UPDATE_HIERARCHY', 'TOGGLE_EXPANSION'].includes(action.type);
+  return ['UPDATE_PROJECT', 'BULK_UPDATE_PROJECTS', 'PASTE_PROJECTS', 'ADD_PROJECT', 'DELETE_PROJECT', 'REORDER_PROJECTS', 'UPDATE_HIERARCHY', 'TOGGLE_EXPANSION'].includes(action.type);
 }
 
 function appReducer(state: AppState, action: AppAction): AppState {
@@ -97,8 +177,13 @@ function appReducer(state: AppState, action: AppAction): AppState {
           hasUnsavedChanges: false,
         };
       }
-    case 'SET_CONFIG':
-      return { ...state, config: { ...state.config, ...action.payload } };
+    case 'SET_CONFIG': {
+      const config = { ...state.config, ...action.payload };
+      if (!action.payload.rollup) return { ...state, config };
+      // Group rows follow new rollup rules right away
+      const projects = state.projects.map((p) => computeProjectFields(p, config, state.projects));
+      return { ...state, config, projects };
+    }
     case 'SET_FILTERS':
       return { ...state, filters: { ...state.filters, ...action.payload } };
     case 'RESET_FILTERS':
@@ -157,6 +242,32 @@ function appReducer(state: AppState, action: AppAction): AppState {
       projects = projects.map((p) => ({ ...p, hierarchyLevel: calculateHierarchyLevel(p.id, projects) }));
       return { ...state, projects, hasUnsavedChanges: true };
     }
+    case 'PASTE_PROJECTS': {
+      // New rows and pasted cells land in one step, so a single undo takes the whole paste back
+      const { updates, added, afterId } = action.payload;
+      const touchedIds = new Set([...Object.keys(updates || {}), ...added.map((p) => p.id)]);
+      if (touchedIds.size === 0) return state;
+
+      const projectOrder = [...(state.projectOrder || [])];
+      const afterIdx = afterId ? projectOrder.indexOf(afterId) : -1;
+      if (afterIdx >= 0) projectOrder.splice(afterIdx + 1, 0, ...added.map((p) => p.id));
+      else projectOrder.push(...added.map((p) => p.id));
+
+      const before = [...state.projects, ...added];
+      let projects = before.map((p) => {
+        if (!touchedIds.has(p.id)) return p;
+        return computeProjectFields({ ...p, ...(updates[p.id] || {}) }, state.config, before);
+      });
+
+      projects = projects.map((p) => {
+        if (!p.parentId) return p;
+        if (!touchedIds.has(p.id) && !touchedIds.has(p.parentId)) return p;
+        return computeProjectFields(p, state.config, projects);
+      });
+
+      projects = projects.map((p) => ({ ...p, hierarchyLevel: calculateHierarchyLevel(p.id, projects) }));
+      return { ...state, projects, projectOrder, hasUnsavedChanges: true };
+    }
     case 'ADD_PROJECT': {
       const rawPayload = action.payload as unknown as
         | Project
@@ -233,6 +344,37 @@ function appReducer(state: AppState, action: AppAction): AppState {
       });
       return { ...state, projects, hasUnsavedChanges: true };
     }
+    case 'APPLY_REMOTE_PROJECTS': {
+      const { upserts, deletes, projectOrder: cloudOrder } = action.payload;
+      if (upserts.length === 0 && deletes.length === 0 && !cloudOrder) return state;
+      const removed = new Set(deletes);
+      const incomingById = new Map(upserts.map((p) => [p.id, p]));
+
+      let projects = state.projects
+        .filter((p) => !removed.has(p.id))
+        .map((p) => {
+          const incoming = incomingById.get(p.id);
+          if (!incoming) return p;
+          incomingById.delete(p.id);
+          // Expansion is a per-viewer preference; keep the local one.
+          return { ...incoming, isExpanded: p.isExpanded };
+        });
+      projects = [...projects, ...incomingById.values()];
+
+      // Parents aggregate their children, so recompute every row linked to an incoming change
+      const affected = new Set(upserts.map((p) => p.id));
+      upserts.forEach((p) => { if (p.parentId) affected.add(p.parentId); });
+      projects = projects.map((p) => (affected.has(p.id) ? computeProjectFields(p, state.config, projects) : p));
+      projects = projects.map((p) => ({ ...p, hierarchyLevel: calculateHierarchyLevel(p.id, projects) }));
+
+      const knownIds = new Set(projects.map((p) => p.id));
+      const baseOrder = cloudOrder
+        ? mergeProjectOrder(cloudOrder, state.projectOrder || [])
+        : [...(state.projectOrder || []), ...upserts.map((p) => p.id).filter((id) => !(state.projectOrder || []).includes(id))];
+      const projectOrder = baseOrder.filter((id) => knownIds.has(id));
+
+      return { ...state, projects, projectOrder };
+    }
     case 'MARK_SAVED':
       if (!state.hasUnsavedChanges) return state;
       return { ...state, hasUnsavedChanges: false, lastUpdated: new Date() };
@@ -328,6 +470,9 @@ function loadPersistedState(): Partial<AppState> {
         config: parsed.config ? {
           ...DEFAULT_STATE.config,
           ...parsed.config,
+          versionSnapshots: { ...DEFAULT_STATE.config.versionSnapshots, ...parsed.config.versionSnapshots },
+          rollup: parseRollupRules(parsed.config.rollup),
+          taskTypes: parseTaskTypes(parsed.config.taskTypes),
           holidays: parsed.config.holidays?.map((h: { date: string; reason: string; recurring: boolean }) => ({
             ...h,
             date: safeDate(h.date) || new Date(),
@@ -438,10 +583,40 @@ function loadVersionHistory(boardId: string | null): VersionSnapshotStored[] {
   }
 }
 
+// Retention tiers first, then a hard cap on unprotected entries to bound localStorage use
+function trimVersionHistory(entries: VersionSnapshotStored[]): VersionSnapshotStored[] {
+  let unprotected = 0;
+  return applyVersionRetention(entries).filter((entry) => {
+    if (isVersionProtected(entry)) return true;
+    unprotected += 1;
+    return unprotected <= MAX_VERSION_HISTORY;
+  });
+}
+
+// null means "follow the most recent baseline"
+function loadActiveBaselineId(boardId: string | null): string | null {
+  if (!boardId) return null;
+  try {
+    return localStorage.getItem(`${ACTIVE_BASELINE_PREFIX}-${boardId}`) || null;
+  } catch {
+    return null;
+  }
+}
+
+function persistActiveBaselineId(boardId: string | null, baselineId: string | null): void {
+  if (!boardId) return;
+  try {
+    if (baselineId) localStorage.setItem(`${ACTIVE_BASELINE_PREFIX}-${boardId}`, baselineId);
+    else localStorage.removeItem(`${ACTIVE_BASELINE_PREFIX}-${boardId}`);
+  } catch {
+    // ignore
+  }
+}
+
 function persistVersionHistory(boardId: string | null, entries: VersionSnapshotStored[]): void {
   if (!boardId) return;
   try {
-    localStorage.setItem(`${VERSION_HISTORY_PREFIX}-${boardId}`, JSON.stringify(entries.slice(0, MAX_VERSION_HISTORY)));
+    localStorage.setItem(`${VERSION_HISTORY_PREFIX}-${boardId}`, JSON.stringify(trimVersionHistory(entries)));
   } catch {
     // ignore
   }
@@ -456,8 +631,15 @@ interface ProjectContextValue {
   allBranches: string[];
   customFilterColumns: { id: string; name: string; type: 'tags' | 'stars' }[];
   customFilterTagOptionsByColumn: Record<string, string[]>;
+  queryFields: QueryField[];
   dateRange: { start: Date; end: Date } | null;
   workloadData: Map<string, import('@/lib/types').PersonWorkload[]>;
+  personAvailability: Map<string, PersonAvailability>;
+  syncConflicts: RowConflict[];
+  outboxStatus: { count: number; lastError: string | null; isReplaying: boolean };
+  retryOutbox: () => Promise<void>;
+  discardQueuedChanges: () => Promise<void>;
+  resolveSyncConflicts: (choicesById: Record<string, ConflictChoices>) => Promise<void>;
   canUndo: boolean;
   canRedo: boolean;
   undoCount: number;
@@ -469,9 +651,12 @@ interface ProjectContextValue {
     reason: string;
     projectCount: number;
     changedProjects: number;
+    pinned: boolean;
+    label: string | null;
   }[];
-  createVersionSnapshot: (reason?: string) => void;
-  restoreVersionSnapshot: (versionId: string) => Promise<boolean>;
+  createVersionSnapshot: (reason?: string, options?: VersionSnapshotOptions) => void;
+  setVersionPinned: (versionId: string, pinned: boolean, label?: string | null) => Promise<void>;
+  restoreVersionSnapshot: (versionId: string, selection?: VersionRestoreSelection) => Promise<boolean>;
   getVersionSnapshot: (versionId: string) => {
     id: string;
     createdAt: string;
@@ -483,6 +668,52 @@ interface ProjectContextValue {
     projectOrder: string[];
   } | null;
   versionHistorySync: 'cloud' | 'local';
+  baselines: { id: string; name: string; createdAt: string; createdByLabel: string }[];
+  activeBaselineId: string | null;
+  activeBaseline: ProjectBaseline | null;
+  scheduleVariance: Map<string, ScheduleVariance>;
+  createBaseline: (name: string) => void;
+  setActiveBaselineId: (baselineId: string | null) => void;
+  progressMetrics: Map<string, ProjectProgressMetrics>;
+  portfolioProgress: PortfolioProgress;
+  // The table owns the live dynamic columns; it shares them so filters and metrics stay current
+  shareDynamicColumnValues: (columns: DynamicColumn[], values: Map<string, Record<string, DynamicCellValue>>) => void;
+  dynamicColumns: DynamicColumn[];
+  // Saved on the board; group rows are recomputed as soon as the rules change
+  setRollupRules: (rules: RollupRules) => Promise<void>;
+  // Saved on the board; `renamed` maps old to new names so tasks keep their type, tasks of removed types get the first one
+  setTaskTypes: (types: TaskType[], renamed?: Record<string, string>) => Promise<void>;
+  notifications: AppNotification[];
+  unreadNotificationCount: number;
+  notificationPreferences: NotificationPreferences;
+  updateNotificationPreferences: (preferences: NotificationPreferences) => Promise<void>;
+  markNotificationsRead: (ids: string[] | 'all') => void;
+  notifyCommentMentions: (taskId: string, mentions: string[], body: string) => void;
+  // Append-only audit trail; reducer edits are recorded automatically, other edits report themselves
+  recordActivity: (drafts: ActivityDraft[]) => void;
+  loadBoardActivity: () => Promise<ActivityEntry[]>;
+  loadTaskActivity: (taskId: string) => Promise<ActivityEntry[]>;
+  savedViews: SavedView[];
+  activeSavedViewId: string | null;
+  // The board no longer matches the active saved view
+  activeSavedViewModified: boolean;
+  applySavedView: (viewId: string) => void;
+  saveCurrentView: (name: string, shared: boolean) => Promise<void>;
+  overwriteSavedView: (viewId: string) => Promise<void>;
+  updateSavedView: (viewId: string, changes: Partial<Pick<SavedView, 'name' | 'shared'>>) => Promise<void>;
+  deleteSavedView: (viewId: string) => Promise<void>;
+  canEditSavedView: (view: SavedView) => boolean;
+  copyViewLink: (viewId?: string) => Promise<void>;
+  // Views that own part of the layout (timeline grouping, hidden columns) report it here
+  // and pick up layouts applied from saved views or links
+  shareViewLayout: <K extends keyof ViewLayout>(part: K, value: ViewLayout[K]) => void;
+  takePendingViewLayout: <K extends keyof ViewLayout>(part: K) => ViewLayout[K] | undefined;
+  // Built on demand; comments are fetched each time and left out when they cannot be read
+  loadSearchIndex: () => Promise<{ index: BoardSearchIndex; commentsUnavailable: boolean }>;
+  // Switches to a view that shows the task, clears filters hiding it and expands its parents;
+  // the table or timeline then takes the request and scrolls to it
+  revealTask: (taskId: string) => void;
+  takeRevealRequest: () => string | null;
   boards: { id: string; name: string }[];
   activeBoardId: string | null;
   activeBoardRole: 'owner' | 'editor' | 'viewer' | null;
@@ -509,6 +740,8 @@ const ProjectContext = createContext<ProjectContextValue | null>(null);
 
 export function ProjectProvider({ children }: { children: React.ReactNode }) {
   const { user, loading: authLoading } = useAuth();
+  const { profiles: personProfiles } = usePersonProfiles();
+  const { toast } = useUiFeedback();
   const persisted = loadPersistedState();
   const initialState: AppState = { ...DEFAULT_STATE, ...persisted };
   const envBoardId = import.meta.env.VITE_SUPABASE_BOARD_ID;
@@ -538,6 +771,7 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
   const [remoteEditingByColumn, setRemoteEditingByColumn] = useState<Record<string, { userId: string; label: string; ts: number }>>({});
   const [versionHistory, setVersionHistory] = useState<VersionSnapshotStored[]>([]);
   const [versionHistorySync, setVersionHistorySync] = useState<'cloud' | 'local'>('local');
+  const [selectedBaselineId, setSelectedBaselineId] = useState<string | null>(null);
   const [filterDynamicColumns, setFilterDynamicColumns] = useState<DynamicColumn[]>([]);
   const [filterDynamicValues, setFilterDynamicValues] = useState<Map<string, Record<string, DynamicCellValue>>>(new Map());
   const lastAutoSnapshotAtRef = useRef<number>(0);
@@ -545,6 +779,19 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
   const localRevisionRef = useRef<number>(0);
   const lastSyncedRevisionRef = useRef<number>(0);
   const lastSavedFingerprintRef = useRef<string>('');
+  const cloudRowsRef = useRef<CloudRowSnapshot>(new Map());
+  const dirtyProjectIdsRef = useRef<DirtyProjectIds>(new Set());
+  const pendingRealtimeRef = useRef<RealtimeRowChange[]>([]);
+  const inlineEditHoldRef = useRef<ReleaseHold | null>(null);
+  const createVersionSnapshotRef = useRef<(reason?: string, options?: VersionSnapshotOptions) => void>(() => undefined);
+  const lastBulkSnapshotAtRef = useRef(0);
+  const [syncConflicts, setSyncConflicts] = useState<RowConflict[]>([]);
+  const [outboxStatus, setOutboxStatus] = useState<{ count: number; lastError: string | null; isReplaying: boolean }>({
+    count: 0,
+    lastError: null,
+    isReplaying: false,
+  });
+  const projectsRef = useRef<Project[]>(initialState.projects);
 
   const state = historyState.present;
   const canUndo = historyState.past.length > 0;
@@ -560,6 +807,8 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
       reason: v.reason,
       projectCount: v.projectCount,
       changedProjects: v.changedProjects,
+      pinned: !!v.pinned,
+      label: v.label || null,
     })),
     [versionHistory]
   );
@@ -568,11 +817,36 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     hasUnsavedChangesRef.current = state.hasUnsavedChanges;
   }, [state.hasUnsavedChanges]);
 
+  useEffect(() => {
+    projectsRef.current = state.projects;
+  }, [state.projects]);
+
+  const boardActor = useMemo(
+    () => ({
+      userId: user?.id ?? null,
+      label: (user?.user_metadata?.full_name as string | undefined) || user?.email || null,
+    }),
+    [user]
+  );
+  const notificationCenter = useNotificationCenter(activeBoardId, boardActor, state.projects);
+  const emitNotificationsRef = useRef(notificationCenter.emit);
+  emitNotificationsRef.current = notificationCenter.emit;
+  const activityLog = useActivityLog(activeBoardId, boardActor);
+  const recordActivityRef = useRef(activityLog.record);
+  recordActivityRef.current = activityLog.record;
+  const historyRef = useRef(historyState);
+  historyRef.current = historyState;
+  // Read by the realtime channel so config changes don't resubscribe it
+  const configRef = useRef(state.config);
+  configRef.current = state.config;
+
   const guardedDispatch = useCallback<React.Dispatch<AppAction | { type: 'UNDO' } | { type: 'REDO' }>>(
     (action) => {
       const mutatingActionTypes = new Set([
+        'SET_PROJECTS',
         'UPDATE_PROJECT',
         'BULK_UPDATE_PROJECTS',
+        'PASTE_PROJECTS',
         'ADD_PROJECT',
         'DELETE_PROJECT',
         'REORDER_PROJECTS',
@@ -583,17 +857,51 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
       if ('type' in action && mutatingActionTypes.has(action.type)) {
         localRevisionRef.current += 1;
       }
+      if ('type' in action && (mutatingActionTypes.has(action.type) || action.type === 'UNDO' || action.type === 'REDO')) {
+        dirtyProjectIdsRef.current = mergeDirtyIds(
+          dirtyProjectIdsRef.current,
+          collectTouchedProjectIds(action, projectsRef.current)
+        );
+      }
+      const bulkRowCount = action.type === 'BULK_UPDATE_PROJECTS'
+        ? Object.keys(action.payload).length
+        : action.type === 'PASTE_PROJECTS'
+          ? Object.keys(action.payload.updates).length + action.payload.added.length
+          : 0;
+      if (bulkRowCount > 1 && Date.now() - lastBulkSnapshotAtRef.current > BULK_SNAPSHOT_THROTTLE_MS) {
+        lastBulkSnapshotAtRef.current = Date.now();
+        createVersionSnapshotRef.current('Antes de edición masiva', { trigger: 'beforeBulk' });
+      }
+      // A bug in a notification or audit rule must never block the edit itself
+      try {
+        if (action.type === 'UNDO' || action.type === 'REDO') {
+          const { past, future } = historyRef.current;
+          const target = action.type === 'UNDO' ? past[past.length - 1] : future[0];
+          if (target) {
+            recordActivityRef.current(activityFromBoardChange(action.type === 'UNDO' ? 'board.undo' : 'board.redo', projectsRef.current, target.projects));
+          }
+        } else if (mutatingActionTypes.has(action.type)) {
+          emitNotificationsRef.current(draftsFromAction(action, projectsRef.current));
+          recordActivityRef.current(activityFromAction(action, projectsRef.current));
+        }
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn('Notification/activity drafts failed:', err);
+      }
       dispatch(action);
     },
     [canEditActiveBoard]
   );
 
-  const createVersionSnapshot = useCallback((reason = 'Snapshot manual') => {
+  const createVersionSnapshot = useCallback((reason = 'Snapshot manual', options: VersionSnapshotOptions = {}) => {
     if (!activeBoardId) return;
+    if (options.trigger && !state.config.versionSnapshots[options.trigger]) return;
+    const label = options.label?.trim() || null;
     const fingerprint = buildSnapshotFingerprint(state.projects, state.projectOrder);
     setVersionHistory((prev) => {
       const latest = prev[0] || null;
-      if (latest?.fingerprint === fingerprint) return prev;
+      // A named version is always recorded, even when nothing changed since the last one
+      if (!label && latest?.fingerprint === fingerprint) return prev;
       const entry: VersionSnapshotStored = {
         id: crypto.randomUUID(),
         createdAt: new Date().toISOString(),
@@ -605,11 +913,15 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
         fingerprint,
         projects: state.projects.map((p) => ({ ...p })),
         projectOrder: [...state.projectOrder],
+        pinned: !!options.pinned,
+        label,
+        baseline: !!options.baseline,
       };
-      const next = [entry, ...prev].slice(0, MAX_VERSION_HISTORY);
+      const next = trimVersionHistory([entry, ...prev]);
       persistVersionHistory(activeBoardId, next);
       if (isSupabaseConfigured && supabase && user) {
         void insertBoardVersionRow({
+          id: entry.id,
           boardId: activeBoardId,
           createdBy: user.id,
           createdByLabel: entry.createdByLabel,
@@ -620,7 +932,10 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
           payload: {
             projects: entry.projects,
             projectOrder: entry.projectOrder,
+            baseline: entry.baseline,
           },
+          pinned: entry.pinned,
+          label: entry.label,
         }).catch(() => {
           // ignore remote version persistence errors; local history still works
           setVersionHistorySync('local');
@@ -628,22 +943,65 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
       }
       return next;
     });
-  }, [activeBoardId, state.projects, state.projectOrder, user]);
+  }, [activeBoardId, state.projects, state.projectOrder, state.config.versionSnapshots, user]);
+
+  useEffect(() => {
+    createVersionSnapshotRef.current = createVersionSnapshot;
+  }, [createVersionSnapshot]);
 
-  const restoreVersionSnapshot = useCallback(async (versionId: string): Promise<boolean> => {
+  // Daily snapshot: once per calendar day while a board with projects is open
+  useEffect(() => {
+    if (!activeBoardId || isBoardLoading || !state.config.versionSnapshots.daily) return;
+    const check = () => {
+      const todayStart = new Date();
+      todayStart.setHours(0, 0, 0, 0);
+      const hasToday = versionHistory.some((v) => new Date(v.createdAt).getTime() >= todayStart.getTime());
+      if (!hasToday && state.projects.length > 0) createVersionSnapshot('Snapshot diario', { trigger: 'daily' });
+    };
+    // Give the cloud history a moment to load before deciding today has no version
+    const initial = window.setTimeout(check, 10_000);
+    const id = window.setInterval(check, DAILY_SNAPSHOT_CHECK_MS);
+    return () => {
+      window.clearTimeout(initial);
+      window.clearInterval(id);
+    };
+  }, [activeBoardId, isBoardLoading, state.config.versionSnapshots.daily, state.projects.length, versionHistory, createVersionSnapshot]);
+
+  const setVersionPinned = useCallback(async (versionId: string, pinned: boolean, label?: string | null) => {
+    if (!activeBoardId) return;
+    const target = versionHistory.find((v) => v.id === versionId);
+    if (!target) return;
+    const nextLabel = label === undefined ? target.label || null : label?.trim() || null;
+    const next = versionHistory.map((v) => (v.id === versionId ? { ...v, pinned, label: nextLabel } : v));
+    setVersionHistory(next);
+    persistVersionHistory(activeBoardId, next);
+    if (isSupabaseConfigured && supabase && user) {
+      await updateBoardVersionPin({ boardId: activeBoardId, versionId, pinned, label: nextLabel });
+    }
+  }, [activeBoardId, versionHistory, user]);
+
+  // Without a selection the whole board is replaced; otherwise only the chosen projects or fields
+  const restoreVersionSnapshot = useCallback(async (versionId: string, selection?: VersionRestoreSelection): Promise<boolean> => {
     if (!canEditActiveBoard) return false;
     const target = versionHistory.find((v) => v.id === versionId);
     if (!target) return false;
-    dispatch({
+    const source = {
+      projects: target.projects.map((p) => restoreProjectDates({ ...p })),
+      projectOrder: [...target.projectOrder],
+    };
+    const next = selection
+      ? applyVersionSelection({ projects: state.projects, projectOrder: state.projectOrder }, source, selection)
+      : source;
+    guardedDispatch({
       type: 'SET_PROJECTS',
       payload: {
-        projects: target.projects.map((p) => restoreProjectDates({ ...p })),
+        projects: next.projects,
         fileName: `Version: ${target.reason}`,
       },
     });
-    dispatch({ type: 'REORDER_PROJECTS', payload: [...target.projectOrder] });
+    guardedDispatch({ type: 'REORDER_PROJECTS', payload: next.projectOrder });
     return true;
-  }, [canEditActiveBoard, versionHistory]);
+  }, [canEditActiveBoard, guardedDispatch, versionHistory, state.projects, state.projectOrder]);
 
   const getVersionSnapshot = useCallback((versionId: string) => {
     const target = versionHistory.find((v) => v.id === versionId);
@@ -660,6 +1018,51 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     };
   }, [versionHistory]);
 
+  const baselines = useMemo(
+    () => versionHistory
+      .filter((v) => v.baseline)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map((v) => ({
+        id: v.id,
+        name: v.label || v.reason,
+        createdAt: v.createdAt,
+        createdByLabel: v.createdByLabel,
+      })),
+    [versionHistory]
+  );
+
+  // A selection that no longer exists (pruned) falls back to the latest baseline
+  const activeBaselineId = baselines.some((b) => b.id === selectedBaselineId)
+    ? selectedBaselineId
+    : baselines[0]?.id || null;
+
+  const activeBaseline = useMemo(() => {
+    const target = activeBaselineId ? versionHistory.find((v) => v.id === activeBaselineId) : null;
+    return target ? buildProjectBaseline(target.projects.map((p) => restoreProjectDates({ ...p }))) : null;
+  }, [activeBaselineId, versionHistory]);
+
+  const scheduleVariance = useMemo(
+    () => (activeBaseline ? computeScheduleVariance(state.projects, activeBaseline, state.config) : new Map<string, ScheduleVariance>()),
+    [activeBaseline, state.projects, state.config]
+  );
+
+  const setActiveBaselineId = useCallback((baselineId: string | null) => {
+    setSelectedBaselineId(baselineId);
+    persistActiveBaselineId(activeBoardId, baselineId);
+  }, [activeBoardId]);
+
+  const createBaseline = useCallback((name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    createVersionSnapshot(`${BASELINE_LABEL_PREFIX}${trimmed}`, { label: trimmed, pinned: true, baseline: true });
+    // The new baseline is the latest one, which is what an empty selection follows
+    setActiveBaselineId(null);
+  }, [createVersionSnapshot, setActiveBaselineId]);
+
+  useEffect(() => {
+    setSelectedBaselineId(loadActiveBaselineId(activeBoardId));
+  }, [activeBoardId]);
+
   useEffect(() => {
     if (!activeBoardId || typeof window === 'undefined') return;
     const url = new URL(window.location.href);
@@ -686,7 +1089,7 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
       .then((rows) => {
         if (cancelled || rows.length === 0) return;
         const mapped: VersionSnapshotStored[] = rows.map((row) => {
-          const payload = (row.payload || {}) as { projects?: Project[]; projectOrder?: string[] };
+          const payload = (row.payload || {}) as { projects?: Project[]; projectOrder?: string[]; baseline?: boolean };
           return {
             id: row.id,
             createdAt: row.created_at,
@@ -698,6 +1101,9 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
             fingerprint: row.fingerprint || '',
             projects: (payload.projects || []).map((p) => restoreProjectDates(p)),
             projectOrder: Array.isArray(payload.projectOrder) ? payload.projectOrder : [],
+            pinned: !!row.pinned,
+            label: row.label || null,
+            baseline: !!payload.baseline,
           };
         });
         setVersionHistory(mapped);
@@ -809,10 +1215,34 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     setIsBoardLoading(true);
     localRevisionRef.current = 0;
     lastSyncedRevisionRef.current = 0;
+    cloudRowsRef.current = new Map();
+    dirtyProjectIdsRef.current = new Set();
+    pendingRealtimeRef.current = [];
+    setSyncConflicts([]);
+    const applyCachedBoard = (cached: BoardCacheRecord) => {
+      const projects = cached.rows.map((row) => mapRowToProject(row, state.config));
+      const projectOrder = cached.rows.map((row) => row.id);
+      cloudRowsRef.current = createRowSnapshot(cached.cloudRows);
+      dispatch({ type: 'SET_PROJECTS', payload: { projects, fileName: 'Sin conexion' } });
+      dispatch({ type: 'REORDER_PROJECTS', payload: projectOrder });
+      lastSavedFingerprintRef.current = buildSnapshotFingerprint(projects, projectOrder);
+      dispatch({ type: 'MARK_SAVED' });
+      lastSyncedRevisionRef.current = localRevisionRef.current;
+    };
+
     const run = async () => {
+      const [queued, cached] = await Promise.all([listOutbox(activeBoardId), loadBoardCache(activeBoardId)]);
       try {
+        if (cancelled) return;
+        // Queued edits are newer than the cloud; keep the local copy until they replay.
+        if (queued.length > 0 && cached) {
+          applyCachedBoard(cached);
+          return;
+        }
         const cloud = await loadBoardProjects(activeBoardId, state.config);
         if (cancelled) return;
+        cloudRowsRef.current = createRowSnapshot(cloud.rows);
+        dirtyProjectIdsRef.current = new Set();
         dispatch({
           type: 'SET_PROJECTS',
           payload: { projects: cloud.projects, fileName: 'Supabase' },
@@ -824,6 +1254,7 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
       } catch (err) {
         // eslint-disable-next-line no-console
         console.warn('Cloud load skipped/failed:', err);
+        if (!cancelled && cached) applyCachedBoard(cached);
       } finally {
         if (!cancelled) setIsBoardLoading(false);
         hasLoadedCloudRef.current = true;
@@ -879,6 +1310,264 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     }
   }, [boards, activeBoardId]);
 
+  // Write and delete rows only over the cloud version they were based on. Rows someone else
+  // changed are merged field by field; overlapping edits, rows deleted remotely and deletes of
+  // rows edited remotely are held back as conflicts. An update that loses the race is merged again.
+  const writeRowsChecked = useCallback(
+    async (boardId: string, patch: BoardPatch, bases: Map<string, CloudTaskRow> = cloudRowsRef.current): Promise<RowConflict[]> => {
+      const snapshot = cloudRowsRef.current;
+      const conflicts: RowConflict[] = [];
+      const autoMerged = new Map<string, CloudTaskRow>();
+      const updated: CloudTaskRow[] = [];
+
+      // New rows first, so updated rows can point at them as parents
+      const inserts = patch.upserts.filter((row) => !bases.has(row.id));
+      const inserted = inserts.length > 0
+        ? await saveBoardPatch(boardId, { upserts: inserts, deletes: [] }, new Set(snapshot.keys()))
+        : [];
+
+      let pending = patch.upserts.filter((row) => bases.has(row.id));
+      for (let attempt = 0; pending.length > 0 && attempt < CHECKED_WRITE_ATTEMPTS; attempt += 1) {
+        const cloudById = new Map((await loadTaskRowsByIds(boardId, pending.map((row) => row.id))).map((row) => [row.id, row]));
+        const updates: { row: CloudTaskRow; version: number }[] = [];
+        pending.forEach((row) => {
+          const base = bases.get(row.id) as CloudTaskRow;
+          const theirs = cloudById.get(row.id);
+          if (!theirs) {
+            conflicts.push(removedRowConflict(base, row));
+            return;
+          }
+          const version = theirs.version ?? 0;
+          if (version === (base.version ?? 0)) {
+            updates.push({ row, version });
+            return;
+          }
+          const conflict = detectRowConflict(base, row, theirs);
+          if (conflict.fields.length > 0) {
+            conflicts.push(conflict);
+            return;
+          }
+          autoMerged.set(row.id, conflict.merged);
+          updates.push({ row: conflict.merged, version });
+        });
+        const result = await updateTaskRowsAtVersion(boardId, updates);
+        updated.push(...result.written);
+        const stale = new Set(result.stale);
+        pending = pending.filter((row) => stale.has(row.id));
+      }
+      // Still losing the race: leave them dirty for the next save
+      if (pending.length > 0) {
+        dirtyProjectIdsRef.current = mergeDirtyIds(dirtyProjectIdsRef.current, pending.map((row) => row.id));
+      }
+
+      // Deletes go last so children re-parented away from a removed row are safe
+      await deleteTaskRows(boardId, patch.deletes.filter((id) => !bases.has(id)));
+      const notDeleted = await deleteTaskRowsAtVersion(
+        boardId,
+        patch.deletes.filter((id) => bases.has(id)).map((id) => ({ id, version: bases.get(id)?.version ?? 0 }))
+      );
+      // Rows already gone count as deleted; rows edited since are the user's call
+      const editedSince = notDeleted.length > 0 ? await loadTaskRowsByIds(boardId, notDeleted) : [];
+      editedSince.forEach((theirs) => conflicts.push(deletedEditedRowConflict(bases.get(theirs.id) as CloudTaskRow, theirs)));
+      const keptIds = new Set(editedSince.map((row) => row.id));
+      applyPatchToSnapshot(
+        snapshot,
+        { upserts: [...inserts, ...updated], deletes: patch.deletes.filter((id) => !keptIds.has(id)) },
+        inserted
+      );
+
+      const merged = updated.filter((row) => autoMerged.has(row.id));
+      if (merged.length > 0) {
+        dispatch({
+          type: 'APPLY_REMOTE_PROJECTS',
+          payload: { upserts: merged.map((row) => mapRowToProject(row, state.config)), deletes: [], projectOrder: null },
+        });
+      }
+      if (conflicts.length > 0) {
+        // Keep conflicting rows dirty until the user resolves them
+        dirtyProjectIdsRef.current = mergeDirtyIds(dirtyProjectIdsRef.current, conflicts.map((c) => c.id));
+        setSyncConflicts((prev) => {
+          const byId = new Map(prev.map((c) => [c.id, c]));
+          conflicts.forEach((c) => byId.set(c.id, c));
+          return Array.from(byId.values());
+        });
+      }
+      return conflicts;
+    },
+    [state.config]
+  );
+
+  // Send only the rows that changed since the cloud snapshot; restore the dirty set on failure.
+  const pushBoardPatch = useCallback(
+    async (boardId: string, projects: Project[], projectOrder: string[], fullDiff = false) => {
+      const dirty = fullDiff ? 'all' : dirtyProjectIdsRef.current;
+      const patch = buildBoardPatch(boardId, projects, projectOrder, cloudRowsRef.current, dirty);
+      dirtyProjectIdsRef.current = new Set();
+      if (isEmptyPatch(patch)) return [];
+      const restoreDirty = () => {
+        dirtyProjectIdsRef.current = mergeDirtyIds(
+          dirtyProjectIdsRef.current,
+          dirty === 'all' ? 'all' : Array.from(dirty)
+        );
+      };
+      // Keep the pre-edit rows so replay can still detect concurrent edits
+      const queuePatch = async () => {
+        const bases = [...patch.upserts.map((row) => row.id), ...patch.deletes]
+          .map((id) => cloudRowsRef.current.get(id))
+          .filter((row): row is CloudTaskRow => !!row);
+        try {
+          await enqueueMutation(boardId, { kind: 'tasks.patch', patch, bases });
+        } catch (err) {
+          // Not queued: the edits live only in memory, so they stay dirty for the next save
+          restoreDirty();
+          toast('error', 'No se pudieron guardar los cambios sin conexión en este navegador. No cierres la pestaña hasta recuperar la conexión.');
+          throw err;
+        }
+        applyPatchToSnapshot(cloudRowsRef.current, patch);
+        return [] as RowConflict[];
+      };
+      try {
+        const queued = await listOutbox(boardId);
+        if (queued.length > 0) return await queuePatch();
+        return await writeRowsChecked(boardId, patch);
+      } catch (err) {
+        if (err instanceof OfflineStoreError) throw err;
+        if (isConnectivityError(err)) return await queuePatch();
+        restoreDirty();
+        throw err;
+      }
+    },
+    [writeRowsChecked, toast]
+  );
+
+  const resolveSyncConflicts = useCallback(
+    async (choicesById: Record<string, ConflictChoices>) => {
+      if (!activeBoardId) return;
+      const resolving = syncConflicts.filter((c) => choicesById[c.id]);
+      if (resolving.length === 0) return;
+      // Rows deleted on one side: 'mine' repeats our side (write it back, delete it), 'theirs' takes theirs
+      const rowChoice = (c: RowConflict) => choicesById[c.id].row ?? 'mine';
+      const dropLocally = resolving.filter((c) => c.deleted === 'remote' && rowChoice(c) === 'theirs');
+      const restoreLocally = resolving.filter((c) => c.deleted === 'local' && rowChoice(c) === 'theirs');
+      const deleteRemotely = resolving.filter((c) => c.deleted === 'local' && rowChoice(c) !== 'theirs');
+      const writing = resolving.filter((c) => !c.deleted || (c.deleted === 'remote' && rowChoice(c) !== 'theirs'));
+      const rows = writing.map((c) => (c.deleted ? { ...c.mine } : resolveRowConflict(c, choicesById[c.id])));
+      // Their row becomes the base; a further remote change shows up as a new conflict
+      writing.forEach((c) => {
+        if (c.deleted) cloudRowsRef.current.delete(c.id);
+        else cloudRowsRef.current.set(c.id, { ...c.theirs });
+      });
+      [...restoreLocally, ...deleteRemotely].forEach((c) => cloudRowsRef.current.set(c.id, { ...c.theirs }));
+      dropLocally.forEach((c) => cloudRowsRef.current.delete(c.id));
+      setSyncConflicts((prev) => prev.filter((c) => !choicesById[c.id]));
+      if (dropLocally.length > 0 || restoreLocally.length > 0) {
+        dispatch({
+          type: 'APPLY_REMOTE_PROJECTS',
+          payload: {
+            upserts: restoreLocally.map((c) => mapRowToProject(c.theirs, state.config)),
+            deletes: dropLocally.map((c) => c.id),
+            projectOrder: null,
+          },
+        });
+      }
+      const remaining = rows.length > 0 || deleteRemotely.length > 0
+        ? await writeRowsChecked(activeBoardId, { upserts: rows, deletes: deleteRemotely.map((c) => c.id) })
+        : [];
+      const remainingIds = new Set(remaining.map((c) => c.id));
+      const resolvedRows = rows.filter((row) => !remainingIds.has(row.id));
+      if (resolvedRows.length > 0) {
+        dispatch({
+          type: 'APPLY_REMOTE_PROJECTS',
+          payload: { upserts: resolvedRows.map((row) => mapRowToProject(row, state.config)), deletes: [], projectOrder: null },
+        });
+      }
+      const dirty = dirtyProjectIdsRef.current;
+      if (dirty !== 'all') {
+        resolvedRows.forEach((row) => dirty.delete(row.id));
+        [...dropLocally, ...restoreLocally, ...deleteRemotely]
+          .filter((c) => !remainingIds.has(c.id))
+          .forEach((c) => dirty.delete(c.id));
+        if (dirty.size === 0 && remaining.length === 0) dispatch({ type: 'MARK_SAVED' });
+      }
+    },
+    [activeBoardId, syncConflicts, writeRowsChecked, state.config]
+  );
+
+  const refreshOutboxStatus = useCallback(async () => {
+    const entries = await listOutbox(activeBoardId);
+    const lastError = entries.find((entry) => entry.lastError)?.lastError ?? null;
+    setOutboxStatus((prev) => ({ ...prev, count: entries.length, lastError }));
+  }, [activeBoardId]);
+
+  useEffect(() => {
+    void refreshOutboxStatus();
+    return subscribeOutbox(() => { void refreshOutboxStatus(); });
+  }, [refreshOutboxStatus]);
+
+  const persistBoardCache = useCallback((boardId: string, projects: Project[], projectOrder: string[]) => {
+    const indexById = new Map(projectOrder.map((id, idx) => [id, idx]));
+    return saveBoardCache({
+      boardId,
+      rows: projects
+        .map((p) => mapProjectToRow(p, boardId, indexById.get(p.id) ?? Number.MAX_SAFE_INTEGER))
+        .sort((a, b) => a.sort_order - b.sort_order),
+      cloudRows: Array.from(cloudRowsRef.current.values()),
+    });
+  }, []);
+
+  const retryOutbox = useCallback(async () => {
+    if (!isSupabaseConfigured || !supabase || !activeBoardId || !user) return;
+    const onTasksPatch: TasksPatchHandler = async (boardId, mutation) => {
+      await writeRowsChecked(boardId, mutation.patch, new Map(mutation.bases.map((row) => [row.id, row])));
+    };
+    setOutboxStatus((prev) => ({ ...prev, isReplaying: true }));
+    try {
+      const result = await replayOutbox(activeBoardId, onTasksPatch);
+      // The snapshot now carries the replayed rows' versions
+      if (result.sent > 0) void persistBoardCache(activeBoardId, state.projects, state.projectOrder);
+    } finally {
+      setOutboxStatus((prev) => ({ ...prev, isReplaying: false }));
+    }
+  }, [activeBoardId, user, writeRowsChecked, persistBoardCache, state.projects, state.projectOrder]);
+
+  // Replay queued mutations whenever connectivity returns.
+  useEffect(() => {
+    if (!isSupabaseConfigured || !supabase || !activeBoardId || !user) return;
+    const onOnline = () => { void retryOutbox(); };
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [activeBoardId, user, retryOutbox]);
+
+  useEffect(() => {
+    if (!hasLoadedCloudRef.current || outboxStatus.count === 0 || outboxStatus.isReplaying) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+    const id = window.setTimeout(() => { void retryOutbox(); }, outboxStatus.lastError ? 15000 : 1500);
+    return () => window.clearTimeout(id);
+  }, [outboxStatus, retryOutbox, isBoardLoading]);
+
+  // Durable local copy of the board so it opens without connectivity.
+  useEffect(() => {
+    if (!activeBoardId || !hasLoadedCloudRef.current || isBoardLoading) return;
+    const id = window.setTimeout(() => {
+      void persistBoardCache(activeBoardId, state.projects, state.projectOrder);
+    }, 800);
+    return () => window.clearTimeout(id);
+  }, [activeBoardId, isBoardLoading, state.projects, state.projectOrder, persistBoardCache]);
+
+  const discardQueuedChanges = useCallback(async () => {
+    if (!activeBoardId) return;
+    await discardOutbox(activeBoardId);
+    if (!isSupabaseConfigured || !supabase || !user) return;
+    const cloud = await loadBoardProjects(activeBoardId, state.config);
+    cloudRowsRef.current = createRowSnapshot(cloud.rows);
+    dirtyProjectIdsRef.current = new Set();
+    dispatch({ type: 'SET_PROJECTS', payload: { projects: cloud.projects, fileName: 'Supabase' } });
+    dispatch({ type: 'REORDER_PROJECTS', payload: cloud.projectOrder });
+    lastSavedFingerprintRef.current = buildSnapshotFingerprint(cloud.projects, cloud.projectOrder);
+    dispatch({ type: 'MARK_SAVED' });
+    lastSyncedRevisionRef.current = localRevisionRef.current;
+  }, [activeBoardId, user, state.config]);
+
   // Autosave to cloud when project data changes.
   useEffect(() => {
     if (!isSupabaseConfigured || !supabase || !activeBoardId || !user) return;
@@ -897,7 +1586,8 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     saveTimerRef.current = window.setTimeout(async () => {
       try {
         ignoreRealtimeUntilRef.current = Date.now() + 2000;
-        await saveBoardProjects(activeBoardId, state.projects, state.projectOrder);
+        const conflicts = await pushBoardPatch(activeBoardId, state.projects, state.projectOrder);
+        if (conflicts.length > 0) return;
         if (Date.now() - lastAutoSnapshotAtRef.current > 90_000) {
           createVersionSnapshot('Auto-guardado');
           lastAutoSnapshotAtRef.current = Date.now();
@@ -914,31 +1604,25 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     return () => {
       if (saveTimerRef.current) window.clearTimeout(saveTimerRef.current);
     };
-  }, [activeBoardId, user, canEditActiveBoard, state.projects, state.projectOrder, state.hasUnsavedChanges, createVersionSnapshot]);
+  }, [activeBoardId, user, canEditActiveBoard, state.projects, state.projectOrder, state.hasUnsavedChanges, createVersionSnapshot, pushBoardPatch]);
 
   // Realtime sync: refresh board when tasks change from other tabs/users.
+  // Resolves to false when the reload was skipped so the scheduler runs it again.
   const syncBoardFromCloud = useMemo(
-    () => async () => {
+    () => async (): Promise<boolean | void> => {
       if (!isSupabaseConfigured || !supabase || !activeBoardId || !user) return;
-      if (Date.now() < ignoreRealtimeUntilRef.current) return;
-      
-      // Verificar si hay tickets activos que bloquean la sincronización
-      const syncManager = SyncManager.getInstance();
-      
-      if (syncManager && syncManager.isLocked()) {
-        console.log('🎫 SyncManager: Sincronización bloqueada por ticket activo', syncManager.getCurrentTicket());
-        return;
-      }
-      
+      if (Date.now() < ignoreRealtimeUntilRef.current) return false;
       // Never pull remote snapshots over local in-progress edits.
-      if (hasUnsavedChangesRef.current) return;
+      if (hasUnsavedChangesRef.current) return false;
       // If local revision has not been acknowledged by a successful save yet, skip remote apply.
-      if (localRevisionRef.current !== lastSyncedRevisionRef.current) return;
+      if (localRevisionRef.current !== lastSyncedRevisionRef.current) return false;
       const requestSeq = ++realtimeRequestSeqRef.current;
       try {
         const cloud = await loadBoardProjects(activeBoardId, state.config);
         if (requestSeq < realtimeAppliedSeqRef.current) return;
         realtimeAppliedSeqRef.current = requestSeq;
+        cloudRowsRef.current = createRowSnapshot(cloud.rows);
+        dirtyProjectIdsRef.current = new Set();
         dispatch({
           type: 'SET_PROJECTS',
           payload: { projects: cloud.projects, fileName: 'Supabase' },
@@ -955,6 +1639,9 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     [activeBoardId, user, state.config]
   );
 
+  // The scheduler decides when a reload runs: never during a zoom, edit, drag or import hold
+  useEffect(() => registerCloudReloadHandler(syncBoardFromCloud), [syncBoardFromCloud]);
+
   useEffect(() => {
     if (!isSupabaseConfigured || !supabase || !activeBoardId || !user) {
       setRealtimeSyncState('disabled');
@@ -963,10 +1650,32 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     const sb = supabase;
     setRealtimeSyncState('degraded');
 
-    const scheduleRealtimeReload = () => {
+    // Apply buffered row payloads in one reducer pass. Rows with unsaved local
+    // edits are kept as-is; the next save diffs them against the new cloud row.
+    const flushRealtimeRows = () => {
+      const changes = pendingRealtimeRef.current;
+      pendingRealtimeRef.current = [];
+      if (changes.length === 0) return;
+      const dirty = dirtyProjectIdsRef.current;
+      const hasLocalEdits = hasUnsavedChangesRef.current;
+      const isLocal = (id: string) => (dirty === 'all' ? hasLocalEdits : dirty.has(id));
+      const batch = absorbRealtimeChanges(cloudRowsRef.current, changes, isLocal);
+      const upserts = batch.upserts.map((row) => mapRowToProject(row, configRef.current));
+      const deletes = batch.deletes;
+      const projectOrder = batch.orderChanged && !(dirty === 'all' && hasLocalEdits)
+        ? snapshotOrder(cloudRowsRef.current)
+        : null;
+      if (upserts.length === 0 && deletes.length === 0 && !projectOrder) return;
+      dispatch({ type: 'APPLY_REMOTE_PROJECTS', payload: { upserts, deletes, projectOrder } });
+      // The saved fingerprint no longer describes the cloud; let the next save diff rows instead.
+      lastSavedFingerprintRef.current = '';
+    };
+
+    const scheduleRealtimeApply = () => {
       if (realtimeReloadTimerRef.current) window.clearTimeout(realtimeReloadTimerRef.current);
       realtimeReloadTimerRef.current = window.setTimeout(() => {
-        void syncBoardFromCloud();
+        realtimeReloadTimerRef.current = null;
+        runWhenSyncIdle('realtime-rows', flushRealtimeRows);
       }, 120);
     };
 
@@ -1013,7 +1722,14 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
           table: 'tasks',
           filter: `board_id=eq.${activeBoardId}`,
         },
-        async () => { scheduleRealtimeReload(); }
+        (payload) => {
+          pendingRealtimeRef.current.push({
+            eventType: payload.eventType as RealtimeRowChange['eventType'],
+            new: (payload.new || null) as RealtimeRowChange['new'],
+            old: (payload.old || null) as RealtimeRowChange['old'],
+          });
+          scheduleRealtimeApply();
+        }
       )
       .subscribe((status) => {
         if (status === 'SUBSCRIBED') setRealtimeSyncState('live');
@@ -1031,7 +1747,7 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
       if (realtimeChannelRef.current === channel) realtimeChannelRef.current = null;
       sb.removeChannel(channel);
     };
-  }, [activeBoardId, user, syncBoardFromCloud]);
+  }, [activeBoardId, user]);
 
   useEffect(() => {
     const id = window.setInterval(() => {
@@ -1060,21 +1776,17 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
 
   useEffect(() => {
     if (!isSupabaseConfigured || !supabase || !activeBoardId || !user) return;
-    const onFocus = async () => {
-      await syncBoardFromCloud();
-    };
+    const onFocus = () => requestCloudReload();
     window.addEventListener('focus', onFocus);
     return () => window.removeEventListener('focus', onFocus);
-  }, [activeBoardId, user, syncBoardFromCloud]);
+  }, [activeBoardId, user]);
 
   useEffect(() => {
     if (!isSupabaseConfigured || !supabase || !activeBoardId || !user) return;
     if (realtimeSyncState === 'live') return;
-    const id = window.setInterval(() => {
-      void syncBoardFromCloud();
-    }, 12000);
+    const id = window.setInterval(requestCloudReload, 12000);
     return () => window.clearInterval(id);
-  }, [activeBoardId, user, realtimeSyncState, syncBoardFromCloud]);
+  }, [activeBoardId, user, realtimeSyncState]);
 
   const selectBoard = useMemo(
     () => (boardId: string) => {
@@ -1143,7 +1855,8 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
         assignees: [],
         daysRequired: 0,
         priority: 0,
-        type: 'Proyecto',
+        // The new board has no saved config yet, so it starts with the default types
+        type: defaultTaskTypeName(DEFAULT_TASK_TYPES),
         blockedBy: null,
         blocksTo: null,
         reportedLoad: null,
@@ -1180,13 +1893,14 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
       if (!supabase || !user || !activeBoardId) return;
       if (!canEditActiveBoard) throw new Error('No tienes permisos de edición en este tablero.');
       ignoreRealtimeUntilRef.current = Date.now() + 2000;
-      await saveBoardProjects(activeBoardId, state.projects, state.projectOrder);
+      const conflicts = await pushBoardPatch(activeBoardId, state.projects, state.projectOrder, true);
+      if (conflicts.length > 0) throw new Error('Hay cambios en conflicto con otro editor. Resuélvelos antes de guardar.');
       createVersionSnapshot('Guardado manual');
       lastSavedFingerprintRef.current = buildSnapshotFingerprint(state.projects, state.projectOrder);
       dispatch({ type: 'MARK_SAVED' });
       lastSyncedRevisionRef.current = localRevisionRef.current;
     },
-    [activeBoardId, user, canEditActiveBoard, state.projects, state.projectOrder, createVersionSnapshot]
+    [activeBoardId, user, canEditActiveBoard, state.projects, state.projectOrder, createVersionSnapshot, pushBoardPatch]
   );
 
   const renameActiveBoard = useMemo(
@@ -1409,6 +2123,13 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
 
   const announceEditingPresence = useMemo(
     () => (rowId: string | null, columnId?: string | null) => {
+      // Editing a cell holds sync so a remote refresh cannot replace the row under the cursor
+      if (rowId) {
+        inlineEditHoldRef.current = acquireSyncHold('inline-edit', { key: 'table-cell', reason: 'Edición en tabla' });
+      } else {
+        inlineEditHoldRef.current?.();
+        inlineEditHoldRef.current = null;
+      }
       const channel = realtimeChannelRef.current;
       if (!channel || !user) return;
       const label = (user.user_metadata?.full_name as string | undefined) || user.email || 'Usuario';
@@ -1461,19 +2182,19 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
       if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
         if (canUndo) {
           e.preventDefault();
-          dispatch({ type: 'UNDO' });
+          guardedDispatch({ type: 'UNDO' });
         }
       }
       if ((e.ctrlKey || e.metaKey) && ((e.key === 'z' && e.shiftKey) || e.key === 'y')) {
         if (canRedo) {
           e.preventDefault();
-          dispatch({ type: 'REDO' });
+          guardedDispatch({ type: 'REDO' });
         }
       }
     };
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [canUndo, canRedo]);
+  }, [canUndo, canRedo, guardedDispatch]);
 
   useEffect(() => {
     let cancelled = false;
@@ -1495,9 +2216,10 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
         setFilterDynamicColumns(cols);
         setFilterDynamicValues(vals);
       } catch {
+        const cached = await loadColumnsCache(activeBoardId);
         if (cancelled) return;
-        setFilterDynamicColumns([]);
-        setFilterDynamicValues(new Map());
+        setFilterDynamicColumns(cached?.columns || []);
+        setFilterDynamicValues(cached?.values || new Map());
       }
     })();
 
@@ -1506,6 +2228,76 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     };
   }, [activeBoardId]);
 
+  const shareDynamicColumnValues = useCallback((columns: DynamicColumn[], values: Map<string, Record<string, DynamicCellValue>>) => {
+    setFilterDynamicColumns(columns);
+    setFilterDynamicValues(values);
+  }, []);
+
+  // Rollup rules belong to the board: the last rules seen first, then the cloud copy
+  useEffect(() => {
+    dispatch({ type: 'SET_CONFIG', payload: { rollup: loadLocalRollupRules(activeBoardId) } });
+    if (!isSupabaseConfigured || !supabase || !activeBoardId || !user) return;
+    let cancelled = false;
+    loadBoardRollupRules(activeBoardId)
+      .then((rules) => {
+        if (cancelled) return;
+        saveLocalRollupRules(activeBoardId, rules);
+        dispatch({ type: 'SET_CONFIG', payload: { rollup: rules } });
+      })
+      .catch(() => {
+        // keep the local rules
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeBoardId, user]);
+
+  const setRollupRules = useCallback(async (rules: RollupRules) => {
+    if (!canEditActiveBoard) return;
+    dispatch({ type: 'SET_CONFIG', payload: { rollup: rules } });
+    saveLocalRollupRules(activeBoardId, rules);
+    if (isSupabaseConfigured && supabase && activeBoardId && user) {
+      await saveBoardRollupRules(activeBoardId, rules);
+    }
+  }, [activeBoardId, user, canEditActiveBoard]);
+
+  // Task types belong to the board too, loaded the same way
+  useEffect(() => {
+    dispatch({ type: 'SET_CONFIG', payload: { taskTypes: loadLocalTaskTypes(activeBoardId) } });
+    if (!isSupabaseConfigured || !supabase || !activeBoardId || !user) return;
+    let cancelled = false;
+    loadBoardTaskTypes(activeBoardId)
+      .then((types) => {
+        if (cancelled) return;
+        saveLocalTaskTypes(activeBoardId, types);
+        dispatch({ type: 'SET_CONFIG', payload: { taskTypes: types } });
+      })
+      .catch(() => {
+        // keep the local types
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeBoardId, user]);
+
+  const setTaskTypes = useCallback(async (types: TaskType[], renamed: Record<string, string> = {}) => {
+    if (!canEditActiveBoard) return;
+    const next = parseTaskTypes(types);
+    const updates: Record<string, Partial<Project>> = {};
+    state.projects.forEach((p) => {
+      const target = renamed[p.type] ?? p.type;
+      const type = findTaskType(target, next)?.name ?? defaultTaskTypeName(next);
+      if (type !== p.type) updates[p.id] = { type };
+    });
+    dispatch({ type: 'SET_CONFIG', payload: { taskTypes: next } });
+    // Through the guard so the retyped rows sync and land in the activity log
+    if (Object.keys(updates).length > 0) guardedDispatch({ type: 'BULK_UPDATE_PROJECTS', payload: updates });
+    saveLocalTaskTypes(activeBoardId, next);
+    if (isSupabaseConfigured && supabase && activeBoardId && user) {
+      await saveBoardTaskTypes(activeBoardId, next);
+    }
+  }, [activeBoardId, user, canEditActiveBoard, guardedDispatch, state.projects]);
+
   const customFilterColumns = useMemo(() => {
     return filterDynamicColumns
       .filter((c) => c.type === 'tags' || (c.type === 'number' && c.config?.display === 'stars'))
@@ -1539,9 +2331,142 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     return result;
   }, [customFilterColumns, filterDynamicValues, state.projects]);
 
+  // Earned-value metrics over the whole board, so filtering never changes a group's roll-up
+  const progressMetrics = useMemo(
+    () => computeProgressMetrics(
+      state.projects,
+      state.config,
+      createActualProgressResolver(filterDynamicColumns, filterDynamicValues)
+    ),
+    [state.projects, state.config, filterDynamicColumns, filterDynamicValues]
+  );
+
+  const portfolioProgress = useMemo(
+    () => summarizePortfolioProgress(state.projects, progressMetrics),
+    [state.projects, progressMetrics]
+  );
+
+  const notifyCommentMentions = useCallback((taskId: string, mentions: string[], body: string) => {
+    const task = projectsRef.current.find((p) => p.id === taskId);
+    if (!task || mentions.length === 0) return;
+    notificationCenter.emit(draftsFromMentions(task, mentions, body, `${taskId}:${Date.now()}`));
+  }, [notificationCenter.emit]);
+
+  const savedViewStore = useSavedViews(activeBoardId, boardActor);
+  const [activeSavedViewId, setActiveSavedViewId] = useState<string | null>(null);
+  const [currentViewLayout, setCurrentViewLayout] = useState<ViewLayout>({ timeline: null, hiddenColumns: [] });
+  const [pendingViewLayout, setPendingViewLayout] = useState<{ seq: number; layout: ViewLayout } | null>(null);
+  const consumedViewLayoutRef = useRef<Record<keyof ViewLayout, number>>({ timeline: 0, hiddenColumns: 0 });
+
+  useEffect(() => {
+    setActiveSavedViewId(null);
+  }, [activeBoardId]);
+
+  const shareViewLayout = useCallback(<K extends keyof ViewLayout>(part: K, value: ViewLayout[K]) => {
+    setCurrentViewLayout((prev) => (JSON.stringify(prev[part]) === JSON.stringify(value) ? prev : { ...prev, [part]: value }));
+  }, []);
+
+  // Each part is handed out once per applied layout, so a remounted view keeps its own later changes
+  const takePendingViewLayout = useCallback(<K extends keyof ViewLayout>(part: K): ViewLayout[K] | undefined => {
+    if (!pendingViewLayout || consumedViewLayoutRef.current[part] >= pendingViewLayout.seq) return undefined;
+    consumedViewLayoutRef.current[part] = pendingViewLayout.seq;
+    return pendingViewLayout.layout[part];
+  }, [pendingViewLayout]);
+
+  const currentViewConfig = useMemo<SavedViewConfig>(
+    () => ({
+      filters: state.filters,
+      activeView: state.activeView,
+      granularity: state.granularity,
+      timeline: currentViewLayout.timeline,
+      hiddenColumns: currentViewLayout.hiddenColumns,
+    }),
+    [state.filters, state.activeView, state.granularity, currentViewLayout]
+  );
+
+  const applyViewConfig = useCallback((config: SavedViewConfig) => {
+    guardedDispatch({ type: 'SET_FILTERS', payload: config.filters });
+    guardedDispatch({ type: 'SET_VIEW', payload: config.activeView });
+    guardedDispatch({ type: 'SET_GRANULARITY', payload: config.granularity });
+    const layout: ViewLayout = {
+      timeline: config.timeline ?? currentViewLayout.timeline,
+      hiddenColumns: config.hiddenColumns,
+    };
+    setCurrentViewLayout(layout);
+    setPendingViewLayout((prev) => ({ seq: (prev?.seq ?? 0) + 1, layout }));
+  }, [guardedDispatch, currentViewLayout.timeline]);
+
+  // A link with an encoded view opens the board as it was seen; the parameter is dropped once applied
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const url = new URL(window.location.href);
+    const token = url.searchParams.get(VIEW_URL_PARAM);
+    if (!token) return;
+    const config = decodeViewConfig(token);
+    if (config) applyViewConfig(config);
+    url.searchParams.delete(VIEW_URL_PARAM);
+    window.history.replaceState({}, '', url.toString());
+    // Only on first load
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const applySavedView = useCallback((viewId: string) => {
+    const view = savedViewStore.views.find((v) => v.id === viewId);
+    if (!view) return;
+    applyViewConfig(view.config);
+    setActiveSavedViewId(view.id);
+  }, [savedViewStore.views, applyViewConfig]);
+
+  const saveCurrentView = useCallback(async (name: string, shared: boolean) => {
+    const view = await savedViewStore.createView(name, currentViewConfig, shared);
+    setActiveSavedViewId(view.id);
+  }, [savedViewStore, currentViewConfig]);
+
+  const overwriteSavedView = useCallback(async (viewId: string) => {
+    await savedViewStore.updateView(viewId, { config: currentViewConfig });
+    setActiveSavedViewId(viewId);
+  }, [savedViewStore, currentViewConfig]);
+
+  const deleteSavedView = useCallback(async (viewId: string) => {
+    await savedViewStore.removeView(viewId);
+    setActiveSavedViewId((prev) => (prev === viewId ? null : prev));
+  }, [savedViewStore]);
+
+  const copyViewLink = useCallback(async (viewId?: string) => {
+    if (typeof window === 'undefined') return;
+    const view = viewId ? savedViewStore.views.find((v) => v.id === viewId) : null;
+    const url = new URL(window.location.href);
+    if (activeBoardId) url.searchParams.set('board', activeBoardId);
+    url.searchParams.set(VIEW_URL_PARAM, encodeViewConfig(view ? view.config : currentViewConfig));
+    await navigator.clipboard.writeText(url.toString());
+  }, [savedViewStore.views, activeBoardId, currentViewConfig]);
+
+  const activeSavedView = savedViewStore.views.find((v) => v.id === activeSavedViewId) || null;
+  const activeSavedViewModified = useMemo(
+    () => !!activeSavedView && viewConfigFingerprint(activeSavedView.config) !== viewConfigFingerprint({
+      ...currentViewConfig,
+      // A view saved without timeline layout does not care about it
+      timeline: activeSavedView.config.timeline ? currentViewConfig.timeline : null,
+    }),
+    [activeSavedView, currentViewConfig]
+  );
+
+  const behindScheduleIds = useMemo(
+    () => new Set(Array.from(progressMetrics.entries()).filter(([, m]) => m.behind).map(([id]) => id)),
+    [progressMetrics]
+  );
+
   const filteredProjects = useMemo(
-    () => applyFilters(state.projects, state.filters, state.config, filterDynamicValues, customFilterTypeMap),
-    [state.projects, state.filters, state.config, filterDynamicValues, customFilterTypeMap]
+    () => applyFilters(
+      state.projects,
+      state.filters,
+      state.config,
+      filterDynamicValues,
+      customFilterTypeMap,
+      behindScheduleIds,
+      filterDynamicColumns
+    ),
+    [state.projects, state.filters, state.config, filterDynamicValues, customFilterTypeMap, behindScheduleIds, filterDynamicColumns]
   );
 
   // Order filtered projects by projectOrder
@@ -1555,18 +2480,74 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     });
   }, [filteredProjects, state.projectOrder]);
 
+  const loadSearchIndex = useCallback(async () => {
+    let comments: Awaited<ReturnType<typeof listBoardCommentBodies>> = [];
+    let commentsUnavailable = false;
+    if (activeBoardId && isSupabaseConfigured) {
+      try {
+        comments = await listBoardCommentBodies(activeBoardId);
+      } catch (err) {
+        commentsUnavailable = true;
+        // eslint-disable-next-line no-console
+        console.warn('Search comments load failed:', err);
+      }
+    }
+    const index = buildSearchIndex({
+      projects: projectsRef.current,
+      columns: filterDynamicColumns,
+      values: filterDynamicValues,
+      comments,
+    });
+    return { index, commentsUnavailable };
+  }, [activeBoardId, filterDynamicColumns, filterDynamicValues]);
+
+  const [revealRequest, setRevealRequest] = useState<{ seq: number; taskId: string } | null>(null);
+  const consumedRevealSeqRef = useRef(0);
+
+  const revealTask = useCallback((taskId: string) => {
+    const projects = projectsRef.current;
+    if (!projects.some((p) => p.id === taskId)) return;
+    if (state.activeView !== 'table' && state.activeView !== 'gantt') {
+      guardedDispatch({ type: 'SET_VIEW', payload: 'table' });
+    }
+    if (!filteredProjects.some((p) => p.id === taskId)) guardedDispatch({ type: 'RESET_FILTERS' });
+    getAncestors(taskId, projects)
+      .filter((a) => a.isExpanded === false)
+      .forEach((a) => guardedDispatch({ type: 'TOGGLE_EXPANSION', payload: a.id }));
+    setRevealRequest((prev) => ({ seq: (prev?.seq ?? 0) + 1, taskId }));
+  }, [state.activeView, filteredProjects, guardedDispatch]);
+
+  const takeRevealRequest = useCallback((): string | null => {
+    if (!revealRequest || consumedRevealSeqRef.current >= revealRequest.seq) return null;
+    consumedRevealSeqRef.current = revealRequest.seq;
+    return revealRequest.taskId;
+  }, [revealRequest]);
+
   const allPersons = useMemo(() => getPersonsWithCatalog(state.projects, activeBoardId), [state.projects, activeBoardId]);
   const allBranches = useMemo(() => getBranches(state.projects), [state.projects]);
 
+  // Fields offered by the advanced filter; list fields suggest the values in use on the board
+  const queryFields = useMemo(() => getQueryFields(filterDynamicColumns).map((field): QueryField => {
+    if (field.key === 'assignees') return { ...field, options: allPersons };
+    if (field.key === 'branch') return { ...field, options: allBranches };
+    if (field.key === 'type') return { ...field, options: state.config.taskTypes.map((t) => t.name) };
+    const columnId = columnIdFromField(field.key);
+    if (field.kind !== 'tags' || !columnId) return field;
+    const used = customFilterTagOptionsByColumn[columnId] || [];
+    return { ...field, options: Array.from(new Set([...(field.options || []), ...used])) };
+  }), [filterDynamicColumns, allPersons, allBranches, customFilterTagOptionsByColumn, state.config.taskTypes]);
+
   const dateRange = useMemo(() => {
     if (state.filters.dateRange) return state.filters.dateRange;
     return getDateRange(getActiveProjects(state.projects));
   }, [state.projects, state.filters.dateRange]);
 
+  const personAvailability = useMemo(() => buildPersonAvailabilityMap(personProfiles), [personProfiles]);
+
   const workloadData = useMemo(() => {
     if (!dateRange || filteredProjects.length === 0) return new Map();
-    return calculateDailyWorkload(filteredProjects, state.config, dateRange);
-  }, [filteredProjects, state.config, dateRange]);
+    return calculateDailyWorkload(filteredProjects, state.config, dateRange, personAvailability);
+  }, [filteredProjects, state.config, dateRange, personAvailability]);
 
   const value = useMemo(() => ({
     state,
@@ -1577,16 +2558,60 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     allBranches,
     customFilterColumns,
     customFilterTagOptionsByColumn,
+    queryFields,
     dateRange,
     workloadData,
+    personAvailability,
+    syncConflicts,
+    resolveSyncConflicts,
+    outboxStatus,
+    retryOutbox,
+    discardQueuedChanges,
     canUndo,
     canRedo,
     undoCount,
     versionHistory: versionHistoryUi,
     createVersionSnapshot,
     restoreVersionSnapshot,
+    setVersionPinned,
     getVersionSnapshot,
     versionHistorySync,
+    baselines,
+    activeBaselineId,
+    activeBaseline,
+    scheduleVariance,
+    createBaseline,
+    setActiveBaselineId,
+    progressMetrics,
+    portfolioProgress,
+    shareDynamicColumnValues,
+    dynamicColumns: filterDynamicColumns,
+    setRollupRules,
+    setTaskTypes,
+    notifications: notificationCenter.notifications,
+    unreadNotificationCount: notificationCenter.unreadCount,
+    notificationPreferences: notificationCenter.preferences,
+    updateNotificationPreferences: notificationCenter.updatePreferences,
+    markNotificationsRead: notificationCenter.markRead,
+    notifyCommentMentions,
+    recordActivity: activityLog.record,
+    loadBoardActivity: activityLog.loadBoardActivity,
+    loadTaskActivity: activityLog.loadTaskActivity,
+    savedViews: savedViewStore.views,
+    activeSavedViewId,
+    activeSavedViewModified,
+    applySavedView,
+    saveCurrentView,
+    overwriteSavedView,
+    updateSavedView: savedViewStore.updateView,
+    deleteSavedView,
+    canEditSavedView: savedViewStore.canEditView,
+    copyViewLink,
+    shareViewLayout,
+    takePendingViewLayout,
+    loadSearchIndex,
+    revealTask,
+    takeRevealRequest,
     boards,
     activeBoardId,
     activeBoardRole,
@@ -1616,16 +2641,60 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     allBranches,
     customFilterColumns,
     customFilterTagOptionsByColumn,
+    queryFields,
     dateRange,
     workloadData,
+    personAvailability,
+    syncConflicts,
+    resolveSyncConflicts,
+    outboxStatus,
+    retryOutbox,
+    discardQueuedChanges,
     canUndo,
     canRedo,
     undoCount,
     versionHistoryUi,
     createVersionSnapshot,
     restoreVersionSnapshot,
+    setVersionPinned,
     getVersionSnapshot,
     versionHistorySync,
+    baselines,
+    activeBaselineId,
+    activeBaseline,
+    scheduleVariance,
+    createBaseline,
+    setActiveBaselineId,
+    progressMetrics,
+    portfolioProgress,
+    shareDynamicColumnValues,
+    filterDynamicColumns,
+    setRollupRules,
+    setTaskTypes,
+    notificationCenter.notifications,
+    notificationCenter.unreadCount,
+    notificationCenter.preferences,
+    notificationCenter.updatePreferences,
+    notificationCenter.markRead,
+    notifyCommentMentions,
+    activityLog.record,
+    activityLog.loadBoardActivity,
+    activityLog.loadTaskActivity,
+    savedViewStore.views,
+    activeSavedViewId,
+    activeSavedViewModified,
+    applySavedView,
+    saveCurrentView,
+    overwriteSavedView,
+    savedViewStore.updateView,
+    deleteSavedView,
+    savedViewStore.canEditView,
+    copyViewLink,
+    shareViewLayout,
+    takePendingViewLayout,
+    loadSearchIndex,
+    revealTask,
+    takeRevealRequest,
     boards,
     activeBoardId,
     activeBoardRole,
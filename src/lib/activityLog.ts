@@ -0,0 +1,297 @@
+/**
+ * Activity Log - Who changed what on a board
+ * Turns local reducer actions, dynamic cell edits and comment actions into
+ * audit drafts with per-field before/after values. Drafts carry no actor or
+ * timestamp; the recorder stamps them when they are written.
+ */
+
+import { format } from 'date-fns';
+import type { AppAction, DynamicCellValue, Project } from './types';
+import { isValidDateValue } from './dateUtils';
+import type { ActivityAction, ActivityFieldChange } from './activityLogRepository';
+import { projectFromAddPayload } from './boardChangeTracking';
+
+export interface ActivityDraft {
+  taskId: string | null;
+  taskName: string;
+  action: ActivityAction;
+  changes: ActivityFieldChange[];
+  detail: string | null;
+}
+
+type TrackedField =
+  | 'name'
+  | 'branch'
+  | 'startDate'
+  | 'endDate'
+  | 'assignees'
+  | 'daysRequired'
+  | 'priority'
+  | 'type'
+  | 'blockedBy'
+  | 'blocksTo'
+  | 'reportedLoad'
+  | 'progress'
+  | 'parentId';
+
+// Expansion state and computed fields are view/derived data, not edits
+const TRACKED_FIELDS: Record<TrackedField, string> = {
+  name: 'Nombre',
+  branch: 'Sucursal',
+  startDate: 'Inicio',
+  endDate: 'Fin',
+  assignees: 'Asignados',
+  daysRequired: 'Días requeridos',
+  priority: 'Prioridad',
+  type: 'Tipo',
+  blockedBy: 'Bloqueado por',
+  blocksTo: 'Bloquea a',
+  reportedLoad: 'Carga reportada',
+  progress: 'Progreso',
+  parentId: 'Proyecto padre',
+};
+
+const EXCERPT_LENGTH = 140;
+
+// Actions that only mean something through their field diffs
+const MERGEABLE_ACTIONS = new Set<ActivityAction>(['task.update', 'column.update', 'task.move']);
+
+function taskLabel(project: Pick<Project, 'name'> | undefined): string {
+  return project?.name?.trim() || 'Sin nombre';
+}
+
+function excerpt(text: string): string {
+  const flat = text.trim().replace(/\s+/g, ' ');
+  return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH - 3)}...` : flat;
+}
+
+function formatFieldValue(field: TrackedField, value: unknown, byId: Map<string, Project>): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (field === 'parentId') return taskLabel(byId.get(String(value)));
+  if (field === 'progress') return `${value}%`;
+  if (isValidDateValue(value)) return format(value, 'dd/MM/yyyy');
+  if (Array.isArray(value)) return value.filter(Boolean).join(', ');
+  return String(value);
+}
+
+export function formatCellValue(value: DynamicCellValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (Array.isArray(value)) return value.filter(Boolean).join(', ');
+  return String(value);
+}
+
+function diffProject(before: Project, updates: Partial<Project>, byId: Map<string, Project>): ActivityFieldChange[] {
+  const changes: ActivityFieldChange[] = [];
+  (Object.keys(TRACKED_FIELDS) as TrackedField[]).forEach((field) => {
+    if (!(field in updates)) return;
+    const from = formatFieldValue(field, before[field], byId);
+    const to = formatFieldValue(field, updates[field], byId);
+    if (from === to) return;
+    changes.push({ field, label: TRACKED_FIELDS[field], from, to });
+  });
+  return changes;
+}
+
+function draftForUpdate(before: Project | undefined, updates: Partial<Project>, byId: Map<string, Project>): ActivityDraft[] {
+  if (!before) return [];
+  const changes = diffProject(before, updates, byId);
+  if (changes.length === 0) return [];
+  return [{
+    taskId: before.id,
+    // A rename is listed under the new name; the diff keeps the old one
+    taskName: taskLabel({ name: updates.name ?? before.name }),
+    action: 'task.update',
+    changes,
+    detail: null,
+  }];
+}
+
+function draftForAdd(project: Project, byId: Map<string, Project>): ActivityDraft {
+  const parent = project.parentId ? byId.get(project.parentId) : undefined;
+  return {
+    taskId: project.id,
+    taskName: taskLabel(project),
+    action: 'task.add',
+    changes: [],
+    detail: parent ? `Dentro de "${taskLabel(parent)}"` : null,
+  };
+}
+
+/** Drafts for a local reducer action, judged against the projects before it ran */
+export function activityFromAction(action: AppAction, before: Project[]): ActivityDraft[] {
+  const byId = new Map(before.map((p) => [p.id, p]));
+  switch (action.type) {
+    case 'UPDATE_PROJECT':
+      return draftForUpdate(byId.get(action.payload.id), action.payload.updates, byId);
+    case 'BULK_UPDATE_PROJECTS':
+      return Object.entries(action.payload).flatMap(([id, updates]) => draftForUpdate(byId.get(id), updates, byId));
+    case 'PASTE_PROJECTS':
+      return [
+        ...action.payload.added.map((project) => draftForAdd(project, byId)),
+        ...Object.entries(action.payload.updates).flatMap(([id, updates]) => draftForUpdate(byId.get(id), updates, byId)),
+      ];
+    case 'ADD_PROJECT': {
+      const project = projectFromAddPayload(action.payload);
+      return project ? [draftForAdd(project, byId)] : [];
+    }
+    case 'SET_PROJECTS':
+      return activityFromBoardChange('board.replace', before, action.payload.projects || [], action.payload.fileName || null);
+    case 'DELETE_PROJECT': {
+      const project = byId.get(action.payload);
+      if (!project) return [];
+      return [{ taskId: project.id, taskName: taskLabel(project), action: 'task.delete', changes: [], detail: null }];
+    }
+    case 'UPDATE_HIERARCHY': {
+      const project = byId.get(action.payload.projectId);
+      const newParentId = action.payload.newParentId || null;
+      if (!project || (project.parentId || null) === newParentId) return [];
+      return [{
+        taskId: project.id,
+        taskName: taskLabel(project),
+        action: 'task.move',
+        changes: [{
+          field: 'parentId',
+          label: TRACKED_FIELDS.parentId,
+          from: formatFieldValue('parentId', project.parentId, byId),
+          to: formatFieldValue('parentId', newParentId, byId),
+        }],
+        detail: null,
+      }];
+    }
+    default:
+      return [];
+  }
+}
+
+function countLabel(count: number, singular: string, plural: string): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+/**
+ * One board-level entry for a change that swaps many rows at once (import, version
+ * restore, undo, redo), summarizing how many tasks were added, removed and edited.
+ * Returns nothing when no tracked field changed, as with a config recompute.
+ */
+export function activityFromBoardChange(
+  action: 'board.replace' | 'board.undo' | 'board.redo',
+  before: Project[],
+  after: Project[],
+  source: string | null = null
+): ActivityDraft[] {
+  const byId = new Map(before.map((p) => [p.id, p]));
+  const afterIds = new Set(after.map((p) => p.id));
+  const added = after.filter((p) => !byId.has(p.id)).length;
+  const removed = before.filter((p) => !afterIds.has(p.id)).length;
+  const edited = after.filter((p) => {
+    const previous = byId.get(p.id);
+    return !!previous && diffProject(previous, p, byId).length > 0;
+  }).length;
+  if (added + removed + edited === 0) return [];
+  const counts = [
+    added > 0 ? countLabel(added, 'tarea creada', 'tareas creadas') : null,
+    removed > 0 ? countLabel(removed, 'tarea eliminada', 'tareas eliminadas') : null,
+    edited > 0 ? countLabel(edited, 'tarea editada', 'tareas editadas') : null,
+  ].filter(Boolean).join(', ');
+  return [{
+    taskId: null,
+    taskName: 'Tablero',
+    action,
+    changes: [],
+    detail: source ? `${source}: ${counts}` : counts,
+  }];
+}
+
+export function activityFromColumnValue(
+  task: Pick<Project, 'id' | 'name'>,
+  column: { id: string; name: string },
+  previous: DynamicCellValue | undefined,
+  next: DynamicCellValue
+): ActivityDraft | null {
+  const from = formatCellValue(previous);
+  const to = formatCellValue(next);
+  if (from === to) return null;
+  return {
+    taskId: task.id,
+    taskName: taskLabel(task),
+    action: 'column.update',
+    changes: [{ field: `column:${column.id}`, label: column.name, from, to }],
+    detail: null,
+  };
+}
+
+export function activityFromComment(
+  task: Pick<Project, 'id' | 'name'>,
+  kind: 'add' | 'edit' | 'delete',
+  body: string,
+  previousBody?: string
+): ActivityDraft {
+  return {
+    taskId: task.id,
+    taskName: taskLabel(task),
+    action: kind === 'add' ? 'comment.add' : kind === 'edit' ? 'comment.edit' : 'comment.delete',
+    changes: kind === 'edit' && previousBody !== undefined
+      ? [{ field: 'comment', label: 'Comentario', from: excerpt(previousBody), to: excerpt(body) }]
+      : [],
+    detail: kind === 'edit' ? null : excerpt(body),
+  };
+}
+
+/**
+ * Folds consecutive drafts for the same task and action into one entry, so
+ * typing into a cell or dragging a bar records the net change rather than
+ * every intermediate value. A field changed back to its original value drops out.
+ */
+export function mergeActivityDrafts(drafts: ActivityDraft[]): ActivityDraft[] {
+  const merged: ActivityDraft[] = [];
+  drafts.forEach((draft) => {
+    const last = merged[merged.length - 1];
+    const mergeable = last
+      && last.taskId === draft.taskId
+      && last.action === draft.action
+      && MERGEABLE_ACTIONS.has(draft.action);
+    if (!mergeable) {
+      merged.push({ ...draft, changes: [...draft.changes] });
+      return;
+    }
+    draft.changes.forEach((change) => {
+      const idx = last.changes.findIndex((c) => c.field === change.field);
+      if (idx === -1) last.changes.push(change);
+      else last.changes[idx] = { ...last.changes[idx], to: change.to };
+    });
+    last.changes = last.changes.filter((c) => c.from !== c.to);
+    last.taskName = draft.taskName;
+  });
+  return merged.filter((d) => d.changes.length > 0 || !MERGEABLE_ACTIONS.has(d.action));
+}
+
+/** Sentence after the actor's name; without a task name it reads from inside the task's own panel */
+export function describeActivity(action: ActivityAction, taskName: string | null): string {
+  const task = taskName ? `"${taskName}"` : 'el elemento';
+  const inTask = taskName ? ` en "${taskName}"` : '';
+  switch (action) {
+    case 'task.add':
+      return `creó ${task}`;
+    case 'task.delete':
+      return `eliminó ${task}`;
+    case 'task.move':
+      return `movió ${task}`;
+    case 'board.replace':
+      return 'reemplazó las tareas del tablero';
+    case 'board.undo':
+      return 'deshizo cambios en el tablero';
+    case 'board.redo':
+      return 'rehizo cambios en el tablero';
+    case 'task.update':
+    case 'column.update':
+      return taskName ? `editó "${taskName}"` : 'editó';
+    case 'comment.add':
+      return `comentó${inTask}`;
+    case 'comment.edit':
+      return `editó un comentario${inTask}`;
+    case 'comment.delete':
+      return `eliminó un comentario${inTask}`;
+    default:
+      return task;
+  }
+}
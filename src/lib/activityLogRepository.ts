@@ -0,0 +1,119 @@
+import { supabase } from '@/lib/supabaseClient';
+
+export type ActivityAction =
+  | 'task.update'
+  | 'task.add'
+  | 'task.delete'
+  | 'task.move'
+  // Whole-board changes: imports and version restores, undo and redo
+  | 'board.replace'
+  | 'board.undo'
+  | 'board.redo'
+  | 'column.update'
+  | 'comment.add'
+  | 'comment.edit'
+  | 'comment.delete';
+
+/** One field before and after a change, already formatted for display */
+export interface ActivityFieldChange {
+  field: string;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface ActivityEntry {
+  id: string;
+  board_id: string;
+  task_id: string | null;
+  // Kept so the feed still reads well after the task is renamed or deleted
+  task_name: string;
+  actor_id: string | null;
+  actor_label: string | null;
+  action: ActivityAction;
+  changes: ActivityFieldChange[];
+  detail: string | null;
+  created_at: string;
+}
+
+const ACTIVITY_COLUMNS = 'id,board_id,task_id,task_name,actor_id,actor_label,action,changes,detail,created_at';
+const BOARD_ACTIVITY_LIMIT = 200;
+const LOCAL_ACTIVITY_LIMIT = 500;
+
+function normalizeEntry(row: ActivityEntry): ActivityEntry {
+  return { ...row, changes: Array.isArray(row.changes) ? row.changes : [], detail: row.detail || null };
+}
+
+// ── Cloud ──
+
+/**
+ * The log is append-only: rows are never updated or deleted. Ids and timestamps
+ * come from the client, so entries replayed from the outbox keep the moment
+ * the change was made and a retried batch does not duplicate rows.
+ */
+export async function appendActivity(entries: ActivityEntry[]): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  if (entries.length === 0) return;
+  const { error } = await supabase
+    .from('activity_log')
+    .upsert(entries, { onConflict: 'id', ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function listBoardActivity(boardId: string, limit = BOARD_ACTIVITY_LIMIT): Promise<ActivityEntry[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('activity_log')
+    .select(ACTIVITY_COLUMNS)
+    .eq('board_id', boardId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return ((data || []) as ActivityEntry[]).map(normalizeEntry);
+}
+
+export async function listTaskActivity(boardId: string, taskId: string): Promise<ActivityEntry[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('activity_log')
+    .select(ACTIVITY_COLUMNS)
+    .eq('board_id', boardId)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: false })
+    .limit(BOARD_ACTIVITY_LIMIT);
+  if (error) throw error;
+  return ((data || []) as ActivityEntry[]).map(normalizeEntry);
+}
+
+// ── Local (boards without cloud) ──
+
+function activityKey(boardId: string | null): string {
+  return `workload-dashboard-activity:${boardId || 'local'}`;
+}
+
+export function loadLocalActivity(boardId: string | null): ActivityEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(activityKey(boardId));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return (parsed as ActivityEntry[])
+      .filter((e) => e && typeof e.id === 'string' && typeof e.action === 'string')
+      .map(normalizeEntry);
+  } catch {
+    return [];
+  }
+}
+
+/** Newest first; the oldest entries fall off past the local cap */
+export function appendLocalActivity(boardId: string | null, entries: ActivityEntry[]): ActivityEntry[] {
+  const next = [...entries.slice().reverse(), ...loadLocalActivity(boardId)].slice(0, LOCAL_ACTIVITY_LIMIT);
+  if (typeof window === 'undefined') return next;
+  try {
+    window.localStorage.setItem(activityKey(boardId), JSON.stringify(next));
+  } catch {
+    // ignore
+  }
+  return next;
+}
@@ -0,0 +1,81 @@
+/**
+ * Baselines - Planned schedule captured from a version snapshot
+ * A baseline is a named, pinned version whose projects freeze the planned
+ * start, end and required days. Variance compares the live schedule against it
+ * in working days: positive means later than planned, negative earlier.
+ */
+
+import { addDays, startOfDay } from 'date-fns';
+import type { AppConfig, Project } from './types';
+import { countWorkingDays, isValidDateValue } from './dateUtils';
+
+export const BASELINE_LABEL_PREFIX = 'Línea base: ';
+
+export interface BaselineEntry {
+  startDate: Date | null;
+  endDate: Date | null;
+  daysRequired: number;
+}
+
+export type ProjectBaseline = Map<string, BaselineEntry>;
+
+export interface ScheduleVariance {
+  // Working days the start/end moved relative to the baseline; null when either date is missing
+  startVariance: number | null;
+  finishVariance: number | null;
+  daysRequiredDelta: number;
+}
+
+function toValidDate(value: unknown): Date | null {
+  if (!value) return null;
+  const d = value instanceof Date ? value : new Date(String(value));
+  return isValidDateValue(d) ? d : null;
+}
+
+export function buildProjectBaseline(projects: Project[]): ProjectBaseline {
+  return new Map(
+    projects.map((p) => [
+      p.id,
+      {
+        startDate: toValidDate(p.startDate),
+        endDate: toValidDate(p.endDate),
+        daysRequired: Number(p.daysRequired) || 0,
+      },
+    ])
+  );
+}
+
+/** Signed working days from `planned` to `actual`; the planned day itself is not counted */
+export function workingDayVariance(planned: Date | null, actual: Date | null, config: AppConfig): number | null {
+  if (!planned || !actual) return null;
+  const from = startOfDay(planned);
+  const to = startOfDay(actual);
+  if (from.getTime() === to.getTime()) return 0;
+  return from < to
+    ? countWorkingDays(addDays(from, 1), to, config)
+    : -countWorkingDays(to, addDays(from, -1), config);
+}
+
+export function computeScheduleVariance(
+  projects: Project[],
+  baseline: ProjectBaseline,
+  config: AppConfig
+): Map<string, ScheduleVariance> {
+  const result = new Map<string, ScheduleVariance>();
+  projects.forEach((p) => {
+    const planned = baseline.get(p.id);
+    if (!planned) return;
+    result.set(p.id, {
+      startVariance: workingDayVariance(planned.startDate, toValidDate(p.startDate), config),
+      finishVariance: workingDayVariance(planned.endDate, toValidDate(p.endDate), config),
+      daysRequiredDelta: (Number(p.daysRequired) || 0) - planned.daysRequired,
+    });
+  });
+  return result;
+}
+
+export function formatVariance(value: number | null | undefined): string {
+  if (value === null || value === undefined) return '—';
+  if (value === 0) return '0';
+  return value > 0 ? `+${value}` : String(value);
+}
@@ -0,0 +1,240 @@
+/**
+ * Board Change Tracking - Row-level patches between local state and the cloud
+ * Keeps a snapshot of the task rows the cloud is known to hold, derives which
+ * projects a reducer action touched, and turns both into minimal upsert/delete
+ * batches. Incoming realtime row payloads are folded into the same snapshot.
+ */
+
+import type { AppAction, Project } from './types';
+import type { CloudTaskRow } from './cloudBoardRepository';
+import { mapProjectToRow } from './cloudBoardRepository';
+import { getAncestors, getDescendants } from './hierarchyEngine';
+
+/** Rows the cloud is known to hold, keyed by task id */
+export type CloudRowSnapshot = Map<string, CloudTaskRow>;
+
+/** Project ids touched since the last save, or 'all' when a full diff is required */
+export type DirtyProjectIds = Set<string> | 'all';
+
+export interface BoardPatch {
+  upserts: CloudTaskRow[];
+  deletes: string[];
+}
+
+export interface RealtimeRowChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Partial<CloudTaskRow> | null;
+  old: Partial<CloudTaskRow> | null;
+}
+
+export interface RemoteRowBatch {
+  upserts: CloudTaskRow[];
+  deletes: string[];
+  orderChanged: boolean;
+}
+
+export function createRowSnapshot(rows: CloudTaskRow[]): CloudRowSnapshot {
+  return new Map(rows.map((row) => [row.id, { ...row }]));
+}
+
+export function rowsEqual(a: CloudTaskRow | undefined, b: CloudTaskRow | undefined): boolean {
+  if (!a || !b) return a === b;
+  // Realtime payloads may carry numerics as strings and omit nullable columns
+  const num = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+  const str = (v: unknown) => (v === null || v === undefined ? null : String(v));
+  return (
+    num(a.sort_order) === num(b.sort_order)
+    && str(a.parent_id) === str(b.parent_id)
+    && (a.is_expanded ?? true) === (b.is_expanded ?? true)
+    && (a.name || '') === (b.name || '')
+    && (a.branch || '') === (b.branch || '')
+    && str(a.start_date) === str(b.start_date)
+    && str(a.end_date) === str(b.end_date)
+    && num(a.days_required) === num(b.days_required)
+    && num(a.priority) === num(b.priority)
+    && a.type === b.type
+    && str(a.blocked_by) === str(b.blocked_by)
+    && str(a.blocks_to) === str(b.blocks_to)
+    && num(a.reported_load) === num(b.reported_load)
+    && JSON.stringify(a.assignees || []) === JSON.stringify(b.assignees || [])
+  );
+}
+
+/** The project an ADD_PROJECT adds; table inserts wrap it as { project, position, referenceId } */
+export function projectFromAddPayload(payload: unknown): Project | null {
+  const raw = payload as Project | { project: Project } | null;
+  const project = raw && typeof raw === 'object' && 'project' in raw ? raw.project : raw;
+  return project && typeof project.id === 'string' && project.id ? project : null;
+}
+
+/**
+ * Project ids whose rows may change when the action is reduced against `projects`.
+ * Parents are included because their dates and load are re-aggregated from children.
+ */
+export function collectTouchedProjectIds(
+  action: AppAction | { type: 'UNDO' } | { type: 'REDO' },
+  projects: Project[]
+): string[] | 'all' {
+  const withAncestors = (ids: string[]) => {
+    const out = new Set<string>();
+    ids.forEach((id) => {
+      out.add(id);
+      getAncestors(id, projects).forEach((a) => out.add(a.id));
+    });
+    return Array.from(out);
+  };
+
+  switch (action.type) {
+    case 'UPDATE_PROJECT': {
+      const ids = [action.payload.id];
+      const newParent = action.payload.updates.parentId;
+      if (newParent) ids.push(newParent);
+      return withAncestors(ids);
+    }
+    case 'BULK_UPDATE_PROJECTS': {
+      const ids = Object.keys(action.payload || {});
+      Object.values(action.payload || {}).forEach((updates) => {
+        if (updates?.parentId) ids.push(updates.parentId);
+      });
+      return withAncestors(ids);
+    }
+    case 'PASTE_PROJECTS': {
+      const { updates, added } = action.payload;
+      const parentIds = added.map((p) => p.parentId).filter((id): id is string => !!id);
+      return [...added.map((p) => p.id), ...withAncestors([...Object.keys(updates || {}), ...parentIds])];
+    }
+    case 'ADD_PROJECT': {
+      const project = projectFromAddPayload(action.payload);
+      if (!project) return [];
+      return [project.id, ...(project.parentId ? withAncestors([project.parentId]) : [])];
+    }
+    case 'DELETE_PROJECT':
+      return [
+        ...withAncestors([action.payload]),
+        ...getDescendants(action.payload, projects).map((p) => p.id),
+      ];
+    case 'UPDATE_HIERARCHY': {
+      const ids = [action.payload.projectId];
+      if (action.payload.newParentId) ids.push(action.payload.newParentId);
+      return withAncestors(ids);
+    }
+    case 'TOGGLE_EXPANSION':
+      return [action.payload];
+    // Imports, version restores and config recomputes replace the whole board
+    case 'SET_PROJECTS':
+    case 'REORDER_PROJECTS':
+    case 'UNDO':
+    case 'REDO':
+      return 'all';
+    default:
+      return [];
+  }
+}
+
+export function mergeDirtyIds(current: DirtyProjectIds, touched: string[] | 'all'): DirtyProjectIds {
+  if (current === 'all' || touched === 'all') return 'all';
+  if (touched.length === 0) return current;
+  const next = new Set(current);
+  touched.forEach((id) => next.add(id));
+  return next;
+}
+
+/**
+ * Rows that differ from the snapshot plus ids that disappeared locally.
+ * Only dirty projects are mapped to rows unless a full diff was requested.
+ */
+export function buildBoardPatch(
+  boardId: string,
+  projects: Project[],
+  projectOrder: string[],
+  snapshot: CloudRowSnapshot,
+  dirty: DirtyProjectIds
+): BoardPatch {
+  const indexById = new Map(projectOrder.map((id, idx) => [id, idx]));
+  const localIds = new Set(projects.map((p) => p.id));
+  const candidates = dirty === 'all' ? projects : projects.filter((p) => dirty.has(p.id) || !snapshot.has(p.id));
+
+  const upserts = candidates
+    .map((p) => mapProjectToRow(p, boardId, indexById.get(p.id) ?? Number.MAX_SAFE_INTEGER))
+    .filter((row) => !rowsEqual(row, snapshot.get(row.id)))
+    .sort((a, b) => a.sort_order - b.sort_order);
+
+  const deletes = Array.from(snapshot.keys()).filter((id) => !localIds.has(id));
+  return { upserts, deletes };
+}
+
+export function isEmptyPatch(patch: BoardPatch): boolean {
+  return patch.upserts.length === 0 && patch.deletes.length === 0;
+}
+
+/** Record a successfully written patch in the snapshot, preferring the rows the cloud returned */
+export function applyPatchToSnapshot(snapshot: CloudRowSnapshot, patch: BoardPatch, written: CloudTaskRow[] = []): void {
+  const writtenById = new Map(written.map((row) => [row.id, row]));
+  patch.upserts.forEach((row) => snapshot.set(row.id, { ...(writtenById.get(row.id) || row) }));
+  patch.deletes.forEach((id) => snapshot.delete(id));
+}
+
+/**
+ * Fold realtime payloads into the snapshot and keep only the ones that
+ * actually change it, so echoes of our own writes are dropped. Rows with
+ * unsaved local edits keep their base row so the next save can detect the conflict.
+ */
+export function absorbRealtimeChanges(
+  snapshot: CloudRowSnapshot,
+  changes: RealtimeRowChange[],
+  isLocal: (id: string) => boolean = () => false
+): RemoteRowBatch {
+  const upserts = new Map<string, CloudTaskRow>();
+  const deletes = new Set<string>();
+  let orderChanged = false;
+
+  changes.forEach((change) => {
+    if (change.eventType === 'DELETE') {
+      const id = change.old?.id;
+      if (!id || !snapshot.has(id) || isLocal(id)) return;
+      snapshot.delete(id);
+      upserts.delete(id);
+      deletes.add(id);
+      orderChanged = true;
+      return;
+    }
+    const row = change.new as CloudTaskRow | null;
+    if (!row?.id) return;
+    const known = snapshot.get(row.id);
+    if (rowsEqual(row, known)) {
+      // Echo of our own write: only the version moved
+      if (known) snapshot.set(row.id, { ...known, version: row.version ?? known.version, updated_at: row.updated_at ?? known.updated_at });
+      return;
+    }
+    if (isLocal(row.id)) return;
+    if (!known || Number(known.sort_order) !== Number(row.sort_order)) orderChanged = true;
+    snapshot.set(row.id, { ...row });
+    deletes.delete(row.id);
+    upserts.set(row.id, row);
+  });
+
+  return { upserts: Array.from(upserts.values()), deletes: Array.from(deletes), orderChanged };
+}
+
+/** Task ids in the order the cloud stores them */
+export function snapshotOrder(snapshot: CloudRowSnapshot): string[] {
+  return Array.from(snapshot.values())
+    .sort((a, b) => Number(a.sort_order) - Number(b.sort_order))
+    .map((row) => row.id);
+}
+
+/**
+ * Adopt the cloud order while keeping local ids the cloud does not know yet
+ * right after the id that precedes them locally.
+ */
+export function mergeProjectOrder(cloudOrder: string[], localOrder: string[]): string[] {
+  const cloudIds = new Set(cloudOrder);
+  const result = [...cloudOrder];
+  localOrder.forEach((id, idx) => {
+    if (cloudIds.has(id)) return;
+    const prev = idx > 0 ? localOrder[idx - 1] : null;
+    const at = prev ? result.indexOf(prev) : -1;
+    result.splice(at + 1, 0, id);
+  });
+  return result;
+}
@@ -0,0 +1,220 @@
+/**
+ * Board Search - Full-text index over what a board says about its tasks
+ * Indexes project names, branches, assignees, text-like dynamic column values
+ * and comment bodies as word tokens. Matching is case and accent insensitive,
+ * each query word matches token prefixes, and a task is found when every word
+ * matches somewhere in it.
+ */
+
+import type { DynamicCellValue, DynamicColumn, Project } from './types';
+import { normalizeBranchList } from './branchUtils';
+
+export type SearchField = 'name' | 'branch' | 'assignee' | 'column' | 'comment';
+
+export interface SearchDocument {
+  taskId: string;
+  field: SearchField;
+  // Column name, comment author, or the field name for built-in fields
+  label: string;
+  text: string;
+}
+
+export interface SearchSourceComment {
+  task_id: string;
+  body: string;
+  author_label?: string | null;
+}
+
+export interface BoardSearchIndex {
+  documents: SearchDocument[];
+  // Sorted, so prefixes are found with a binary search
+  tokens: string[];
+  postings: Map<string, number[]>;
+  taskNames: Map<string, string>;
+}
+
+export interface SearchResult {
+  taskId: string;
+  taskName: string;
+  score: number;
+  matches: SearchDocument[];
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 5,
+  branch: 3,
+  assignee: 3,
+  column: 2,
+  comment: 1,
+};
+
+const FIELD_LABELS: Record<Exclude<SearchField, 'column' | 'comment'>, string> = {
+  name: 'Nombre',
+  branch: 'Sucursal',
+  assignee: 'Asignados',
+};
+
+const SEARCHABLE_COLUMN_TYPES = new Set<DynamicColumn['type']>(['text', 'tags', 'select']);
+
+const MAX_MATCHES_PER_RESULT = 3;
+
+/** Lowercase without accents, one character per input character so offsets line up */
+export function foldText(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const folded = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    out += folded.length === char.length ? folded : char.toLowerCase();
+  }
+  return out;
+}
+
+function tokenize(text: string): string[] {
+  return foldText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+export function searchTerms(query: string): string[] {
+  return Array.from(new Set(tokenize(query)));
+}
+
+function cellText(value: DynamicCellValue | undefined): string {
+  if (Array.isArray(value)) return value.join(', ');
+  return typeof value === 'string' ? value : '';
+}
+
+export function buildSearchIndex(input: {
+  projects: Project[];
+  columns?: DynamicColumn[];
+  values?: Map<string, Record<string, DynamicCellValue>>;
+  comments?: SearchSourceComment[];
+}): BoardSearchIndex {
+  const documents: SearchDocument[] = [];
+  const taskNames = new Map<string, string>();
+  const textColumns = (input.columns || []).filter((c) => SEARCHABLE_COLUMN_TYPES.has(c.type));
+
+  input.projects.forEach((project) => {
+    taskNames.set(project.id, project.name);
+    documents.push({ taskId: project.id, field: 'name', label: FIELD_LABELS.name, text: project.name });
+    const branches = normalizeBranchList(project.branch);
+    if (branches.length > 0) {
+      documents.push({ taskId: project.id, field: 'branch', label: FIELD_LABELS.branch, text: branches.join(', ') });
+    }
+    if (project.assignees.length > 0) {
+      documents.push({ taskId: project.id, field: 'assignee', label: FIELD_LABELS.assignee, text: project.assignees.join(', ') });
+    }
+    const row = input.values?.get(project.id);
+    textColumns.forEach((col) => {
+      const text = cellText(row?.[col.id]);
+      if (text.trim()) documents.push({ taskId: project.id, field: 'column', label: col.name, text });
+    });
+  });
+
+  (input.comments || []).forEach((comment) => {
+    if (!taskNames.has(comment.task_id) || !comment.body.trim()) return;
+    documents.push({
+      taskId: comment.task_id,
+      field: 'comment',
+      label: comment.author_label || 'Comentario',
+      text: comment.body,
+    });
+  });
+
+  const postings = new Map<string, number[]>();
+  documents.forEach((doc, docIndex) => {
+    new Set(tokenize(doc.text)).forEach((token) => {
+      const list = postings.get(token);
+      if (list) list.push(docIndex);
+      else postings.set(token, [docIndex]);
+    });
+  });
+
+  return { documents, tokens: Array.from(postings.keys()).sort(), postings, taskNames };
+}
+
+function tokensWithPrefix(index: BoardSearchIndex, prefix: string): string[] {
+  let lo = 0;
+  let hi = index.tokens.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (index.tokens[mid] < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+  const found: string[] = [];
+  for (let i = lo; i < index.tokens.length && index.tokens[i].startsWith(prefix); i++) found.push(index.tokens[i]);
+  return found;
+}
+
+export function searchBoard(index: BoardSearchIndex, query: string, limit = 30): SearchResult[] {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+
+  // Per task: best score reached by each term, and the documents that matched
+  const byTask = new Map<string, { termScores: number[]; docs: Set<number> }>();
+  terms.forEach((term, termIndex) => {
+    tokensWithPrefix(index, term).forEach((token) => {
+      const exactBonus = token === term ? 1 : 0;
+      (index.postings.get(token) || []).forEach((docIndex) => {
+        const doc = index.documents[docIndex];
+        const entry = byTask.get(doc.taskId) || { termScores: new Array<number>(terms.length).fill(0), docs: new Set<number>() };
+        entry.termScores[termIndex] = Math.max(entry.termScores[termIndex], FIELD_WEIGHTS[doc.field] + exactBonus);
+        entry.docs.add(docIndex);
+        byTask.set(doc.taskId, entry);
+      });
+    });
+  });
+
+  const results: SearchResult[] = [];
+  byTask.forEach((entry, taskId) => {
+    if (entry.termScores.some((s) => s === 0)) return;
+    const matches = Array.from(entry.docs)
+      .map((docIndex) => index.documents[docIndex])
+      .sort((a, b) => FIELD_WEIGHTS[b.field] - FIELD_WEIGHTS[a.field])
+      .slice(0, MAX_MATCHES_PER_RESULT);
+    results.push({
+      taskId,
+      taskName: index.taskNames.get(taskId) || '',
+      score: entry.termScores.reduce((sum, s) => sum + s, 0),
+      matches,
+    });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.taskName.localeCompare(b.taskName, 'es', { sensitivity: 'base' }))
+    .slice(0, limit);
+}
+
+export interface HighlightSegment {
+  text: string;
+  hit: boolean;
+}
+
+/** Splits text into plain and matching parts; terms come from searchTerms */
+export function highlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  if (terms.length === 0 || !text) return [{ text, hit: false }];
+  const folded = foldText(text);
+  const marks = new Array<boolean>(text.length).fill(false);
+  terms.forEach((term) => {
+    let from = folded.indexOf(term);
+    while (from >= 0) {
+      for (let i = from; i < from + term.length; i++) marks[i] = true;
+      from = folded.indexOf(term, from + term.length);
+    }
+  });
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.hit === marks[i]) last.text += text[i];
+    else segments.push({ text: text[i], hit: marks[i] });
+  }
+  return segments;
+}
+
+/** Window of a long text around its first match */
+export function matchExcerpt(text: string, terms: string[], radius = 48): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= radius * 2) return flat;
+  const folded = foldText(flat);
+  const first = terms.map((t) => folded.indexOf(t)).filter((i) => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(flat.length, first + radius);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
@@ -3,6 +3,7 @@ import { computeProjectFields } from '@/lib/workloadEngine';
 import type { AppConfig } from '@/lib/types';
 import { supabase } from '@/lib/supabaseClient';
 import { normalizeBranchList } from '@/lib/branchUtils';
+import { defaultTaskTypeName } from '@/lib/taskTypes';
 
 export interface CloudTaskRow {
   id: string;
@@ -21,6 +22,32 @@ export interface CloudTaskRow {
   blocked_by: string | null;
   blocks_to: string | null;
   reported_load: number | null;
+  // Bumped by the tasks_touch trigger on every update; absent on rows we build locally
+  version?: number;
+  updated_at?: string;
+}
+
+const TASK_COLUMNS =
+  'id, board_id, sort_order, parent_id, is_expanded, name, branch, start_date, end_date, assignees, days_required, priority, type, blocked_by, blocks_to, reported_load, version, updated_at';
+
+// Ids per `.in()` filter, so a full-board diff stays well under URL length limits
+const ID_BATCH_SIZE = 150;
+// Version-checked writes are one request per row (or per version); cap how many run at once
+const PARALLEL_WRITES = 8;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size));
+  return batches;
+}
+
+/** Runs `task` over every item, at most `limit` at a time, keeping the input order */
+async function mapLimited<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (const batch of chunk(items, limit)) {
+    results.push(...await Promise.all(batch.map(task)));
+  }
+  return results;
 }
 
 function toDate(value: string | null): Date | null {
@@ -45,7 +72,7 @@ function toISODate(value: Date | null): string | null {
   return `${year}-${month}-${day}`;
 }
 
-function parseStoredBranch(value: string): string | string[] {
+export function parseStoredBranch(value: string): string | string[] {
   const clean = (value || '').trim();
   if (!clean) return [];
   if (clean.startsWith('[')) {
@@ -77,7 +104,7 @@ export function mapRowToProject(row: CloudTaskRow, config: AppConfig): Project {
       assignees: row.assignees || [],
       daysRequired: Number(row.days_required || 0),
       priority: row.priority ?? 0,
-      type: row.type || 'Proyecto',
+      type: row.type || defaultTaskTypeName(config.taskTypes),
       blockedBy: row.blocked_by,
       blocksTo: row.blocks_to,
       reportedLoad: row.reported_load,
@@ -118,9 +145,7 @@ export async function loadBoardProjects(boardId: string, config: AppConfig) {
 
   const { data, error } = await supabase
     .from('tasks')
-    .select(
-      'id, board_id, sort_order, parent_id, is_expanded, name, branch, start_date, end_date, assignees, days_required, priority, type, blocked_by, blocks_to, reported_load'
-    )
+    .select(TASK_COLUMNS)
     .eq('board_id', boardId)
     .order('sort_order', { ascending: true });
 
@@ -129,7 +154,7 @@ export async function loadBoardProjects(boardId: string, config: AppConfig) {
   const rows = (data || []) as CloudTaskRow[];
   const projects = rows.map((r) => mapRowToProject(r, config));
   const projectOrder = rows.map((r) => r.id);
-  return { projects, projectOrder };
+  return { projects, projectOrder, rows };
 }
 
 export async function saveBoardProjects(boardId: string, projects: Project[], projectOrder: string[]) {
@@ -175,3 +200,143 @@ export async function saveBoardProjects(boardId: string, projects: Project[], pr
     }
   }
 }
+
+/** Current cloud rows for the given task ids; used to check versions before writing */
+export async function loadTaskRowsByIds(boardId: string, ids: string[]): Promise<CloudTaskRow[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const sb = supabase;
+
+  const batches = await mapLimited(chunk(ids, ID_BATCH_SIZE), PARALLEL_WRITES, async (batch) => {
+    const { data, error } = await sb
+      .from('tasks')
+      .select(TASK_COLUMNS)
+      .eq('board_id', boardId)
+      .in('id', batch);
+    if (error) throw error;
+    return (data || []) as CloudTaskRow[];
+  });
+  return batches.flat();
+}
+
+// version and updated_at are maintained by the database trigger
+function toWritableRow(row: CloudTaskRow): CloudTaskRow {
+  const { version: _version, updated_at: _updatedAt, ...rest } = row;
+  return rest;
+}
+
+/**
+ * Write only the rows that changed. `knownIds` are the rows the cloud already holds;
+ * new rows whose parent is also new get their hierarchy link in a second pass.
+ * Returns the written rows as stored, including their new version.
+ */
+export async function saveBoardPatch(
+  boardId: string,
+  patch: { upserts: CloudTaskRow[]; deletes: string[] },
+  knownIds: Set<string>
+): Promise<CloudTaskRow[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+
+  const written = new Map<string, CloudTaskRow>();
+  if (patch.upserts.length > 0) {
+    const insertedIds = new Set(patch.upserts.filter((row) => !knownIds.has(row.id)).map((row) => row.id));
+    const needsLink = (row: CloudTaskRow) => !!row.parent_id && insertedIds.has(row.parent_id);
+
+    const firstPass = patch.upserts.map((row) => toWritableRow(needsLink(row) ? { ...row, parent_id: null } : row));
+    const { data: upserted, error: upsertError } = await supabase
+      .from('tasks')
+      .upsert(firstPass, { onConflict: 'id' })
+      .select(TASK_COLUMNS);
+    if (upsertError) throw upsertError;
+    ((upserted || []) as CloudTaskRow[]).forEach((row) => written.set(row.id, row));
+
+    const linkedRows = patch.upserts.filter(needsLink).map(toWritableRow);
+    if (linkedRows.length > 0) {
+      const { data: linked, error: linkError } = await supabase
+        .from('tasks')
+        .upsert(linkedRows, { onConflict: 'id' })
+        .select(TASK_COLUMNS);
+      if (linkError) throw linkError;
+      ((linked || []) as CloudTaskRow[]).forEach((row) => written.set(row.id, row));
+    }
+  }
+
+  // Delete after upserting so children re-parented away from a removed row are safe.
+  await deleteTaskRows(boardId, patch.deletes);
+
+  return Array.from(written.values());
+}
+
+/**
+ * Update rows only where the cloud still holds the given version. Rows someone
+ * else wrote or deleted in the meantime come back as stale instead of being overwritten.
+ */
+export async function updateTaskRowsAtVersion(
+  boardId: string,
+  updates: { row: CloudTaskRow; version: number }[]
+): Promise<{ written: CloudTaskRow[]; stale: string[] }> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const sb = supabase;
+
+  const results = await mapLimited(updates, PARALLEL_WRITES, async ({ row, version }) => {
+    const { data, error } = await sb
+      .from('tasks')
+      .update(toWritableRow(row))
+      .eq('board_id', boardId)
+      .eq('id', row.id)
+      .eq('version', version)
+      .select(TASK_COLUMNS);
+    if (error) throw error;
+    return { id: row.id, stored: ((data || []) as CloudTaskRow[])[0] as CloudTaskRow | undefined };
+  });
+
+  return {
+    written: results.flatMap((r) => (r.stored ? [r.stored] : [])),
+    stale: results.filter((r) => !r.stored).map((r) => r.id),
+  };
+}
+
+export async function deleteTaskRows(boardId: string, ids: string[]): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const sb = supabase;
+
+  await mapLimited(chunk(ids, ID_BATCH_SIZE), PARALLEL_WRITES, async (batch) => {
+    const { error } = await sb
+      .from('tasks')
+      .delete()
+      .eq('board_id', boardId)
+      .in('id', batch);
+    if (error) throw error;
+  });
+}
+
+/**
+ * Delete rows only where the cloud still holds the given version. Returns the ids
+ * that were not deleted: rows edited since, or already gone.
+ */
+export async function deleteTaskRowsAtVersion(
+  boardId: string,
+  deletes: { id: string; version: number }[]
+): Promise<string[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const sb = supabase;
+
+  // Rows loaded together mostly share a version, so group them into few requests
+  const idsByVersion = new Map<number, string[]>();
+  deletes.forEach(({ id, version }) => idsByVersion.set(version, [...(idsByVersion.get(version) || []), id]));
+  const batches = Array.from(idsByVersion.entries())
+    .flatMap(([version, ids]) => chunk(ids, ID_BATCH_SIZE).map((batch) => ({ version, batch })));
+
+  const deleted = new Set<string>();
+  await mapLimited(batches, PARALLEL_WRITES, async ({ version, batch }) => {
+    const { data, error } = await sb
+      .from('tasks')
+      .delete()
+      .eq('board_id', boardId)
+      .eq('version', version)
+      .in('id', batch)
+      .select('id');
+    if (error) throw error;
+    ((data || []) as { id: string }[]).forEach((row) => deleted.add(row.id));
+  });
+  return deletes.map((d) => d.id).filter((id) => !deleted.has(id));
+}
@@ -0,0 +1,205 @@
+/**
+ * Commands - Keyboard-driven actions for the command palette
+ * Components register the actions they can run (global or for the current
+ * selection); the palette finds them with a fuzzy match on title and keywords
+ * and runs them from their key bindings. A binding is a normalized chord such
+ * as "Ctrl+Shift+P", where Ctrl also stands for Cmd on macOS.
+ */
+
+import { foldText } from './boardSearch';
+
+export type CommandSection = 'board' | 'view' | 'row' | 'general';
+
+export interface CommandChoice {
+  id: string;
+  label: string;
+  hint?: string;
+}
+
+export interface CommandDefinition {
+  id: string;
+  title: string;
+  section: CommandSection;
+  keywords?: string[];
+  defaultBinding?: string | null;
+  // Disabled commands stay listed but cannot run, and their keys fall through to the browser
+  enabled?: boolean;
+  // Commands with choices open a second step in the palette, e.g. picking a parent
+  choices?: () => CommandChoice[];
+  run: (choiceId?: string) => void | Promise<void>;
+}
+
+// User overrides by command id; null removes the default binding
+export type KeyBindingOverrides = Record<string, string | null>;
+
+export const COMMAND_SECTION_LABELS: Record<CommandSection, string> = {
+  row: 'Fila seleccionada',
+  board: 'Tablero',
+  view: 'Vista',
+  general: 'General',
+};
+
+export const COMMAND_PALETTE_ID = 'palette.open';
+export const COMMAND_PALETTE_DEFAULT_BINDING = 'Ctrl+Shift+P';
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta', 'AltGraph', 'CapsLock']);
+
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'Space',
+  Esc: 'Escape',
+  Del: 'Delete',
+  Up: 'ArrowUp',
+  Down: 'ArrowDown',
+  Left: 'ArrowLeft',
+  Right: 'ArrowRight',
+};
+
+function keyName(e: Pick<KeyboardEvent, 'key' | 'code'>): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  // Letters and digits by physical key so Shift and keyboard layouts do not change the chord
+  const letter = /^Key([A-Z])$/.exec(e.code);
+  if (letter) return letter[1];
+  const digit = /^(?:Digit|Numpad)(\d)$/.exec(e.code);
+  if (digit) return digit[1];
+  if (e.code === 'NumpadAdd') return '+';
+  const key = KEY_ALIASES[e.key] || e.key;
+  return key.length === 1 ? key.toUpperCase() : key;
+}
+
+/** Chord for a key event, or null while only modifiers are held */
+export function bindingFromEvent(e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null {
+  const key = keyName(e);
+  if (!key) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+}
+
+/** Canonical form of a stored chord, or null when it is not one */
+export function normalizeBinding(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const parts = raw.split('+').map((p) => p.trim());
+  // "Ctrl++" splits into a trailing empty pair
+  if (raw.trim().endsWith('++')) parts.splice(parts.length - 2, 2, '+');
+  const key = parts.pop();
+  if (!key) return null;
+  const mods = new Set(parts.map((p) => {
+    const lower = p.toLowerCase();
+    return lower === 'cmd' || lower === 'meta' || lower === 'control' ? 'ctrl' : lower;
+  }));
+  if (Array.from(mods).some((m) => m !== 'ctrl' && m !== 'alt' && m !== 'shift')) return null;
+  const name = KEY_ALIASES[key] || key;
+  const chord = [
+    mods.has('ctrl') ? 'Ctrl' : null,
+    mods.has('alt') ? 'Alt' : null,
+    mods.has('shift') ? 'Shift' : null,
+    name.length === 1 ? name.toUpperCase() : name,
+  ].filter(Boolean);
+  return chord.join('+');
+}
+
+/** A chord without Ctrl or Alt would fire while typing, so only function keys may go bare */
+export function isAssignableBinding(binding: string): boolean {
+  const parts = binding.split('+');
+  const key = binding.endsWith('++') ? '+' : parts[parts.length - 1];
+  if (/^F\d{1,2}$/.test(key)) return true;
+  return binding.startsWith('Ctrl+') || binding.includes('Alt+');
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  Delete: 'Supr',
+  Enter: 'Enter',
+};
+
+/** Display parts of a chord, with the platform's modifier names */
+export function formatBinding(binding: string): string[] {
+  const parts = binding.endsWith('++') ? [...binding.slice(0, -2).split('+').filter(Boolean), '+'] : binding.split('+');
+  return parts.map((part) => {
+    if (part === 'Ctrl') return isMac ? '⌘' : 'Ctrl';
+    if (part === 'Alt') return isMac ? '⌥' : 'Alt';
+    if (part === 'Shift') return isMac ? '⇧' : 'Shift';
+    return KEY_LABELS[part] || part;
+  });
+}
+
+export function resolveBinding(command: Pick<CommandDefinition, 'id' | 'defaultBinding'>, overrides: KeyBindingOverrides): string | null {
+  if (Object.prototype.hasOwnProperty.call(overrides, command.id)) return overrides[command.id];
+  return command.defaultBinding ? normalizeBinding(command.defaultBinding) : null;
+}
+
+export function parseKeyBindingOverrides(raw: unknown): KeyBindingOverrides {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const overrides: KeyBindingOverrides = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([commandId, value]) => {
+    if (value === null) overrides[commandId] = null;
+    else {
+      const binding = normalizeBinding(value);
+      if (binding) overrides[commandId] = binding;
+    }
+  });
+  return overrides;
+}
+
+export interface FuzzyMatch {
+  score: number;
+  // Character offsets in the matched text, for highlighting
+  positions: number[];
+}
+
+/**
+ * Subsequence match of the query in the text, accent and case insensitive.
+ * Consecutive characters and word starts score higher, skipped characters lower.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = foldText(query).replace(/\s+/g, '');
+  if (!needle) return { score: 0, positions: [] };
+  const hay = foldText(text);
+  const positions: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of needle) {
+    const at = hay.indexOf(char, from);
+    if (at < 0) return null;
+    const prev = positions[positions.length - 1];
+    const wordStart = at === 0 || /[\s\-_/.(]/.test(hay[at - 1]);
+    if (prev !== undefined && at === prev + 1) score += 3;
+    if (wordStart) score += 4;
+    score += 1 - Math.min(at - from, 10) * 0.1;
+    positions.push(at);
+    from = at + 1;
+  }
+  // Shorter titles win ties, so "Duplicar fila" beats a long title with the same letters
+  return { score: score - hay.length * 0.01, positions };
+}
+
+export interface CommandSearchResult {
+  command: CommandDefinition;
+  score: number;
+  titlePositions: number[];
+}
+
+export function searchCommands(commands: CommandDefinition[], query: string): CommandSearchResult[] {
+  const results: CommandSearchResult[] = [];
+  commands.forEach((command) => {
+    const inTitle = fuzzyMatch(query, command.title);
+    const inKeywords = (command.keywords || [])
+      .map((k) => fuzzyMatch(query, k))
+      .filter((m): m is FuzzyMatch => !!m)
+      .sort((a, b) => b.score - a.score)[0];
+    if (!inTitle && !inKeywords) return;
+    const score = Math.max(inTitle?.score ?? -Infinity, (inKeywords?.score ?? -Infinity) - 1);
+    results.push({ command, score, titlePositions: inTitle?.positions || [] });
+  });
+  if (!query.trim()) return results;
+  return results.sort((a, b) => b.score - a.score);
+}
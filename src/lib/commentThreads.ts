@@ -0,0 +1,150 @@
+/**
+ * Comment Threads - Replies, @mentions, reactions and unread counts
+ * Threads are one level deep: a reply to a reply attaches to the same root.
+ * Mentions are matched against the board's person names, longest name first,
+ * so "@Ana María" wins over "@Ana" when both exist.
+ */
+
+import type {
+  TaskComment,
+  TaskCommentActivity,
+  TaskCommentReaction,
+  TaskCommentRead,
+} from './taskCommentsRepository';
+
+export const COMMENT_REACTION_EMOJIS = ['👍', '❤️', '🎉', '👀', '✅'] as const;
+
+export interface CommentThread {
+  root: TaskComment;
+  // Oldest first, in reading order
+  replies: TaskComment[];
+}
+
+export type CommentSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'mention'; person: string };
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  mine: boolean;
+}
+
+function byCreatedAt(a: TaskComment, b: TaskComment): number {
+  return a.created_at.localeCompare(b.created_at);
+}
+
+/** Roots newest first (as the panel lists them); replies whose root is gone become roots */
+export function buildCommentThreads(comments: TaskComment[]): CommentThread[] {
+  const byId = new Map(comments.map((c) => [c.id, c]));
+  const rootOf = (comment: TaskComment): TaskComment => {
+    let current = comment;
+    const seen = new Set<string>();
+    while (current.parent_id && byId.has(current.parent_id) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.parent_id)!;
+    }
+    return current;
+  };
+
+  const threads = new Map<string, CommentThread>();
+  comments.forEach((c) => {
+    const root = rootOf(c);
+    const thread = threads.get(root.id) || { root, replies: [] };
+    if (root.id !== c.id) thread.replies.push(c);
+    threads.set(root.id, thread);
+  });
+
+  return Array.from(threads.values())
+    .map((t) => ({ ...t, replies: t.replies.sort(byCreatedAt) }))
+    .sort((a, b) => byCreatedAt(b.root, a.root));
+}
+
+function isNameBoundary(char: string | undefined): boolean {
+  return !char || !/[\p{L}\p{N}_]/u.test(char);
+}
+
+/** Splits a body into text and mention segments */
+export function parseCommentMentions(body: string, persons: string[]): CommentSegment[] {
+  const names = [...new Set(persons.map((p) => p.trim()).filter(Boolean))]
+    .sort((a, b) => b.length - a.length);
+  const segments: CommentSegment[] = [];
+  let buffer = '';
+  let i = 0;
+  while (i < body.length) {
+    if (body[i] === '@' && isNameBoundary(body[i - 1])) {
+      const rest = body.slice(i + 1);
+      const match = names.find((name) =>
+        rest.slice(0, name.length).toLowerCase() === name.toLowerCase() && isNameBoundary(rest[name.length])
+      );
+      if (match) {
+        if (buffer) segments.push({ kind: 'text', text: buffer });
+        buffer = '';
+        segments.push({ kind: 'mention', person: match });
+        i += match.length + 1;
+        continue;
+      }
+    }
+    buffer += body[i];
+    i += 1;
+  }
+  if (buffer) segments.push({ kind: 'text', text: buffer });
+  return segments;
+}
+
+export function extractMentions(body: string, persons: string[]): string[] {
+  return [
+    ...new Set(
+      parseCommentMentions(body, persons)
+        .filter((s): s is Extract<CommentSegment, { kind: 'mention' }> => s.kind === 'mention')
+        .map((s) => s.person)
+    ),
+  ];
+}
+
+/**
+ * The partial "@name" being typed right before the caret, for autocomplete.
+ * Null when the caret is not inside a mention.
+ */
+export function findMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const before = text.slice(0, caret);
+  const at = before.lastIndexOf('@');
+  if (at < 0 || !isNameBoundary(before[at - 1])) return null;
+  const query = before.slice(at + 1);
+  // Names may hold spaces, but a mention in progress never spans lines or runs long
+  if (query.includes('\n') || query.length > 40) return null;
+  return { start: at, query };
+}
+
+export function summarizeReactions(reactions: TaskCommentReaction[] | undefined, userId: string | null): ReactionSummary[] {
+  const byEmoji = new Map<string, ReactionSummary>();
+  (reactions || []).forEach((r) => {
+    const summary = byEmoji.get(r.emoji) || { emoji: r.emoji, count: 0, mine: false };
+    summary.count += 1;
+    if (userId && r.user_id === userId) summary.mine = true;
+    byEmoji.set(r.emoji, summary);
+  });
+  const order = COMMENT_REACTION_EMOJIS as readonly string[];
+  return Array.from(byEmoji.values()).sort((a, b) => {
+    const ai = order.indexOf(a.emoji);
+    const bi = order.indexOf(b.emoji);
+    return (ai < 0 ? order.length : ai) - (bi < 0 ? order.length : bi);
+  });
+}
+
+/** Comments by other people newer than the user's last read, per task */
+export function countUnreadComments(
+  activity: TaskCommentActivity[],
+  reads: TaskCommentRead[],
+  userId: string
+): Map<string, number> {
+  const lastRead = new Map(reads.map((r) => [r.task_id, r.last_read_at]));
+  const unread = new Map<string, number>();
+  activity.forEach((a) => {
+    if (a.user_id === userId) return;
+    const readAt = lastRead.get(a.task_id);
+    if (readAt && new Date(a.created_at).getTime() <= new Date(readAt).getTime()) return;
+    unread.set(a.task_id, (unread.get(a.task_id) || 0) + 1);
+  });
+  return unread;
+}
@@ -1,4 +1,4 @@
-import type { NonWorkingDay, AppConfig, FilterState, AppState } from './types';
+import type { NonWorkingDay, AppConfig, FilterState, AppState, RollupRules, TaskType } from './types';
 
 export const MEXICO_HOLIDAYS: NonWorkingDay[] = [
   { date: new Date(2025, 0, 1), reason: 'Año Nuevo', recurring: true },
@@ -10,12 +10,31 @@ export const MEXICO_HOLIDAYS: NonWorkingDay[] = [
   { date: new Date(2025, 11, 25), reason: 'Navidad', recurring: true },
 ];
 
+export const DEFAULT_ROLLUP_RULES: RollupRules = {
+  scope: 'descendants',
+  dates: 'span',
+  assignees: 'union',
+  daysRequired: 'sum',
+  priority: 'weighted',
+  progress: 'days',
+  columns: {},
+};
+
+export const DEFAULT_TASK_TYPES: TaskType[] = [
+  { name: 'Proyecto', color: '#3B82F6', icon: 'folder', countsTowardLoad: true, isMilestone: false },
+  { name: 'Lanzamiento', color: '#F59E0B', icon: 'rocket', countsTowardLoad: true, isMilestone: false },
+  { name: 'En radar', color: '#94A3B8', icon: 'radar', countsTowardLoad: false, isMilestone: false },
+];
+
 export const DEFAULT_CONFIG: AppConfig = {
   hoursPerDay: 9,
   weekendDays: [0, 6],
   holidays: MEXICO_HOLIDAYS,
   loadMode: 'calculated',
   dateFormat: 'dd/MM/yy',
+  versionSnapshots: { onImport: true, beforeBulk: true, daily: true },
+  rollup: DEFAULT_ROLLUP_RULES,
+  taskTypes: DEFAULT_TASK_TYPES,
 };
 
 export const DEFAULT_FILTERS: FilterState = {
@@ -27,6 +46,8 @@ export const DEFAULT_FILTERS: FilterState = {
   customStars: [],
   dateRange: null,
   showOnlyActive: false,
+  showOnlyBehind: false,
+  query: null,
 };
 
 export const DEFAULT_STATE: AppState = {
@@ -56,6 +56,27 @@ export function countWorkingDays(start: Date, end: Date, config: AppConfig): num
   return getWorkingDays(start, end, config).length;
 }
 
+export function addWorkingDays(date: Date, amount: number, config: AppConfig): Date {
+  const step = amount < 0 ? -1 : 1;
+  let remaining = Math.abs(Math.trunc(amount));
+  let current = new Date(date);
+  if (config.weekendDays.length >= 7) return addDays(current, amount);
+  while (remaining > 0) {
+    current = addDays(current, step);
+    if (isWorkingDay(current, config)) remaining -= 1;
+  }
+  return current;
+}
+
+export function nextWorkingDay(date: Date, config: AppConfig): Date {
+  let current = new Date(date);
+  // Bounded so a config with no working days cannot spin forever
+  for (let i = 0; i < 370 && !isWorkingDay(current, config); i += 1) {
+    current = addDays(current, 1);
+  }
+  return current;
+}
+
 export function getDateRange(projects: { startDate: Date | null; endDate: Date | null }[]): { start: Date; end: Date } | null {
   const validDates: Date[] = [];
   projects.forEach((p) => {
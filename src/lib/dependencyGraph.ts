@@ -0,0 +1,478 @@
+/**
+ * Dependency Graph - Finish-to-start dependencies between projects
+ * Normalizes the free-text blocksTo / blockedBy fields to IDs, detects cycles and
+ * runs a critical-path pass (earliest/latest start, slack) over working days.
+ */
+
+import type { Project, AppConfig } from './types';
+import { addDays, getWorkingDays, nextWorkingDay, addWorkingDays, isSameDay } from './dateUtils';
+
+export interface DependencyEdge {
+  predecessorId: string;
+  successorId: string;
+}
+
+export interface DependencyGraph {
+  successors: Map<string, string[]>;
+  predecessors: Map<string, string[]>;
+  edges: DependencyEdge[];
+}
+
+export interface ScheduleNode {
+  projectId: string;
+  earliestStart: Date;
+  earliestFinish: Date;
+  latestStart: Date;
+  latestFinish: Date;
+  durationDays: number;
+  slackDays: number;
+  isCritical: boolean;
+  inCycle: boolean;
+}
+
+export interface DependencyViolation {
+  predecessorId: string;
+  successorId: string;
+  // Working days the successor starts before (or on) the predecessor's last day
+  overlapDays: number;
+}
+
+export interface DependencySchedule {
+  nodes: Map<string, ScheduleNode>;
+  criticalPath: string[];
+  cycles: string[][];
+  violations: DependencyViolation[];
+  violationsBySuccessor: Map<string, DependencyViolation[]>;
+}
+
+/**
+ * Parse a raw dependency field into project IDs.
+ * Accepts a JSON array or a `|` / `,` separated list of IDs or project names.
+ */
+export function parseDependencyField(raw: string | null | undefined, allProjects: Project[]): string[] {
+  const clean = (raw || '').trim();
+  if (!clean) return [];
+
+  const byId = new Map(allProjects.map((p) => [p.id, p]));
+  const byName = new Map(allProjects.map((p) => [(p.name || '').trim().toLowerCase(), p]));
+
+  const parseTokens = (tokens: string[]) => {
+    const out: string[] = [];
+    tokens.forEach((token) => {
+      const t = token.trim();
+      if (!t) return;
+      if (byId.has(t)) {
+        out.push(t);
+        return;
+      }
+      const hit = byName.get(t.toLowerCase());
+      if (hit) out.push(hit.id);
+    });
+    return Array.from(new Set(out));
+  };
+
+  if (clean.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(clean);
+      if (Array.isArray(parsed)) return parseTokens(parsed.map((x) => String(x)));
+    } catch {
+      // fall through to delimited parsing
+    }
+  }
+  return parseTokens(clean.split(/[|,]/g));
+}
+
+/**
+ * Successor IDs declared on a project (`blocksTo`)
+ */
+export function parseSuccessorIds(project: Project, allProjects: Project[]): string[] {
+  return parseDependencyField(project.blocksTo, allProjects).filter((id) => id !== project.id);
+}
+
+/**
+ * Predecessor IDs declared on a project (`blockedBy`)
+ */
+export function parsePredecessorIds(project: Project, allProjects: Project[]): string[] {
+  return parseDependencyField(project.blockedBy, allProjects).filter((id) => id !== project.id);
+}
+
+/**
+ * Encode a list of IDs in the canonical JSON-array format stored in blocksTo / blockedBy
+ */
+export function encodeDependencyIds(ids: string[]): string | null {
+  const clean = Array.from(new Set(ids.map((x) => x.trim()).filter(Boolean)));
+  return clean.length === 0 ? null : JSON.stringify(clean);
+}
+
+/**
+ * Build the dependency graph from both blocksTo and blockedBy.
+ * Each edge appears once even when declared on both ends.
+ */
+export function buildDependencyGraph(projects: Project[]): DependencyGraph {
+  const successors = new Map<string, string[]>();
+  const predecessors = new Map<string, string[]>();
+  const edges: DependencyEdge[] = [];
+  const seen = new Set<string>();
+
+  projects.forEach((p) => {
+    successors.set(p.id, []);
+    predecessors.set(p.id, []);
+  });
+
+  const addEdge = (predecessorId: string, successorId: string) => {
+    if (predecessorId === successorId) return;
+    const key = `${predecessorId}->${successorId}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    edges.push({ predecessorId, successorId });
+    successors.get(predecessorId)?.push(successorId);
+    predecessors.get(successorId)?.push(predecessorId);
+  };
+
+  projects.forEach((p) => {
+    parseSuccessorIds(p, projects).forEach((succId) => addEdge(p.id, succId));
+    parsePredecessorIds(p, projects).forEach((predId) => addEdge(predId, p.id));
+  });
+
+  return { successors, predecessors, edges };
+}
+
+/**
+ * Find dependency cycles (strongly connected components with more than one node)
+ */
+export function detectDependencyCycles(graph: DependencyGraph): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const strongConnect = (id: string) => {
+    indices.set(id, index);
+    lowLinks.set(id, index);
+    index += 1;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of graph.successors.get(id) || []) {
+      if (!indices.has(next)) {
+        strongConnect(next);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop();
+        if (member === undefined) break;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  };
+
+  graph.successors.forEach((_, id) => {
+    if (!indices.has(id)) strongConnect(id);
+  });
+
+  return cycles;
+}
+
+/**
+ * Check whether adding predecessor → successor would close a cycle
+ */
+export function wouldCreateDependencyCycle(
+  predecessorId: string,
+  successorId: string,
+  graph: DependencyGraph
+): boolean {
+  if (predecessorId === successorId) return true;
+  const visited = new Set<string>();
+  const queue = [successorId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === predecessorId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    queue.push(...(graph.successors.get(current) || []));
+  }
+  return false;
+}
+
+/**
+ * All transitive successors of a project, in breadth-first order
+ */
+export function getDownstreamIds(projectId: string, graph: DependencyGraph): string[] {
+  const visited = new Set<string>([projectId]);
+  const out: string[] = [];
+  const queue = [...(graph.successors.get(projectId) || [])];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    out.push(current);
+    queue.push(...(graph.successors.get(current) || []));
+  }
+  return out;
+}
+
+/**
+ * Working-day calendar anchored at an origin date; maps dates to integer indices
+ */
+class WorkingDayIndex {
+  private days: Date[];
+
+  constructor(origin: Date, horizon: Date, private config: AppConfig) {
+    this.days = getWorkingDays(origin, horizon, config);
+    if (this.days.length === 0) this.days = [nextWorkingDay(origin, config)];
+  }
+
+  /** Number of working days before `date` (a non-working date maps to the next working day) */
+  indexOf(date: Date): number {
+    let lo = 0;
+    let hi = this.days.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.days[mid] < date && !isSameDay(this.days[mid], date)) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  dateAt(index: number): Date {
+    if (index < 0) return addWorkingDays(this.days[0], index, this.config);
+    while (index >= this.days.length) {
+      this.days.push(addWorkingDays(this.days[this.days.length - 1], 1, this.config));
+    }
+    return this.days[index];
+  }
+}
+
+/**
+ * Critical-path pass over scheduled projects.
+ * Planned start dates act as "start no earlier than" constraints, durations are the
+ * project's working days and edges are finish-to-start. Nodes inside a cycle keep
+ * their planned dates and are excluded from slack propagation.
+ */
+export function computeDependencySchedule(projects: Project[], config: AppConfig): DependencySchedule {
+  const scheduled = projects.filter((p) => p.startDate && p.endDate && p.startDate <= p.endDate);
+  const byId = new Map(scheduled.map((p) => [p.id, p]));
+  const graph = buildDependencyGraph(scheduled);
+  const cycles = detectDependencyCycles(graph);
+  const cyclic = new Set(cycles.flat());
+
+  const nodes = new Map<string, ScheduleNode>();
+  const violations: DependencyViolation[] = [];
+  const violationsBySuccessor = new Map<string, DependencyViolation[]>();
+  if (scheduled.length === 0) {
+    return { nodes, criticalPath: [], cycles, violations, violationsBySuccessor };
+  }
+
+  const origin = new Date(Math.min(...scheduled.map((p) => p.startDate!.getTime())));
+  const latestEnd = new Date(Math.max(...scheduled.map((p) => p.endDate!.getTime())));
+  const calendar = new WorkingDayIndex(origin, addDays(latestEnd, 31), config);
+
+  const plannedStart = new Map<string, number>();
+  const duration = new Map<string, number>();
+  scheduled.forEach((p) => {
+    const s = calendar.indexOf(p.startDate!);
+    const e = calendar.indexOf(addDays(p.endDate!, 1));
+    plannedStart.set(p.id, s);
+    duration.set(p.id, Math.max(0, e - s));
+  });
+
+  // Topological order (Kahn) ignoring edges that touch a cycle
+  const activeEdge = (e: DependencyEdge) => !cyclic.has(e.predecessorId) && !cyclic.has(e.successorId);
+  const inDegree = new Map<string, number>(scheduled.map((p) => [p.id, 0]));
+  graph.edges.filter(activeEdge).forEach((e) => {
+    inDegree.set(e.successorId, (inDegree.get(e.successorId) || 0) + 1);
+  });
+  const queue = scheduled.filter((p) => (inDegree.get(p.id) || 0) === 0).map((p) => p.id);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    if (cyclic.has(id)) continue;
+    (graph.successors.get(id) || []).forEach((succ) => {
+      if (cyclic.has(succ)) return;
+      const next = (inDegree.get(succ) || 0) - 1;
+      inDegree.set(succ, next);
+      if (next === 0) queue.push(succ);
+    });
+  }
+
+  // Forward pass
+  const es = new Map<string, number>();
+  const ef = new Map<string, number>();
+  order.forEach((id) => {
+    let start = plannedStart.get(id)!;
+    if (!cyclic.has(id)) {
+      (graph.predecessors.get(id) || []).forEach((pred) => {
+        if (cyclic.has(pred)) return;
+        start = Math.max(start, ef.get(pred) ?? 0);
+      });
+    }
+    es.set(id, start);
+    ef.set(id, start + duration.get(id)!);
+  });
+
+  // Backward pass
+  const projectFinish = Math.max(...Array.from(ef.values()));
+  const ls = new Map<string, number>();
+  const lf = new Map<string, number>();
+  [...order].reverse().forEach((id) => {
+    let finish = projectFinish;
+    if (!cyclic.has(id)) {
+      (graph.successors.get(id) || []).forEach((succ) => {
+        if (cyclic.has(succ)) return;
+        finish = Math.min(finish, ls.get(succ) ?? projectFinish);
+      });
+    }
+    lf.set(id, finish);
+    ls.set(id, finish - duration.get(id)!);
+  });
+
+  const toFinishDate = (exclusiveIndex: number, dur: number, startIndex: number) =>
+    calendar.dateAt(dur > 0 ? exclusiveIndex - 1 : startIndex);
+
+  // Only projects that take part in a dependency chain can be flagged as critical;
+  // otherwise any standalone project ending last would be highlighted.
+  const isLinked = (id: string) =>
+    (graph.predecessors.get(id)?.length || 0) > 0 || (graph.successors.get(id)?.length || 0) > 0;
+
+  order.forEach((id) => {
+    const dur = duration.get(id)!;
+    const slack = cyclic.has(id) ? 0 : ls.get(id)! - es.get(id)!;
+    nodes.set(id, {
+      projectId: id,
+      earliestStart: calendar.dateAt(es.get(id)!),
+      earliestFinish: toFinishDate(ef.get(id)!, dur, es.get(id)!),
+      latestStart: calendar.dateAt(ls.get(id)!),
+      latestFinish: toFinishDate(lf.get(id)!, dur, ls.get(id)!),
+      durationDays: dur,
+      slackDays: slack,
+      isCritical: !cyclic.has(id) && slack <= 0 && isLinked(id),
+      inCycle: cyclic.has(id),
+    });
+  });
+
+  // Successors that start on or before a predecessor's last day
+  graph.edges.forEach((edge) => {
+    const pred = byId.get(edge.predecessorId);
+    const succ = byId.get(edge.successorId);
+    if (!pred || !succ) return;
+    const predEnd = plannedStart.get(pred.id)! + duration.get(pred.id)!;
+    const succStart = plannedStart.get(succ.id)!;
+    if (succStart >= predEnd) return;
+    const violation = { predecessorId: pred.id, successorId: succ.id, overlapDays: predEnd - succStart };
+    violations.push(violation);
+    const list = violationsBySuccessor.get(succ.id) || [];
+    list.push(violation);
+    violationsBySuccessor.set(succ.id, list);
+  });
+
+  const criticalPath = order
+    .filter((id) => nodes.get(id)?.isCritical)
+    .sort((a, b) => es.get(a)! - es.get(b)!);
+
+  return { nodes, criticalPath, cycles, violations, violationsBySuccessor };
+}
+
+export interface ScheduleShift {
+  projectId: string;
+  fromStart: Date;
+  fromEnd: Date;
+  toStart: Date;
+  toEnd: Date;
+  shiftDays: number;
+}
+
+export interface ScheduleCascade {
+  updates: Record<string, Partial<Project>>;
+  shifts: ScheduleShift[];
+}
+
+/**
+ * Push downstream projects so none starts before a predecessor ends.
+ * Applies the new dates for `projectId`, then walks its successors in topological
+ * order moving each one forward by working days while keeping its working-day
+ * duration. Successors that already start after their predecessors stay put.
+ */
+export function propagateScheduleShift(
+  projects: Project[],
+  projectId: string,
+  newStart: Date,
+  newEnd: Date,
+  config: AppConfig
+): ScheduleCascade {
+  const graph = buildDependencyGraph(projects);
+  const byId = new Map(projects.map((p) => [p.id, p]));
+  const dates = new Map<string, { start: Date; end: Date }>();
+  projects.forEach((p) => {
+    if (p.startDate && p.endDate) dates.set(p.id, { start: p.startDate, end: p.endDate });
+  });
+  dates.set(projectId, { start: newStart, end: newEnd });
+
+  const downstream = getDownstreamIds(projectId, graph);
+  const affected = new Set([projectId, ...downstream]);
+
+  // Order affected nodes so each one is visited after all its affected predecessors
+  const pending = new Map<string, number>();
+  affected.forEach((id) => {
+    const preds = (graph.predecessors.get(id) || []).filter((pred) => affected.has(pred));
+    pending.set(id, id === projectId ? 0 : preds.length);
+  });
+  const queue = [projectId];
+  const shifts: ScheduleShift[] = [];
+  const updates: Record<string, Partial<Project>> = {};
+  const visited = new Set<string>();
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+
+    if (id !== projectId) {
+      const project = byId.get(id);
+      const current = dates.get(id);
+      if (project && current) {
+        const latestPredEnd = (graph.predecessors.get(id) || [])
+          .map((pred) => dates.get(pred)?.end)
+          .filter((d): d is Date => !!d)
+          .reduce<Date | null>((max, d) => (!max || d > max ? d : max), null);
+        if (latestPredEnd && current.start <= latestPredEnd) {
+          const toStart = addWorkingDays(latestPredEnd, 1, config);
+          const durationDays = Math.max(0, getWorkingDays(current.start, current.end, config).length - 1);
+          const toEnd = addWorkingDays(toStart, durationDays, config);
+          toStart.setHours(12, 0, 0, 0);
+          toEnd.setHours(12, 0, 0, 0);
+          dates.set(id, { start: toStart, end: toEnd });
+          updates[id] = { startDate: toStart, endDate: toEnd };
+          shifts.push({
+            projectId: id,
+            fromStart: current.start,
+            fromEnd: current.end,
+            toStart,
+            toEnd,
+            shiftDays: getWorkingDays(addDays(current.start, 1), toStart, config).length,
+          });
+        }
+      }
+    }
+
+    (graph.successors.get(id) || []).forEach((succ) => {
+      if (!affected.has(succ)) return;
+      const left = (pending.get(succ) || 0) - 1;
+      pending.set(succ, left);
+      if (left <= 0) queue.push(succ);
+    });
+  }
+
+  return { updates, shifts };
+}
@@ -0,0 +1,195 @@
+/**
+ * Earned Value - Planned vs actual progress per project
+ * Planned progress is the share of a project's working days elapsed by a
+ * reference date; actual progress comes from the project or a progress column.
+ * Both are weighted by daysRequired, which gives planned value (PV), earned value
+ * (EV) and the schedule performance index (SPI = EV / PV). Groups roll up from
+ * their leaf projects through aggregateFromChildren.
+ */
+
+import { startOfDay } from 'date-fns';
+import type { AppConfig, DynamicCellValue, DynamicColumn, Project } from './types';
+import { countWorkingDays, isValidDateValue } from './dateUtils';
+import { aggregateFromChildren, getDescendants } from './hierarchyEngine';
+
+// SPI under this counts as behind schedule
+export const SPI_BEHIND_THRESHOLD = 0.9;
+// SPI over this counts as ahead of schedule
+export const SPI_AHEAD_THRESHOLD = 1.05;
+
+export type ProgressStatus = 'sin-datos' | 'sin-iniciar' | 'adelantado' | 'en-plan' | 'atrasado';
+
+export interface ProjectProgressMetrics {
+  // Expected completion (0-100) at the reference date
+  planned: number;
+  // Reported completion (0-100); null when nothing was reported
+  actual: number | null;
+  // Days of work that should be done / are done, out of daysRequired
+  plannedValue: number;
+  earnedValue: number;
+  // EV / PV; null until some work is planned and progress is reported
+  spi: number | null;
+  status: ProgressStatus;
+  behind: boolean;
+}
+
+export interface PortfolioProgress {
+  planned: number;
+  actual: number;
+  plannedValue: number;
+  earnedValue: number;
+  spi: number | null;
+  behindCount: number;
+  trackedCount: number;
+}
+
+export type ActualProgressResolver = (project: Project) => number | null;
+
+function clampPercent(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+function weightOf(project: Project): number {
+  return Number.isFinite(project.daysRequired) ? Math.max(0, project.daysRequired) : 0;
+}
+
+export function isProgressDynamicColumn(column: DynamicColumn): boolean {
+  return column.type === 'number' && column.config?.display === 'progress';
+}
+
+/**
+ * Actual progress from `project.progress`, falling back to the first progress
+ * column (ordered by position) that has a numeric value for the project.
+ */
+export function createActualProgressResolver(
+  columns: DynamicColumn[],
+  values: Map<string, Record<string, DynamicCellValue>>
+): ActualProgressResolver {
+  const progressColumnIds = columns
+    .filter(isProgressDynamicColumn)
+    .sort((a, b) => a.position - b.position)
+    .map((c) => c.id);
+  return (project) => {
+    if (typeof project.progress === 'number' && Number.isFinite(project.progress)) return clampPercent(project.progress);
+    const row = values.get(project.id);
+    if (!row) return null;
+    for (const id of progressColumnIds) {
+      const raw = row[id];
+      const num = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() ? Number(raw) : NaN;
+      if (Number.isFinite(num)) return clampPercent(num);
+    }
+    return null;
+  };
+}
+
+/** Share of the project's working days elapsed by `asOf` (inclusive), 0-100 */
+export function plannedProgress(project: Project, config: AppConfig, asOf: Date = new Date()): number {
+  const start = project.startDate && isValidDateValue(project.startDate) ? startOfDay(project.startDate) : null;
+  const end = project.endDate && isValidDateValue(project.endDate) ? startOfDay(project.endDate) : null;
+  if (!start || !end) return 0;
+  const today = startOfDay(asOf);
+  if (today < start) return 0;
+  if (today >= end) return 100;
+  const total = countWorkingDays(start, end, config);
+  if (total === 0) return 100;
+  return clampPercent((countWorkingDays(start, today, config) / total) * 100);
+}
+
+function classify(planned: number, actual: number | null, spi: number | null): ProgressStatus {
+  if (actual === null) return 'sin-datos';
+  if (planned === 0 && actual === 0) return 'sin-iniciar';
+  if (spi === null) return actual > 0 ? 'adelantado' : 'sin-iniciar';
+  if (spi < SPI_BEHIND_THRESHOLD) return 'atrasado';
+  if (spi > SPI_AHEAD_THRESHOLD) return 'adelantado';
+  return 'en-plan';
+}
+
+function buildMetrics(planned: number, actual: number | null, plannedValue: number, earnedValue: number): ProjectProgressMetrics {
+  const spi = actual !== null && plannedValue > 0 ? earnedValue / plannedValue : null;
+  const status = classify(planned, actual, spi);
+  return { planned, actual, plannedValue, earnedValue, spi, status, behind: status === 'atrasado' };
+}
+
+/**
+ * Metrics for every project. Leaves use their own dates and progress; groups
+ * combine only the leaves that report progress, so untracked work does not
+ * drag a group's SPI down.
+ */
+export function computeProgressMetrics(
+  projects: Project[],
+  config: AppConfig,
+  resolveActual: ActualProgressResolver,
+  asOf: Date = new Date()
+): Map<string, ProjectProgressMetrics> {
+  const parentIds = new Set(projects.map((p) => p.parentId).filter((id): id is string => !!id));
+  const leafMetrics = new Map<string, ProjectProgressMetrics>();
+  const result = new Map<string, ProjectProgressMetrics>();
+
+  projects.forEach((p) => {
+    if (parentIds.has(p.id)) return;
+    const planned = plannedProgress(p, config, asOf);
+    const actual = resolveActual(p);
+    const weight = weightOf(p);
+    const metrics = buildMetrics(planned, actual, (weight * planned) / 100, actual === null ? 0 : (weight * actual) / 100);
+    leafMetrics.set(p.id, metrics);
+    result.set(p.id, metrics);
+  });
+
+  projects.forEach((p) => {
+    if (!parentIds.has(p.id)) return;
+    const tracked = getDescendants(p.id, projects).filter((d) => {
+      const m = leafMetrics.get(d.id);
+      return !!m && m.actual !== null;
+    });
+    const aggregated = aggregateFromChildren(p.id, projects, config, resolveActual);
+    // Boards that keep progress on the group read it like a task's
+    const actual = config.rollup?.progress === 'own'
+      ? resolveActual(p)
+      : tracked.length > 0 && typeof aggregated.progress === 'number' ? aggregated.progress : null;
+    const plannedValue = tracked.reduce((sum, d) => sum + leafMetrics.get(d.id)!.plannedValue, 0);
+    const earnedValue = tracked.reduce((sum, d) => sum + leafMetrics.get(d.id)!.earnedValue, 0);
+    const trackedWeight = tracked.reduce((sum, d) => sum + weightOf(d), 0);
+    const planned = trackedWeight > 0
+      ? clampPercent((plannedValue / trackedWeight) * 100)
+      : plannedProgress({ ...p, ...aggregated }, config, asOf);
+    result.set(p.id, buildMetrics(planned, actual, plannedValue, earnedValue));
+  });
+
+  return result;
+}
+
+/** Board-wide indicators over leaf projects that report progress */
+export function summarizePortfolioProgress(
+  projects: Project[],
+  metrics: Map<string, ProjectProgressMetrics>
+): PortfolioProgress {
+  const parentIds = new Set(projects.map((p) => p.parentId).filter((id): id is string => !!id));
+  let plannedValue = 0;
+  let earnedValue = 0;
+  let weight = 0;
+  let behindCount = 0;
+  let trackedCount = 0;
+  projects.forEach((p) => {
+    if (parentIds.has(p.id)) return;
+    const m = metrics.get(p.id);
+    if (!m || m.actual === null) return;
+    trackedCount += 1;
+    if (m.behind) behindCount += 1;
+    plannedValue += m.plannedValue;
+    earnedValue += m.earnedValue;
+    weight += weightOf(p);
+  });
+  return {
+    planned: weight > 0 ? clampPercent((plannedValue / weight) * 100) : 0,
+    actual: weight > 0 ? clampPercent((earnedValue / weight) * 100) : 0,
+    plannedValue,
+    earnedValue,
+    spi: plannedValue > 0 ? earnedValue / plannedValue : null,
+    behindCount,
+    trackedCount,
+  };
+}
+
+export function formatSpi(spi: number | null): string {
+  return spi === null ? '—' : spi.toFixed(2);
+}
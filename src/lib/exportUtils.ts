@@ -1,16 +1,21 @@
 import * as XLSX from 'xlsx';
-import type { Project } from './types';
+import type { Project, TaskType } from './types';
 import { format } from 'date-fns';
 import { buildHierarchy } from './hierarchyEngine';
 import { branchLabel } from './branchUtils';
+import { parseSuccessorIds } from './dependencyGraph';
+import { formatVariance, type ScheduleVariance } from './baselines';
+import { DEFAULT_TASK_TYPES } from './constants';
+import { isMilestoneType } from './taskTypes';
 
 function formatDate(d: Date | null): string {
   if (!d) return '';
   return format(d, 'dd/MM/yyyy');
 }
 
-function isMilestoneProject(project: Project): boolean {
+function isMilestoneProject(project: Project, taskTypes: TaskType[]): boolean {
   if (!project.startDate || !project.endDate) return false;
+  if (isMilestoneType(project.type, taskTypes)) return true;
   const sameDay =
     project.startDate.getFullYear() === project.endDate.getFullYear() &&
     project.startDate.getMonth() === project.endDate.getMonth() &&
@@ -18,49 +23,22 @@ function isMilestoneProject(project: Project): boolean {
   return sameDay && Number(project.daysRequired || 0) <= 0;
 }
 
-function parseDependencyIdsForExport(project: Project, allProjects: Project[]): string[] {
-  const raw = (project.blocksTo || '').trim();
-  if (!raw) return [];
-
-  const byId = new Map(allProjects.map((p) => [p.id, p]));
-  const byName = new Map(allProjects.map((p) => [(p.name || '').trim().toLowerCase(), p]));
-
-  const parseTokens = (tokens: string[]) => {
-    const out: string[] = [];
-    tokens.forEach((token) => {
-      const clean = token.trim();
-      if (!clean) return;
-      if (byId.has(clean)) {
-        out.push(clean);
-        return;
-      }
-      const byNameHit = byName.get(clean.toLowerCase());
-      if (byNameHit) out.push(byNameHit.id);
-    });
-    return Array.from(new Set(out));
-  };
-
-  if (raw.startsWith('[')) {
-    try {
-      const parsed = JSON.parse(raw);
-      if (Array.isArray(parsed)) return parseTokens(parsed.map((x) => String(x)));
-    } catch {
-      // fallback to delimited parsing
-    }
-  }
-
-  return parseTokens(raw.split(/[|,]/g));
-}
-
 function dependencyNamesForExport(project: Project, allProjects: Project[]): string {
   const byId = new Map(allProjects.map((p) => [p.id, p]));
-  return parseDependencyIdsForExport(project, allProjects)
+  return parseSuccessorIds(project, allProjects)
     .map((id) => byId.get(id)?.name || '')
     .filter(Boolean)
     .join(' / ');
 }
 
-function projectToRow(p: Project, allProjects: Project[]) {
+function varianceToRow(variance: ScheduleVariance | undefined) {
+  return {
+    'Var. inicio (dias habiles)': variance ? formatVariance(variance.startVariance) : '',
+    'Var. fin (dias habiles)': variance ? formatVariance(variance.finishVariance) : '',
+  };
+}
+
+function projectToRow(p: Project, allProjects: Project[], taskTypes: TaskType[]) {
   return {
     'Proyecto': p.name,
     'Sucursal': branchLabel(p.branch),
@@ -73,7 +51,7 @@ function projectToRow(p: Project, allProjects: Project[]) {
     'Bloqueado por': p.blockedBy || '',
     'Bloquea a': p.blocksTo || '',
     'Depende de': dependencyNamesForExport(p, allProjects),
-    'Es hito': isMilestoneProject(p) ? 'Si' : '',
+    'Es hito': isMilestoneProject(p, taskTypes) ? 'Si' : '',
     'Dias asignados': p.assignedDays || '',
     'Balance': p.balanceDays || '',
     'Carga diaria %': p.dailyLoad ? `${Math.round(p.dailyLoad * 100)}%` : '',
@@ -81,12 +59,25 @@ function projectToRow(p: Project, allProjects: Project[]) {
   };
 }
 
-export function exportToExcel(projects: Project[], fileName?: string) {
+/**
+ * With `scheduleVariance` (active baseline), start/finish variance columns are appended.
+ * `taskTypes` are the board's types, which decide what counts as a milestone.
+ */
+export function exportToExcel(
+  projects: Project[],
+  fileName?: string,
+  scheduleVariance?: Map<string, ScheduleVariance>,
+  taskTypes: TaskType[] = DEFAULT_TASK_TYPES
+) {
   const roots = buildHierarchy(projects);
-  const rowsWithLevel: { row: ReturnType<typeof projectToRow>; level: number }[] = [];
+  const rowsWithLevel: { row: ReturnType<typeof projectToRow> & Partial<ReturnType<typeof varianceToRow>>; level: number }[] = [];
 
   const traverse = (node: any, level: number) => {
-    rowsWithLevel.push({ row: projectToRow(node, projects), level });
+    const row = projectToRow(node, projects, taskTypes);
+    rowsWithLevel.push({
+      row: scheduleVariance ? { ...row, ...varianceToRow(scheduleVariance.get(node.id)) } : row,
+      level,
+    });
     (node.children || []).forEach((c: any) => traverse(c, level + 1));
   };
 
@@ -112,6 +103,7 @@ export function exportToExcel(projects: Project[], fileName?: string) {
     { wch: 10 }, // Balance
     { wch: 14 }, // Carga diaria
     { wch: 14 }, // Horas totales
+    ...(scheduleVariance ? [{ wch: 14 }, { wch: 14 }] : []), // Var. inicio / Var. fin
   ];
 
   const wb = XLSX.utils.book_new();
@@ -143,7 +135,7 @@ export function exportToExcel(projects: Project[], fileName?: string) {
   XLSX.writeFile(wb, outputName);
 }
 
-export function copyAsCSV(projects: Project[]) {
+export function copyAsCSV(projects: Project[], taskTypes: TaskType[] = DEFAULT_TASK_TYPES) {
   const headers = [
     'Proyecto', 'Sucursal', 'Inicio', 'Fin', 'Asignado',
     'Dias requeridos', 'Prioridad', 'Tipo', 'Bloqueado por', 'Bloquea a',
@@ -162,7 +154,7 @@ export function copyAsCSV(projects: Project[]) {
     p.blockedBy || '',
     p.blocksTo || '',
     dependencyNamesForExport(p, projects),
-    isMilestoneProject(p) ? 'Si' : '',
+    isMilestoneProject(p, taskTypes) ? 'Si' : '',
     String(p.assignedDays || ''),
     String(p.balanceDays || ''),
     p.dailyLoad ? `${Math.round(p.dailyLoad * 100)}%` : '',
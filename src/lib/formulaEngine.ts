@@ -0,0 +1,616 @@
+/**
+ * Formula Engine - Derived values for formula columns
+ * A small spreadsheet-like language evaluated in the browser. It can only read
+ * the row's built-in fields, other dynamic columns ({Nombre de columna}) and the
+ * functions listed below; nothing is passed to eval. Group rows aggregate their
+ * children's results with the column's aggregate setting.
+ */
+
+import { format, parseISO, isValid, differenceInCalendarDays, addDays } from 'date-fns';
+import type { AppConfig, DynamicCellValue, DynamicColumn, Project } from './types';
+import { addWorkingDays, countWorkingDays, formatDateShort, isValidDateValue } from './dateUtils';
+
+export type FormulaValue = number | string | boolean | Date | null;
+
+export type FormulaAggregate = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'self' | 'none';
+
+export interface FormulaColumnConfig {
+  formula?: string;
+  aggregate?: FormulaAggregate;
+}
+
+export interface FormulaResult {
+  value: FormulaValue;
+  error: string | null;
+}
+
+export const FORMULA_AGGREGATE_LABELS: Record<FormulaAggregate, string> = {
+  sum: 'Suma de subtareas',
+  avg: 'Promedio de subtareas',
+  min: 'Minimo de subtareas',
+  max: 'Maximo de subtareas',
+  count: 'Subtareas con valor',
+  self: 'Calcular en el grupo',
+  none: 'Sin valor en grupos',
+};
+
+// Built-in fields a formula can read, by name
+export const FORMULA_FIELDS: { key: string; label: string; read: (project: Project) => FormulaValue }[] = [
+  { key: 'name', label: 'Nombre', read: (p) => p.name },
+  { key: 'type', label: 'Tipo', read: (p) => p.type },
+  { key: 'startDate', label: 'Inicio', read: (p) => p.startDate },
+  { key: 'endDate', label: 'Fin', read: (p) => p.endDate },
+  { key: 'daysRequired', label: 'Dias requeridos', read: (p) => p.daysRequired },
+  { key: 'priority', label: 'Prioridad', read: (p) => p.priority },
+  { key: 'progress', label: 'Avance', read: (p) => p.progress ?? null },
+  { key: 'reportedLoad', label: 'Carga reportada', read: (p) => p.reportedLoad },
+  { key: 'assignedDays', label: 'Dias asignados', read: (p) => p.assignedDays },
+  { key: 'balanceDays', label: 'Balance', read: (p) => p.balanceDays },
+  { key: 'dailyLoad', label: 'Carga diaria', read: (p) => p.dailyLoad },
+  { key: 'totalHours', label: 'Horas totales', read: (p) => p.totalHours },
+  { key: 'assigneeCount', label: 'Asignados', read: (p) => p.assignees.length },
+];
+
+export const FORMULA_FUNCTIONS: { name: string; signature: string; description: string }[] = [
+  { name: 'IF', signature: 'IF(condicion, si, no)', description: 'Valor segun una condicion' },
+  { name: 'AND', signature: 'AND(a, b, ...)', description: 'Verdadero si todas lo son' },
+  { name: 'OR', signature: 'OR(a, b, ...)', description: 'Verdadero si alguna lo es' },
+  { name: 'NOT', signature: 'NOT(a)', description: 'Invierte una condicion' },
+  { name: 'ISBLANK', signature: 'ISBLANK(valor)', description: 'Verdadero si esta vacio' },
+  { name: 'TODAY', signature: 'TODAY()', description: 'Fecha de hoy' },
+  { name: 'DAYS', signature: 'DAYS(fin, inicio)', description: 'Dias naturales entre dos fechas' },
+  { name: 'WORKDAYS', signature: 'WORKDAYS(inicio, fin)', description: 'Dias laborables entre dos fechas' },
+  { name: 'ADDDAYS', signature: 'ADDDAYS(fecha, n)', description: 'Suma dias naturales' },
+  { name: 'ADDWORKDAYS', signature: 'ADDWORKDAYS(fecha, n)', description: 'Suma dias laborables' },
+  { name: 'YEAR', signature: 'YEAR(fecha)', description: 'Año de una fecha' },
+  { name: 'MONTH', signature: 'MONTH(fecha)', description: 'Mes de una fecha (1-12)' },
+  { name: 'DAY', signature: 'DAY(fecha)', description: 'Dia del mes' },
+  { name: 'SUM', signature: 'SUM(a, b, ...)', description: 'Suma' },
+  { name: 'AVG', signature: 'AVG(a, b, ...)', description: 'Promedio de los valores no vacios' },
+  { name: 'MIN', signature: 'MIN(a, b, ...)', description: 'Menor valor (numeros o fechas)' },
+  { name: 'MAX', signature: 'MAX(a, b, ...)', description: 'Mayor valor (numeros o fechas)' },
+  { name: 'COUNT', signature: 'COUNT(a, b, ...)', description: 'Cuantos valores no estan vacios' },
+  { name: 'ROUND', signature: 'ROUND(n, decimales)', description: 'Redondea' },
+  { name: 'ABS', signature: 'ABS(n)', description: 'Valor absoluto' },
+  { name: 'CONCAT', signature: 'CONCAT(a, b, ...)', description: 'Une textos' },
+  { name: 'LEN', signature: 'LEN(texto)', description: 'Largo de un texto' },
+  { name: 'UPPER', signature: 'UPPER(texto)', description: 'Texto en mayusculas' },
+  { name: 'LOWER', signature: 'LOWER(texto)', description: 'Texto en minusculas' },
+];
+
+// Spanish spreadsheet names accepted as aliases
+const FUNCTION_ALIASES: Record<string, string> = {
+  SI: 'IF',
+  Y: 'AND',
+  O: 'OR',
+  NO: 'NOT',
+  ESBLANCO: 'ISBLANK',
+  HOY: 'TODAY',
+  DIAS: 'DAYS',
+  DIASLAB: 'WORKDAYS',
+  SUMA: 'SUM',
+  PROMEDIO: 'AVG',
+  CONTAR: 'COUNT',
+  REDONDEAR: 'ROUND',
+  CONCATENAR: 'CONCAT',
+  LARGO: 'LEN',
+  MAYUSC: 'UPPER',
+  MINUSC: 'LOWER',
+};
+
+const FUNCTION_NAMES = new Set(FORMULA_FUNCTIONS.map((fn) => fn.name));
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '&' | '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+type FormulaNode =
+  | { kind: 'literal'; value: FormulaValue }
+  | { kind: 'field'; key: string }
+  | { kind: 'column'; columnId: string }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; op: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'name'; value: string }
+  | { type: 'column'; value: string }
+  | { type: 'op'; value: string };
+
+export interface CompiledFormula {
+  node: FormulaNode;
+  // Dynamic columns the formula reads
+  columnIds: string[];
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+    if (/[0-9.]/.test(char)) {
+      const match = /^\d*\.?\d+|^\d+\.?/.exec(source.slice(i));
+      if (!match) throw new Error(`Numero no valido en la posicion ${i + 1}`);
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new Error('Falta cerrar un texto entre comillas');
+      tokens.push({ type: 'string', value: source.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+    if (char === '{') {
+      const end = source.indexOf('}', i + 1);
+      if (end === -1) throw new Error('Falta cerrar una referencia a columna con }');
+      tokens.push({ type: 'column', value: source.slice(i + 1, end).trim() });
+      i = end + 1;
+      continue;
+    }
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ type: 'name', value: name[0] });
+      i += name[0].length;
+      continue;
+    }
+    const op = /^(<>|!=|<=|>=|[-+*/&=<>(),;])/.exec(source.slice(i));
+    if (!op) throw new Error(`Caracter no valido: ${char}`);
+    tokens.push({ type: 'op', value: op[0] === '!=' ? '<>' : op[0] });
+    i += op[0].length;
+  }
+  return tokens;
+}
+
+function findColumn(reference: string, columns: DynamicColumn[]): DynamicColumn | undefined {
+  const wanted = reference.toLowerCase();
+  return columns.find((col) => col.name.trim().toLowerCase() === wanted)
+    || columns.find((col) => col.key.toLowerCase() === wanted);
+}
+
+/**
+ * Parses a formula into a tree. Throws an Error with a message for the user
+ * when the text is not a valid formula or names unknown fields and columns.
+ */
+export function compileFormula(source: string, columns: DynamicColumn[]): CompiledFormula {
+  const text = source.trim().replace(/^=/, '');
+  if (!text) throw new Error('La formula esta vacia');
+  const tokens = tokenize(text);
+  const columnIds = new Set<string>();
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.type === 'op' && peek()?.value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new Error(`Se esperaba "${value}"`);
+    pos += 1;
+  };
+
+  const parseBinary = (ops: BinaryOperator[], next: () => FormulaNode) => (): FormulaNode => {
+    let left = next();
+    while (peek()?.type === 'op' && ops.includes(peek()!.value as BinaryOperator)) {
+      const op = peek()!.value as BinaryOperator;
+      pos += 1;
+      left = { kind: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    if (!token) throw new Error('La formula termina de forma inesperada');
+    pos += 1;
+    if (token.type === 'number' || token.type === 'string') return { kind: 'literal', value: token.value };
+    if (token.type === 'column') {
+      const column = findColumn(token.value, columns);
+      if (!column) throw new Error(`No existe la columna {${token.value}}`);
+      columnIds.add(column.id);
+      return { kind: 'column', columnId: column.id };
+    }
+    if (token.type === 'op') {
+      if (token.value === '-') return { kind: 'negate', operand: parsePrimary() };
+      if (token.value === '+') return parsePrimary();
+      if (token.value === '(') {
+        const inner = parseComparison();
+        expect(')');
+        return inner;
+      }
+      throw new Error(`Simbolo inesperado: ${token.value}`);
+    }
+    const upper = token.value.toUpperCase();
+    if (isOp('(')) {
+      const name = FUNCTION_ALIASES[upper] || upper;
+      if (!FUNCTION_NAMES.has(name)) throw new Error(`Funcion desconocida: ${token.value}`);
+      pos += 1;
+      const args: FormulaNode[] = [];
+      if (!isOp(')')) {
+        args.push(parseComparison());
+        while (isOp(',') || isOp(';')) {
+          pos += 1;
+          args.push(parseComparison());
+        }
+      }
+      expect(')');
+      return { kind: 'call', name, args };
+    }
+    if (upper === 'TRUE' || upper === 'VERDADERO') return { kind: 'literal', value: true };
+    if (upper === 'FALSE' || upper === 'FALSO') return { kind: 'literal', value: false };
+    const field = FORMULA_FIELDS.find((f) => f.key.toLowerCase() === token.value.toLowerCase());
+    if (field) return { kind: 'field', key: field.key };
+    throw new Error(`Campo desconocido: ${token.value}. Usa {Nombre} para columnas personalizadas.`);
+  };
+
+  const parseProduct = parseBinary(['*', '/'], parsePrimary);
+  const parseSum = parseBinary(['+', '-'], parseProduct);
+  const parseConcat = parseBinary(['&'], parseSum);
+  const parseComparison = parseBinary(['=', '<>', '<', '<=', '>', '>='], parseConcat);
+
+  const node = parseComparison();
+  if (pos < tokens.length) throw new Error('Sobra texto al final de la formula');
+  return { node, columnIds: [...columnIds] };
+}
+
+export function formulaConfigOf(column: DynamicColumn): FormulaColumnConfig {
+  const config = column.config || {};
+  return {
+    formula: typeof config.formula === 'string' ? config.formula : '',
+    aggregate: (config.aggregate as FormulaAggregate) || 'sum',
+  };
+}
+
+/**
+ * Error message for a formula about to be saved on `columnId` (null for a new
+ * column), or null when it compiles and does not reference itself in a cycle.
+ */
+export function validateFormula(source: string, columns: DynamicColumn[], columnId: string | null): string | null {
+  let compiled: CompiledFormula;
+  try {
+    compiled = compileFormula(source, columns);
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Formula no valida';
+  }
+  if (!columnId) return null;
+  const formulas = compileAll(columns.map((col) => (
+    col.id === columnId ? { ...col, type: 'formula' as const, config: { ...col.config, formula: source } } : col
+  )));
+  if (compiled.columnIds.includes(columnId) || findCycles(formulas).has(columnId)) {
+    return 'La formula se referencia a si misma';
+  }
+  return null;
+}
+
+function compileAll(columns: DynamicColumn[]): Map<string, CompiledFormula | Error> {
+  const compiled = new Map<string, CompiledFormula | Error>();
+  columns.filter((col) => col.type === 'formula').forEach((col) => {
+    try {
+      compiled.set(col.id, compileFormula(formulaConfigOf(col).formula || '', columns));
+    } catch (err) {
+      compiled.set(col.id, err instanceof Error ? err : new Error('Formula no valida'));
+    }
+  });
+  return compiled;
+}
+
+// Formula columns that reach themselves through other formula columns
+function findCycles(formulas: Map<string, CompiledFormula | Error>): Set<string> {
+  const cyclic = new Set<string>();
+  formulas.forEach((_, start) => {
+    const stack = [start];
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      const compiled = formulas.get(current);
+      if (!compiled || compiled instanceof Error) continue;
+      for (const dep of compiled.columnIds) {
+        if (dep === start) {
+          cyclic.add(start);
+          return;
+        }
+        if (!seen.has(dep)) {
+          seen.add(dep);
+          stack.push(dep);
+        }
+      }
+    }
+  });
+  return cyclic;
+}
+
+function isBlank(value: FormulaValue): boolean {
+  return value === null || value === '';
+}
+
+function toNumber(value: FormulaValue): number {
+  if (value === null || value === '') return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) throw new Error('Se esperaba un numero y llego una fecha');
+  const parsed = Number(value.replace(',', '.'));
+  if (!Number.isFinite(parsed)) throw new Error(`"${value}" no es un numero`);
+  return parsed;
+}
+
+function toDate(value: FormulaValue): Date | null {
+  if (value === null || value === '') return null;
+  if (value instanceof Date) return value;
+  if (typeof value === 'string') {
+    const parsed = parseISO(value);
+    if (isValid(parsed)) return parsed;
+  }
+  throw new Error('Se esperaba una fecha');
+}
+
+function toText(value: FormulaValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+}
+
+function toBoolean(value: FormulaValue): boolean {
+  if (typeof value === 'boolean') return value;
+  if (value === null || value === '') return false;
+  if (typeof value === 'number') return value !== 0;
+  return true;
+}
+
+function compareValues(a: FormulaValue, b: FormulaValue): number {
+  if (a instanceof Date || b instanceof Date) {
+    const left = toDate(a);
+    const right = toDate(b);
+    if (!left || !right) return left ? 1 : right ? -1 : 0;
+    return left.getTime() - right.getTime();
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b, 'es', { sensitivity: 'base' });
+  }
+  return toNumber(a) - toNumber(b);
+}
+
+function applyBinary(op: BinaryOperator, left: FormulaValue, right: FormulaValue): FormulaValue {
+  switch (op) {
+    case '&': return toText(left) + toText(right);
+    case '=': return compareValues(left, right) === 0;
+    case '<>': return compareValues(left, right) !== 0;
+    case '<': return compareValues(left, right) < 0;
+    case '<=': return compareValues(left, right) <= 0;
+    case '>': return compareValues(left, right) > 0;
+    case '>=': return compareValues(left, right) >= 0;
+    default: break;
+  }
+  // Date arithmetic works in calendar days: date + n, date - n, date - date
+  if (left instanceof Date || right instanceof Date) {
+    if (isBlank(left) || isBlank(right)) return null;
+    if (op === '-' && left instanceof Date && right instanceof Date) return differenceInCalendarDays(left, right);
+    if (op === '+' && left instanceof Date) return addDays(left, toNumber(right));
+    if (op === '+' && right instanceof Date) return addDays(right, toNumber(left));
+    if (op === '-' && left instanceof Date) return addDays(left, -toNumber(right));
+    throw new Error('Operacion no valida con fechas');
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  switch (op) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    default:
+      if (b === 0) throw new Error('Division por cero');
+      return a / b;
+  }
+}
+
+function extreme(values: FormulaValue[], pick: 'min' | 'max'): FormulaValue {
+  const present = values.filter((v) => !isBlank(v));
+  if (present.length === 0) return null;
+  return present.reduce((best, v) => {
+    const diff = compareValues(v, best);
+    return (pick === 'min' ? diff < 0 : diff > 0) ? v : best;
+  });
+}
+
+function callFunction(name: string, args: FormulaValue[], config: AppConfig): FormulaValue {
+  const arity = (min: number, max = min) => {
+    if (args.length < min || args.length > max) {
+      throw new Error(min === max ? `${name} recibe ${min} argumento(s)` : `${name} recibe de ${min} a ${max} argumentos`);
+    }
+  };
+  const numbers = () => args.filter((v) => !isBlank(v)).map(toNumber);
+  switch (name) {
+    case 'AND': return args.every(toBoolean);
+    case 'OR': return args.some(toBoolean);
+    case 'NOT': arity(1); return !toBoolean(args[0]);
+    case 'ISBLANK': arity(1); return isBlank(args[0]);
+    case 'TODAY': {
+      arity(0);
+      const now = new Date();
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    }
+    case 'DAYS': {
+      arity(2);
+      const end = toDate(args[0]);
+      const start = toDate(args[1]);
+      return end && start ? differenceInCalendarDays(end, start) : null;
+    }
+    case 'WORKDAYS': {
+      arity(2);
+      const start = toDate(args[0]);
+      const end = toDate(args[1]);
+      if (!start || !end) return null;
+      return start <= end ? countWorkingDays(start, end, config) : -countWorkingDays(end, start, config);
+    }
+    case 'ADDDAYS':
+    case 'ADDWORKDAYS': {
+      arity(2);
+      const date = toDate(args[0]);
+      if (!date) return null;
+      const amount = Math.trunc(toNumber(args[1]));
+      return name === 'ADDDAYS' ? addDays(date, amount) : addWorkingDays(date, amount, config);
+    }
+    case 'YEAR':
+    case 'MONTH':
+    case 'DAY': {
+      arity(1);
+      const date = toDate(args[0]);
+      if (!date) return null;
+      if (name === 'YEAR') return date.getFullYear();
+      return name === 'MONTH' ? date.getMonth() + 1 : date.getDate();
+    }
+    case 'SUM': return numbers().reduce((sum, n) => sum + n, 0);
+    case 'AVG': {
+      const list = numbers();
+      return list.length > 0 ? list.reduce((sum, n) => sum + n, 0) / list.length : null;
+    }
+    case 'MIN': return extreme(args, 'min');
+    case 'MAX': return extreme(args, 'max');
+    case 'COUNT': return args.filter((v) => !isBlank(v)).length;
+    case 'ROUND': {
+      arity(1, 2);
+      const factor = 10 ** Math.trunc(args.length > 1 ? toNumber(args[1]) : 0);
+      return Math.round(toNumber(args[0]) * factor) / factor;
+    }
+    case 'ABS': arity(1); return Math.abs(toNumber(args[0]));
+    case 'CONCAT': return args.map(toText).join('');
+    case 'LEN': arity(1); return toText(args[0]).length;
+    case 'UPPER': arity(1); return toText(args[0]).toUpperCase();
+    case 'LOWER': arity(1); return toText(args[0]).toLowerCase();
+    default: throw new Error(`Funcion desconocida: ${name}`);
+  }
+}
+
+function cellToFormulaValue(column: DynamicColumn | undefined, value: DynamicCellValue | undefined): FormulaValue {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.join(', ');
+  if (column?.type === 'date' && typeof value === 'string') {
+    const parsed = parseISO(value);
+    return isValid(parsed) ? parsed : null;
+  }
+  return value;
+}
+
+function aggregateValues(values: FormulaValue[], mode: FormulaAggregate): FormulaValue {
+  const present = values.filter((v) => !isBlank(v));
+  switch (mode) {
+    case 'count': return present.length;
+    case 'min': return extreme(present, 'min');
+    case 'max': return extreme(present, 'max');
+    case 'sum':
+    case 'avg': {
+      const numbers = present.filter((v): v is number => typeof v === 'number');
+      if (numbers.length === 0) return null;
+      const total = numbers.reduce((sum, n) => sum + n, 0);
+      return mode === 'sum' ? total : total / numbers.length;
+    }
+    default: return null;
+  }
+}
+
+/**
+ * Results of every formula column for every project, keyed by project id and
+ * column id. Leaf rows evaluate their formula; group rows aggregate their
+ * children bottom-up unless the column is set to compute on the group itself.
+ */
+export function evaluateFormulaColumns(
+  projects: Project[],
+  columns: DynamicColumn[],
+  values: Map<string, Record<string, DynamicCellValue>>,
+  config: AppConfig
+): Map<string, Record<string, FormulaResult>> {
+  const results = new Map<string, Record<string, FormulaResult>>();
+  const formulaColumns = columns.filter((col) => col.type === 'formula');
+  if (formulaColumns.length === 0) return results;
+
+  const compiled = compileAll(columns);
+  const cyclic = findCycles(compiled);
+  const columnById = new Map(columns.map((col) => [col.id, col]));
+  const childrenByParent = new Map<string, Project[]>();
+  projects.forEach((p) => {
+    if (!p.parentId) return;
+    const siblings = childrenByParent.get(p.parentId) || [];
+    siblings.push(p);
+    childrenByParent.set(p.parentId, siblings);
+  });
+
+  const resultFor = (project: Project, columnId: string): FormulaResult => {
+    const row = results.get(project.id) || {};
+    results.set(project.id, row);
+    if (row[columnId]) return row[columnId];
+    const column = columnById.get(columnId)!;
+    const formula = compiled.get(columnId)!;
+    const children = childrenByParent.get(project.id) || [];
+    const aggregate = formulaConfigOf(column).aggregate || 'sum';
+    let result: FormulaResult;
+    if (cyclic.has(columnId)) {
+      result = { value: null, error: 'Referencia circular' };
+    } else if (formula instanceof Error) {
+      result = { value: null, error: formula.message };
+    } else if (children.length > 0 && aggregate !== 'self') {
+      const childResults = children.map((child) => resultFor(child, columnId));
+      const failed = childResults.find((r) => r.error);
+      result = failed
+        ? { value: null, error: failed.error }
+        : { value: aggregateValues(childResults.map((r) => r.value), aggregate), error: null };
+    } else {
+      try {
+        result = { value: evaluateNode(formula.node, project), error: null };
+      } catch (err) {
+        result = { value: null, error: err instanceof Error ? err.message : 'Error en la formula' };
+      }
+    }
+    row[columnId] = result;
+    return result;
+  };
+
+  const evaluateNode = (node: FormulaNode, project: Project): FormulaValue => {
+    switch (node.kind) {
+      case 'literal': return node.value;
+      case 'field': return FORMULA_FIELDS.find((f) => f.key === node.key)!.read(project);
+      case 'column': {
+        const column = columnById.get(node.columnId);
+        if (column?.type === 'formula') {
+          const dep = resultFor(project, node.columnId);
+          if (dep.error) throw new Error(`{${column.name}}: ${dep.error}`);
+          return dep.value;
+        }
+        return cellToFormulaValue(column, values.get(project.id)?.[node.columnId]);
+      }
+      case 'negate': {
+        const value = evaluateNode(node.operand, project);
+        return isBlank(value) ? null : -toNumber(value);
+      }
+      case 'binary':
+        return applyBinary(node.op, evaluateNode(node.left, project), evaluateNode(node.right, project));
+      case 'call':
+        // IF only evaluates the branch it takes
+        if (node.name === 'IF') {
+          if (node.args.length < 2 || node.args.length > 3) throw new Error('IF recibe de 2 a 3 argumentos');
+          const condition = toBoolean(evaluateNode(node.args[0], project));
+          const branch = condition ? node.args[1] : node.args[2];
+          return branch ? evaluateNode(branch, project) : null;
+        }
+        return callFunction(node.name, node.args.map((arg) => evaluateNode(arg, project)), config);
+      default: return null;
+    }
+  };
+
+  projects.forEach((project) => {
+    formulaColumns.forEach((col) => resultFor(project, col.id));
+  });
+  return results;
+}
+
+/** Display text for a formula result: up to two decimals, dates in the board format */
+export function formatFormulaValue(value: FormulaValue): string {
+  if (value === null) return '';
+  if (isValidDateValue(value)) return formatDateShort(value);
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return '';
+    return String(Math.round(value * 100) / 100);
+  }
+  if (typeof value === 'boolean') return value ? 'Si' : 'No';
+  return String(value);
+}
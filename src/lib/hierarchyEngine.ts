@@ -4,6 +4,7 @@
  */
 
 import type { Project, AppConfig } from './types';
+import { DEFAULT_ROLLUP_RULES } from './constants';
 
 /**
  * Nested structure for tree operations
@@ -141,48 +142,85 @@ export function validateNoCircles(
 
 /**
  * Aggregate data from children to parent
- * Returns updated project with aggregated values
+ * Returns the fields the board's rollup rules summarize (config.rollup); fields
+ * set to 'own' are left out so the parent keeps its value. Progress reads leaf tasks;
+ * the other fields read every descendant unless the rules' scope is 'leaves'.
  */
 export function aggregateFromChildren(
   parentId: string,
   projects: Project[],
-  config: AppConfig
+  config: AppConfig,
+  progressOf: (project: Project) => number | null = (p) => (typeof p.progress === 'number' ? p.progress : null)
 ): Partial<Project> {
-  const children = getDescendants(parentId, projects);
-  if (children.length === 0) return {};
-
-  // Aggregate dates: earliest start, latest end
-  const allDates = children
-    .flatMap(p => {
-      const dates = [];
-      if (p.startDate) dates.push(p.startDate);
-      if (p.endDate) dates.push(p.endDate);
-      return dates;
-    });
-
+  const descendants = getDescendants(parentId, projects);
+  if (descendants.length === 0) return {};
+
+  const rules = config.rollup || DEFAULT_ROLLUP_RULES;
+  const parentIds = new Set(descendants.map(p => p.parentId));
+  const leaves = descendants.filter(p => !parentIds.has(p.id));
+  const summarized = rules.scope === 'leaves' ? leaves : descendants;
+  const finite = (value: number) => (Number.isFinite(value) ? value : 0);
   const aggregated: Partial<Project> = {};
 
-  if (allDates.length > 0) {
-    aggregated.startDate = new Date(Math.min(...allDates.map(d => d.getTime())));
-    aggregated.endDate = new Date(Math.max(...allDates.map(d => d.getTime())));
+  // Dates: earliest start, latest end
+  if (rules.dates === 'span') {
+    const times = summarized
+      .flatMap(p => [p.startDate, p.endDate])
+      .filter((d): d is Date => d instanceof Date)
+      .map(d => d.getTime());
+    if (times.length > 0) {
+      aggregated.startDate = new Date(Math.min(...times));
+      aggregated.endDate = new Date(Math.max(...times));
+    }
   }
 
-  // Aggregate assignees: unique set of all children
-  const allAssignees = new Set<string>();
-  children.forEach(p => {
-    const list = Array.isArray(p.assignees) ? p.assignees : [];
-    list.forEach(a => allAssignees.add(a));
-  });
-  aggregated.assignees = Array.from(allAssignees).sort();
+  // Assignees: unique set of all tasks
+  if (rules.assignees === 'union') {
+    const allAssignees = new Set<string>();
+    summarized.forEach(p => {
+      const list = Array.isArray(p.assignees) ? p.assignees : [];
+      list.forEach(a => allAssignees.add(a));
+    });
+    aggregated.assignees = Array.from(allAssignees).sort();
+  }
 
-  // Sum daysRequired
-  aggregated.daysRequired = children.reduce((sum, p) => sum + (Number.isFinite(p.daysRequired) ? p.daysRequired : 0), 0);
+  const days = summarized.map(p => finite(p.daysRequired));
+  const totalDays = days.reduce((sum, d) => sum + d, 0);
+  if (rules.daysRequired === 'sum') aggregated.daysRequired = totalDays;
+  if (rules.daysRequired === 'max') aggregated.daysRequired = Math.max(0, ...days);
+
+  // Priority: weighted by daysRequired, average, highest or lowest
+  if (rules.priority !== 'own') {
+    const priorities = summarized.map(p => finite(p.priority));
+    switch (rules.priority) {
+      case 'max': aggregated.priority = Math.max(...priorities); break;
+      case 'min': aggregated.priority = Math.min(...priorities); break;
+      case 'avg': aggregated.priority = Math.round(priorities.reduce((sum, x) => sum + x, 0) / priorities.length); break;
+      default:
+        aggregated.priority = Math.round(priorities.reduce((sum, x, i) => sum + x * days[i], 0) / (totalDays || 1));
+    }
+  }
 
-  // Average priority (weighted by daysRequired)
-  const totalDays = aggregated.daysRequired || 1;
-  aggregated.priority = Math.round(
-    children.reduce((sum, p) => sum + (Number.isFinite(p.priority) ? p.priority : 0) * (Number.isFinite(p.daysRequired) ? p.daysRequired : 0), 0) / totalDays
-  );
+  // Progress of tasks that report one, weighted as configured (plain average if all weigh 0)
+  if (rules.progress !== 'own') {
+    const weightOf = (p: Project): number => {
+      switch (rules.progress) {
+        case 'hours': return Math.max(0, finite(p.totalHours));
+        case 'duration': return Math.max(0, finite(p.assignedDays));
+        case 'avg': return 1;
+        default: return Math.max(0, finite(p.daysRequired));
+      }
+    };
+    const withProgress = leaves
+      .map(p => ({ progress: progressOf(p), weight: weightOf(p) }))
+      .filter((x): x is { progress: number; weight: number } => x.progress !== null && Number.isFinite(x.progress));
+    if (withProgress.length > 0) {
+      const weight = withProgress.reduce((sum, x) => sum + x.weight, 0);
+      aggregated.progress = weight > 0
+        ? withProgress.reduce((sum, x) => sum + x.progress * x.weight, 0) / weight
+        : withProgress.reduce((sum, x) => sum + x.progress, 0) / withProgress.length;
+    }
+  }
 
   return aggregated;
 }
@@ -249,6 +287,7 @@ export function calculateIndentLevels(projects: Project[]): Map<string, number>
  * Returns array of changes detected
  */
 export interface HierarchyChange {
+  projectId?: string;
   projectName: string;
   projectPath: string;
   oldParentId?: string | null;
@@ -276,11 +315,29 @@ export function detectHierarchyChanges(
     newMap.set(path, p);
   });
 
+  // Projects that kept their id (e.g. two versions of the same board) are matched by id,
+  // since moving them changes their path
+  const oldById = new Map(oldProjects.map(p => [p.id, p]));
+  for (const newProject of newProjects) {
+    const oldProject = oldById.get(newProject.id);
+    if (oldProject && (oldProject.parentId || null) !== (newProject.parentId || null)) {
+      changes.push({
+        projectId: newProject.id,
+        projectName: newProject.name,
+        projectPath: buildProjectPath(newProject.id, newProjects),
+        oldParentId: oldProject.parentId,
+        newParentId: newProject.parentId,
+      });
+    }
+  }
+
   // Check for hierarchy changes
   for (const [path, newProject] of newMap) {
+    if (oldById.has(newProject.id)) continue;
     const oldProject = oldMap.get(path);
     if (oldProject && oldProject.parentId !== newProject.parentId) {
       changes.push({
+        projectId: newProject.id,
         projectName: newProject.name,
         projectPath: path,
         oldParentId: oldProject.parentId,
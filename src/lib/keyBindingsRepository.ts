@@ -0,0 +1,49 @@
+import { supabase } from '@/lib/supabaseClient';
+import { parseKeyBindingOverrides, type KeyBindingOverrides } from '@/lib/commands';
+
+// ── Cloud (stored on the user's profile so bindings follow them across devices) ──
+
+export async function loadProfileKeyBindings(userId: string): Promise<KeyBindingOverrides> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('key_bindings')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return parseKeyBindingOverrides((data as { key_bindings?: unknown } | null)?.key_bindings);
+}
+
+export async function saveProfileKeyBindings(userId: string, overrides: KeyBindingOverrides): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { error } = await supabase
+    .from('profiles')
+    .update({ key_bindings: overrides, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+  if (error) throw error;
+}
+
+// ── Local (signed-out use, and the last bindings seen for offline starts) ──
+
+function keyBindingsKey(userId: string | null): string {
+  return `workload-dashboard-keybindings:${userId || 'local'}`;
+}
+
+export function loadLocalKeyBindings(userId: string | null): KeyBindingOverrides {
+  if (typeof window === 'undefined') return {};
+  try {
+    const raw = window.localStorage.getItem(keyBindingsKey(userId));
+    return raw ? parseKeyBindingOverrides(JSON.parse(raw)) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveLocalKeyBindings(userId: string | null, overrides: KeyBindingOverrides): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(keyBindingsKey(userId), JSON.stringify(overrides));
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Mutation Outbox - Ordered queue of cloud writes made while offline
+ * Mutations that fail for connectivity reasons are stored in IndexedDB and
+ * replayed in insertion order once the connection returns. Replay stops at the
+ * first failure so later mutations never overtake earlier ones.
+ */
+
+import type { DynamicCellValue } from './types';
+import type { CloudTaskRow } from './cloudBoardRepository';
+import type { BoardPatch } from './boardChangeTracking';
+import { upsertTaskColumnValue, deleteTaskColumnValue } from './dynamicColumnsRepository';
+import { addTaskComment, deleteTaskComment, setCommentReaction, updateTaskComment } from './taskCommentsRepository';
+import { addTimeEntry, deleteTimeEntry, type NewTimeEntry } from './timeEntriesRepository';
+import { appendActivity, type ActivityEntry } from './activityLogRepository';
+import { putOutboxRecord, listOutboxRecords, deleteOutboxRecords } from './offlineStore';
+
+export type OutboxMutation =
+  | { kind: 'tasks.patch'; patch: BoardPatch; bases: CloudTaskRow[] }
+  | { kind: 'columnValue.upsert'; taskId: string; columnId: string; value: DynamicCellValue; userId: string }
+  | { kind: 'columnValue.delete'; taskId: string; columnId: string }
+  | {
+      kind: 'comment.add';
+      taskId: string;
+      userId: string;
+      body: string;
+      authorLabel?: string;
+      authorAvatarUrl?: string | null;
+      parentId?: string | null;
+      mentions?: string[];
+    }
+  | { kind: 'comment.update'; commentId: string; body: string; mentions: string[] }
+  | { kind: 'comment.delete'; commentId: string }
+  | { kind: 'comment.react'; commentId: string; userId: string; emoji: string; active: boolean }
+  | { kind: 'timeEntry.add'; entry: NewTimeEntry }
+  | { kind: 'timeEntry.delete'; entryId: string }
+  | { kind: 'activity.append'; entries: ActivityEntry[] };
+
+export interface OutboxEntry {
+  seq?: number;
+  boardId: string;
+  mutation: OutboxMutation;
+  createdAt: string;
+  attempts: number;
+  lastError: string | null;
+}
+
+export type TasksPatchHandler = (boardId: string, mutation: Extract<OutboxMutation, { kind: 'tasks.patch' }>) => Promise<void>;
+
+const listeners = new Set<() => void>();
+let replaying = false;
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** True when an error means "could not reach the server" rather than "server said no" */
+export function isConnectivityError(err: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const message = err instanceof Error ? err.message : String((err as { message?: unknown })?.message ?? err);
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
+
+export async function listOutbox(boardId?: string | null): Promise<OutboxEntry[]> {
+  const entries = await listOutboxRecords<OutboxEntry>();
+  return entries
+    .filter((entry) => !boardId || entry.boardId === boardId)
+    .sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+/** Rejects with OfflineStoreError when the mutation could not be stored */
+export async function enqueueMutation(boardId: string, mutation: OutboxMutation): Promise<void> {
+  await putOutboxRecord<OutboxEntry>({
+    boardId,
+    mutation,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    lastError: null,
+  });
+  notify();
+}
+
+export async function discardOutbox(boardId: string): Promise<void> {
+  const entries = await listOutbox(boardId);
+  await deleteOutboxRecords(entries.map((entry) => entry.seq!).filter((seq) => typeof seq === 'number'));
+  notify();
+}
+
+async function executeMutation(boardId: string, mutation: OutboxMutation, onTasksPatch: TasksPatchHandler) {
+  switch (mutation.kind) {
+    case 'tasks.patch':
+      return onTasksPatch(boardId, mutation);
+    case 'columnValue.upsert':
+      return upsertTaskColumnValue({ boardId, ...mutation });
+    case 'columnValue.delete':
+      return deleteTaskColumnValue(mutation.taskId, mutation.columnId);
+    case 'comment.add':
+      return addTaskComment({ boardId, ...mutation });
+    case 'comment.update':
+      return updateTaskComment(mutation.commentId, mutation.body, mutation.mentions);
+    case 'comment.delete':
+      return deleteTaskComment(mutation.commentId);
+    case 'comment.react':
+      return setCommentReaction({ boardId, ...mutation });
+    case 'timeEntry.add':
+      return addTimeEntry(mutation.entry);
+    case 'timeEntry.delete':
+      return deleteTimeEntry(mutation.entryId);
+    case 'activity.append':
+      return appendActivity(mutation.entries);
+  }
+}
+
+/**
+ * Send a mutation now, or queue it when offline. Anything already queued for
+ * the board goes first, so a direct write is only attempted on an empty queue.
+ */
+export async function runOrQueue(
+  boardId: string,
+  mutation: OutboxMutation,
+  onTasksPatch: TasksPatchHandler = async () => undefined
+): Promise<'sent' | 'queued'> {
+  const pending = await listOutbox(boardId);
+  if (pending.length > 0 || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    await enqueueMutation(boardId, mutation);
+    return 'queued';
+  }
+  try {
+    await executeMutation(boardId, mutation, onTasksPatch);
+    return 'sent';
+  } catch (err) {
+    if (!isConnectivityError(err)) throw err;
+    await enqueueMutation(boardId, mutation);
+    return 'queued';
+  }
+}
+
+/** Replay queued mutations in order; returns how many were sent and whether the queue drained */
+export async function replayOutbox(
+  boardId: string,
+  onTasksPatch: TasksPatchHandler
+): Promise<{ sent: number; drained: boolean }> {
+  if (replaying) return { sent: 0, drained: false };
+  replaying = true;
+  let sent = 0;
+  try {
+    const entries = await listOutbox(boardId);
+    for (const entry of entries) {
+      try {
+        await executeMutation(boardId, entry.mutation, onTasksPatch);
+        await deleteOutboxRecords([entry.seq!]);
+        sent += 1;
+      } catch (err) {
+        try {
+          await putOutboxRecord<OutboxEntry>({
+            ...entry,
+            attempts: entry.attempts + 1,
+            lastError: err instanceof Error ? err.message : String(err),
+          });
+        } catch {
+          // the entry is still queued; only its attempt count and error are stale
+        }
+        return { sent, drained: false };
+      }
+    }
+    return { sent, drained: true };
+  } finally {
+    replaying = false;
+    notify();
+  }
+}
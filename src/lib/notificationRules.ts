@@ -0,0 +1,177 @@
+/**
+ * Notification Rules - Which board events notify which people
+ * Rules produce drafts addressed to board persons (names); routing turns them
+ * into per-user notifications using each member's preferences, where a member
+ * says which person they are. The actor is never notified of their own change.
+ */
+
+import { differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import type { AppAction, Project } from './types';
+import { isValidDateValue } from './dateUtils';
+import { parsePredecessorIds } from './dependencyGraph';
+import { projectFromAddPayload } from './boardChangeTracking';
+import type {
+  MemberNotificationPreferences,
+  NewNotification,
+  NotificationKind,
+  NotificationPreferences,
+} from './notificationsRepository';
+
+export interface NotificationDraft {
+  kind: NotificationKind;
+  person: string;
+  taskId: string | null;
+  title: string;
+  body: string | null;
+  dedupeKey: string;
+}
+
+function samePerson(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function taskLabel(project: Pick<Project, 'name'>): string {
+  return project.name?.trim() || 'Sin nombre';
+}
+
+function assignmentDrafts(project: Project, previous: string[], stamp: string): NotificationDraft[] {
+  return (Array.isArray(project.assignees) ? project.assignees : [])
+    .filter((person) => person.trim() && !previous.some((p) => samePerson(p, person)))
+    .map((person) => ({
+      kind: 'assignment' as const,
+      person,
+      taskId: project.id,
+      title: `Te asignaron a "${taskLabel(project)}"`,
+      body: null,
+      dedupeKey: `assignment:${project.id}:${person.toLowerCase()}:${stamp}`,
+    }));
+}
+
+function blockedDrafts(project: Project, allProjects: Project[], stamp: string): NotificationDraft[] {
+  const blockers = parsePredecessorIds(project, allProjects)
+    .map((id) => allProjects.find((p) => p.id === id))
+    .filter((p): p is Project => !!p);
+  const body = blockers.length > 0
+    ? `Depende de ${blockers.map((p) => `"${taskLabel(p)}"`).join(', ')}`
+    : project.blockedBy?.trim() || null;
+  return project.assignees
+    .filter((person) => person.trim())
+    .map((person) => ({
+      kind: 'blocked' as const,
+      person,
+      taskId: project.id,
+      title: `"${taskLabel(project)}" quedó bloqueado`,
+      body,
+      dedupeKey: `blocked:${project.id}:${person.toLowerCase()}:${stamp}`,
+    }));
+}
+
+function draftsForUpdate(before: Project | undefined, updates: Partial<Project>, allProjects: Project[], stamp: string): NotificationDraft[] {
+  if (!before) return [];
+  const after: Project = { ...before, ...updates };
+  const drafts: NotificationDraft[] = [];
+  if (updates.assignees) drafts.push(...assignmentDrafts(after, before.assignees, stamp));
+  if ('blockedBy' in updates && updates.blockedBy?.trim() && updates.blockedBy !== before.blockedBy) {
+    drafts.push(...blockedDrafts(after, allProjects, stamp));
+  }
+  return drafts;
+}
+
+/**
+ * Drafts for a local reducer action, judged against the projects before it ran.
+ * Remote changes are not passed here: whoever made them already notified.
+ */
+export function draftsFromAction(action: AppAction, before: Project[], now: Date = new Date()): NotificationDraft[] {
+  const stamp = String(now.getTime());
+  const byId = new Map(before.map((p) => [p.id, p]));
+  switch (action.type) {
+    case 'UPDATE_PROJECT':
+      return draftsForUpdate(byId.get(action.payload.id), action.payload.updates, before, stamp);
+    case 'BULK_UPDATE_PROJECTS':
+      return Object.entries(action.payload).flatMap(([id, updates]) => draftsForUpdate(byId.get(id), updates, before, stamp));
+    case 'PASTE_PROJECTS':
+      return [
+        ...action.payload.added.flatMap((project) => assignmentDrafts(project, [], stamp)),
+        ...Object.entries(action.payload.updates).flatMap(([id, updates]) => draftsForUpdate(byId.get(id), updates, before, stamp)),
+      ];
+    case 'ADD_PROJECT': {
+      const project = projectFromAddPayload(action.payload);
+      return project ? assignmentDrafts(project, [], stamp) : [];
+    }
+    default:
+      return [];
+  }
+}
+
+export function draftsFromMentions(task: Pick<Project, 'id' | 'name'>, mentions: string[], commentBody: string, commentKey: string): NotificationDraft[] {
+  const excerpt = commentBody.trim().replace(/\s+/g, ' ');
+  return mentions.map((person) => ({
+    kind: 'mention' as const,
+    person,
+    taskId: task.id,
+    title: `Te mencionaron en "${taskLabel(task)}"`,
+    body: excerpt.length > 140 ? `${excerpt.slice(0, 137)}...` : excerpt,
+    dedupeKey: `mention:${commentKey}:${person.toLowerCase()}`,
+  }));
+}
+
+/**
+ * Due-soon and overdue drafts for one person's unfinished tasks. Keyed by the
+ * end date, so moving the date produces a fresh reminder.
+ */
+export function dueDrafts(projects: Project[], preferences: NotificationPreferences, today: Date = new Date()): NotificationDraft[] {
+  const person = preferences.person;
+  if (!person) return [];
+  const parentIds = new Set(projects.map((p) => p.parentId).filter((id): id is string => !!id));
+  const day = startOfDay(today);
+  const drafts: NotificationDraft[] = [];
+  projects.forEach((p) => {
+    if (parentIds.has(p.id) || !p.assignees.some((a) => samePerson(a, person))) return;
+    if (!p.endDate || !isValidDateValue(p.endDate)) return;
+    if (typeof p.progress === 'number' && p.progress >= 100) return;
+    const daysLeft = differenceInCalendarDays(startOfDay(p.endDate), day);
+    if (daysLeft > preferences.dueDaysAhead) return;
+    const endKey = format(p.endDate, 'yyyy-MM-dd');
+    const overdue = daysLeft < 0;
+    drafts.push({
+      kind: 'due',
+      person,
+      taskId: p.id,
+      title: overdue
+        ? `"${taskLabel(p)}" está vencido`
+        : daysLeft === 0
+          ? `"${taskLabel(p)}" vence hoy`
+          : `"${taskLabel(p)}" vence en ${daysLeft} ${daysLeft === 1 ? 'día' : 'días'}`,
+      body: `Fecha de fin: ${format(p.endDate, 'dd/MM/yyyy')}`,
+      dedupeKey: `${overdue ? 'overdue' : 'due'}:${p.id}:${endKey}`,
+    });
+  });
+  return drafts;
+}
+
+/** Addresses drafts to the members who are that person and opted into that kind */
+export function routeDrafts(
+  drafts: NotificationDraft[],
+  members: MemberNotificationPreferences[],
+  boardId: string,
+  actor: { userId: string | null; label: string | null }
+): NewNotification[] {
+  const rows: NewNotification[] = [];
+  drafts.forEach((draft) => {
+    members.forEach((member) => {
+      if (member.userId === actor.userId || !member[draft.kind] || !samePerson(member.person, draft.person)) return;
+      rows.push({
+        id: crypto.randomUUID(),
+        board_id: boardId,
+        user_id: member.userId,
+        kind: draft.kind,
+        task_id: draft.taskId,
+        title: draft.title,
+        body: draft.body,
+        actor_label: actor.label,
+        dedupe_key: draft.dedupeKey,
+      });
+    });
+  });
+  return rows;
+}
@@ -0,0 +1,197 @@
+import { supabase } from '@/lib/supabaseClient';
+
+export type NotificationKind = 'assignment' | 'mention' | 'due' | 'blocked';
+
+export interface AppNotification {
+  id: string;
+  board_id: string;
+  // Recipient
+  user_id: string;
+  kind: NotificationKind;
+  task_id: string | null;
+  title: string;
+  body: string | null;
+  actor_label: string | null;
+  // One notification per key and recipient, so repeated checks do not pile up
+  dedupe_key: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+export type NewNotification = Omit<AppNotification, 'read_at' | 'created_at'>;
+
+/** What a user wants to hear about on a board, and which board person they are */
+export interface NotificationPreferences {
+  person: string | null;
+  assignment: boolean;
+  mention: boolean;
+  due: boolean;
+  blocked: boolean;
+  // Calendar days before the end date that count as "due soon"
+  dueDaysAhead: number;
+}
+
+export interface MemberNotificationPreferences extends NotificationPreferences {
+  userId: string;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  person: null,
+  assignment: true,
+  mention: true,
+  due: true,
+  blocked: true,
+  dueDaysAhead: 2,
+};
+
+const NOTIFICATION_COLUMNS = 'id,board_id,user_id,kind,task_id,title,body,actor_label,dedupe_key,read_at,created_at';
+const NOTIFICATION_LIMIT = 100;
+
+interface PreferencesRow {
+  user_id: string;
+  person: string | null;
+  assignment: boolean;
+  mention: boolean;
+  due: boolean;
+  blocked: boolean;
+  due_days_ahead: number;
+}
+
+function fromPreferencesRow(row: PreferencesRow): MemberNotificationPreferences {
+  return {
+    userId: row.user_id,
+    person: row.person || null,
+    assignment: row.assignment !== false,
+    mention: row.mention !== false,
+    due: row.due !== false,
+    blocked: row.blocked !== false,
+    dueDaysAhead: Number.isFinite(Number(row.due_days_ahead)) ? Number(row.due_days_ahead) : DEFAULT_NOTIFICATION_PREFERENCES.dueDaysAhead,
+  };
+}
+
+// ── Cloud ──
+
+export async function listNotifications(boardId: string, userId: string): Promise<AppNotification[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(NOTIFICATION_COLUMNS)
+    .eq('board_id', boardId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+  if (error) throw error;
+  return (data || []) as AppNotification[];
+}
+
+export async function insertNotifications(rows: NewNotification[]): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  if (rows.length === 0) return;
+  const { error } = await supabase
+    .from('notifications')
+    .upsert(rows, { onConflict: 'board_id,user_id,dedupe_key', ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function markNotificationsRead(ids: string[], readAt: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  if (ids.length === 0) return;
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: readAt })
+    .in('id', ids);
+  if (error) throw error;
+}
+
+/** Every member's preferences; senders need them to route notifications to people */
+export async function listNotificationPreferences(boardId: string): Promise<MemberNotificationPreferences[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('user_id,person,assignment,mention,due,blocked,due_days_ahead')
+    .eq('board_id', boardId);
+  if (error) throw error;
+  return ((data || []) as PreferencesRow[]).map(fromPreferencesRow);
+}
+
+export async function saveNotificationPreferences(
+  boardId: string,
+  userId: string,
+  preferences: NotificationPreferences
+): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { error } = await supabase.from('notification_preferences').upsert(
+    {
+      board_id: boardId,
+      user_id: userId,
+      person: preferences.person,
+      assignment: preferences.assignment,
+      mention: preferences.mention,
+      due: preferences.due,
+      blocked: preferences.blocked,
+      due_days_ahead: preferences.dueDaysAhead,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'board_id,user_id' }
+  );
+  if (error) throw error;
+}
+
+// ── Local (boards without cloud, and the last cloud state seen) ──
+
+function notificationsKey(boardId: string | null, userId: string | null): string {
+  return `workload-dashboard-notifications:${boardId || 'local'}:${userId || 'local'}`;
+}
+
+function preferencesKey(boardId: string | null, userId: string | null): string {
+  return `workload-dashboard-notification-prefs:${boardId || 'local'}:${userId || 'local'}`;
+}
+
+export function loadLocalNotifications(boardId: string | null, userId: string | null): AppNotification[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(notificationsKey(boardId, userId));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return (parsed as AppNotification[]).filter((n) => n && typeof n.id === 'string' && typeof n.dedupe_key === 'string');
+  } catch {
+    return [];
+  }
+}
+
+export function saveLocalNotifications(boardId: string | null, userId: string | null, notifications: AppNotification[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(
+      notificationsKey(boardId, userId),
+      JSON.stringify(notifications.slice(0, NOTIFICATION_LIMIT))
+    );
+  } catch {
+    // ignore
+  }
+}
+
+export function loadLocalNotificationPreferences(boardId: string | null, userId: string | null): NotificationPreferences {
+  if (typeof window === 'undefined') return DEFAULT_NOTIFICATION_PREFERENCES;
+  try {
+    const raw = window.localStorage.getItem(preferencesKey(boardId, userId));
+    if (!raw) return DEFAULT_NOTIFICATION_PREFERENCES;
+    return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...(JSON.parse(raw) as Partial<NotificationPreferences>) };
+  } catch {
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+}
+
+export function saveLocalNotificationPreferences(
+  boardId: string | null,
+  userId: string | null,
+  preferences: NotificationPreferences
+): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(preferencesKey(boardId, userId), JSON.stringify(preferences));
+  } catch {
+    // ignore
+  }
+}
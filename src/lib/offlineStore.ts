@@ -0,0 +1,196 @@
+/**
+ * Offline Store - Durable IndexedDB cache for boards, dynamic columns and comments
+ * Also holds the outbox of mutations waiting for connectivity. Cache helpers
+ * resolve to a safe default when IndexedDB is unavailable (private mode, SSR);
+ * outbox writes reject, since the caller must not treat the mutation as saved.
+ */
+
+import type { DynamicCellValue, DynamicColumn } from './types';
+import type { CloudTaskRow } from './cloudBoardRepository';
+import type { TaskComment } from './taskCommentsRepository';
+
+const DB_NAME = 'workload-dashboard-offline';
+const DB_VERSION = 1;
+const BOARDS_STORE = 'boards';
+const COLUMNS_STORE = 'columns';
+const COMMENTS_STORE = 'comments';
+const OUTBOX_STORE = 'outbox';
+
+export interface BoardCacheRecord {
+  boardId: string;
+  // Local state as rows, including edits that are still queued
+  rows: CloudTaskRow[];
+  // Rows the cloud was last known to hold
+  cloudRows: CloudTaskRow[];
+  savedAt: string;
+}
+
+export interface ColumnsCacheRecord {
+  boardId: string;
+  columns: DynamicColumn[];
+  values: [string, Record<string, DynamicCellValue>][];
+  savedAt: string;
+}
+
+export interface CommentsCacheRecord {
+  key: string;
+  boardId: string;
+  taskId: string;
+  comments: TaskComment[];
+  savedAt: string;
+}
+
+/** IndexedDB could not store a record (unavailable, quota, blocked upgrade) */
+export class OfflineStoreError extends Error {
+  constructor(cause: unknown) {
+    super(`No se pudo guardar en el almacenamiento local: ${cause instanceof Error ? cause.message : String(cause ?? 'no disponible')}`);
+    this.name = 'OfflineStoreError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  dbPromise = new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(BOARDS_STORE)) db.createObjectStore(BOARDS_STORE, { keyPath: 'boardId' });
+      if (!db.objectStoreNames.contains(COLUMNS_STORE)) db.createObjectStore(COLUMNS_STORE, { keyPath: 'boardId' });
+      if (!db.objectStoreNames.contains(COMMENTS_STORE)) db.createObjectStore(COMMENTS_STORE, { keyPath: 'key' });
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+        outbox.createIndex('boardId', 'boardId', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+    request.onblocked = () => resolve(null);
+  });
+  return dbPromise;
+}
+
+async function runInStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  if (!db) throw new OfflineStoreError(null);
+  try {
+    const tx = db.transaction(storeName, mode);
+    // Listen before running requests: the transaction may commit as soon as they settle
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    const result = await run(tx.objectStore(storeName));
+    await done;
+    return result;
+  } catch (err) {
+    throw new OfflineStoreError(err);
+  }
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>,
+  fallback: T
+): Promise<T> {
+  try {
+    return await runInStore(storeName, mode, run);
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveBoardCache(record: Omit<BoardCacheRecord, 'savedAt'>): Promise<void> {
+  return withStore(BOARDS_STORE, 'readwrite', async (store) => {
+    await requestToPromise(store.put({ ...record, savedAt: new Date().toISOString() }));
+  }, undefined);
+}
+
+export function loadBoardCache(boardId: string): Promise<BoardCacheRecord | null> {
+  return withStore(BOARDS_STORE, 'readonly', async (store) => {
+    const record = await requestToPromise(store.get(boardId));
+    return (record as BoardCacheRecord | undefined) || null;
+  }, null);
+}
+
+export function saveColumnsCache(
+  boardId: string,
+  columns: DynamicColumn[],
+  values: Map<string, Record<string, DynamicCellValue>>
+): Promise<void> {
+  return withStore(COLUMNS_STORE, 'readwrite', async (store) => {
+    const record: ColumnsCacheRecord = {
+      boardId,
+      columns,
+      values: Array.from(values.entries()),
+      savedAt: new Date().toISOString(),
+    };
+    await requestToPromise(store.put(record));
+  }, undefined);
+}
+
+export function loadColumnsCache(
+  boardId: string
+): Promise<{ columns: DynamicColumn[]; values: Map<string, Record<string, DynamicCellValue>> } | null> {
+  return withStore(COLUMNS_STORE, 'readonly', async (store) => {
+    const record = (await requestToPromise(store.get(boardId))) as ColumnsCacheRecord | undefined;
+    if (!record) return null;
+    return { columns: record.columns, values: new Map(record.values) };
+  }, null);
+}
+
+export function saveCommentsCache(boardId: string, taskId: string, comments: TaskComment[]): Promise<void> {
+  return withStore(COMMENTS_STORE, 'readwrite', async (store) => {
+    const record: CommentsCacheRecord = {
+      key: `${boardId}:${taskId}`,
+      boardId,
+      taskId,
+      comments,
+      savedAt: new Date().toISOString(),
+    };
+    await requestToPromise(store.put(record));
+  }, undefined);
+}
+
+export function loadCommentsCache(boardId: string, taskId: string): Promise<TaskComment[] | null> {
+  return withStore(COMMENTS_STORE, 'readonly', async (store) => {
+    const record = (await requestToPromise(store.get(`${boardId}:${taskId}`))) as CommentsCacheRecord | undefined;
+    return record ? record.comments : null;
+  }, null);
+}
+
+/** Raw outbox access; ordering and replay live in mutationOutbox. Rejects with OfflineStoreError */
+export function putOutboxRecord<T extends { seq?: number }>(record: T): Promise<number> {
+  return runInStore(OUTBOX_STORE, 'readwrite', async (store) => {
+    const key = await requestToPromise(store.put(record));
+    return Number(key);
+  });
+}
+
+export function listOutboxRecords<T>(): Promise<T[]> {
+  return withStore(OUTBOX_STORE, 'readonly', async (store) => {
+    const records = await requestToPromise(store.getAll());
+    return records as T[];
+  }, [] as T[]);
+}
+
+export function deleteOutboxRecords(seqs: number[]): Promise<void> {
+  return withStore(OUTBOX_STORE, 'readwrite', async (store) => {
+    await Promise.all(seqs.map((seq) => requestToPromise(store.delete(seq))));
+  }, undefined);
+}
@@ -2,6 +2,7 @@ import * as XLSX from 'xlsx';
 import type { Project, AppConfig } from './types';
 import { computeProjectFields } from './workloadEngine';
 import { normalizeBranchList } from './branchUtils';
+import { matchTaskType } from './taskTypes';
 export interface ImportDiagnostics {
   invalidDateCells: Array<{ rowIndex: number; field: 'startDate' | 'endDate'; rawValue: unknown }>;
 }
@@ -103,14 +104,6 @@ function parsePriority(value: unknown): number {
   return 1;
 }
 
-function parseType(value: unknown): 'Proyecto' | 'Lanzamiento' | 'En radar' {
-  if (!value) return 'Proyecto';
-  const str = normalizeHeader(String(value));
-  if (str.includes('lanzamiento') || str.includes('launch')) return 'Lanzamiento';
-  if (str.includes('radar') || str.includes('en radar')) return 'En radar';
-  return 'Proyecto';
-}
-
 function parsePercentage(value: unknown): number | null {
   if (!value) return null;
   if (typeof value === 'number') {
@@ -237,7 +230,7 @@ export function parseExcelFileWithDiagnostics(
       assignee: mapped.assignee ? String(mapped.assignee).trim() : null,
       daysRequired: Number(mapped.daysRequired) || 0,
       priority: parsePriority(mapped.priority),
-      type: parseType(mapped.type),
+      type: matchTaskType(mapped.type, config.taskTypes),
       blockedBy: mapped.blockedBy ? String(mapped.blockedBy).trim() : null,
       blocksTo: mapped.blocksTo ? String(mapped.blocksTo).trim() : null,
       reportedLoad: parsePercentage(mapped.reportedLoad),
@@ -260,7 +253,7 @@ export function createProjectsFromSample(sampleData: Array<Record<string, unknow
       assignee: (item.assignee as string) || null,
       daysRequired: Number(item.daysRequired) || 0,
       priority: Number(item.priority) || 1,
-      type: (item.type as 'Proyecto' | 'Lanzamiento' | 'En radar') || 'Proyecto',
+      type: matchTaskType(item.type, config.taskTypes),
       blockedBy: (item.blockedBy as string) || null,
       blocksTo: (item.blocksTo as string) || null,
       reportedLoad: null,
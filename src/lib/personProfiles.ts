@@ -1,12 +1,26 @@
+import type { PersonAvailability } from './types';
+
+export type StoredPersonAbsence = {
+  id: string;
+  start: string; // yyyy-MM-dd
+  end: string; // yyyy-MM-dd
+  reason: string;
+};
+
 export type PersonProfile = { 
   avatarUrl?: string;
   email?: string;
   displayName?: string;
+  // Fraction of a full working day (1 = 100%). Missing means full time.
+  capacity?: number;
+  absences?: StoredPersonAbsence[];
   updatedAt?: string;
   createdAt?: string;
 };
 export type PersonProfilesMap = Record<string, PersonProfile>;
 
+export const DEFAULT_PERSON_CAPACITY = 1;
+
 export function normalizePersonKey(raw: string): string {
   return raw
     .normalize('NFD')
@@ -47,3 +61,40 @@ export function savePersonProfiles(boardId: string | null, profiles: PersonProfi
   }
 }
 
+
+export function normalizeCapacity(raw: unknown): number {
+  const num = typeof raw === 'number' ? raw : Number(raw);
+  if (!Number.isFinite(num)) return DEFAULT_PERSON_CAPACITY;
+  return Math.max(0, Math.min(1, num));
+}
+
+function parseAbsenceDate(value: string): Date | null {
+  const ymd = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+  if (!ymd) return null;
+  const date = new Date(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3]), 0, 0, 0, 0);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Builds the availability map consumed by the workload engine, keyed by normalized person name.
+ * Only profiles that differ from the default (full time, no absences) are included.
+ */
+export function buildPersonAvailabilityMap(profiles: PersonProfilesMap): Map<string, PersonAvailability> {
+  const result = new Map<string, PersonAvailability>();
+  Object.entries(profiles || {}).forEach(([key, profile]) => {
+    if (!profile || typeof profile !== 'object') return;
+    const capacity = profile.capacity === undefined ? DEFAULT_PERSON_CAPACITY : normalizeCapacity(profile.capacity);
+    const absences = (Array.isArray(profile.absences) ? profile.absences : [])
+      .map((a) => {
+        const start = parseAbsenceDate(a?.start);
+        const end = parseAbsenceDate(a?.end);
+        if (!start || !end || start > end) return null;
+        end.setHours(23, 59, 59, 999);
+        return { id: String(a.id || ''), start, end, reason: String(a.reason || '') };
+      })
+      .filter((a): a is NonNullable<typeof a> => a !== null);
+    if (capacity === DEFAULT_PERSON_CAPACITY && absences.length === 0) return;
+    result.set(normalizePersonKey(key), { capacity, absences });
+  });
+  return result;
+}
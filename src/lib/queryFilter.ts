@@ -0,0 +1,439 @@
+/**
+ * Query Filter - Nested AND/OR conditions over any project field
+ * A query is a tree of groups whose leaves compare one field (stored, computed
+ * or a dynamic column) against a value. Values are plain JSON, with dates as
+ * yyyy-MM-dd, so queries travel inside saved views and view links.
+ * Conditions that are still being written (no value yet, deleted column) are
+ * skipped instead of hiding the whole board.
+ */
+
+import { format } from 'date-fns';
+import type { DynamicCellValue, DynamicColumn, Project } from './types';
+import { normalizeBranchList } from './branchUtils';
+import { isValidDateValue } from './dateUtils';
+
+export type QueryFieldKind = 'text' | 'number' | 'date' | 'checkbox' | 'tags' | 'select';
+
+export type QueryOperator =
+  | 'contains'
+  | 'not_contains'
+  | 'equals'
+  | 'not_equals'
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'before'
+  | 'after'
+  | 'on'
+  | 'is_true'
+  | 'is_false'
+  | 'any_of'
+  | 'all_of'
+  | 'none_of'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export type QueryValue = string | number | string[] | null;
+
+export interface QueryCondition {
+  id: string;
+  kind: 'condition';
+  // Project field key, or `col:<columnId>` for dynamic columns
+  field: string;
+  operator: QueryOperator;
+  value: QueryValue;
+  // Upper bound, only used by 'between'
+  valueTo: QueryValue;
+}
+
+export interface QueryGroup {
+  id: string;
+  kind: 'group';
+  combinator: 'and' | 'or';
+  children: QueryNode[];
+}
+
+export type QueryNode = QueryCondition | QueryGroup;
+
+export interface QueryField {
+  key: string;
+  label: string;
+  kind: QueryFieldKind;
+  section: 'project' | 'computed' | 'column';
+  options?: string[];
+}
+
+export const QUERY_MAX_DEPTH = 3;
+
+export const QUERY_OPERATORS: Record<QueryFieldKind, QueryOperator[]> = {
+  text: ['contains', 'not_contains', 'equals', 'not_equals', 'is_empty', 'is_not_empty'],
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'is_empty', 'is_not_empty'],
+  date: ['before', 'after', 'on', 'between', 'is_empty', 'is_not_empty'],
+  checkbox: ['is_true', 'is_false'],
+  tags: ['any_of', 'all_of', 'none_of', 'is_empty', 'is_not_empty'],
+  select: ['any_of', 'none_of', 'is_empty', 'is_not_empty'],
+};
+
+export const QUERY_OPERATOR_LABELS: Record<QueryOperator, string> = {
+  contains: 'contiene',
+  not_contains: 'no contiene',
+  equals: 'es igual a',
+  not_equals: 'es distinto de',
+  eq: '=',
+  neq: '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  between: 'entre',
+  before: 'antes de',
+  after: 'después de',
+  on: 'el día',
+  is_true: 'marcado',
+  is_false: 'sin marcar',
+  any_of: 'incluye alguno de',
+  all_of: 'incluye todos',
+  none_of: 'no incluye',
+  is_empty: 'está vacío',
+  is_not_empty: 'no está vacío',
+};
+
+const VALUELESS_OPERATORS = new Set<QueryOperator>(['is_true', 'is_false', 'is_empty', 'is_not_empty']);
+
+const PROJECT_FIELDS: QueryField[] = [
+  { key: 'name', label: 'Nombre', kind: 'text', section: 'project' },
+  { key: 'branch', label: 'Sucursal', kind: 'tags', section: 'project' },
+  { key: 'assignees', label: 'Asignados', kind: 'tags', section: 'project' },
+  // Options are the board's task types, filled in by the provider
+  { key: 'type', label: 'Tipo', kind: 'select', section: 'project' },
+  { key: 'startDate', label: 'Inicio', kind: 'date', section: 'project' },
+  { key: 'endDate', label: 'Fin', kind: 'date', section: 'project' },
+  { key: 'daysRequired', label: 'Días requeridos', kind: 'number', section: 'project' },
+  { key: 'priority', label: 'Prioridad', kind: 'number', section: 'project' },
+  { key: 'progress', label: 'Progreso', kind: 'number', section: 'project' },
+  { key: 'reportedLoad', label: 'Carga reportada', kind: 'number', section: 'project' },
+  { key: 'blockedBy', label: 'Bloqueado por', kind: 'text', section: 'project' },
+  { key: 'blocksTo', label: 'Bloquea a', kind: 'text', section: 'project' },
+  { key: 'parentId', label: 'Proyecto padre', kind: 'text', section: 'project' },
+  { key: 'assignedDays', label: 'Días asignados', kind: 'number', section: 'computed' },
+  { key: 'balanceDays', label: 'Balance (días)', kind: 'number', section: 'computed' },
+  { key: 'dailyLoad', label: 'Carga diaria', kind: 'number', section: 'computed' },
+  { key: 'totalHours', label: 'Horas totales', kind: 'number', section: 'computed' },
+];
+
+const COLUMN_FIELD_PREFIX = 'col:';
+
+export function columnFieldKey(columnId: string): string {
+  return `${COLUMN_FIELD_PREFIX}${columnId}`;
+}
+
+export function columnIdFromField(fieldKey: string): string | null {
+  return fieldKey.startsWith(COLUMN_FIELD_PREFIX) ? fieldKey.slice(COLUMN_FIELD_PREFIX.length) : null;
+}
+
+/** Every field a condition can target, with the board's dynamic columns last */
+export function getQueryFields(columns: DynamicColumn[] = []): QueryField[] {
+  // Formula results are computed by the table and are not part of the stored values
+  const columnFields = columns.filter((col) => col.type !== 'formula').map((col): QueryField => ({
+    key: columnFieldKey(col.id),
+    label: col.name,
+    kind: col.type as QueryField['kind'],
+    section: 'column',
+    options: Array.isArray(col.config?.options) ? (col.config.options as string[]) : undefined,
+  }));
+  return [...PROJECT_FIELDS, ...columnFields];
+}
+
+function newNodeId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `q-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createQueryGroup(combinator: QueryGroup['combinator'] = 'and'): QueryGroup {
+  return { id: newNodeId(), kind: 'group', combinator, children: [] };
+}
+
+export function createQueryCondition(field: QueryField): QueryCondition {
+  return {
+    id: newNodeId(),
+    kind: 'condition',
+    field: field.key,
+    operator: QUERY_OPERATORS[field.kind][0],
+    value: null,
+    valueTo: null,
+  };
+}
+
+function isBlankValue(value: QueryValue): boolean {
+  if (value === null) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return typeof value === 'string' && value.trim() === '';
+}
+
+export function isConditionComplete(condition: QueryCondition): boolean {
+  if (VALUELESS_OPERATORS.has(condition.operator)) return true;
+  if (isBlankValue(condition.value)) return false;
+  return condition.operator !== 'between' || !isBlankValue(condition.valueTo);
+}
+
+/** Complete conditions in the tree; zero means the query filters nothing */
+export function countQueryConditions(node: QueryNode | null): number {
+  if (!node) return 0;
+  if (node.kind === 'condition') return isConditionComplete(node) ? 1 : 0;
+  return node.children.reduce((sum, child) => sum + countQueryConditions(child), 0);
+}
+
+// ── Evaluation ──
+
+export interface QueryContext {
+  fields: Map<string, QueryField>;
+  dynamicValues?: Map<string, Record<string, DynamicCellValue>>;
+  projectsById: Map<string, Project>;
+}
+
+export function createQueryContext(
+  projects: Project[],
+  columns: DynamicColumn[] = [],
+  dynamicValues?: Map<string, Record<string, DynamicCellValue>>
+): QueryContext {
+  return {
+    fields: new Map(getQueryFields(columns).map((f) => [f.key, f])),
+    dynamicValues,
+    projectsById: new Map(projects.map((p) => [p.id, p])),
+  };
+}
+
+function toList(raw: unknown): string[] {
+  if (Array.isArray(raw)) return raw.map((x) => String(x).trim()).filter(Boolean);
+  if (typeof raw === 'string') return raw.split(',').map((x) => x.trim()).filter(Boolean);
+  return [];
+}
+
+function toNumber(raw: unknown): number | null {
+  if (raw === null || raw === undefined || raw === '') return null;
+  const num = typeof raw === 'number' ? raw : Number(raw);
+  return Number.isFinite(num) ? num : null;
+}
+
+// Calendar day as yyyy-MM-dd, which compares correctly as a string
+function toDayKey(raw: unknown): string | null {
+  if (isValidDateValue(raw)) return format(raw, 'yyyy-MM-dd');
+  if (typeof raw !== 'string') return null;
+  const match = raw.match(/^(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : null;
+}
+
+function readFieldValue(project: Project, field: QueryField, ctx: QueryContext): unknown {
+  if (field.section === 'column') {
+    return ctx.dynamicValues?.get(project.id)?.[columnIdFromField(field.key) || ''] ?? null;
+  }
+  switch (field.key) {
+    case 'branch':
+      return normalizeBranchList(project.branch);
+    case 'parentId':
+      return project.parentId ? ctx.projectsById.get(project.parentId)?.name ?? null : null;
+    default:
+      return (project as unknown as Record<string, unknown>)[field.key] ?? null;
+  }
+}
+
+function isEmptyValue(raw: unknown, kind: QueryFieldKind): boolean {
+  switch (kind) {
+    case 'number':
+      return toNumber(raw) === null;
+    case 'date':
+      return toDayKey(raw) === null;
+    case 'tags':
+      return toList(raw).length === 0;
+    default:
+      return raw === null || raw === undefined || String(raw).trim() === '';
+  }
+}
+
+function compareText(raw: unknown, condition: QueryCondition): boolean {
+  const text = raw === null || raw === undefined ? '' : String(raw).trim().toLowerCase();
+  const needle = String(condition.value).trim().toLowerCase();
+  switch (condition.operator) {
+    case 'contains':
+      return text.includes(needle);
+    case 'not_contains':
+      return !text.includes(needle);
+    case 'equals':
+      return text === needle;
+    case 'not_equals':
+      return text !== needle;
+    default:
+      return true;
+  }
+}
+
+function compareNumber(raw: unknown, condition: QueryCondition): boolean {
+  const num = toNumber(raw);
+  const target = toNumber(condition.value);
+  if (target === null) return true;
+  if (num === null) return condition.operator === 'neq';
+  switch (condition.operator) {
+    case 'eq':
+      return num === target;
+    case 'neq':
+      return num !== target;
+    case 'gt':
+      return num > target;
+    case 'gte':
+      return num >= target;
+    case 'lt':
+      return num < target;
+    case 'lte':
+      return num <= target;
+    case 'between': {
+      const upper = toNumber(condition.valueTo);
+      if (upper === null) return true;
+      return num >= Math.min(target, upper) && num <= Math.max(target, upper);
+    }
+    default:
+      return true;
+  }
+}
+
+function compareDate(raw: unknown, condition: QueryCondition): boolean {
+  const day = toDayKey(raw);
+  const target = toDayKey(condition.value);
+  if (target === null) return true;
+  if (day === null) return false;
+  switch (condition.operator) {
+    case 'before':
+      return day < target;
+    case 'after':
+      return day > target;
+    case 'on':
+      return day === target;
+    case 'between': {
+      const upper = toDayKey(condition.valueTo);
+      if (upper === null) return true;
+      const [from, to] = target <= upper ? [target, upper] : [upper, target];
+      return day >= from && day <= to;
+    }
+    default:
+      return true;
+  }
+}
+
+function compareList(raw: unknown, condition: QueryCondition): boolean {
+  const values = new Set(toList(raw).map((x) => x.toLowerCase()));
+  const selected = toList(condition.value).map((x) => x.toLowerCase());
+  switch (condition.operator) {
+    case 'any_of':
+      return selected.some((x) => values.has(x));
+    case 'all_of':
+      return selected.every((x) => values.has(x));
+    case 'none_of':
+      return !selected.some((x) => values.has(x));
+    default:
+      return true;
+  }
+}
+
+function matchesCondition(project: Project, condition: QueryCondition, ctx: QueryContext): boolean | null {
+  const field = ctx.fields.get(condition.field);
+  if (!field || !isConditionComplete(condition)) return null;
+  const raw = readFieldValue(project, field, ctx);
+  if (condition.operator === 'is_empty') return isEmptyValue(raw, field.kind);
+  if (condition.operator === 'is_not_empty') return !isEmptyValue(raw, field.kind);
+  if (condition.operator === 'is_true') return raw === true || raw === 'true';
+  if (condition.operator === 'is_false') return !(raw === true || raw === 'true');
+  switch (field.kind) {
+    case 'number':
+      return compareNumber(raw, condition);
+    case 'date':
+      return compareDate(raw, condition);
+    case 'tags':
+    case 'select':
+      return compareList(raw, condition);
+    default:
+      return compareText(raw, condition);
+  }
+}
+
+// Null when nothing in the node applies, so it neither passes nor fails its parent
+function evaluateNode(project: Project, node: QueryNode, ctx: QueryContext): boolean | null {
+  if (node.kind === 'condition') return matchesCondition(project, node, ctx);
+  const results = node.children
+    .map((child) => evaluateNode(project, child, ctx))
+    .filter((r): r is boolean => r !== null);
+  if (results.length === 0) return null;
+  return node.combinator === 'and' ? results.every(Boolean) : results.some(Boolean);
+}
+
+export function matchesQuery(project: Project, query: QueryGroup, ctx: QueryContext): boolean {
+  return evaluateNode(project, query, ctx) !== false;
+}
+
+// ── Storage ──
+
+const ALL_OPERATORS = new Set<QueryOperator>(Object.keys(QUERY_OPERATOR_LABELS) as QueryOperator[]);
+
+function parseQueryValue(value: unknown): QueryValue {
+  if (Array.isArray(value)) return value.map((x) => String(x));
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') return value;
+  return null;
+}
+
+function parseQueryNode(value: unknown, depth: number): QueryNode | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const id = typeof raw.id === 'string' && raw.id ? raw.id : newNodeId();
+  if (raw.kind === 'condition') {
+    if (typeof raw.field !== 'string' || !ALL_OPERATORS.has(raw.operator as QueryOperator)) return null;
+    return {
+      id,
+      kind: 'condition',
+      field: raw.field,
+      operator: raw.operator as QueryOperator,
+      value: parseQueryValue(raw.value),
+      valueTo: parseQueryValue(raw.valueTo),
+    };
+  }
+  if (raw.kind !== 'group' || depth > QUERY_MAX_DEPTH) return null;
+  return {
+    id,
+    kind: 'group',
+    combinator: raw.combinator === 'or' ? 'or' : 'and',
+    children: Array.isArray(raw.children)
+      ? raw.children.map((child) => parseQueryNode(child, depth + 1)).filter((n): n is QueryNode => !!n)
+      : [],
+  };
+}
+
+/** Accepts a stored or linked query; anything unreadable becomes no query */
+export function parseQuery(value: unknown): QueryGroup | null {
+  const node = parseQueryNode(value, 1);
+  return node && node.kind === 'group' ? node : null;
+}
+
+// ── Editing ──
+
+/** Copy of the tree with one node replaced */
+export function updateQueryNode(root: QueryGroup, nodeId: string, update: (node: QueryNode) => QueryNode): QueryGroup {
+  const visit = (node: QueryNode): QueryNode => {
+    if (node.id === nodeId) return update(node);
+    if (node.kind === 'condition') return node;
+    return { ...node, children: node.children.map(visit) };
+  };
+  return visit(root) as QueryGroup;
+}
+
+export function removeQueryNode(root: QueryGroup, nodeId: string): QueryGroup {
+  const visit = (group: QueryGroup): QueryGroup => ({
+    ...group,
+    children: group.children
+      .filter((child) => child.id !== nodeId)
+      .map((child) => (child.kind === 'group' ? visit(child) : child)),
+  });
+  return visit(root);
+}
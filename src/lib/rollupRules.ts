@@ -0,0 +1,151 @@
+/**
+ * Rollup Rules - How group rows summarize their tasks
+ * Each board keeps one set of rules on AppConfig.rollup. Built-in fields are
+ * summarized by aggregateFromChildren (and so by computeProjectFields, filters and
+ * exports); dynamic number columns are summarized here for the table.
+ */
+
+import type { DynamicCellValue, DynamicColumn, Project, RollupRules } from './types';
+import { DEFAULT_ROLLUP_RULES } from './constants';
+
+export type ColumnRollup = RollupRules['columns'][string];
+
+type BuiltInRollupField = Exclude<keyof RollupRules, 'columns'>;
+
+export const ROLLUP_FIELD_OPTIONS: { [K in BuiltInRollupField]: { label: string; options: { value: RollupRules[K]; label: string }[] } } = {
+  scope: {
+    label: 'Filas incluidas',
+    options: [
+      { value: 'descendants', label: 'Tareas y subgrupos' },
+      { value: 'leaves', label: 'Solo tareas (sin subgrupos)' },
+    ],
+  },
+  dates: {
+    label: 'Fechas',
+    options: [
+      { value: 'span', label: 'Inicio mas temprano y fin mas tardio' },
+      { value: 'own', label: 'Propias del grupo' },
+    ],
+  },
+  assignees: {
+    label: 'Asignados',
+    options: [
+      { value: 'union', label: 'Todas las personas de las tareas' },
+      { value: 'own', label: 'Propios del grupo' },
+    ],
+  },
+  daysRequired: {
+    label: 'Dias requeridos',
+    options: [
+      { value: 'sum', label: 'Suma' },
+      { value: 'max', label: 'Maximo' },
+      { value: 'own', label: 'Propios del grupo' },
+    ],
+  },
+  priority: {
+    label: 'Prioridad',
+    options: [
+      { value: 'weighted', label: 'Promedio ponderado por dias' },
+      { value: 'avg', label: 'Promedio' },
+      { value: 'max', label: 'Maxima' },
+      { value: 'min', label: 'Minima' },
+      { value: 'own', label: 'Propia del grupo' },
+    ],
+  },
+  progress: {
+    label: 'Avance',
+    options: [
+      { value: 'days', label: 'Ponderado por dias requeridos' },
+      { value: 'hours', label: 'Ponderado por horas estimadas' },
+      { value: 'duration', label: 'Ponderado por dias laborables' },
+      { value: 'avg', label: 'Promedio simple' },
+      { value: 'own', label: 'Propio del grupo' },
+    ],
+  },
+};
+
+export const COLUMN_ROLLUP_LABELS: Record<ColumnRollup, string> = {
+  none: 'Sin resumen',
+  sum: 'Suma',
+  avg: 'Promedio',
+  min: 'Minimo',
+  max: 'Maximo',
+};
+
+function pick<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/** Rules from stored JSON; unknown or missing entries fall back to the defaults */
+export function parseRollupRules(raw: unknown): RollupRules {
+  const source = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const optionValues = <K extends BuiltInRollupField>(field: K) => ROLLUP_FIELD_OPTIONS[field].options.map((o) => o.value);
+  const columns: RollupRules['columns'] = {};
+  if (source.columns && typeof source.columns === 'object') {
+    Object.entries(source.columns as Record<string, unknown>).forEach(([columnId, mode]) => {
+      const parsed = pick(mode, Object.keys(COLUMN_ROLLUP_LABELS) as ColumnRollup[], 'none');
+      if (parsed !== 'none') columns[columnId] = parsed;
+    });
+  }
+  return {
+    scope: pick(source.scope, optionValues('scope'), DEFAULT_ROLLUP_RULES.scope),
+    dates: pick(source.dates, optionValues('dates'), DEFAULT_ROLLUP_RULES.dates),
+    assignees: pick(source.assignees, optionValues('assignees'), DEFAULT_ROLLUP_RULES.assignees),
+    daysRequired: pick(source.daysRequired, optionValues('daysRequired'), DEFAULT_ROLLUP_RULES.daysRequired),
+    priority: pick(source.priority, optionValues('priority'), DEFAULT_ROLLUP_RULES.priority),
+    progress: pick(source.progress, optionValues('progress'), DEFAULT_ROLLUP_RULES.progress),
+    columns,
+  };
+}
+
+/** Number columns that can be summarized on group rows (progress and stars included) */
+export function isRollupColumn(column: DynamicColumn): boolean {
+  return column.type === 'number';
+}
+
+/**
+ * Dynamic values with group rows replaced by the summary of their leaf tasks for
+ * every number column that has a rule. Returns `values` itself when nothing rolls up.
+ */
+export function rollupDynamicValues(
+  projects: Project[],
+  columns: DynamicColumn[],
+  values: Map<string, Record<string, DynamicCellValue>>,
+  rules: RollupRules
+): Map<string, Record<string, DynamicCellValue>> {
+  const rolled = columns.filter((col) => isRollupColumn(col) && (rules.columns[col.id] || 'none') !== 'none');
+  if (rolled.length === 0) return values;
+
+  const childrenByParent = new Map<string, Project[]>();
+  projects.forEach((p) => {
+    if (!p.parentId) return;
+    const siblings = childrenByParent.get(p.parentId) || [];
+    siblings.push(p);
+    childrenByParent.set(p.parentId, siblings);
+  });
+  const leavesOf = (id: string): Project[] => (childrenByParent.get(id) || [])
+    .flatMap((child) => (childrenByParent.has(child.id) ? leavesOf(child.id) : [child]));
+
+  const result = new Map(values);
+  childrenByParent.forEach((_, parentId) => {
+    const leaves = leavesOf(parentId);
+    const row = { ...(values.get(parentId) || {}) };
+    rolled.forEach((col) => {
+      const numbers = leaves
+        .map((leaf) => values.get(leaf.id)?.[col.id])
+        .filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+      if (numbers.length === 0) {
+        row[col.id] = null;
+        return;
+      }
+      switch (rules.columns[col.id]) {
+        case 'sum': row[col.id] = numbers.reduce((sum, n) => sum + n, 0); break;
+        case 'avg': row[col.id] = numbers.reduce((sum, n) => sum + n, 0) / numbers.length; break;
+        case 'min': row[col.id] = Math.min(...numbers); break;
+        default: row[col.id] = Math.max(...numbers);
+      }
+    });
+    result.set(parentId, row);
+  });
+  return result;
+}
@@ -0,0 +1,50 @@
+import { supabase } from '@/lib/supabaseClient';
+import { parseRollupRules } from '@/lib/rollupRules';
+import type { RollupRules } from '@/lib/types';
+
+// ── Cloud (stored on the board so every member sees the same summaries) ──
+
+export async function loadBoardRollupRules(boardId: string): Promise<RollupRules> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('boards')
+    .select('rollup_rules')
+    .eq('id', boardId)
+    .maybeSingle();
+  if (error) throw error;
+  return parseRollupRules((data as { rollup_rules?: unknown } | null)?.rollup_rules);
+}
+
+export async function saveBoardRollupRules(boardId: string, rules: RollupRules): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { error } = await supabase
+    .from('boards')
+    .update({ rollup_rules: rules, updated_at: new Date().toISOString() })
+    .eq('id', boardId);
+  if (error) throw error;
+}
+
+// ── Local (boards without cloud, and the last rules seen for offline starts) ──
+
+function rollupRulesKey(boardId: string | null): string {
+  return `workload-dashboard-rollup-rules:${boardId || 'local'}`;
+}
+
+export function loadLocalRollupRules(boardId: string | null): RollupRules {
+  if (typeof window === 'undefined') return parseRollupRules(null);
+  try {
+    const raw = window.localStorage.getItem(rollupRulesKey(boardId));
+    return parseRollupRules(raw ? JSON.parse(raw) : null);
+  } catch {
+    return parseRollupRules(null);
+  }
+}
+
+export function saveLocalRollupRules(boardId: string | null, rules: RollupRules): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(rollupRulesKey(boardId), JSON.stringify(rules));
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Row Conflicts - Three-way merge of task rows edited concurrently
+ * Compares the row we loaded (base), our pending row (mine) and the cloud row
+ * (theirs). Fields changed on one side only merge automatically; fields changed
+ * differently on both sides are reported so the user can pick a value.
+ */
+
+import type { CloudTaskRow } from './cloudBoardRepository';
+import { parseStoredBranch } from './cloudBoardRepository';
+import { normalizeBranchList } from './branchUtils';
+
+export type ConflictFieldKey =
+  | 'name'
+  | 'branch'
+  | 'start_date'
+  | 'end_date'
+  | 'assignees'
+  | 'days_required'
+  | 'priority'
+  | 'type'
+  | 'blocked_by'
+  | 'blocks_to'
+  | 'reported_load'
+  | 'parent_id';
+
+export type ConflictChoice = 'mine' | 'theirs' | 'both';
+
+// Choices per field; a row deleted on one side takes a single 'row' choice (keep or delete)
+export type ConflictChoices = Partial<Record<ConflictFieldKey | 'row', ConflictChoice>>;
+
+export interface ConflictFieldDef {
+  key: ConflictFieldKey;
+  label: string;
+  // Whether "both" has a meaning for this field (list union, date span, joined text)
+  combinable: boolean;
+}
+
+export const CONFLICT_FIELDS: ConflictFieldDef[] = [
+  { key: 'name', label: 'Nombre', combinable: true },
+  { key: 'branch', label: 'Sucursal', combinable: true },
+  { key: 'start_date', label: 'Inicio', combinable: true },
+  { key: 'end_date', label: 'Fin', combinable: true },
+  { key: 'assignees', label: 'Asignados', combinable: true },
+  { key: 'days_required', label: 'Días requeridos', combinable: false },
+  { key: 'priority', label: 'Prioridad', combinable: false },
+  { key: 'type', label: 'Tipo', combinable: false },
+  { key: 'blocked_by', label: 'Bloqueado por', combinable: true },
+  { key: 'blocks_to', label: 'Bloquea a', combinable: true },
+  { key: 'reported_load', label: 'Carga reportada', combinable: false },
+  { key: 'parent_id', label: 'Proyecto padre', combinable: false },
+];
+
+export interface RowConflict {
+  id: string;
+  name: string;
+  base: CloudTaskRow;
+  mine: CloudTaskRow;
+  theirs: CloudTaskRow;
+  fields: ConflictFieldKey[];
+  // Mine plus every field only they changed; conflicting fields still hold mine
+  merged: CloudTaskRow;
+  // 'remote': someone else deleted the row we edited (`theirs` repeats the base).
+  // 'local': we deleted a row someone else edited (`mine` repeats the base).
+  deleted: 'remote' | 'local' | null;
+}
+
+function fieldValueKey(row: CloudTaskRow, key: ConflictFieldKey): string {
+  const value = row[key];
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return JSON.stringify(value);
+  if (key === 'days_required' || key === 'priority' || key === 'reported_load') return String(Number(value));
+  return String(value);
+}
+
+export function fieldsDiffer(a: CloudTaskRow, b: CloudTaskRow, key: ConflictFieldKey): boolean {
+  return fieldValueKey(a, key) !== fieldValueKey(b, key);
+}
+
+/**
+ * Merge mine and theirs against base. An empty `fields` list means every change
+ * merged cleanly and `merged` can be written as-is.
+ */
+export function detectRowConflict(base: CloudTaskRow, mine: CloudTaskRow, theirs: CloudTaskRow): RowConflict {
+  const merged: CloudTaskRow = { ...mine, version: theirs.version, updated_at: theirs.updated_at };
+  const fields: ConflictFieldKey[] = [];
+
+  CONFLICT_FIELDS.forEach(({ key }) => {
+    const mineChanged = fieldsDiffer(base, mine, key);
+    const theirsChanged = fieldsDiffer(base, theirs, key);
+    if (!theirsChanged) return;
+    if (!mineChanged) {
+      (merged as unknown as Record<string, unknown>)[key] = theirs[key];
+      return;
+    }
+    if (fieldsDiffer(mine, theirs, key)) fields.push(key);
+  });
+
+  return { id: mine.id, name: mine.name || theirs.name, base, mine, theirs, fields, merged, deleted: null };
+}
+
+/** Our edit of a row the cloud no longer holds; writing it back needs the user's say-so */
+export function removedRowConflict(base: CloudTaskRow, mine: CloudTaskRow): RowConflict {
+  return { id: mine.id, name: mine.name || base.name, base, mine, theirs: base, fields: [], merged: mine, deleted: 'remote' };
+}
+
+/** Our delete of a row someone else edited since we loaded it */
+export function deletedEditedRowConflict(base: CloudTaskRow, theirs: CloudTaskRow): RowConflict {
+  return { id: base.id, name: theirs.name || base.name, base, mine: base, theirs, fields: [], merged: theirs, deleted: 'local' };
+}
+
+function splitDependencyText(value: string | null): string[] {
+  const clean = (value || '').trim();
+  if (!clean) return [];
+  if (clean.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(clean);
+      if (Array.isArray(parsed)) return parsed.map((v) => String(v)).filter(Boolean);
+    } catch {
+      // fall through to plain text
+    }
+  }
+  return clean.split(/[,;\n]/).map((v) => v.trim()).filter(Boolean);
+}
+
+function combineField(key: ConflictFieldKey, mine: CloudTaskRow, theirs: CloudTaskRow): unknown {
+  switch (key) {
+    case 'name':
+      return `${mine.name} / ${theirs.name}`;
+    case 'assignees':
+      return Array.from(new Set([...(mine.assignees || []), ...(theirs.assignees || [])]));
+    case 'branch': {
+      const union = normalizeBranchList([
+        ...normalizeBranchList(parseStoredBranch(mine.branch)),
+        ...normalizeBranchList(parseStoredBranch(theirs.branch)),
+      ]);
+      if (union.length === 0) return '';
+      return union.length === 1 ? union[0] : JSON.stringify(union);
+    }
+    case 'start_date':
+      // Date span covering both versions
+      if (!mine.start_date || !theirs.start_date) return mine.start_date || theirs.start_date;
+      return mine.start_date < theirs.start_date ? mine.start_date : theirs.start_date;
+    case 'end_date':
+      if (!mine.end_date || !theirs.end_date) return mine.end_date || theirs.end_date;
+      return mine.end_date > theirs.end_date ? mine.end_date : theirs.end_date;
+    case 'blocks_to': {
+      const ids = Array.from(new Set([...splitDependencyText(mine.blocks_to), ...splitDependencyText(theirs.blocks_to)]));
+      return ids.length > 0 ? JSON.stringify(ids) : null;
+    }
+    case 'blocked_by': {
+      const refs = Array.from(new Set([...splitDependencyText(mine.blocked_by), ...splitDependencyText(theirs.blocked_by)]));
+      return refs.length > 0 ? refs.join(', ') : null;
+    }
+    default:
+      return mine[key];
+  }
+}
+
+/** Row to write once the user picked a side for every conflicting field */
+export function resolveRowConflict(
+  conflict: RowConflict,
+  choices: ConflictChoices
+): CloudTaskRow {
+  const resolved = { ...conflict.merged } as unknown as Record<string, unknown>;
+  conflict.fields.forEach((key) => {
+    const choice = choices[key] ?? 'mine';
+    if (choice === 'theirs') resolved[key] = conflict.theirs[key];
+    else if (choice === 'both') resolved[key] = combineField(key, conflict.mine, conflict.theirs);
+    else resolved[key] = conflict.mine[key];
+  });
+  return resolved as unknown as CloudTaskRow;
+}
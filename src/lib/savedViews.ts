@@ -0,0 +1,150 @@
+/**
+ * Saved Views - Named snapshots of how a board is looked at
+ * A view captures filters, the active view, granularity, the timeline's
+ * grouping/color layout and hidden table columns. Configs are stored as plain
+ * JSON (dates as yyyy-MM-dd) so they fit in the cloud, localStorage and URLs.
+ */
+
+import { format } from 'date-fns';
+import type { FilterState, Granularity, ViewType } from './types';
+import { DEFAULT_FILTERS } from './constants';
+import { parseQuery } from './queryFilter';
+
+export type ColorMode = 'load' | 'person' | 'type' | 'custom';
+export type CustomColorField = 'branch' | 'type';
+export type GroupMode = 'none' | 'person' | 'type' | 'custom';
+export type CustomGroupField = 'branch' | 'priority';
+export type OrderMode = 'chronological' | 'custom';
+
+export interface TimelineLayout {
+  groupMode: GroupMode;
+  customGroupField: CustomGroupField;
+  orderMode: OrderMode;
+  colorMode: ColorMode;
+  customColorField: CustomColorField;
+  showMilestonesOnly: boolean;
+}
+
+/** Layout owned by individual views rather than the board state */
+export interface ViewLayout {
+  // Null when the timeline has not been opened; applying such a view leaves it as is
+  timeline: TimelineLayout | null;
+  hiddenColumns: string[];
+}
+
+export interface SavedViewConfig extends ViewLayout {
+  filters: FilterState;
+  activeView: ViewType;
+  granularity: Granularity;
+}
+
+export const VIEW_URL_PARAM = 'view';
+
+const VIEW_TYPES: ViewType[] = ['grid', 'chart', 'table', 'gantt', 'persons'];
+const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map((x) => String(x).trim()).filter(Boolean) : [];
+}
+
+function parseDay(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseTimelineLayout(value: unknown): TimelineLayout | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  return {
+    groupMode: oneOf(raw.groupMode, ['none', 'person', 'type', 'custom'] as const, 'none'),
+    customGroupField: oneOf(raw.customGroupField, ['branch', 'priority'] as const, 'branch'),
+    orderMode: oneOf(raw.orderMode, ['chronological', 'custom'] as const, 'chronological'),
+    colorMode: oneOf(raw.colorMode, ['load', 'person', 'type', 'custom'] as const, 'load'),
+    customColorField: oneOf(raw.customColorField, ['branch', 'type'] as const, 'branch'),
+    showMilestonesOnly: raw.showMilestonesOnly === true,
+  };
+}
+
+function parseFilters(value: unknown): FilterState {
+  if (!value || typeof value !== 'object') return DEFAULT_FILTERS;
+  const raw = value as Record<string, unknown>;
+  const range = raw.dateRange as { start?: unknown; end?: unknown } | null | undefined;
+  const start = parseDay(range?.start);
+  const end = parseDay(range?.end);
+  return {
+    persons: stringList(raw.persons),
+    branches: stringList(raw.branches),
+    types: stringList(raw.types),
+    customColumnId: typeof raw.customColumnId === 'string' && raw.customColumnId.trim() ? raw.customColumnId.trim() : null,
+    customTags: stringList(raw.customTags),
+    customStars: Array.isArray(raw.customStars)
+      ? raw.customStars.map(Number).filter((x) => Number.isFinite(x) && x >= 1 && x <= 5).map(Math.round)
+      : [],
+    dateRange: start && end && start <= end ? { start, end } : null,
+    showOnlyActive: raw.showOnlyActive === true,
+    showOnlyBehind: raw.showOnlyBehind === true,
+    query: parseQuery(raw.query),
+  };
+}
+
+/** JSON-safe form of a config; dates become calendar days */
+export function serializeViewConfig(config: SavedViewConfig): Record<string, unknown> {
+  const { dateRange } = config.filters;
+  return {
+    ...config,
+    filters: {
+      ...config.filters,
+      dateRange: dateRange
+        ? { start: format(dateRange.start, 'yyyy-MM-dd'), end: format(dateRange.end, 'yyyy-MM-dd') }
+        : null,
+    },
+  };
+}
+
+/** Accepts anything that came from storage or a URL; invalid parts fall back to defaults */
+export function parseViewConfig(value: unknown): SavedViewConfig | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  return {
+    filters: parseFilters(raw.filters),
+    activeView: oneOf(raw.activeView, VIEW_TYPES, 'table'),
+    granularity: oneOf(raw.granularity, GRANULARITIES, 'week'),
+    timeline: parseTimelineLayout(raw.timeline),
+    hiddenColumns: stringList(raw.hiddenColumns),
+  };
+}
+
+/** URL-safe base64 of the config JSON, for links that open the board as seen */
+export function encodeViewConfig(config: SavedViewConfig): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(serializeViewConfig(config)));
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeViewConfig(token: string): SavedViewConfig | null {
+  try {
+    const base64 = token.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    return parseViewConfig(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch {
+    return null;
+  }
+}
+
+/** Stable comparison key, used to tell whether the board still matches a saved view */
+export function viewConfigFingerprint(config: SavedViewConfig): string {
+  // Round-tripping through the parser fixes key order and drops unknown keys
+  const normalized = parseViewConfig(serializeViewConfig(config));
+  return normalized ? JSON.stringify(serializeViewConfig(normalized)) : '';
+}
@@ -0,0 +1,92 @@
+import { supabase } from '@/lib/supabaseClient';
+import { parseViewConfig, serializeViewConfig, type SavedViewConfig } from '@/lib/savedViews';
+
+export interface SavedView {
+  id: string;
+  board_id: string;
+  owner_id: string | null;
+  owner_label: string | null;
+  name: string;
+  // Shared views are listed for every board member; only the owner can change them
+  shared: boolean;
+  config: SavedViewConfig;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SavedViewRow extends Omit<SavedView, 'config'> {
+  config: unknown;
+}
+
+const SAVED_VIEW_COLUMNS = 'id,board_id,owner_id,owner_label,name,shared,config,created_at,updated_at';
+
+function fromRow(row: SavedViewRow): SavedView | null {
+  const config = parseViewConfig(row.config);
+  if (!config || typeof row.id !== 'string' || typeof row.name !== 'string') return null;
+  return { ...row, shared: row.shared === true, config };
+}
+
+function toRow(view: SavedView): SavedViewRow {
+  return { ...view, config: serializeViewConfig(view.config) };
+}
+
+export function sortSavedViews(views: SavedView[]): SavedView[] {
+  return views.slice().sort((a, b) => a.name.localeCompare(b.name, 'es', { sensitivity: 'base' }));
+}
+
+// ── Cloud ──
+
+/** Own views plus the views teammates shared on the board */
+export async function listSavedViews(boardId: string, userId: string): Promise<SavedView[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('saved_views')
+    .select(SAVED_VIEW_COLUMNS)
+    .eq('board_id', boardId)
+    .or(`owner_id.eq.${userId},shared.eq.true`);
+  if (error) throw error;
+  return sortSavedViews(((data || []) as SavedViewRow[]).map(fromRow).filter((v): v is SavedView => !!v));
+}
+
+export async function upsertSavedView(view: SavedView): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { error } = await supabase.from('saved_views').upsert(toRow(view), { onConflict: 'id' });
+  if (error) throw error;
+}
+
+export async function deleteSavedView(viewId: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { error } = await supabase
+    .from('saved_views')
+    .delete()
+    .eq('id', viewId);
+  if (error) throw error;
+}
+
+// ── Local (boards without cloud, and the last cloud list seen) ──
+
+function savedViewsKey(boardId: string | null): string {
+  return `workload-dashboard-saved-views:${boardId || 'local'}`;
+}
+
+export function loadLocalSavedViews(boardId: string | null): SavedView[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(savedViewsKey(boardId));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return sortSavedViews((parsed as SavedViewRow[]).map(fromRow).filter((v): v is SavedView => !!v));
+  } catch {
+    return [];
+  }
+}
+
+export function saveLocalSavedViews(boardId: string | null, views: SavedView[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(savedViewsKey(boardId), JSON.stringify(views.map(toRow)));
+  } catch {
+    // ignore
+  }
+}
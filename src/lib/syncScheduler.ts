@@ -0,0 +1,231 @@
+/**
+ * Sync Scheduler - Coordinates cloud reloads with local interactions
+ * Interactions that must not be disturbed by a remote refresh (zoom, inline
+ * edit, drag, import) take a hold on a scope. Any number of holds can be active
+ * at once; while one is, reloads and other sync tasks are deferred, coalesced by
+ * key, and run exactly once after the last hold is released.
+ */
+
+export type SyncHoldScope = 'zoom' | 'inline-edit' | 'drag' | 'import';
+
+export interface SyncHold {
+  id: string;
+  scope: SyncHoldScope;
+  reason: string;
+  acquiredAt: number;
+  // Safety expiry so a hold whose release was lost cannot stall sync forever
+  expiresAt: number | null;
+}
+
+export interface SyncSchedulerState {
+  holds: SyncHold[];
+  isHeld: boolean;
+  pendingReload: boolean;
+  isReloading: boolean;
+  lastReloadAt: number;
+}
+
+export interface AcquireHoldOptions {
+  reason?: string;
+  // Holds with the same key are one hold: acquiring again extends it
+  key?: string;
+  ttlMs?: number | null;
+}
+
+export type ReleaseHold = () => void;
+
+// Resolves to false when the reload was skipped (e.g. unsaved local edits) and must run again later
+export type CloudReloadHandler = () => Promise<boolean | void>;
+
+const DEFAULT_TTL_MS: Record<SyncHoldScope, number | null> = {
+  zoom: 5_000,
+  'inline-edit': 120_000,
+  drag: 60_000,
+  import: null,
+};
+
+const RELOAD_TASK_KEY = 'cloud-reload';
+const RELOAD_RETRY_MS = 2_000;
+
+const holds = new Map<string, SyncHold>();
+const expiryTimers = new Map<string, number>();
+const deferredTasks = new Map<string, () => void | Promise<void>>();
+const listeners = new Set<() => void>();
+
+let reloadHandler: CloudReloadHandler | null = null;
+let reloadRequested = false;
+let reloadInFlight = false;
+let reloadRetryTimer: number | null = null;
+let lastReloadAt = 0;
+let holdSeq = 0;
+let cachedState: SyncSchedulerState | null = null;
+
+function notify() {
+  cachedState = null;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeSyncScheduler(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Stable snapshot; a new object only after something changed */
+export function getSyncSchedulerState(): SyncSchedulerState {
+  if (!cachedState) {
+    cachedState = {
+      holds: Array.from(holds.values()),
+      isHeld: holds.size > 0,
+      pendingReload: reloadRequested,
+      isReloading: reloadInFlight,
+      lastReloadAt,
+    };
+  }
+  return cachedState;
+}
+
+export function isSyncHeld(): boolean {
+  return holds.size > 0;
+}
+
+function clearExpiry(id: string) {
+  const timer = expiryTimers.get(id);
+  if (timer !== undefined) {
+    window.clearTimeout(timer);
+    expiryTimers.delete(id);
+  }
+}
+
+function releaseHold(id: string) {
+  if (!holds.has(id)) return;
+  clearExpiry(id);
+  holds.delete(id);
+  notify();
+  if (holds.size === 0) drainDeferred();
+}
+
+/**
+ * Take a hold on a scope. The returned function releases it and is safe to call
+ * more than once; the last release runs everything that was deferred.
+ */
+export function acquireSyncHold(scope: SyncHoldScope, options: AcquireHoldOptions = {}): ReleaseHold {
+  const id = options.key ? `${scope}:${options.key}` : `${scope}:${++holdSeq}`;
+  const ttlMs = options.ttlMs === undefined ? DEFAULT_TTL_MS[scope] : options.ttlMs;
+  const now = Date.now();
+  const existing = holds.get(id);
+  holds.set(id, {
+    id,
+    scope,
+    reason: options.reason || existing?.reason || scope,
+    acquiredAt: existing?.acquiredAt ?? now,
+    expiresAt: ttlMs === null ? null : now + ttlMs,
+  });
+  clearExpiry(id);
+  if (ttlMs !== null && typeof window !== 'undefined') {
+    expiryTimers.set(id, window.setTimeout(() => releaseHold(id), ttlMs));
+  }
+  notify();
+  return () => releaseHold(id);
+}
+
+/** Keep a hold for the duration of an async operation */
+export async function withSyncHold<T>(
+  scope: SyncHoldScope,
+  run: () => Promise<T>,
+  options: AcquireHoldOptions = {}
+): Promise<T> {
+  const release = acquireSyncHold(scope, { ttlMs: null, ...options });
+  try {
+    return await run();
+  } finally {
+    release();
+  }
+}
+
+function drainDeferred() {
+  const tasks = Array.from(deferredTasks.values());
+  deferredTasks.clear();
+  tasks.forEach((task) => {
+    void Promise.resolve()
+      .then(task)
+      .catch((err) => {
+        // eslint-disable-next-line no-console
+        console.warn('Deferred sync task failed:', err);
+      });
+  });
+}
+
+/**
+ * Run a sync task now, or once no hold is active. Tasks share a key to coalesce:
+ * only the latest task for a key runs after the holds are released.
+ */
+export function runWhenSyncIdle(key: string, task: () => void | Promise<void>): void {
+  if (holds.size === 0) {
+    void Promise.resolve()
+      .then(task)
+      .catch((err) => {
+        // eslint-disable-next-line no-console
+        console.warn('Sync task failed:', err);
+      });
+    return;
+  }
+  deferredTasks.set(key, task);
+}
+
+function scheduleReloadRetry() {
+  if (reloadRetryTimer !== null || typeof window === 'undefined') return;
+  reloadRetryTimer = window.setTimeout(() => {
+    reloadRetryTimer = null;
+    if (reloadRequested) runWhenSyncIdle(RELOAD_TASK_KEY, runReload);
+  }, RELOAD_RETRY_MS);
+}
+
+async function runReload() {
+  if (reloadInFlight || !reloadHandler) return;
+  reloadInFlight = true;
+  reloadRequested = false;
+  notify();
+  let skipped = false;
+  try {
+    skipped = (await reloadHandler()) === false;
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.warn('Cloud reload failed:', err);
+  } finally {
+    reloadInFlight = false;
+    if (skipped) reloadRequested = true;
+    else lastReloadAt = Date.now();
+    notify();
+  }
+  // A skipped reload stays pending and is retried shortly instead of counting as done
+  if (skipped) {
+    scheduleReloadRetry();
+    return;
+  }
+  // Requests that arrived during the reload collapse into one more run
+  if (reloadRequested) runWhenSyncIdle(RELOAD_TASK_KEY, runReload);
+}
+
+/**
+ * Ask for a cloud reload. Requests made while holds are active or while a
+ * reload is running are coalesced into a single deferred reload.
+ */
+export function requestCloudReload(): void {
+  reloadRequested = true;
+  notify();
+  runWhenSyncIdle(RELOAD_TASK_KEY, runReload);
+}
+
+/**
+ * Register the function that performs a cloud reload. A request made before a
+ * handler existed (e.g. while switching boards) runs as soon as one registers.
+ */
+export function registerCloudReloadHandler(handler: CloudReloadHandler): () => void {
+  reloadHandler = handler;
+  if (reloadRequested) runWhenSyncIdle(RELOAD_TASK_KEY, runReload);
+  return () => {
+    if (reloadHandler === handler) reloadHandler = null;
+  };
+}
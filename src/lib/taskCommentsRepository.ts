@@ -1,5 +1,16 @@
 import { supabase } from '@/lib/supabaseClient';
 
+export interface TaskCommentEdit {
+  body: string;
+  edited_at: string;
+}
+
+export interface TaskCommentReaction {
+  comment_id: string;
+  user_id: string;
+  emoji: string;
+}
+
 export interface TaskComment {
   id: string;
   board_id: string;
@@ -9,18 +20,55 @@ export interface TaskComment {
   author_label?: string | null;
   author_avatar_url?: string | null;
   created_at: string;
+  // Replies point at their root comment; threads are one level deep
+  parent_id?: string | null;
+  edited_at?: string | null;
+  // Previous bodies, oldest first
+  edit_history?: TaskCommentEdit[];
+  // Person names mentioned with @ when the comment was written
+  mentions?: string[];
+  // Attached by listTaskComments, not a column
+  reactions?: TaskCommentReaction[];
 }
 
+/** Comment metadata used to tell which tasks have comments the user has not read */
+export interface TaskCommentActivity {
+  task_id: string;
+  user_id: string;
+  created_at: string;
+}
+
+export interface TaskCommentRead {
+  task_id: string;
+  last_read_at: string;
+}
+
+const COMMENT_COLUMNS = 'id,board_id,task_id,user_id,body,author_label,author_avatar_url,created_at,parent_id,edited_at,edit_history,mentions';
+
 export async function listTaskComments(boardId: string, taskId: string): Promise<TaskComment[]> {
   if (!supabase) throw new Error('Supabase no esta configurado');
   const { data, error } = await supabase
     .from('task_comments')
-    .select('id,board_id,task_id,user_id,body,author_label,author_avatar_url,created_at')
+    .select(COMMENT_COLUMNS)
     .eq('board_id', boardId)
     .eq('task_id', taskId)
     .order('created_at', { ascending: false });
   if (error) throw error;
-  return (data || []) as TaskComment[];
+  const comments = (data || []) as TaskComment[];
+  if (comments.length === 0) return comments;
+
+  const { data: reactionRows, error: reactionsError } = await supabase
+    .from('task_comment_reactions')
+    .select('comment_id,user_id,emoji')
+    .in('comment_id', comments.map((c) => c.id));
+  if (reactionsError) throw reactionsError;
+  const byComment = new Map<string, TaskCommentReaction[]>();
+  ((reactionRows || []) as TaskCommentReaction[]).forEach((row) => {
+    const list = byComment.get(row.comment_id) || [];
+    list.push(row);
+    byComment.set(row.comment_id, list);
+  });
+  return comments.map((c) => ({ ...c, reactions: byComment.get(c.id) || [] }));
 }
 
 export async function addTaskComment(input: {
@@ -30,6 +78,8 @@ export async function addTaskComment(input: {
   body: string;
   authorLabel?: string;
   authorAvatarUrl?: string | null;
+  parentId?: string | null;
+  mentions?: string[];
 }): Promise<void> {
   if (!supabase) throw new Error('Supabase no esta configurado');
   const text = input.body.trim();
@@ -41,10 +91,38 @@ export async function addTaskComment(input: {
     body: text,
     author_label: input.authorLabel || null,
     author_avatar_url: input.authorAvatarUrl || null,
+    parent_id: input.parentId || null,
+    mentions: input.mentions || [],
   });
   if (error) throw error;
 }
 
+/** Replaces the body and appends the previous one to the edit history */
+export async function updateTaskComment(commentId: string, body: string, mentions: string[]): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const text = body.trim();
+  if (!text) return;
+  const { data: current, error: readError } = await supabase
+    .from('task_comments')
+    .select('body,edit_history')
+    .eq('id', commentId)
+    .maybeSingle();
+  if (readError) throw readError;
+  if (!current || current.body === text) return;
+  const editedAt = new Date().toISOString();
+  const history = Array.isArray(current.edit_history) ? (current.edit_history as TaskCommentEdit[]) : [];
+  const { error } = await supabase
+    .from('task_comments')
+    .update({
+      body: text,
+      mentions,
+      edited_at: editedAt,
+      edit_history: [...history, { body: current.body, edited_at: editedAt }],
+    })
+    .eq('id', commentId);
+  if (error) throw error;
+}
+
 export async function deleteTaskComment(commentId: string): Promise<void> {
   if (!supabase) throw new Error('Supabase no esta configurado');
   const { error } = await supabase
@@ -53,3 +131,71 @@ export async function deleteTaskComment(commentId: string): Promise<void> {
     .eq('id', commentId);
   if (error) throw error;
 }
+
+export async function setCommentReaction(input: {
+  boardId: string;
+  commentId: string;
+  userId: string;
+  emoji: string;
+  active: boolean;
+}): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  if (input.active) {
+    const { error } = await supabase.from('task_comment_reactions').upsert(
+      { board_id: input.boardId, comment_id: input.commentId, user_id: input.userId, emoji: input.emoji },
+      { onConflict: 'comment_id,user_id,emoji', ignoreDuplicates: true }
+    );
+    if (error) throw error;
+    return;
+  }
+  const { error } = await supabase
+    .from('task_comment_reactions')
+    .delete()
+    .eq('comment_id', input.commentId)
+    .eq('user_id', input.userId)
+    .eq('emoji', input.emoji);
+  if (error) throw error;
+}
+
+/** Every comment body on the board, for full-text search */
+export async function listBoardCommentBodies(boardId: string): Promise<Pick<TaskComment, 'task_id' | 'body' | 'author_label'>[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select('task_id,body,author_label')
+    .eq('board_id', boardId);
+  if (error) throw error;
+  return (data || []) as Pick<TaskComment, 'task_id' | 'body' | 'author_label'>[];
+}
+
+// ── Read markers ──
+
+export async function listCommentActivity(boardId: string): Promise<TaskCommentActivity[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select('task_id,user_id,created_at')
+    .eq('board_id', boardId);
+  if (error) throw error;
+  return (data || []) as TaskCommentActivity[];
+}
+
+export async function listCommentReads(boardId: string, userId: string): Promise<TaskCommentRead[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('task_comment_reads')
+    .select('task_id,last_read_at')
+    .eq('board_id', boardId)
+    .eq('user_id', userId);
+  if (error) throw error;
+  return (data || []) as TaskCommentRead[];
+}
+
+export async function markTaskCommentsRead(boardId: string, taskId: string, userId: string, readAt: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { error } = await supabase.from('task_comment_reads').upsert(
+    { board_id: boardId, task_id: taskId, user_id: userId, last_read_at: readAt },
+    { onConflict: 'board_id,task_id,user_id' }
+  );
+  if (error) throw error;
+}
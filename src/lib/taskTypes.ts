@@ -0,0 +1,102 @@
+/**
+ * Task Types - The kinds of task a board works with
+ * Each board keeps its list on AppConfig.taskTypes and tasks store the type name.
+ * The flags drive behavior that used to be tied to 'En radar' and to zero-day tasks:
+ * which tasks add load and hide behind the radar toggle, and which show as milestones.
+ */
+
+import type { Project, TaskType } from './types';
+import { DEFAULT_TASK_TYPES } from './constants';
+
+export const TASK_TYPE_ICONS = ['folder', 'rocket', 'radar', 'flag', 'star', 'wrench', 'bug', 'lightbulb', 'circle'] as const;
+export type TaskTypeIconKey = typeof TASK_TYPE_ICONS[number];
+
+export const TASK_TYPE_ICON_LABELS: Record<TaskTypeIconKey, string> = {
+  folder: 'Carpeta',
+  rocket: 'Cohete',
+  radar: 'Radar',
+  flag: 'Bandera',
+  star: 'Estrella',
+  wrench: 'Herramienta',
+  bug: 'Error',
+  lightbulb: 'Idea',
+  circle: 'Circulo',
+};
+
+// Offered to new types in turn so neighbours stay distinguishable
+export const TASK_TYPE_COLORS = ['#3B82F6', '#F59E0B', '#94A3B8', '#10B981', '#8B5CF6', '#EF4444', '#EC4899', '#14B8A6'];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function typeKey(value: string): string {
+  return value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/** Types from stored JSON: unnamed and repeated names are dropped, an empty list means the defaults */
+export function parseTaskTypes(raw: unknown): TaskType[] {
+  if (!Array.isArray(raw)) return DEFAULT_TASK_TYPES;
+  const seen = new Set<string>();
+  const types: TaskType[] = [];
+  raw.forEach((entry) => {
+    if (!entry || typeof entry !== 'object') return;
+    const source = entry as Record<string, unknown>;
+    const name = typeof source.name === 'string' ? source.name.trim() : '';
+    if (!name || seen.has(typeKey(name))) return;
+    seen.add(typeKey(name));
+    types.push({
+      name,
+      color: typeof source.color === 'string' && HEX_COLOR.test(source.color) ? source.color : TASK_TYPE_COLORS[types.length % TASK_TYPE_COLORS.length],
+      icon: TASK_TYPE_ICONS.includes(source.icon as TaskTypeIconKey) ? (source.icon as string) : 'circle',
+      countsTowardLoad: source.countsTowardLoad !== false,
+      isMilestone: source.isMilestone === true,
+    });
+  });
+  return types.length > 0 ? types : DEFAULT_TASK_TYPES;
+}
+
+export function findTaskType(name: string | null | undefined, types: TaskType[]): TaskType | undefined {
+  if (!name) return undefined;
+  const key = typeKey(name);
+  return types.find((t) => typeKey(t.name) === key);
+}
+
+/** Type given to new tasks and to tasks whose type was deleted */
+export function defaultTaskTypeName(types: TaskType[]): string {
+  return types[0]?.name || DEFAULT_TASK_TYPES[0].name;
+}
+
+/** Tasks of unknown types count, as every task did before types were configurable */
+export function countsTowardLoad(project: Pick<Project, 'type'>, types: TaskType[]): boolean {
+  return findTaskType(project.type, types)?.countsTowardLoad ?? true;
+}
+
+export function isMilestoneType(name: string | null | undefined, types: TaskType[]): boolean {
+  return findTaskType(name, types)?.isMilestone ?? false;
+}
+
+export function taskTypeColor(name: string | null | undefined, types: TaskType[]): string | null {
+  return findTaskType(name, types)?.color ?? null;
+}
+
+/**
+ * Board type for an imported cell: the type with that name, otherwise the old
+ * keywords (launch, radar) mapped to a type that behaves the same, otherwise the default.
+ */
+export function matchTaskType(value: unknown, types: TaskType[]): string {
+  const fallback = defaultTaskTypeName(types);
+  if (value === null || value === undefined) return fallback;
+  const str = typeKey(String(value));
+  if (!str) return fallback;
+  const exact = types.find((t) => typeKey(t.name) === str);
+  if (exact) return exact.name;
+  if (str.includes('lanzamiento') || str.includes('launch')) {
+    const launch = types.find((t) => typeKey(t.name).includes('lanzamiento'));
+    if (launch) return launch.name;
+  }
+  if (str.includes('radar')) {
+    const radar = types.find((t) => !t.countsTowardLoad);
+    if (radar) return radar.name;
+  }
+  const partial = types.find((t) => str.includes(typeKey(t.name)));
+  return partial ? partial.name : fallback;
+}
@@ -0,0 +1,50 @@
+import { supabase } from '@/lib/supabaseClient';
+import { parseTaskTypes } from '@/lib/taskTypes';
+import type { TaskType } from '@/lib/types';
+
+// ── Cloud (stored on the board so every member works with the same types) ──
+
+export async function loadBoardTaskTypes(boardId: string): Promise<TaskType[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('boards')
+    .select('task_types')
+    .eq('id', boardId)
+    .maybeSingle();
+  if (error) throw error;
+  return parseTaskTypes((data as { task_types?: unknown } | null)?.task_types);
+}
+
+export async function saveBoardTaskTypes(boardId: string, types: TaskType[]): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { error } = await supabase
+    .from('boards')
+    .update({ task_types: types, updated_at: new Date().toISOString() })
+    .eq('id', boardId);
+  if (error) throw error;
+}
+
+// ── Local (boards without cloud, and the last types seen for offline starts) ──
+
+function taskTypesKey(boardId: string | null): string {
+  return `workload-dashboard-task-types:${boardId || 'local'}`;
+}
+
+export function loadLocalTaskTypes(boardId: string | null): TaskType[] {
+  if (typeof window === 'undefined') return parseTaskTypes(null);
+  try {
+    const raw = window.localStorage.getItem(taskTypesKey(boardId));
+    return parseTaskTypes(raw ? JSON.parse(raw) : null);
+  } catch {
+    return parseTaskTypes(null);
+  }
+}
+
+export function saveLocalTaskTypes(boardId: string | null, types: TaskType[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(taskTypesKey(boardId), JSON.stringify(types));
+  } catch {
+    // ignore
+  }
+}
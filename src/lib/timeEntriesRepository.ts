@@ -0,0 +1,91 @@
+import { supabase } from '@/lib/supabaseClient';
+
+export interface TimeEntry {
+  id: string;
+  board_id: string;
+  task_id: string;
+  person: string;
+  // yyyy-MM-dd, the day the work was done
+  entry_date: string;
+  hours: number;
+  note: string | null;
+  user_id: string | null;
+  created_at: string;
+}
+
+export type NewTimeEntry = Omit<TimeEntry, 'created_at'>;
+
+const TIME_ENTRY_COLUMNS = 'id,board_id,task_id,person,entry_date,hours,note,user_id,created_at';
+
+function normalizeEntry(row: TimeEntry): TimeEntry {
+  return { ...row, hours: Number(row.hours) || 0, note: row.note || null };
+}
+
+// ── Cloud ──
+
+export async function listTimeEntries(boardId: string): Promise<TimeEntry[]> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select(TIME_ENTRY_COLUMNS)
+    .eq('board_id', boardId)
+    .order('entry_date', { ascending: false });
+  if (error) throw error;
+  return ((data || []) as TimeEntry[]).map(normalizeEntry);
+}
+
+/** Ids are generated by the client so an entry queued offline keeps its id once sent */
+export async function addTimeEntry(entry: NewTimeEntry): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  if (!(entry.hours > 0)) return;
+  const { error } = await supabase.from('time_entries').insert({
+    id: entry.id,
+    board_id: entry.board_id,
+    task_id: entry.task_id,
+    person: entry.person,
+    entry_date: entry.entry_date,
+    hours: entry.hours,
+    note: entry.note?.trim() || null,
+    user_id: entry.user_id,
+  });
+  if (error) throw error;
+}
+
+export async function deleteTimeEntry(entryId: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { error } = await supabase
+    .from('time_entries')
+    .delete()
+    .eq('id', entryId);
+  if (error) throw error;
+}
+
+// ── Local (boards without cloud, and the last cloud list seen for offline use) ──
+
+export function getTimeEntriesStorageKey(boardId: string | null): string {
+  return `workload-dashboard-time-entries:${boardId || 'local'}`;
+}
+
+export function loadLocalTimeEntries(boardId: string | null): TimeEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(getTimeEntriesStorageKey(boardId));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return (parsed as TimeEntry[])
+      .filter((e) => e && typeof e.id === 'string' && typeof e.task_id === 'string' && typeof e.entry_date === 'string')
+      .map(normalizeEntry);
+  } catch {
+    return [];
+  }
+}
+
+export function saveLocalTimeEntries(boardId: string | null, entries: TimeEntry[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(getTimeEntriesStorageKey(boardId), JSON.stringify(entries));
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Time Tracking - Logged hours versus estimate per task and person
+ * The estimate is a project's totalHours (daysRequired * hoursPerDay). Groups
+ * add up their own entries plus every descendant's, and estimate from their
+ * leaf projects so nested groups are not counted twice.
+ */
+
+import type { Project } from './types';
+import type { TimeEntry } from './timeEntriesRepository';
+import { getDescendants } from './hierarchyEngine';
+
+export interface TimeRollup {
+  estimatedHours: number;
+  loggedHours: number;
+  // logged - estimated; positive means over estimate
+  varianceHours: number;
+  // logged / estimated; null without an estimate
+  ratio: number | null;
+  byPerson: Record<string, number>;
+}
+
+function roundHours(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Entries grouped by task id, newest day first */
+export function groupEntriesByTask(entries: TimeEntry[]): Map<string, TimeEntry[]> {
+  const byTask = new Map<string, TimeEntry[]>();
+  entries.forEach((entry) => {
+    const list = byTask.get(entry.task_id) || [];
+    list.push(entry);
+    byTask.set(entry.task_id, list);
+  });
+  byTask.forEach((list) => list.sort((a, b) => b.entry_date.localeCompare(a.entry_date) || b.created_at.localeCompare(a.created_at)));
+  return byTask;
+}
+
+export function computeTimeRollup(projects: Project[], entries: TimeEntry[]): Map<string, TimeRollup> {
+  const byTask = groupEntriesByTask(entries);
+  const parentIds = new Set(projects.map((p) => p.parentId).filter((id): id is string => !!id));
+  const result = new Map<string, TimeRollup>();
+
+  projects.forEach((project) => {
+    const scope = parentIds.has(project.id) ? [project, ...getDescendants(project.id, projects)] : [project];
+    const byPerson: Record<string, number> = {};
+    let loggedHours = 0;
+    scope.forEach((p) => {
+      (byTask.get(p.id) || []).forEach((entry) => {
+        loggedHours += entry.hours;
+        byPerson[entry.person] = roundHours((byPerson[entry.person] || 0) + entry.hours);
+      });
+    });
+    const estimatedHours = parentIds.has(project.id)
+      ? scope.filter((p) => !parentIds.has(p.id)).reduce((sum, p) => sum + (p.totalHours || 0), 0)
+      : project.totalHours || 0;
+    result.set(project.id, {
+      estimatedHours: roundHours(estimatedHours),
+      loggedHours: roundHours(loggedHours),
+      varianceHours: roundHours(loggedHours - estimatedHours),
+      ratio: estimatedHours > 0 ? loggedHours / estimatedHours : null,
+      byPerson,
+    });
+  });
+
+  return result;
+}
+
+export function formatHours(value: number): string {
+  return Number.isInteger(value) ? `${value}h` : `${value.toFixed(1)}h`;
+}
@@ -1,3 +1,5 @@
+import type { QueryGroup } from './queryFilter';
+
 export interface Project {
   id: string;
   name: string;
@@ -7,7 +9,8 @@ export interface Project {
   assignees: string[];
   daysRequired: number;
   priority: number;
-  type: 'Proyecto' | 'Lanzamiento' | 'En radar';
+  // Name of one of the board's task types (AppConfig.taskTypes)
+  type: string;
   blockedBy: string | null;
   blocksTo: string | null;
   reportedLoad: number | null;
@@ -27,7 +30,12 @@ export interface Project {
 export interface PersonWorkload {
   person: string;
   date: Date;
+  // Load as a ratio of the person's availability that day (1 = fully booked)
   totalLoad: number;
+  // Raw assigned work in full days, before applying personal capacity
+  assignedLoad: number;
+  // Fraction of a full working day the person is available (0 when absent)
+  capacity: number;
   projects: ProjectLoad[];
 }
 
@@ -43,12 +51,66 @@ export interface NonWorkingDay {
   recurring: boolean;
 }
 
+export interface PersonAbsence {
+  id: string;
+  start: Date;
+  end: Date;
+  reason: string;
+}
+
+export interface PersonAvailability {
+  // Fraction of a full working day (1 = full time, 0.5 = part time)
+  capacity: number;
+  absences: PersonAbsence[];
+}
+
+export interface VersionSnapshotSettings {
+  // Backup before an import replaces the board
+  onImport: boolean;
+  // Backup before an edit that touches several projects at once
+  beforeBulk: boolean;
+  // One snapshot per day the board is opened
+  daily: boolean;
+}
+
+// How group rows summarize their tasks; 'own' keeps the value typed on the group
+export interface RollupRules {
+  // Rows read by dates, assignees, days and priority: every descendant (nested groups
+  // included, as boards always summed) or leaf tasks only. Progress always reads leaves.
+  scope: 'descendants' | 'leaves';
+  dates: 'span' | 'own';
+  assignees: 'union' | 'own';
+  daysRequired: 'sum' | 'max' | 'own';
+  priority: 'weighted' | 'avg' | 'max' | 'min' | 'own';
+  // Weighted by required days, estimated hours or working days in the task's span
+  progress: 'days' | 'hours' | 'duration' | 'avg' | 'own';
+  // Dynamic number columns by column id; columns left out are not summarized
+  columns: Record<string, 'sum' | 'avg' | 'min' | 'max' | 'none'>;
+}
+
+// Board-defined kind of task; tasks reference it by name
+export interface TaskType {
+  name: string;
+  color: string;
+  // Key of TASK_TYPE_ICONS in src/lib/taskTypes.ts
+  icon: string;
+  // Off for backlog-like types ('En radar'): their tasks add no load and hide behind the radar toggle
+  countsTowardLoad: boolean;
+  // Tasks of this type show as milestones whatever their dates
+  isMilestone: boolean;
+}
+
 export interface AppConfig {
   hoursPerDay: number;
   weekendDays: number[];
   holidays: NonWorkingDay[];
   loadMode: 'calculated' | 'reported';
   dateFormat: 'dd/MM/yy' | 'MM/dd/yy' | 'dd MMM yyyy' | 'MMM dd, yyyy' | 'yyyy-MM-dd';
+  versionSnapshots: VersionSnapshotSettings;
+  // Per board: loaded when the board opens
+  rollup: RollupRules;
+  // Per board, in display order; the first one is the default for new tasks
+  taskTypes: TaskType[];
 }
 
 export interface FilterState {
@@ -60,6 +122,10 @@ export interface FilterState {
   customStars: number[];
   dateRange: { start: Date; end: Date } | null;
   showOnlyActive: boolean;
+  // Only projects whose earned-value SPI is below the behind-schedule threshold
+  showOnlyBehind: boolean;
+  // Advanced AND/OR conditions over any field, applied on top of the facets above
+  query: QueryGroup | null;
 }
 
 export type ViewType = 'grid' | 'chart' | 'table' | 'gantt' | 'persons';
@@ -78,7 +144,7 @@ export interface AppState {
   projectOrder: string[]; // ordered project IDs for drag-and-drop reordering
 }
 
-export type DynamicColumnType = 'text' | 'number' | 'date' | 'select' | 'tags' | 'checkbox';
+export type DynamicColumnType = 'text' | 'number' | 'date' | 'select' | 'tags' | 'checkbox' | 'formula';
 
 export interface DynamicColumn {
   id: string;
@@ -103,9 +169,12 @@ export type AppAction =
   | { type: 'SET_LOAD_MODE'; payload: 'calculated' | 'reported' }
   | { type: 'UPDATE_PROJECT'; payload: { id: string; updates: Partial<Project> } }
   | { type: 'BULK_UPDATE_PROJECTS'; payload: Record<string, Partial<Project>> }
+  // A table paste: cells written over existing rows plus the rows it adds after `afterId`
+  | { type: 'PASTE_PROJECTS'; payload: { updates: Record<string, Partial<Project>>; added: Project[]; afterId: string | null } }
   | { type: 'ADD_PROJECT'; payload: Project }
   | { type: 'DELETE_PROJECT'; payload: string }
   | { type: 'REORDER_PROJECTS'; payload: string[] }
   | { type: 'UPDATE_HIERARCHY'; payload: { projectId: string; newParentId: string | null } }
   | { type: 'TOGGLE_EXPANSION'; payload: string }
+  | { type: 'APPLY_REMOTE_PROJECTS'; payload: { upserts: Project[]; deletes: string[]; projectOrder: string[] | null } }
   | { type: 'MARK_SAVED' };
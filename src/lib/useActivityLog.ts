@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { isSupabaseConfigured } from './supabaseClient';
+import { runOrQueue } from './mutationOutbox';
+import {
+  appendLocalActivity,
+  listBoardActivity,
+  listTaskActivity,
+  loadLocalActivity,
+  type ActivityEntry,
+} from './activityLogRepository';
+import { mergeActivityDrafts, type ActivityDraft } from './activityLog';
+
+// Quiet period before buffered changes are written, so bursts collapse into one entry
+const FLUSH_DELAY_MS = 1_500;
+
+interface ActivityActor {
+  userId: string | null;
+  label: string | null;
+}
+
+interface PendingActivity {
+  boardId: string | null;
+  useCloud: boolean;
+  drafts: ActivityDraft[];
+}
+
+/**
+ * Append-only activity log of the active board. Changes are buffered briefly
+ * and merged, then written through the outbox on cloud boards or to
+ * localStorage on boards without cloud.
+ */
+export function useActivityLog(boardId: string | null, actor: ActivityActor) {
+  const useCloud = !!boardId && !!actor.userId && isSupabaseConfigured;
+  const pendingRef = useRef<PendingActivity>({ boardId, useCloud, drafts: [] });
+  const timerRef = useRef<number | null>(null);
+  const actorRef = useRef(actor);
+  actorRef.current = actor;
+
+  const flush = useCallback(async (): Promise<void> => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const { boardId: targetBoardId, useCloud: cloud, drafts } = pendingRef.current;
+    pendingRef.current = { ...pendingRef.current, drafts: [] };
+    if (drafts.length === 0) return;
+    const author = actorRef.current;
+    const createdAt = new Date().toISOString();
+    const entries: ActivityEntry[] = mergeActivityDrafts(drafts).map((draft) => ({
+      id: crypto.randomUUID(),
+      board_id: targetBoardId || 'local',
+      task_id: draft.taskId,
+      task_name: draft.taskName,
+      actor_id: author.userId,
+      actor_label: author.label,
+      action: draft.action,
+      changes: draft.changes,
+      detail: draft.detail,
+      created_at: createdAt,
+    }));
+    if (entries.length === 0) return;
+    if (cloud && targetBoardId) {
+      try {
+        await runOrQueue(targetBoardId, { kind: 'activity.append', entries });
+      } catch (err) {
+        console.error('Activity log write failed:', err);
+      }
+      return;
+    }
+    appendLocalActivity(targetBoardId, entries);
+  }, []);
+
+  // Whatever is still buffered belongs to the board it was recorded on
+  useEffect(() => {
+    void flush();
+    pendingRef.current = { boardId, useCloud, drafts: [] };
+  }, [boardId, useCloud, flush]);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const onBeforeUnload = () => {
+      void flush();
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => {
+      window.removeEventListener('beforeunload', onBeforeUnload);
+      void flush();
+    };
+  }, [flush]);
+
+  const record = useCallback((drafts: ActivityDraft[]) => {
+    if (drafts.length === 0 || typeof window === 'undefined') return;
+    pendingRef.current = { ...pendingRef.current, drafts: [...pendingRef.current.drafts, ...drafts] };
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(() => void flush(), FLUSH_DELAY_MS);
+  }, [flush]);
+
+  /** Board feed, newest first; pending changes are written first so the feed includes them */
+  const loadBoardActivity = useCallback(async (): Promise<ActivityEntry[]> => {
+    await flush();
+    if (!useCloud || !boardId) return loadLocalActivity(boardId);
+    return listBoardActivity(boardId);
+  }, [useCloud, boardId, flush]);
+
+  const loadTaskActivity = useCallback(async (taskId: string): Promise<ActivityEntry[]> => {
+    await flush();
+    if (!useCloud || !boardId) return loadLocalActivity(boardId).filter((e) => e.task_id === taskId);
+    return listTaskActivity(boardId, taskId);
+  }, [useCloud, boardId, flush]);
+
+  return { record, loadBoardActivity, loadTaskActivity };
+}
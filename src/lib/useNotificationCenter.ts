@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Project } from './types';
+import { isSupabaseConfigured } from './supabaseClient';
+import {
+  insertNotifications,
+  listNotificationPreferences,
+  listNotifications,
+  loadLocalNotificationPreferences,
+  loadLocalNotifications,
+  markNotificationsRead,
+  saveLocalNotificationPreferences,
+  saveLocalNotifications,
+  saveNotificationPreferences,
+  type AppNotification,
+  type MemberNotificationPreferences,
+  type NewNotification,
+  type NotificationPreferences,
+} from './notificationsRepository';
+import { dueDrafts, routeDrafts, type NotificationDraft } from './notificationRules';
+
+const REFRESH_INTERVAL_MS = 60_000;
+const DUE_CHECK_DELAY_MS = 2_000;
+
+interface NotificationActor {
+  userId: string | null;
+  label: string | null;
+}
+
+function toLocalNotification(row: NewNotification): AppNotification {
+  return { ...row, read_at: null, created_at: new Date().toISOString() };
+}
+
+/**
+ * Notification inbox of the current user on the active board. Cloud boards
+ * store notifications server-side so other members' changes reach this user;
+ * local boards keep them in localStorage and only get due-date reminders.
+ */
+export function useNotificationCenter(boardId: string | null, actor: NotificationActor, projects: Project[]) {
+  const userId = actor.userId;
+  const useCloud = !!boardId && !!userId && isSupabaseConfigured;
+  const [notifications, setNotifications] = useState<AppNotification[]>(() => loadLocalNotifications(boardId, userId));
+  const [preferences, setPreferences] = useState<NotificationPreferences>(() => loadLocalNotificationPreferences(boardId, userId));
+  const [members, setMembers] = useState<MemberNotificationPreferences[]>([]);
+  const notificationsRef = useRef(notifications);
+  notificationsRef.current = notifications;
+
+  const commitLocal = useCallback((next: AppNotification[]) => {
+    setNotifications(next);
+    saveLocalNotifications(boardId, userId, next);
+  }, [boardId, userId]);
+
+  const refresh = useCallback(async () => {
+    if (!useCloud || !boardId || !userId) return;
+    try {
+      const [rows, memberPrefs] = await Promise.all([
+        listNotifications(boardId, userId),
+        listNotificationPreferences(boardId),
+      ]);
+      commitLocal(rows);
+      setMembers(memberPrefs);
+      const mine = memberPrefs.find((m) => m.userId === userId);
+      if (mine) {
+        const { userId: _userId, ...own } = mine;
+        setPreferences(own);
+        saveLocalNotificationPreferences(boardId, userId, own);
+      }
+    } catch (err) {
+      console.error('Notifications load failed:', err);
+    }
+  }, [useCloud, boardId, userId, commitLocal]);
+
+  useEffect(() => {
+    setNotifications(loadLocalNotifications(boardId, userId));
+    setPreferences(loadLocalNotificationPreferences(boardId, userId));
+    setMembers([]);
+    if (!useCloud || typeof window === 'undefined') return;
+    void refresh();
+    const onFocus = () => {
+      void refresh();
+    };
+    const timer = window.setInterval(() => void refresh(), REFRESH_INTERVAL_MS);
+    window.addEventListener('focus', onFocus);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('focus', onFocus);
+    };
+  }, [boardId, userId, useCloud, refresh]);
+
+  /** Routes drafts to other members; a no-op on local boards, which have nobody else to tell */
+  const emit = useCallback((drafts: NotificationDraft[]) => {
+    if (!useCloud || !boardId || drafts.length === 0) return;
+    const rows = routeDrafts(drafts, members, boardId, actor);
+    if (rows.length === 0) return;
+    insertNotifications(rows).catch((err) => {
+      console.error('Notification send failed:', err);
+    });
+  }, [useCloud, boardId, members, actor]);
+
+  // Due-date reminders are generated by the recipient's own client
+  useEffect(() => {
+    if (!preferences.due || !preferences.person || typeof window === 'undefined') return;
+    const timer = window.setTimeout(() => {
+      const known = new Set(notificationsRef.current.map((n) => n.dedupe_key));
+      const drafts = dueDrafts(projects, preferences).filter((d) => !known.has(d.dedupeKey));
+      if (drafts.length === 0) return;
+      const rows: NewNotification[] = drafts.map((d) => ({
+        id: crypto.randomUUID(),
+        board_id: boardId || 'local',
+        user_id: userId || 'local',
+        kind: d.kind,
+        task_id: d.taskId,
+        title: d.title,
+        body: d.body,
+        actor_label: null,
+        dedupe_key: d.dedupeKey,
+      }));
+      if (useCloud) {
+        insertNotifications(rows)
+          .then(() => refresh())
+          .catch((err) => console.error('Due reminders failed:', err));
+        return;
+      }
+      commitLocal([...rows.map(toLocalNotification), ...notificationsRef.current]);
+    }, DUE_CHECK_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [projects, preferences, boardId, userId, useCloud, refresh, commitLocal]);
+
+  const markRead = useCallback((ids: string[] | 'all') => {
+    const targets = ids === 'all'
+      ? notificationsRef.current.filter((n) => !n.read_at).map((n) => n.id)
+      : ids.filter((id) => notificationsRef.current.some((n) => n.id === id && !n.read_at));
+    if (targets.length === 0) return;
+    const readAt = new Date().toISOString();
+    const targetSet = new Set(targets);
+    commitLocal(notificationsRef.current.map((n) => (targetSet.has(n.id) ? { ...n, read_at: readAt } : n)));
+    if (useCloud) {
+      markNotificationsRead(targets, readAt).catch((err) => {
+        console.error('Notification read failed:', err);
+      });
+    }
+  }, [useCloud, commitLocal]);
+
+  const updatePreferences = useCallback(async (next: NotificationPreferences) => {
+    setPreferences(next);
+    saveLocalNotificationPreferences(boardId, userId, next);
+    if (!useCloud || !boardId || !userId) return;
+    await saveNotificationPreferences(boardId, userId, next);
+    setMembers((prev) => [...prev.filter((m) => m.userId !== userId), { ...next, userId }]);
+  }, [useCloud, boardId, userId]);
+
+  const unreadCount = useMemo(() => notifications.filter((n) => !n.read_at).length, [notifications]);
+
+  return {
+    notifications,
+    unreadCount,
+    preferences,
+    emit,
+    markRead,
+    updatePreferences,
+  };
+}
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isSupabaseConfigured } from './supabaseClient';
+import {
+  deleteSavedView,
+  listSavedViews,
+  loadLocalSavedViews,
+  saveLocalSavedViews,
+  sortSavedViews,
+  upsertSavedView,
+  type SavedView,
+} from './savedViewsRepository';
+import type { SavedViewConfig } from './savedViews';
+
+interface SavedViewsOwner {
+  userId: string | null;
+  label: string | null;
+}
+
+/**
+ * Saved views of the active board. Cloud boards keep them in Supabase, where
+ * shared views reach every member; boards without cloud keep them locally.
+ */
+export function useSavedViews(boardId: string | null, owner: SavedViewsOwner) {
+  const userId = owner.userId;
+  const useCloud = !!boardId && !!userId && isSupabaseConfigured;
+  const [views, setViews] = useState<SavedView[]>(() => loadLocalSavedViews(boardId));
+  const viewsRef = useRef(views);
+  viewsRef.current = views;
+
+  const commitLocal = useCallback((next: SavedView[]) => {
+    const sorted = sortSavedViews(next);
+    setViews(sorted);
+    saveLocalSavedViews(boardId, sorted);
+  }, [boardId]);
+
+  const refresh = useCallback(async () => {
+    if (!useCloud || !boardId || !userId) return;
+    try {
+      commitLocal(await listSavedViews(boardId, userId));
+    } catch (err) {
+      console.error('Saved views load failed:', err);
+    }
+  }, [useCloud, boardId, userId, commitLocal]);
+
+  useEffect(() => {
+    setViews(loadLocalSavedViews(boardId));
+    if (!useCloud || typeof window === 'undefined') return;
+    void refresh();
+    // Teammates share views while this board is open
+    const onFocus = () => {
+      void refresh();
+    };
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, [boardId, useCloud, refresh]);
+
+  const persist = useCallback(async (view: SavedView) => {
+    if (useCloud) await upsertSavedView(view);
+    commitLocal([...viewsRef.current.filter((v) => v.id !== view.id), view]);
+  }, [useCloud, commitLocal]);
+
+  const createView = useCallback(async (name: string, config: SavedViewConfig, shared: boolean): Promise<SavedView> => {
+    const now = new Date().toISOString();
+    const view: SavedView = {
+      id: crypto.randomUUID(),
+      board_id: boardId || 'local',
+      owner_id: userId,
+      owner_label: owner.label,
+      name: name.trim(),
+      shared: useCloud && shared,
+      config,
+      created_at: now,
+      updated_at: now,
+    };
+    await persist(view);
+    return view;
+  }, [boardId, userId, owner.label, useCloud, persist]);
+
+  const updateView = useCallback(async (viewId: string, changes: Partial<Pick<SavedView, 'name' | 'shared' | 'config'>>) => {
+    const current = viewsRef.current.find((v) => v.id === viewId);
+    if (!current) return;
+    await persist({ ...current, ...changes, updated_at: new Date().toISOString() });
+  }, [persist]);
+
+  const removeView = useCallback(async (viewId: string) => {
+    if (useCloud) await deleteSavedView(viewId);
+    commitLocal(viewsRef.current.filter((v) => v.id !== viewId));
+  }, [useCloud, commitLocal]);
+
+  /** Views from teammates are read-only here */
+  const canEditView = useCallback(
+    (view: SavedView) => !useCloud || !view.owner_id || view.owner_id === userId,
+    [useCloud, userId]
+  );
+
+  return { views, createView, updateView, removeView, canEditView, refresh };
+}
@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  acquireSyncHold,
+  getSyncSchedulerState,
+  subscribeSyncScheduler,
+  type SyncHoldScope,
+  type SyncSchedulerState,
+} from '@/lib/syncScheduler';
+
+export function useSyncSchedulerState(): SyncSchedulerState {
+  return useSyncExternalStore(subscribeSyncScheduler, getSyncSchedulerState, getSyncSchedulerState);
+}
+
+/** Hold sync on a scope while `active` is true; released on change or unmount */
+export function useSyncHold(scope: SyncHoldScope, active: boolean, reason?: string): void {
+  useEffect(() => {
+    if (!active) return;
+    return acquireSyncHold(scope, { reason, ttlMs: null });
+  }, [scope, active, reason]);
+}
@@ -0,0 +1,250 @@
+/**
+ * Version Diff - Structured comparison between two board versions
+ * Reports added, removed, modified and moved projects with per-field before/after
+ * values and hierarchy changes, and applies a selective restore of chosen
+ * projects or fields from an older version onto the current board.
+ */
+
+import type { Project } from './types';
+import { detectHierarchyChanges, type HierarchyChange } from './hierarchyEngine';
+import { normalizeBranchList } from './branchUtils';
+
+export interface VersionContent {
+  projects: Project[];
+  projectOrder: string[];
+}
+
+export type VersionDiffField =
+  | 'name'
+  | 'branch'
+  | 'startDate'
+  | 'endDate'
+  | 'assignees'
+  | 'daysRequired'
+  | 'priority'
+  | 'type'
+  | 'blockedBy'
+  | 'blocksTo'
+  | 'reportedLoad'
+  | 'progress'
+  | 'parentId';
+
+export const VERSION_DIFF_FIELDS: { key: VersionDiffField; label: string }[] = [
+  { key: 'name', label: 'Nombre' },
+  { key: 'branch', label: 'Sucursal' },
+  { key: 'startDate', label: 'Inicio' },
+  { key: 'endDate', label: 'Fin' },
+  { key: 'assignees', label: 'Asignados' },
+  { key: 'daysRequired', label: 'Días requeridos' },
+  { key: 'priority', label: 'Prioridad' },
+  { key: 'type', label: 'Tipo' },
+  { key: 'blockedBy', label: 'Bloqueado por' },
+  { key: 'blocksTo', label: 'Bloquea a' },
+  { key: 'reportedLoad', label: 'Carga reportada' },
+  { key: 'progress', label: 'Avance' },
+  { key: 'parentId', label: 'Proyecto padre' },
+];
+
+export interface ProjectFieldChange {
+  field: VersionDiffField;
+  before: Project[VersionDiffField];
+  after: Project[VersionDiffField];
+}
+
+export type ProjectDiffKind = 'added' | 'removed' | 'modified';
+
+export interface ProjectDiffEntry {
+  id: string;
+  name: string;
+  kind: ProjectDiffKind;
+  // Empty for added and removed projects
+  changes: ProjectFieldChange[];
+  // Position among the projects both versions share changed relative to its neighbours
+  moved: boolean;
+  before: Project | null;
+  after: Project | null;
+}
+
+export interface VersionDiff {
+  entries: ProjectDiffEntry[];
+  hierarchyChanges: HierarchyChange[];
+  added: number;
+  removed: number;
+  modified: number;
+  moved: number;
+}
+
+/** Per project: 'all' restores the whole project, a field list only those fields */
+export type VersionRestoreSelection = Record<string, VersionDiffField[] | 'all'>;
+
+function dateKey(value: unknown): string {
+  if (!value) return '';
+  const d = value instanceof Date ? value : new Date(String(value));
+  if (Number.isNaN(d.getTime())) return '';
+  return `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
+}
+
+function fieldKey(project: Project, field: VersionDiffField): string {
+  const value = project[field];
+  switch (field) {
+    case 'startDate':
+    case 'endDate':
+      return dateKey(value);
+    case 'branch':
+      return normalizeBranchList(value as string | string[]).join('|');
+    case 'assignees':
+      return ((value as string[]) || []).join('|');
+    case 'daysRequired':
+    case 'priority':
+    case 'reportedLoad':
+    case 'progress':
+      return value === null || value === undefined ? '' : String(Number(value));
+    default:
+      return value === null || value === undefined ? '' : String(value);
+  }
+}
+
+/**
+ * Ids whose relative order changed. The longest run of shared ids that kept
+ * their order stays put; everything outside it counts as moved.
+ */
+function findMovedIds(fromOrder: string[], toOrder: string[]): Set<string> {
+  const toIds = new Set(toOrder);
+  const fromIndex = new Map(fromOrder.filter((id) => toIds.has(id)).map((id, idx) => [id, idx]));
+  const shared = toOrder.filter((id) => fromIndex.has(id));
+  const seq = shared.map((id) => fromIndex.get(id)!);
+
+  // Longest increasing subsequence (patience sorting) over the old positions
+  const tails: number[] = [];
+  const tailIdx: number[] = [];
+  const prev: number[] = new Array(seq.length).fill(-1);
+  seq.forEach((value, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (tails[mid] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    tails[lo] = value;
+    tailIdx[lo] = i;
+    prev[i] = lo > 0 ? tailIdx[lo - 1] : -1;
+  });
+  const kept = new Set<number>();
+  let k = tailIdx.length > 0 ? tailIdx[tailIdx.length - 1] : -1;
+  while (k >= 0) {
+    kept.add(k);
+    k = prev[k];
+  }
+  return new Set(shared.filter((_, i) => !kept.has(i)));
+}
+
+/** Diff `from` (older) against `to` (newer); entries follow the order of `to`, removed ones last */
+export function diffVersions(from: VersionContent, to: VersionContent): VersionDiff {
+  const fromById = new Map(from.projects.map((p) => [p.id, p]));
+  const toById = new Map(to.projects.map((p) => [p.id, p]));
+  const movedIds = findMovedIds(from.projectOrder, to.projectOrder);
+  const ordered = (order: string[], byId: Map<string, Project>) => {
+    const seen = new Set(order);
+    return [...order.filter((id) => byId.has(id)), ...Array.from(byId.keys()).filter((id) => !seen.has(id))];
+  };
+
+  const entries: ProjectDiffEntry[] = [];
+  ordered(to.projectOrder, toById).forEach((id) => {
+    const after = toById.get(id)!;
+    const before = fromById.get(id) || null;
+    if (!before) {
+      entries.push({ id, name: after.name, kind: 'added', changes: [], moved: false, before: null, after });
+      return;
+    }
+    const changes = VERSION_DIFF_FIELDS
+      .filter(({ key }) => fieldKey(before, key) !== fieldKey(after, key))
+      .map(({ key }) => ({ field: key, before: before[key], after: after[key] }));
+    const moved = movedIds.has(id);
+    if (changes.length === 0 && !moved) return;
+    entries.push({ id, name: after.name, kind: 'modified', changes, moved, before, after });
+  });
+  ordered(from.projectOrder, fromById).forEach((id) => {
+    if (toById.has(id)) return;
+    const before = fromById.get(id)!;
+    entries.push({ id, name: before.name, kind: 'removed', changes: [], moved: false, before, after: null });
+  });
+
+  return {
+    entries,
+    hierarchyChanges: detectHierarchyChanges(from.projects, to.projects),
+    added: entries.filter((e) => e.kind === 'added').length,
+    removed: entries.filter((e) => e.kind === 'removed').length,
+    modified: entries.filter((e) => e.kind === 'modified' && e.changes.length > 0).length,
+    moved: entries.filter((e) => e.moved).length,
+  };
+}
+
+/**
+ * Bring selected projects or fields of `current` back to how they are in
+ * `source`. Projects missing from `source` are removed (their children move up
+ * a level); projects missing from `current` are re-inserted after their nearest
+ * surviving predecessor in the source order.
+ */
+export function applyVersionSelection(
+  current: VersionContent,
+  source: VersionContent,
+  selection: VersionRestoreSelection
+): VersionContent {
+  const sourceById = new Map(source.projects.map((p) => [p.id, p]));
+  const byId = new Map(current.projects.map((p) => [p.id, { ...p }]));
+  let order = current.projectOrder.filter((id) => byId.has(id));
+
+  Object.entries(selection).forEach(([id, choice]) => {
+    const original = sourceById.get(id);
+    const existing = byId.get(id);
+    if (!original) {
+      if (!existing || choice !== 'all') return;
+      byId.delete(id);
+      order = order.filter((orderId) => orderId !== id);
+      byId.forEach((p) => {
+        if (p.parentId === id) p.parentId = existing.parentId ?? null;
+      });
+      return;
+    }
+    if (choice === 'all') {
+      // Whole project: values and position as in the source version
+      byId.set(id, existing ? { ...existing, ...original } : { ...original });
+      order = order.filter((orderId) => orderId !== id);
+      const sourceIdx = source.projectOrder.indexOf(id);
+      const anchor = source.projectOrder.slice(0, Math.max(0, sourceIdx)).reverse().find((prevId) => order.includes(prevId));
+      const insertAt = anchor ? order.indexOf(anchor) + 1 : 0;
+      order = [...order.slice(0, insertAt), id, ...order.slice(insertAt)];
+      return;
+    }
+    if (!existing) return;
+    const target = existing as unknown as Record<string, unknown>;
+    choice.forEach((field) => {
+      target[field] = original[field];
+    });
+  });
+
+  // A restored parent link may point at a project that no longer exists or close a cycle
+  byId.forEach((p) => {
+    if (p.parentId && !byId.has(p.parentId)) p.parentId = null;
+  });
+  byId.forEach((p) => {
+    const seen = new Set<string>([p.id]);
+    let parentId = p.parentId || null;
+    while (parentId) {
+      if (seen.has(parentId)) {
+        p.parentId = null;
+        return;
+      }
+      seen.add(parentId);
+      parentId = byId.get(parentId)?.parentId || null;
+    }
+  });
+
+  return {
+    projects: order.map((id) => byId.get(id)!).concat(
+      Array.from(byId.values()).filter((p) => !order.includes(p.id))
+    ),
+    projectOrder: [...order, ...Array.from(byId.keys()).filter((id) => !order.includes(id))],
+  };
+}
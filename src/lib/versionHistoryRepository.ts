@@ -1,5 +1,8 @@
 import { supabase } from '@/lib/supabaseClient';
-const MAX_VERSIONS_PER_BOARD = 60;
+import { selectVersionsToPrune } from '@/lib/versionRetention';
+// Recent versions loaded with payload; pinned/named ones are always loaded on top
+const MAX_LOADED_VERSIONS = 120;
+const VERSION_COLUMNS = 'id,board_id,created_at,created_by,created_by_label,reason,project_count,changed_projects,fingerprint,payload,pinned,label';
 
 export type BoardVersionRow = {
   id: string;
@@ -12,21 +15,35 @@ export type BoardVersionRow = {
   changed_projects: number;
   fingerprint: string;
   payload: unknown;
+  pinned: boolean | null;
+  label: string | null;
 };
 
 export async function loadBoardVersionRows(boardId: string): Promise<BoardVersionRow[]> {
   if (!supabase) return [];
-  const { data, error } = await supabase
-    .from('board_versions')
-    .select('id,board_id,created_at,created_by,created_by_label,reason,project_count,changed_projects,fingerprint,payload')
-    .eq('board_id', boardId)
-    .order('created_at', { ascending: false })
-    .limit(60);
-  if (error) throw error;
-  return (data || []) as BoardVersionRow[];
+  const [recent, protectedRows] = await Promise.all([
+    supabase
+      .from('board_versions')
+      .select(VERSION_COLUMNS)
+      .eq('board_id', boardId)
+      .order('created_at', { ascending: false })
+      .limit(MAX_LOADED_VERSIONS),
+    supabase
+      .from('board_versions')
+      .select(VERSION_COLUMNS)
+      .eq('board_id', boardId)
+      .or('pinned.eq.true,label.not.is.null')
+      .order('created_at', { ascending: false }),
+  ]);
+  if (recent.error) throw recent.error;
+  if (protectedRows.error) throw protectedRows.error;
+  const byId = new Map<string, BoardVersionRow>();
+  [...(recent.data || []), ...(protectedRows.data || [])].forEach((row) => byId.set(row.id as string, row as BoardVersionRow));
+  return Array.from(byId.values()).sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
 }
 
 export async function insertBoardVersionRow(input: {
+  id: string;
   boardId: string;
   createdBy: string | null;
   createdByLabel: string;
@@ -35,9 +52,12 @@ export async function insertBoardVersionRow(input: {
   changedProjects: number;
   fingerprint: string;
   payload: unknown;
+  pinned?: boolean;
+  label?: string | null;
 }): Promise<void> {
   if (!supabase) return;
   const { error } = await supabase.from('board_versions').insert({
+    id: input.id,
     board_id: input.boardId,
     created_by: input.createdBy,
     created_by_label: input.createdByLabel,
@@ -46,18 +66,44 @@ export async function insertBoardVersionRow(input: {
     changed_projects: input.changedProjects,
     fingerprint: input.fingerprint,
     payload: input.payload,
+    pinned: !!input.pinned,
+    label: input.label || null,
   });
   if (error) throw error;
+  await pruneBoardVersionRows(input.boardId);
+}
 
-  // Keep cloud history bounded per board for predictable performance/storage.
-  const { data: staleRows, error: staleQueryError } = await supabase
+/** Apply the retention tiers to a board's cloud history; pinned/named rows are kept */
+export async function pruneBoardVersionRows(boardId: string): Promise<void> {
+  if (!supabase) return;
+  const { data, error } = await supabase
     .from('board_versions')
-    .select('id')
-    .eq('board_id', input.boardId)
-    .order('created_at', { ascending: false })
-    .range(MAX_VERSIONS_PER_BOARD, MAX_VERSIONS_PER_BOARD + 400);
-  if (staleQueryError) return;
-  const staleIds = (staleRows || []).map((r) => r.id as string).filter(Boolean);
+    .select('id,created_at,pinned,label')
+    .eq('board_id', boardId);
+  if (error) return;
+  const staleIds = selectVersionsToPrune(
+    (data || []).map((row) => ({
+      id: row.id as string,
+      createdAt: row.created_at as string,
+      pinned: !!row.pinned,
+      label: (row.label as string | null) || null,
+    }))
+  );
   if (staleIds.length === 0) return;
-  await supabase.from('board_versions').delete().eq('board_id', input.boardId).in('id', staleIds);
+  await supabase.from('board_versions').delete().eq('board_id', boardId).in('id', staleIds);
+}
+
+export async function updateBoardVersionPin(input: {
+  boardId: string;
+  versionId: string;
+  pinned: boolean;
+  label: string | null;
+}): Promise<void> {
+  if (!supabase) throw new Error('Supabase no esta configurado');
+  const { error } = await supabase
+    .from('board_versions')
+    .update({ pinned: input.pinned, label: input.label })
+    .eq('board_id', input.boardId)
+    .eq('id', input.versionId);
+  if (error) throw error;
 }
@@ -0,0 +1,70 @@
+/**
+ * Version Retention - Tiered pruning of board version history
+ * Recent versions are all kept; older ones thin out to one per day and then one
+ * per week. Pinned or named versions are never pruned.
+ */
+
+import { startOfDay, startOfWeek } from 'date-fns';
+
+export interface VersionRetentionPolicy {
+  // Everything newer than this is kept
+  keepAllHours: number;
+  // Up to this age, the newest version of each day is kept; older, one per week
+  keepDailyDays: number;
+}
+
+export const DEFAULT_VERSION_RETENTION: VersionRetentionPolicy = {
+  keepAllHours: 24,
+  keepDailyDays: 30,
+};
+
+export interface RetainableVersion {
+  id: string;
+  createdAt: string;
+  pinned?: boolean;
+  label?: string | null;
+}
+
+export function isVersionProtected(version: RetainableVersion): boolean {
+  return !!version.pinned || !!version.label?.trim();
+}
+
+/** Ids that fall outside the retention tiers */
+export function selectVersionsToPrune(
+  versions: RetainableVersion[],
+  now: Date = new Date(),
+  policy: VersionRetentionPolicy = DEFAULT_VERSION_RETENTION
+): string[] {
+  const keepAllSince = now.getTime() - policy.keepAllHours * 3_600_000;
+  const dailySince = now.getTime() - policy.keepDailyDays * 86_400_000;
+  const keptBuckets = new Set<string>();
+  const prune: string[] = [];
+
+  // Newest first, so the first version seen in a bucket is the one kept
+  const sorted = [...versions].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  sorted.forEach((version) => {
+    const created = new Date(version.createdAt);
+    const time = created.getTime();
+    if (Number.isNaN(time) || isVersionProtected(version) || time >= keepAllSince) return;
+    const bucket = time >= dailySince
+      ? `d:${startOfDay(created).getTime()}`
+      : `w:${startOfWeek(created, { weekStartsOn: 1 }).getTime()}`;
+    if (keptBuckets.has(bucket)) {
+      prune.push(version.id);
+      return;
+    }
+    keptBuckets.add(bucket);
+  });
+
+  return prune;
+}
+
+/** Convenience for in-memory lists: the same list without pruned entries */
+export function applyVersionRetention<T extends RetainableVersion>(
+  versions: T[],
+  now: Date = new Date(),
+  policy: VersionRetentionPolicy = DEFAULT_VERSION_RETENTION
+): T[] {
+  const prune = new Set(selectVersionsToPrune(versions, now, policy));
+  return prune.size === 0 ? versions : versions.filter((v) => !prune.has(v.id));
+}
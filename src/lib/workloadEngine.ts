@@ -1,7 +1,14 @@
-import type { Project, PersonWorkload, ProjectLoad, AppConfig, FilterState, Granularity } from './types';
+import type { Project, PersonWorkload, ProjectLoad, AppConfig, FilterState, Granularity, PersonAvailability, DynamicColumn } from './types';
 import { getWorkingDays, countWorkingDays, isSameDay, getWeekRanges, getMonthRanges } from './dateUtils';
-import { getDescendants, isParent, getAncestors } from './hierarchyEngine';
+import { aggregateFromChildren, isParent, getAncestors } from './hierarchyEngine';
 import { normalizeBranchList, branchMatches } from './branchUtils';
+import { normalizePersonKey, DEFAULT_PERSON_CAPACITY } from './personProfiles';
+import { countQueryConditions, createQueryContext, matchesQuery } from './queryFilter';
+import { countsTowardLoad } from './taskTypes';
+
+// Load ratio reported when work is assigned on a day the person is not available at all.
+// Lands in the critical band of getLoadColor so absences with work are always flagged.
+export const UNAVAILABLE_ASSIGNED_LOAD = 1.5;
 
 export function loadPersonCatalogFromStorage(boardId: string | null): string[] {
   if (typeof window === 'undefined') return [];
@@ -53,47 +60,12 @@ export function computeProjectFields(project: Omit<Project, 'assignedDays' | 'ba
   let dailyLoad = 0;
   let totalHours = 0;
 
-  // If this is a parent project, use aggregated dates from children
-  let startDate = project.startDate;
-  let endDate = project.endDate;
-  let assignees = project.assignees;
-  let daysRequired = project.daysRequired;
-  let priority = project.priority;
-
-  if (allProjects && isParent(project.id, allProjects)) {
-    const descendants = getDescendants(project.id, allProjects);
-    if (descendants.length > 0) {
-      // Aggregated dates: min start, max end
-      const allDates = descendants
-        .flatMap(p => {
-          const dates: Date[] = [];
-          if (p.startDate) dates.push(p.startDate);
-          if (p.endDate) dates.push(p.endDate);
-          return dates;
-        });
-
-      if (allDates.length > 0) {
-        startDate = new Date(Math.min(...allDates.map(d => d.getTime())));
-        endDate = new Date(Math.max(...allDates.map(d => d.getTime())));
-      }
-
-      // Aggregated assignees: unique set
-      const allAssignees = new Set<string>();
-      descendants.forEach(p => {
-        p.assignees.forEach(a => allAssignees.add(a));
-      });
-      assignees = Array.from(allAssignees).sort();
-
-      // Aggregated daysRequired: sum
-      daysRequired = descendants.reduce((sum, p) => sum + p.daysRequired, 0);
-
-      // Aggregated priority: weighted average by daysRequired
-      const totalDays = daysRequired || 1;
-      priority = Math.round(
-        descendants.reduce((sum, p) => sum + p.priority * p.daysRequired, 0) / totalDays
-      );
-    }
-  }
+  // If this is a parent project, summarize its children following the board's rollup rules
+  // (progress stays as stored: earned value rolls it up on its own)
+  const { progress: _progress, ...rolled } = allProjects && isParent(project.id, allProjects)
+    ? aggregateFromChildren(project.id, allProjects, config)
+    : ({} as Partial<Project>);
+  const { startDate, endDate, daysRequired } = { ...project, ...rolled };
 
   if (startDate && endDate) {
     assignedDays = countWorkingDays(startDate, endDate, config);
@@ -104,11 +76,7 @@ export function computeProjectFields(project: Omit<Project, 'assignedDays' | 'ba
 
   return {
     ...project,
-    startDate,
-    endDate,
-    assignees,
-    daysRequired,
-    priority,
+    ...rolled,
     assignedDays,
     balanceDays,
     dailyLoad,
@@ -151,7 +119,9 @@ export function applyFilters(
   filters: FilterState,
   config: AppConfig,
   dynamicValues?: Map<string, Record<string, string | number | boolean | string[] | null>>,
-  customColumnTypes?: Map<string, 'tags' | 'stars'>
+  customColumnTypes?: Map<string, 'tags' | 'stars'>,
+  behindScheduleIds?: Set<string>,
+  dynamicColumns?: DynamicColumn[]
 ): Project[] {
   const normalizeTags = (raw: unknown): string[] => {
     if (Array.isArray(raw)) return raw.map((x) => String(x).trim()).filter(Boolean);
@@ -159,6 +129,9 @@ export function applyFilters(
     return [];
   };
 
+  const query = filters.query && countQueryConditions(filters.query) > 0 ? filters.query : null;
+  const queryContext = query ? createQueryContext(projects, dynamicColumns, dynamicValues) : null;
+
   // First pass: apply basic filters per-project
   const matched = projects.filter((p) => {
     const today = new Date();
@@ -184,7 +157,7 @@ export function applyFilters(
       }
     }
     if (filters.showOnlyActive) {
-      if (p.type === 'En radar') return false;
+      if (!countsTowardLoad(p, config.taskTypes)) return false;
       if (!p.startDate || !p.endDate) return false;
       const start = new Date(p.startDate);
       start.setHours(0, 0, 0, 0);
@@ -195,6 +168,8 @@ export function applyFilters(
     if (filters.dateRange && p.startDate && p.endDate) {
       if (p.endDate < filters.dateRange.start || p.startDate > filters.dateRange.end) return false;
     }
+    if (filters.showOnlyBehind && behindScheduleIds && !behindScheduleIds.has(p.id)) return false;
+    if (query && queryContext && !matchesQuery(p, query, queryContext)) return false;
     return true;
   });
 
@@ -214,12 +189,25 @@ export function applyFilters(
   return recomputed;
 }
 
+export function getPersonCapacityOn(
+  person: string,
+  date: Date,
+  availability?: Map<string, PersonAvailability>
+): number {
+  const entry = availability?.get(normalizePersonKey(person));
+  if (!entry) return DEFAULT_PERSON_CAPACITY;
+  const isAbsent = entry.absences.some((a) => date >= a.start && date <= a.end);
+  return isAbsent ? 0 : entry.capacity;
+}
+
 export function calculateDailyWorkload(
   projects: Project[],
   config: AppConfig,
-  dateRange: { start: Date; end: Date }
+  dateRange: { start: Date; end: Date },
+  availability?: Map<string, PersonAvailability>
 ): Map<string, PersonWorkload[]> {
-  const activeProjects = getActiveProjects(projects);
+  // Types that do not count toward load (like 'En radar') stay out of everyone's workload
+  const activeProjects = getActiveProjects(projects).filter((p) => countsTowardLoad(p, config.taskTypes));
   const persons = getPersons(activeProjects);
   const result = new Map<string, PersonWorkload[]>();
 
@@ -230,8 +218,9 @@ export function calculateDailyWorkload(
     const workloads: PersonWorkload[] = [];
 
     for (const day of workingDays) {
+      const capacity = getPersonCapacityOn(person, day, availability);
       const projectLoads: ProjectLoad[] = [];
-      let totalLoad = 0;
+      let assignedLoad = 0;
 
       for (const proj of personProjects) {
         if (proj.startDate && proj.endDate && day >= proj.startDate && day <= proj.endDate) {
@@ -243,15 +232,31 @@ export function calculateDailyWorkload(
               projectName: proj.name,
               dailyLoad: loadPerAssignee,
             });
-            totalLoad += loadPerAssignee;
+            assignedLoad += loadPerAssignee;
           }
         }
       }
 
+      // Express load relative to the person's real availability that day
+      let totalLoad = assignedLoad;
+      if (capacity <= 0) {
+        totalLoad = assignedLoad > 0 ? UNAVAILABLE_ASSIGNED_LOAD : 0;
+        projectLoads.forEach((pl) => {
+          pl.dailyLoad = (pl.dailyLoad / assignedLoad) * UNAVAILABLE_ASSIGNED_LOAD;
+        });
+      } else if (capacity !== 1) {
+        totalLoad = assignedLoad / capacity;
+        projectLoads.forEach((pl) => {
+          pl.dailyLoad = pl.dailyLoad / capacity;
+        });
+      }
+
       workloads.push({
         person,
         date: day,
         totalLoad,
+        assignedLoad,
+        capacity,
         projects: projectLoads,
       });
     }
@@ -267,13 +272,14 @@ export function aggregateByPeriod(
   granularity: Granularity,
   dateRange: { start: Date; end: Date },
   _config: AppConfig
-): { start: Date; end: Date; label: string; avgLoad: number; projects: ProjectLoad[] }[] {
+): { start: Date; end: Date; label: string; avgLoad: number; avgCapacity: number; projects: ProjectLoad[] }[] {
   if (granularity === 'day') {
     return workloads.map((w) => ({
       start: w.date,
       end: w.date,
       label: '',
       avgLoad: w.totalLoad,
+      avgCapacity: w.capacity,
       projects: w.projects,
     }));
   }
@@ -289,6 +295,9 @@ export function aggregateByPeriod(
     const avgLoad = daysInRange.length > 0
       ? daysInRange.reduce((sum, d) => sum + d.totalLoad, 0) / daysInRange.length
       : 0;
+    const avgCapacity = daysInRange.length > 0
+      ? daysInRange.reduce((sum, d) => sum + d.capacity, 0) / daysInRange.length
+      : DEFAULT_PERSON_CAPACITY;
 
     const projectMap = new Map<string, ProjectLoad>();
     daysInRange.forEach((d) => {
@@ -302,6 +311,7 @@ export function aggregateByPeriod(
     return {
       ...range,
       avgLoad,
+      avgCapacity,
       projects: Array.from(projectMap.values()),
     };
   });
@@ -323,6 +333,10 @@ export function getPersonSummary(
   const avgLoad = workloads.length > 0
     ? workloads.reduce((sum, w) => sum + w.totalLoad, 0) / workloads.length
     : 0;
+  const avgCapacity = workloads.length > 0
+    ? workloads.reduce((sum, w) => sum + w.capacity, 0) / workloads.length
+    : DEFAULT_PERSON_CAPACITY;
+  const absentDays = workloads.filter((w) => w.capacity <= 0).length;
 
   let peakLoad = 0;
   let peakDate: Date | null = null;
@@ -344,6 +358,8 @@ export function getPersonSummary(
     activeProjects: activeProjects.length,
     currentLoad,
     avgLoad,
+    avgCapacity,
+    absentDays,
     peakLoad,
     peakDate,
     upcomingProjects,
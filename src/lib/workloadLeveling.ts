@@ -0,0 +1,238 @@
+/**
+ * Workload Leveling - Proposes date shifts that bring daily load under a threshold
+ * Greedy pass over overloaded people: lower-priority leaf projects are moved later
+ * or stretched within their dependency slack, keeping whichever option removes the
+ * most overload according to calculateDailyWorkload.
+ */
+
+import type { Project, AppConfig, PersonAvailability, PersonWorkload } from './types';
+import { calculateDailyWorkload, computeProjectFields, getActiveProjects } from './workloadEngine';
+import { buildDependencyGraph, computeDependencySchedule } from './dependencyGraph';
+import { startOfDay } from 'date-fns';
+import { addWorkingDays, getDateRange } from './dateUtils';
+import { isParent } from './hierarchyEngine';
+
+// Upper bound for how far a project without dependency constraints may be pushed
+export const MAX_LEVELING_SHIFT_DAYS = 15;
+const MAX_LEVELING_ITERATIONS = 200;
+
+export type LevelingProposalKind = 'move' | 'stretch';
+
+export interface LevelingProposal {
+  projectId: string;
+  projectName: string;
+  assignees: string[];
+  priority: number;
+  kind: LevelingProposalKind;
+  shiftDays: number;
+  fromStart: Date;
+  fromEnd: Date;
+  toStart: Date;
+  toEnd: Date;
+  // Sum of load above threshold for the project's assignees, before and after this change
+  overloadBefore: number;
+  overloadAfter: number;
+}
+
+export interface LevelingOptions {
+  threshold: number;
+  person?: string | null;
+  availability?: Map<string, PersonAvailability>;
+  maxShiftDays?: number;
+  // Only these projects may be moved (e.g. the visible ones); every project still counts toward load
+  movableIds?: Set<string> | null;
+}
+
+export interface LevelingResult {
+  proposals: LevelingProposal[];
+  peakBefore: Record<string, number>;
+  peakAfter: Record<string, number>;
+  // peakAfterEach[i]: peaks once proposals 0..i are applied; only such prefixes are consistent
+  peakAfterEach: Record<string, number>[];
+  overloadBefore: number;
+  overloadAfter: number;
+}
+
+interface LevelingCandidate {
+  kind: LevelingProposalKind;
+  shift: number;
+  list: Project[];
+  load: Map<string, PersonWorkload[]>;
+  after: number;
+}
+
+function overloadFor(workloads: PersonWorkload[] | undefined, threshold: number): number {
+  if (!workloads) return 0;
+  return workloads.reduce((sum, w) => sum + Math.max(0, w.totalLoad - threshold), 0);
+}
+
+function peakFor(workloads: PersonWorkload[] | undefined): number {
+  if (!workloads || workloads.length === 0) return 0;
+  return Math.max(...workloads.map((w) => w.totalLoad));
+}
+
+/**
+ * Working days a project can slip before its end reaches the earliest successor start.
+ * Projects in a dependency cycle get no slack at all.
+ */
+function getShiftSlack(
+  project: Project,
+  projects: Project[],
+  successorIds: string[],
+  inCycle: boolean,
+  config: AppConfig,
+  maxShift: number
+): number {
+  if (inCycle || !project.endDate) return 0;
+  let slack = maxShift;
+  successorIds.forEach((succId) => {
+    const succ = projects.find((p) => p.id === succId);
+    if (!succ?.startDate) return;
+    const succStart = startOfDay(succ.startDate);
+    let allowed = 0;
+    while (allowed < slack && addWorkingDays(project.endDate!, allowed + 1, config) < succStart) {
+      allowed += 1;
+    }
+    slack = allowed;
+  });
+  return slack;
+}
+
+/**
+ * Build leveling proposals for one person or the whole board.
+ * Proposals are cumulative: each one was evaluated on top of the previous ones,
+ * so only a prefix of the list can be applied without breaking slack or load.
+ */
+export function proposeWorkloadLeveling(
+  projects: Project[],
+  config: AppConfig,
+  options: LevelingOptions
+): LevelingResult {
+  const { threshold, person = null, availability, movableIds = null } = options;
+  const maxShift = options.maxShiftDays ?? MAX_LEVELING_SHIFT_DAYS;
+
+  let working = projects.map((p) => ({ ...p }));
+  const schedule = computeDependencySchedule(projects, config);
+  const graph = buildDependencyGraph(projects);
+
+  const baseRange = getDateRange(getActiveProjects(projects));
+  if (!baseRange) {
+    return { proposals: [], peakBefore: {}, peakAfter: {}, peakAfterEach: [], overloadBefore: 0, overloadAfter: 0 };
+  }
+  // Leave room for projects pushed beyond the current last date
+  const range = { start: baseRange.start, end: addWorkingDays(baseRange.end, maxShift + 1, config) };
+
+  const evaluate = (list: Project[]) => calculateDailyWorkload(list, config, range, availability);
+  const targetPersons = (load: Map<string, PersonWorkload[]>) =>
+    person ? [person] : Array.from(load.keys());
+  const totalOverload = (load: Map<string, PersonWorkload[]>, persons: string[]) =>
+    persons.reduce((sum, p) => sum + overloadFor(load.get(p), threshold), 0);
+
+  const initialLoad = evaluate(working);
+  const persons = targetPersons(initialLoad);
+  const peaksOf = (load: Map<string, PersonWorkload[]>) => {
+    const peaks: Record<string, number> = {};
+    persons.forEach((p) => {
+      peaks[p] = peakFor(load.get(p));
+    });
+    return peaks;
+  };
+  const peakBefore = peaksOf(initialLoad);
+  const overloadBefore = totalOverload(initialLoad, persons);
+
+  const proposals: LevelingProposal[] = [];
+  const peakAfterEach: Record<string, number>[] = [];
+  const touched = new Set<string>();
+  let currentLoad = initialLoad;
+
+  for (let iteration = 0; iteration < MAX_LEVELING_ITERATIONS; iteration += 1) {
+    // Most overloaded target person first
+    const overloaded = persons
+      .map((p) => ({ person: p, overload: overloadFor(currentLoad.get(p), threshold) }))
+      .filter((x) => x.overload > 0)
+      .sort((a, b) => b.overload - a.overload);
+    if (overloaded.length === 0) break;
+
+    let applied = false;
+    for (const { person: target } of overloaded) {
+      const overloadedDays = (currentLoad.get(target) || []).filter((w) => w.totalLoad > threshold);
+      const involvedIds = new Set(overloadedDays.flatMap((w) => w.projects.map((pl) => pl.projectId)));
+
+      // Lowest priority first; parents are rolled up from children and never moved directly
+      const candidates = working
+        .filter((p) => involvedIds.has(p.id) && !touched.has(p.id) && !isParent(p.id, working))
+        .filter((p) => !movableIds || movableIds.has(p.id))
+        .filter((p) => p.startDate && p.endDate)
+        .sort((a, b) => a.priority - b.priority || b.dailyLoad - a.dailyLoad);
+
+      for (const candidate of candidates) {
+        const node = schedule.nodes.get(candidate.id);
+        const slack = getShiftSlack(
+          candidate,
+          working,
+          graph.successors.get(candidate.id) || [],
+          !!node?.inCycle,
+          config,
+          maxShift
+        );
+        if (slack <= 0) continue;
+
+        // Judge every assignee so relieving one person never overloads a co-assignee
+        const affectedPersons = candidate.assignees;
+        const before = totalOverload(currentLoad, affectedPersons);
+        let best: LevelingCandidate | null = null;
+
+        for (let shift = 1; shift <= slack; shift += 1) {
+          for (const kind of ['stretch', 'move'] as LevelingProposalKind[]) {
+            const toStart = kind === 'move' ? addWorkingDays(candidate.startDate!, shift, config) : candidate.startDate!;
+            const toEnd = addWorkingDays(candidate.endDate!, shift, config);
+            const moved = computeProjectFields({ ...candidate, startDate: toStart, endDate: toEnd }, config);
+            const list = working.map((p) => (p.id === candidate.id ? moved : p));
+            const load = evaluate(list);
+            const after = totalOverload(load, affectedPersons);
+            // Prefer the smallest change that gives the best improvement; stretch wins ties
+            if (after < before - 1e-6 && (!best || after < best.after - 1e-6)) {
+              best = { kind, shift, list, load, after };
+            }
+          }
+          if (best && best.after <= 1e-6) break;
+        }
+
+        if (!best) continue;
+        const chosen: LevelingCandidate = best;
+        const updated = chosen.list.find((p) => p.id === candidate.id)!;
+        proposals.push({
+          projectId: candidate.id,
+          projectName: candidate.name,
+          assignees: candidate.assignees,
+          priority: candidate.priority,
+          kind: chosen.kind,
+          shiftDays: chosen.shift,
+          fromStart: candidate.startDate!,
+          fromEnd: candidate.endDate!,
+          toStart: updated.startDate!,
+          toEnd: updated.endDate!,
+          overloadBefore: before,
+          overloadAfter: chosen.after,
+        });
+        touched.add(candidate.id);
+        working = chosen.list;
+        currentLoad = chosen.load;
+        peakAfterEach.push(peaksOf(currentLoad));
+        applied = true;
+        break;
+      }
+      if (applied) break;
+    }
+    if (!applied) break;
+  }
+
+  return {
+    proposals,
+    peakBefore,
+    peakAfter: peaksOf(currentLoad),
+    peakAfterEach,
+    overloadBefore,
+    overloadAfter: totalOverload(currentLoad, persons),
+  };
+}
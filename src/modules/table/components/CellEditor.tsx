@@ -0,0 +1,122 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import { useUiFeedback } from '@/context/UiFeedbackContext';
+import type { CellEditKind } from '../utils/cellGrid';
+import type { CellMove } from '../hooks/useCellGrid';
+
+interface CellEditorProps {
+  // The cell being edited; the editor sits on top of it
+  cell: HTMLElement;
+  kind: CellEditKind;
+  initialText: string;
+  // Typing into a cell starts from the typed key instead of the current value
+  replacing: boolean;
+  options: string[];
+  onCommit: (text: string, move: CellMove) => boolean;
+  onCancel: () => void;
+}
+
+const PLACEHOLDERS: Partial<Record<CellEditKind, string>> = {
+  date: 'dd/mm/aaaa',
+  list: 'Separar con comas',
+  stars: '0 a 5',
+  progress: '0 a 100',
+};
+
+const INVALID_MESSAGES: Partial<Record<CellEditKind, string>> = {
+  date: 'Fecha no valida. Usa dd/mm/aaaa.',
+  number: 'Escribe un numero.',
+  stars: 'Escribe un numero de 0 a 5.',
+  progress: 'Escribe un porcentaje de 0 a 100.',
+  select: 'Elige una de las opciones de la columna.',
+  list: 'Alguna etiqueta no existe en la columna.',
+};
+
+export function CellEditor({ cell, kind, initialText, replacing, options, onCommit, onCancel }: CellEditorProps) {
+  const { toast } = useUiFeedback();
+  const [text, setText] = useState(initialText);
+  const [rect, setRect] = useState(() => cell.getBoundingClientRect());
+  const inputRef = useRef<HTMLInputElement>(null);
+  const doneRef = useRef(false);
+  const listId = useId();
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    input.focus();
+    if (replacing) input.setSelectionRange(input.value.length, input.value.length);
+    else input.select();
+  }, [replacing]);
+
+  useEffect(() => {
+    const update = () => setRect(cell.getBoundingClientRect());
+    window.addEventListener('scroll', update, true);
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update, true);
+      window.removeEventListener('resize', update);
+    };
+  }, [cell]);
+
+  const commit = (move: CellMove): boolean => {
+    if (doneRef.current) return true;
+    if (!onCommit(text, move)) {
+      toast('error', INVALID_MESSAGES[kind] || 'Valor no valido para esta celda.');
+      return false;
+    }
+    doneRef.current = true;
+    return true;
+  };
+
+  // Leaving with a value that does not fit keeps the old one
+  const commitOrRevert = () => {
+    if (commit('none')) return;
+    doneRef.current = true;
+    onCancel();
+  };
+
+  // A click on another cell moves the focus before the input blurs, so save first
+  const commitOrRevertRef = useRef(commitOrRevert);
+  commitOrRevertRef.current = commitOrRevert;
+  useEffect(() => {
+    const onPointerDown = (e: MouseEvent) => {
+      if (e.target !== inputRef.current) commitOrRevertRef.current();
+    };
+    document.addEventListener('mousedown', onPointerDown, true);
+    return () => document.removeEventListener('mousedown', onPointerDown, true);
+  }, []);
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="text"
+        value={text}
+        list={options.length > 0 ? listId : undefined}
+        placeholder={PLACEHOLDERS[kind]}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            commit(e.shiftKey ? 'up' : 'down');
+          } else if (e.key === 'Tab') {
+            e.preventDefault();
+            commit(e.shiftKey ? 'left' : 'right');
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            e.stopPropagation();
+            doneRef.current = true;
+            onCancel();
+          }
+        }}
+        onBlur={commitOrRevert}
+        className="fixed z-[60] px-2 text-[14px] bg-white border-2 border-[#3B82F6] rounded-sm shadow-lg focus:outline-none"
+        style={{ top: rect.top, left: rect.left, width: Math.max(rect.width, 160), height: rect.height }}
+      />
+      {options.length > 0 && (
+        <datalist id={listId}>
+          {options.map((option) => <option key={option} value={option} />)}
+        </datalist>
+      )}
+    </>
+  );
+}
@@ -1,12 +1,14 @@
-﻿// Define TaskComment interface locally since it's not exported from types
-interface TaskComment {
-  id: string;
-  user_id: string;
-  body: string;
-  created_at: string;
-  author_label?: string;
-  author_avatar_url?: string;
-}
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import type { TaskComment } from '@/lib/taskCommentsRepository';
+import type { ActivityEntry } from '@/lib/activityLogRepository';
+import { ActivityList } from '@/components/shared/ActivityList';
+import {
+  COMMENT_REACTION_EMOJIS,
+  buildCommentThreads,
+  findMentionQuery,
+  parseCommentMentions,
+  summarizeReactions,
+} from '@/lib/commentThreads';
 
 interface CommentsPanelProps {
   commentsOpen: boolean;
@@ -21,9 +23,15 @@ interface CommentsPanelProps {
   setLinkUrlDraft: (url: string) => void;
   linkTitleDraft: string;
   setLinkTitleDraft: (title: string) => void;
-  onAddComment: () => void;
-  onAddLinkComment: () => void;
+  onAddComment: (parentId: string | null) => Promise<void>;
+  onAddLinkComment: (parentId: string | null) => Promise<void>;
+  onEditComment: (commentId: string, body: string) => Promise<void>;
   onDeleteComment: (commentId: string) => void;
+  onToggleReaction: (commentId: string, emoji: string, active: boolean) => void;
+  onLoadActivity: (taskId: string) => Promise<ActivityEntry[]>;
+  // Board persons that can be @mentioned
+  persons: string[];
+  personProfiles: Record<string, { avatarUrl?: string }>;
   user?: { id: string };
 }
 
@@ -35,13 +43,58 @@ function parseLinkComment(body: string): { url: string; title: string } | null {
   return null;
 }
 
+function formatCommentDate(value: string): string {
+  return new Date(value).toLocaleDateString('es-ES', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function CommentBody({
+  body,
+  persons,
+  personProfiles,
+}: {
+  body: string;
+  persons: string[];
+  personProfiles: Record<string, { avatarUrl?: string }>;
+}) {
+  const link = parseLinkComment(body);
+  if (link) {
+    return (
+      <a
+        href={link.url}
+        target="_blank"
+        rel="noreferrer"
+        className="text-xs text-blue-600 hover:text-blue-700 underline break-all"
+      >
+        {link.title || link.url}
+      </a>
+    );
+  }
+  return (
+    <p className="text-xs text-text-primary whitespace-pre-wrap break-words">
+      {parseCommentMentions(body, persons).map((segment, index) => {
+        if (segment.kind === 'text') return <span key={index}>{segment.text}</span>;
+        const avatarUrl = personProfiles[segment.person]?.avatarUrl;
+        return (
+          <span key={index} className="inline-flex items-center gap-0.5 px-1 rounded bg-blue-50 text-blue-700 font-medium align-baseline">
+            {avatarUrl && <img src={avatarUrl} alt="" className="h-3 w-3 rounded-full object-cover" />}
+            @{segment.person}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
 export function CommentsPanel({
   commentsOpen,
   setCommentsOpen,
   comments,
-  setComments,
   commentsTaskId,
-  setCommentsTaskId,
   commentDraft,
   setCommentDraft,
   linkUrlDraft,
@@ -50,20 +103,278 @@ export function CommentsPanel({
   setLinkTitleDraft,
   onAddComment,
   onAddLinkComment,
+  onEditComment,
   onDeleteComment,
+  onToggleReaction,
+  onLoadActivity,
+  persons,
+  personProfiles,
   user,
 }: CommentsPanelProps) {
+  const [tab, setTab] = useState<'comments' | 'activity'>('comments');
+  const [activity, setActivity] = useState<ActivityEntry[] | null>(null);
+  const [activityError, setActivityError] = useState<string | null>(null);
+  const [replyToId, setReplyToId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
+  const [pickerOpenId, setPickerOpenId] = useState<string | null>(null);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const draftRef = useRef<HTMLTextAreaElement | null>(null);
+
+  useEffect(() => {
+    setReplyToId(null);
+    setEditingId(null);
+    setHistoryOpenId(null);
+    setPickerOpenId(null);
+    setTab('comments');
+    setActivity(null);
+  }, [commentsTaskId]);
+
+  // Reloaded whenever the tab is shown, and after comment changes while it is
+  useEffect(() => {
+    if (!commentsOpen || tab !== 'activity' || !commentsTaskId) return;
+    let cancelled = false;
+    setActivityError(null);
+    onLoadActivity(commentsTaskId)
+      .then((rows) => {
+        if (!cancelled) setActivity(rows);
+      })
+      .catch((err) => {
+        if (!cancelled) setActivityError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [commentsOpen, tab, commentsTaskId, comments, onLoadActivity]);
+
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+  const mentionOptions = useMemo(() => {
+    if (!mention) return [];
+    const q = mention.query.trim().toLowerCase();
+    return persons.filter((p) => p.toLowerCase().includes(q)).slice(0, 6);
+  }, [mention, persons]);
+
   if (!commentsOpen) return null;
   const safeCommentDraft = typeof commentDraft === 'string' ? commentDraft : '';
   const safeLinkUrlDraft = typeof linkUrlDraft === 'string' ? linkUrlDraft : '';
   const safeLinkTitleDraft = typeof linkTitleDraft === 'string' ? linkTitleDraft : '';
+  const replyTo = replyToId ? comments.find((c) => c.id === replyToId) || null : null;
 
-  const submitComment = () => {
-    onAddComment();
+  const updateMention = (text: string, caret: number) => {
+    setMention(findMentionQuery(text, caret));
+    setMentionIndex(0);
   };
 
-  const submitLinkComment = () => {
-    onAddLinkComment();
+  const insertMention = (person: string) => {
+    if (!mention) return;
+    const caret = mention.start + mention.query.length + 1;
+    const next = `${safeCommentDraft.slice(0, mention.start)}@${person} ${safeCommentDraft.slice(caret)}`;
+    setCommentDraft(next);
+    setMention(null);
+    const nextCaret = mention.start + person.length + 2;
+    window.requestAnimationFrame(() => {
+      draftRef.current?.focus();
+      draftRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleDraftKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentionOptions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setMentionIndex((i) => (i + step + mentionOptions.length) % mentionOptions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertMention(mentionOptions[Math.min(mentionIndex, mentionOptions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setMention(null);
+    }
+  };
+
+  const submitComment = async () => {
+    await onAddComment(replyTo?.id ?? null);
+    setReplyToId(null);
+  };
+
+  const submitLinkComment = async () => {
+    await onAddLinkComment(replyTo?.id ?? null);
+    setReplyToId(null);
+  };
+
+  const submitEdit = async () => {
+    if (!editingId || !editDraft.trim()) return;
+    await onEditComment(editingId, editDraft);
+    setEditingId(null);
+  };
+
+  const renderComment = (comment: TaskComment, isReply: boolean) => {
+    const isMine = !!user?.id && comment.user_id === user.id;
+    const isPending = comment.id.startsWith('pending-');
+    const reactions = summarizeReactions(comment.reactions, user?.id ?? null);
+    const history = comment.edit_history || [];
+    return (
+      <div
+        key={comment.id}
+        className={`group rounded-xl border border-border px-3 py-2.5 ${isReply ? 'bg-white' : 'bg-bg-secondary'} ${replyToId === comment.id ? 'ring-2 ring-blue-100' : ''}`}
+      >
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <div className="min-w-0 flex items-center gap-2">
+            {comment.author_avatar_url ? (
+              <img
+                src={comment.author_avatar_url}
+                alt={comment.author_label || 'Avatar'}
+                className="h-5 w-5 rounded-full object-cover border border-border"
+              />
+            ) : (
+              <div className="h-5 w-5 rounded-full bg-bg-tertiary border border-border flex items-center justify-center text-[10px] text-text-secondary">
+                {(comment.author_label || 'A').charAt(0).toUpperCase()}
+              </div>
+            )}
+            <div className="min-w-0">
+              <p className="text-xs font-medium text-text-primary truncate">
+                {comment.author_label || 'Anonimo'}
+              </p>
+              <p className="text-xs text-text-secondary">
+                {formatCommentDate(comment.created_at)}
+                {isPending && ' · en cola'}
+                {comment.edited_at && (
+                  <button
+                    type="button"
+                    onClick={() => setHistoryOpenId(historyOpenId === comment.id ? null : comment.id)}
+                    className="ml-1 underline decoration-dotted hover:text-text-primary"
+                    title="Ver versiones anteriores"
+                  >
+                    (editado)
+                  </button>
+                )}
+              </p>
+            </div>
+          </div>
+          {isMine && !isPending && (
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all">
+              <button
+                onClick={() => {
+                  setEditingId(comment.id);
+                  setEditDraft(comment.body);
+                }}
+                className="h-5 px-1.5 rounded-md border border-border text-[10px] text-text-secondary hover:text-text-primary"
+                title="Editar comentario"
+              >
+                Editar
+              </button>
+              <button
+                onClick={() => onDeleteComment(comment.id)}
+                className="h-5 w-5 rounded-md border border-border text-text-secondary hover:text-[#B71C1C] hover:border-[#B71C1C]"
+                title="Eliminar comentario"
+              >
+                <span className="text-[10px]">×</span>
+              </button>
+            </div>
+          )}
+        </div>
+
+        {editingId === comment.id ? (
+          <div className="space-y-1.5">
+            <textarea
+              value={editDraft}
+              onChange={(e) => setEditDraft(e.target.value)}
+              className="w-full h-20 resize-none rounded-lg border border-border px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-blue-100"
+              autoFocus
+            />
+            <div className="flex items-center justify-end gap-1.5">
+              <button
+                onClick={() => setEditingId(null)}
+                className="px-2 py-1 text-[11px] rounded-lg border border-border text-text-secondary hover:text-text-primary"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={() => void submitEdit()}
+                disabled={!editDraft.trim() || editDraft.trim() === comment.body}
+                className="px-2 py-1 text-[11px] rounded-lg bg-text-primary text-white hover:bg-[#171B22] disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Guardar
+              </button>
+            </div>
+          </div>
+        ) : (
+          <CommentBody body={comment.body} persons={persons} personProfiles={personProfiles} />
+        )}
+
+        {historyOpenId === comment.id && history.length > 0 && (
+          <div className="mt-2 space-y-1 border-l-2 border-border pl-2">
+            {[...history].reverse().map((edit, index) => (
+              <div key={`${edit.edited_at}-${index}`}>
+                <p className="text-[10px] text-text-secondary">Antes de {formatCommentDate(edit.edited_at)}</p>
+                <p className="text-[11px] text-text-secondary whitespace-pre-wrap break-words line-through decoration-text-secondary/40">{edit.body}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!isPending && (
+          <div className="mt-1.5 flex flex-wrap items-center gap-1">
+            {reactions.map((r) => (
+              <button
+                key={r.emoji}
+                type="button"
+                onClick={() => onToggleReaction(comment.id, r.emoji, !r.mine)}
+                className={`h-5 px-1.5 rounded-full border text-[11px] inline-flex items-center gap-1 ${r.mine ? 'border-blue-300 bg-blue-50 text-blue-700' : 'border-border bg-white text-text-secondary hover:bg-bg-secondary'}`}
+              >
+                <span>{r.emoji}</span>
+                <span className="tabular-nums">{r.count}</span>
+              </button>
+            ))}
+            <div className="relative">
+              <button
+                type="button"
+                onClick={() => setPickerOpenId(pickerOpenId === comment.id ? null : comment.id)}
+                className="h-5 px-1.5 rounded-full border border-border text-[11px] text-text-secondary hover:bg-bg-secondary opacity-0 group-hover:opacity-100"
+                title="Reaccionar"
+              >
+                +☺
+              </button>
+              {pickerOpenId === comment.id && (
+                <div className="absolute left-0 bottom-6 z-10 flex items-center gap-0.5 rounded-lg border border-border bg-white shadow-md p-1">
+                  {COMMENT_REACTION_EMOJIS.map((emoji) => {
+                    const mine = reactions.some((r) => r.emoji === emoji && r.mine);
+                    return (
+                      <button
+                        key={emoji}
+                        type="button"
+                        onClick={() => {
+                          onToggleReaction(comment.id, emoji, !mine);
+                          setPickerOpenId(null);
+                        }}
+                        className={`h-6 w-6 rounded-md text-sm hover:bg-bg-secondary ${mine ? 'bg-blue-50' : ''}`}
+                      >
+                        {emoji}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+            {!isReply && (
+              <button
+                type="button"
+                onClick={() => {
+                  setReplyToId(comment.id);
+                  draftRef.current?.focus();
+                }}
+                className="ml-auto text-[11px] text-text-secondary hover:text-text-primary"
+              >
+                Responder
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -74,9 +385,18 @@ export function CommentsPanel({
       />
       <aside role="dialog" aria-label="Panel de comentarios" className="absolute right-0 top-0 h-full w-full max-w-md bg-white border-l border-border shadow-[0_14px_30px_rgba(15,23,42,0.10)] pointer-events-auto flex flex-col">
         <div className="px-4 py-3.5 border-b border-border flex items-center justify-between gap-2">
-          <div className="min-w-0">
-            <p className="text-xs text-text-secondary">Comentarios</p>
-            <p className="text-sm font-medium truncate">Elemento</p>
+          <div className="min-w-0 flex items-center gap-1" role="tablist">
+            {([['comments', 'Comentarios'], ['activity', 'Actividad']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                role="tab"
+                aria-selected={tab === key}
+                onClick={() => setTab(key)}
+                className={`px-2.5 py-1 text-xs rounded-md ${tab === key ? 'bg-bg-secondary text-text-primary font-medium' : 'text-text-secondary hover:text-text-primary'}`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
           <button
             onClick={() => setCommentsOpen(false)}
@@ -88,118 +408,125 @@ export function CommentsPanel({
           </button>
         </div>
 
-        <div className="flex-1 overflow-auto px-4 py-3 space-y-2">
-          {comments.length === 0 ? (
-            <p className="text-xs text-text-secondary">Aun no hay comentarios.</p>
-          ) : (
-            comments.map((comment) => {
-              const isMine = user?.id && comment.user_id === user.id;
-              const link = parseLinkComment(comment.body);
-              return (
-                <div key={comment.id} className="group rounded-xl border border-border bg-bg-secondary px-3 py-2.5">
-                  <div className="flex items-center justify-between gap-2 mb-1">
-                    <div className="min-w-0 flex items-center gap-2">
-                      {comment.author_avatar_url ? (
-                        <img
-                          src={comment.author_avatar_url}
-                          alt={comment.author_label || 'Avatar'}
-                          className="h-5 w-5 rounded-full object-cover border border-border"
-                        />
-                      ) : (
-                        <div className="h-5 w-5 rounded-full bg-bg-tertiary border border-border flex items-center justify-center text-[10px] text-text-secondary">
-                          {(comment.author_label || 'A').charAt(0).toUpperCase()}
-                        </div>
-                      )}
-                      <div className="min-w-0">
-                        <p className="text-xs font-medium text-text-primary truncate">
-                          {comment.author_label || 'Anonimo'}
-                        </p>
-                        <p className="text-xs text-text-secondary">
-                          {new Date(comment.created_at).toLocaleDateString('es-ES', {
-                            day: 'numeric',
-                            month: 'short',
-                            hour: '2-digit',
-                            minute: '2-digit',
-                          })}
-                        </p>
+        {tab === 'activity' ? (
+          <div className="flex-1 overflow-auto px-4 py-1">
+            {activityError ? (
+              <p className="py-3 text-xs text-red-700">No se pudo cargar la actividad: {activityError}</p>
+            ) : activity === null ? (
+              <p className="py-3 text-xs text-text-secondary">Cargando actividad...</p>
+            ) : activity.length === 0 ? (
+              <p className="py-3 text-xs text-text-secondary">Aun no hay actividad registrada.</p>
+            ) : (
+              <ActivityList entries={activity} showTask={false} />
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-auto px-4 py-3 space-y-2">
+              {threads.length === 0 ? (
+                <p className="text-xs text-text-secondary">Aun no hay comentarios.</p>
+              ) : (
+                threads.map((thread) => (
+                  <div key={thread.root.id} className="space-y-1.5">
+                    {renderComment(thread.root, false)}
+                    {thread.replies.length > 0 && (
+                      <div className="ml-5 pl-2 border-l border-border space-y-1.5">
+                        {thread.replies.map((reply) => renderComment(reply, true))}
                       </div>
-                    </div>
-                    {isMine && (
-                      <button
-                        onClick={() => onDeleteComment(comment.id)}
-                        className="opacity-0 group-hover:opacity-100 h-5 w-5 rounded-md border border-border text-text-secondary hover:text-[#B71C1C] hover:border-[#B71C1C] transition-all"
-                        title="Eliminar comentario"
-                      >
-                        <span className="text-[10px]">×</span>
-                      </button>
                     )}
                   </div>
-                  <div className="text-xs text-text-primary">
-                    {link ? (
-                      <a
-                        href={link.url}
-                        target="_blank"
-                        rel="noreferrer"
-                        className="text-xs text-blue-600 hover:text-blue-700 underline break-all"
-                      >
-                        {link.title || link.url}
-                      </a>
-                    ) : (
-                      <p className="text-xs text-text-primary whitespace-pre-wrap break-words">{comment.body}</p>
-                    )}
-                  </div>
-                </div>
-              );
-            })
-          )}
-        </div>
+                ))
+              )}
+            </div>
 
-        <div className="px-4 py-3 border-t border-border">
-          <textarea
-            value={safeCommentDraft}
-            onChange={(e) => setCommentDraft(e.target.value)}
-            placeholder="Escribe un comentario..."
-            className="w-full h-24 resize-none rounded-lg border border-border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-100"
-          />
-          <div className="mt-2 grid grid-cols-1 gap-2">
-            <input
-              value={safeLinkUrlDraft}
-              onChange={(e) => setLinkUrlDraft(e.target.value)}
-              placeholder="https://enlace-importante.com"
-              className="w-full h-9 rounded-lg border border-border px-3 text-sm outline-none focus:ring-2 focus:ring-blue-100"
-            />
-            <input
-              value={safeLinkTitleDraft}
-              onChange={(e) => setLinkTitleDraft(e.target.value)}
-              placeholder="Titulo opcional del enlace"
-              className="w-full h-9 rounded-lg border border-border px-3 text-sm outline-none focus:ring-2 focus:ring-blue-100"
-            />
-          </div>
-          <div className="mt-2 flex items-center justify-end gap-2">
-            <button
-              onClick={() => setCommentsOpen(false)}
-              className="px-3 py-1.5 text-xs rounded-lg border border-border text-text-secondary hover:text-text-primary hover:bg-bg-secondary"
-            >
-              Cerrar
-            </button>
-            <button
-              onClick={submitComment}
-              disabled={!safeCommentDraft.trim()}
-              className="px-3 py-1.5 text-xs rounded-lg bg-text-primary text-white hover:bg-[#171B22] disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              Comentar
-            </button>
-            <button
-              onClick={submitLinkComment}
-              disabled={!safeLinkUrlDraft.trim()}
-              className="px-3 py-1.5 text-xs rounded-lg border border-border bg-white text-text-primary hover:bg-bg-secondary disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              Agregar enlace
-            </button>
-          </div>
-        </div>
+            <div className="px-4 py-3 border-t border-border">
+              {replyTo && (
+                <div className="mb-2 flex items-center justify-between gap-2 rounded-lg bg-bg-secondary px-2.5 py-1.5 text-xs text-text-secondary">
+                  <span className="truncate">Respondiendo a {replyTo.author_label || 'Anonimo'}</span>
+                  <button onClick={() => setReplyToId(null)} className="hover:text-text-primary" title="Cancelar respuesta">×</button>
+                </div>
+              )}
+              <div className="relative">
+                <textarea
+                  ref={draftRef}
+                  value={safeCommentDraft}
+                  onChange={(e) => {
+                    setCommentDraft(e.target.value);
+                    updateMention(e.target.value, e.target.selectionStart ?? e.target.value.length);
+                  }}
+                  onKeyDown={handleDraftKeyDown}
+                  onBlur={() => setMention(null)}
+                  placeholder={replyTo ? 'Escribe una respuesta... (@ para mencionar)' : 'Escribe un comentario... (@ para mencionar)'}
+                  className="w-full h-24 resize-none rounded-lg border border-border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-100"
+                />
+                {mentionOptions.length > 0 && (
+                  <div className="absolute left-2 bottom-full mb-1 z-10 w-56 rounded-lg border border-border bg-white shadow-md py-1">
+                    {mentionOptions.map((person, index) => {
+                      const avatarUrl = personProfiles[person]?.avatarUrl;
+                      return (
+                        <button
+                          key={person}
+                          type="button"
+                          onMouseDown={(e) => {
+                            e.preventDefault();
+                            insertMention(person);
+                          }}
+                          className={`w-full text-left px-2.5 py-1.5 text-xs inline-flex items-center gap-2 ${index === mentionIndex ? 'bg-bg-secondary' : 'hover:bg-bg-secondary'}`}
+                        >
+                          {avatarUrl ? (
+                            <img src={avatarUrl} alt="" className="h-4 w-4 rounded-full object-cover" />
+                          ) : (
+                            <span className="h-4 w-4 rounded-full bg-bg-tertiary flex items-center justify-center text-[9px] text-text-secondary">
+                              {person.charAt(0).toUpperCase()}
+                            </span>
+                          )}
+                          <span className="truncate">{person}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+              <div className="mt-2 grid grid-cols-1 gap-2">
+                <input
+                  value={safeLinkUrlDraft}
+                  onChange={(e) => setLinkUrlDraft(e.target.value)}
+                  placeholder="https://enlace-importante.com"
+                  className="w-full h-9 rounded-lg border border-border px-3 text-sm outline-none focus:ring-2 focus:ring-blue-100"
+                />
+                <input
+                  value={safeLinkTitleDraft}
+                  onChange={(e) => setLinkTitleDraft(e.target.value)}
+                  placeholder="Titulo opcional del enlace"
+                  className="w-full h-9 rounded-lg border border-border px-3 text-sm outline-none focus:ring-2 focus:ring-blue-100"
+                />
+              </div>
+              <div className="mt-2 flex items-center justify-end gap-2">
+                <button
+                  onClick={() => setCommentsOpen(false)}
+                  className="px-3 py-1.5 text-xs rounded-lg border border-border text-text-secondary hover:text-text-primary hover:bg-bg-secondary"
+                >
+                  Cerrar
+                </button>
+                <button
+                  onClick={() => void submitComment()}
+                  disabled={!safeCommentDraft.trim()}
+                  className="px-3 py-1.5 text-xs rounded-lg bg-text-primary text-white hover:bg-[#171B22] disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {replyTo ? 'Responder' : 'Comentar'}
+                </button>
+                <button
+                  onClick={() => void submitLinkComment()}
+                  disabled={!safeLinkUrlDraft.trim()}
+                  className="px-3 py-1.5 text-xs rounded-lg border border-border bg-white text-text-primary hover:bg-bg-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Agregar enlace
+                </button>
+              </div>
+            </div>
+          </>
+        )}
       </aside>
     </div>
   );
 }
-
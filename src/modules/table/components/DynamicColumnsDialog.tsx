@@ -1,4 +1,6 @@
 ﻿import type { DynamicColumn } from '@/lib/types';
+import { validateFormula } from '@/lib/formulaEngine';
+import { FormulaField } from './FormulaEditor';
 
 type DynamicDisplayType = DynamicColumn['type'] | 'progress' | 'stars';
 
@@ -8,6 +10,7 @@ interface DynamicColumnsDialogProps {
     position: number;
     name: string;
     type: DynamicDisplayType;
+    formula?: string;
   } | null;
   setNewColumnDialog: (dialog: DynamicColumnsDialogProps['newColumnDialog']) => void;
   editingColumnName: string;
@@ -18,7 +21,7 @@ interface DynamicColumnsDialogProps {
   setDynamicColumns: (columns: DynamicColumn[]) => void;
   columnValidationToast: { type: 'error'; message: string } | null;
   setColumnValidationToast: (toast: { type: 'error'; message: string } | null) => void;
-  onCreateColumn: (position: number, name: string, type: DynamicDisplayType) => Promise<void>;
+  onCreateColumn: (position: number, name: string, type: DynamicDisplayType, formula?: string) => Promise<void>;
 }
 
 export function DynamicColumnsDialog({
@@ -45,12 +48,17 @@ export function DynamicColumnsDialog({
     checkbox: 'Casilla',
     progress: 'Progreso',
     stars: 'Estrellas',
+    formula: 'Formula',
   };
 
+  const isFormula = newColumnDialog.type === 'formula';
+  const formula = newColumnDialog.formula || '';
+  const formulaError = isFormula ? validateFormula(formula, dynamicColumns, null) : null;
+
   const submitCreateDynamicColumn = async () => {
     const name = newColumnDialog.name.trim();
-    if (!name) return;
-    await onCreateColumn(newColumnDialog.position, name, newColumnDialog.type);
+    if (!name || formulaError) return;
+    await onCreateColumn(newColumnDialog.position, name, newColumnDialog.type, isFormula ? formula.trim() : undefined);
     setNewColumnDialog(null);
   };
 
@@ -78,10 +86,21 @@ export function DynamicColumnsDialog({
           onChange={(e) => setNewColumnDialog((prev: any) => (prev ? { ...prev, type: e.target.value as DynamicDisplayType } : prev))}
           className="w-full h-9 rounded-md border border-border px-3 text-sm outline-none focus:ring-2 focus:ring-blue-100 bg-white"
         >
-          {(['text', 'progress', 'stars', 'number', 'date', 'tags', 'checkbox'] as DynamicDisplayType[]).map((t) => (
+          {(['text', 'progress', 'stars', 'number', 'date', 'tags', 'checkbox', 'formula'] as DynamicDisplayType[]).map((t) => (
             <option key={t} value={t}>{dynamicDisplayLabelEs[t]}</option>
           ))}
         </select>
+        {isFormula && (
+          <>
+            <label className="block text-xs text-text-secondary mt-3 mb-1">Formula</label>
+            <FormulaField
+              value={formula}
+              onChange={(value) => setNewColumnDialog({ ...newColumnDialog, formula: value })}
+              columns={dynamicColumns}
+              error={formulaError}
+            />
+          </>
+        )}
         <div className="mt-4 flex items-center justify-end gap-2">
           <button
             className="px-3 py-1.5 text-xs rounded-md border border-border hover:bg-bg-secondary"
@@ -90,7 +109,8 @@ export function DynamicColumnsDialog({
             Cancelar
           </button>
           <button
-            className="px-3 py-1.5 text-xs rounded-md text-white bg-text-primary hover:bg-[#2c2a25]"
+            disabled={!!formulaError}
+            className="px-3 py-1.5 text-xs rounded-md text-white bg-text-primary hover:bg-[#2c2a25] disabled:opacity-40"
             onClick={() => { void submitCreateDynamicColumn(); }}
           >
             Crear columna
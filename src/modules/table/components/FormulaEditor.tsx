@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import type { DynamicColumn } from '@/lib/types';
+import {
+  FORMULA_AGGREGATE_LABELS,
+  FORMULA_FIELDS,
+  FORMULA_FUNCTIONS,
+  formulaConfigOf,
+  validateFormula,
+  type FormulaAggregate,
+} from '@/lib/formulaEngine';
+
+interface FormulaFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Columns the formula can reference; the edited column itself is left out
+  columns: DynamicColumn[];
+  error: string | null;
+}
+
+/** Formula text area with its validation message and a clickable reference of fields and functions */
+export function FormulaField({ value, onChange, columns, error }: FormulaFieldProps) {
+  const append = (snippet: string) => onChange(value ? `${value.replace(/\s+$/, '')} ${snippet}` : snippet);
+
+  return (
+    <div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={3}
+        spellCheck={false}
+        placeholder='Ej: DAYS(endDate, startDate) * {Costo diario}'
+        className="w-full rounded-md border border-border px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-blue-100 resize-y"
+      />
+      <div className={`mt-1 text-[11px] ${error ? 'text-red-600' : 'text-emerald-700'}`}>
+        {value.trim() ? (error || 'Formula valida') : 'Escribe una formula'}
+      </div>
+      <div className="mt-2 max-h-40 overflow-y-auto rounded-md border border-border bg-bg-secondary/40 p-2 text-[11px] text-text-secondary space-y-2">
+        <div>
+          <div className="font-medium text-text-primary mb-1">Campos</div>
+          <div className="flex flex-wrap gap-1">
+            {FORMULA_FIELDS.map((field) => (
+              <button key={field.key} type="button" title={field.label} onClick={() => append(field.key)} className="px-1.5 py-0.5 rounded border border-border bg-white hover:bg-bg-secondary font-mono">
+                {field.key}
+              </button>
+            ))}
+          </div>
+        </div>
+        {columns.length > 0 && (
+          <div>
+            <div className="font-medium text-text-primary mb-1">Columnas</div>
+            <div className="flex flex-wrap gap-1">
+              {columns.map((col) => (
+                <button key={col.id} type="button" onClick={() => append(`{${col.name}}`)} className="px-1.5 py-0.5 rounded border border-border bg-white hover:bg-bg-secondary font-mono">
+                  {`{${col.name}}`}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        <div>
+          <div className="font-medium text-text-primary mb-1">Funciones</div>
+          <div className="flex flex-wrap gap-1">
+            {FORMULA_FUNCTIONS.map((fn) => (
+              <button key={fn.name} type="button" title={`${fn.signature}: ${fn.description}`} onClick={() => append(`${fn.name}(`)} className="px-1.5 py-0.5 rounded border border-border bg-white hover:bg-bg-secondary font-mono">
+                {fn.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface FormulaEditorDialogProps {
+  column: DynamicColumn;
+  columns: DynamicColumn[];
+  onSave: (columnId: string, formula: string, aggregate: FormulaAggregate) => Promise<void>;
+  onClose: () => void;
+}
+
+export function FormulaEditorDialog({ column, columns, onSave, onClose }: FormulaEditorDialogProps) {
+  const initial = formulaConfigOf(column);
+  const [formula, setFormula] = useState(initial.formula || '');
+  const [aggregate, setAggregate] = useState<FormulaAggregate>(initial.aggregate || 'sum');
+  const [saving, setSaving] = useState(false);
+  const error = validateFormula(formula, columns, column.id);
+
+  const submit = async () => {
+    if (error || saving) return;
+    setSaving(true);
+    try {
+      await onSave(column.id, formula.trim(), aggregate);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[230] bg-black/30 flex items-center justify-center p-4" data-column-menu-safe>
+      <div className="w-full max-w-lg rounded-xl border border-border bg-white shadow-2xl p-4" data-column-menu-safe>
+        <div className="text-sm font-semibold text-text-primary">Formula de {column.name}</div>
+        <label className="block text-xs text-text-secondary mt-3 mb-1">Formula</label>
+        <FormulaField value={formula} onChange={setFormula} columns={columns.filter((c) => c.id !== column.id)} error={error} />
+        <label className="block text-xs text-text-secondary mt-3 mb-1">En filas de grupo</label>
+        <select
+          value={aggregate}
+          onChange={(e) => setAggregate(e.target.value as FormulaAggregate)}
+          className="w-full h-9 rounded-md border border-border px-3 text-sm outline-none focus:ring-2 focus:ring-blue-100 bg-white"
+        >
+          {(Object.keys(FORMULA_AGGREGATE_LABELS) as FormulaAggregate[]).map((mode) => (
+            <option key={mode} value={mode}>{FORMULA_AGGREGATE_LABELS[mode]}</option>
+          ))}
+        </select>
+        <div className="mt-4 flex items-center justify-end gap-2">
+          <button className="px-3 py-1.5 text-xs rounded-md border border-border hover:bg-bg-secondary" onClick={onClose}>
+            Cancelar
+          </button>
+          <button
+            disabled={!!error || saving}
+            className="px-3 py-1.5 text-xs rounded-md text-white bg-text-primary hover:bg-[#2c2a25] disabled:opacity-40"
+            onClick={() => { void submit(); }}
+          >
+            Guardar formula
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
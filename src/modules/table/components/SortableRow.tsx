@@ -3,13 +3,19 @@ import { createPortal } from 'react-dom';
 import { useDroppable } from '@dnd-kit/core';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { Plus, Trash2, GripVertical, Copy, MessageSquare, ArrowRightLeft, ChevronLeft, ChevronRight } from 'lucide-react';
-import type { Project, DynamicColumn, DynamicCellValue } from '@/lib/types';
+import { Plus, Trash2, GripVertical, Copy, MessageSquare, Clock, ArrowRightLeft, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { Project, DynamicColumn, DynamicCellValue, TaskType } from '@/lib/types';
 import { ExpandableCell } from '@/components/dashboard/ExpandableCell';
 import { LoadBubble } from '@/components/shared/LoadBubble';
+import { TaskTypeIcon } from '@/components/shared/TaskTypeIcon';
 import { format } from '@/lib/dateUtils';
 import { normalizeBranchList } from '@/lib/branchUtils';
 import { getDescendants } from '@/lib/hierarchyEngine';
+import { formatVariance, type ScheduleVariance } from '@/lib/baselines';
+import { formatSpi, type ProjectProgressMetrics } from '@/lib/earnedValue';
+import { formatHours, type TimeRollup } from '@/lib/timeTracking';
+import { formatFormulaValue, type FormulaResult } from '@/lib/formulaEngine';
+import { defaultTaskTypeName, findTaskType } from '@/lib/taskTypes';
 import { EditableAssigneesCell as RichEditableAssigneesCell } from '@/components/dashboard/table/EditableAssigneesCell';
 import { EditableTagsCell } from './EditableTagsCell';
 import { EditableBranchTagCell } from './EditableBranchTagCell';
@@ -86,9 +92,9 @@ function GroupRowLockedOverlay({ onShowHint }: { onShowHint: () => void }) {
   );
 }
 
-type SortKey = keyof Project;
-type ColumnKey = 'drag' | 'project' | 'branch' | 'start' | 'end' | 'assignees' | 'days' | 'priority' | 'type' | 'load' | 'status';
-type EssentialColumnId = 'project' | 'branch' | 'start' | 'end' | 'assignees' | 'days' | 'priority' | 'type' | 'load' | 'status';
+type SortKey = keyof Project | 'startVariance' | 'finishVariance' | 'loggedHours';
+type ColumnKey = 'drag' | 'project' | 'branch' | 'start' | 'end' | 'assignees' | 'days' | 'priority' | 'type' | 'load' | 'status' | 'startVar' | 'finishVar' | 'hoursEst' | 'hoursLogged';
+type EssentialColumnId = 'project' | 'branch' | 'start' | 'end' | 'assignees' | 'days' | 'priority' | 'type' | 'load' | 'status' | 'startVar' | 'finishVar' | 'hoursEst' | 'hoursLogged';
 
 type RenderColumn =
   | { kind: 'essential'; token: `essential:${EssentialColumnId}`; id: EssentialColumnId; label: string; sortKey: SortKey; widthKey: ColumnKey; nonEditableName: true }
@@ -113,6 +119,7 @@ interface SortableRowProps {
   onIndent: (id: string) => void;
   onOutdent: (id: string) => void;
   onOpenComments: (taskId: string) => void;
+  onLogTime: (taskId: string) => void;
   onShowGroupEditHint: () => void;
   onAddBranchOption?: (label: string) => void;
   onRenameBranchOption?: (from: string, to: string) => void;
@@ -122,8 +129,18 @@ interface SortableRowProps {
   onSetPersonAvatar: (name: string, file: File) => Promise<void>;
   allPersons: string[];
   allBranches: string[];
+  taskTypes: TaskType[];
   personProfiles: Record<string, { avatarUrl?: string }>;
   dynamicValues?: Record<string, DynamicCellValue>;
+  scheduleVariance?: ScheduleVariance;
+  progressMetrics?: ProjectProgressMetrics;
+  timeRollup?: TimeRollup;
+  // Results of the board's formula columns for this row, by column id
+  formulaValues?: Record<string, FormulaResult>;
+  // Built-in columns a group row keeps its own value in (rollup rule 'own'), by column id
+  groupEditableColumns?: ReadonlySet<string>;
+  // Comments by others the current user has not opened yet
+  unreadComments?: number;
   onUpdateDynamicCell: (taskId: string, columnId: string, value: DynamicCellValue) => void;
   onAddDynamicTagOption?: (columnId: string, label: string) => Promise<void>;
   onRenameDynamicTagOption?: (columnId: string, from: string, to: string) => Promise<void>;
@@ -147,6 +164,11 @@ interface SortableRowProps {
   onStartEditName?: (projectId: string, currentName: string) => void;
   onFinishEditName?: (newName: string) => void;
   onCancelEditName?: () => void;
+  // Spreadsheet focus: the active cell, the cells of the selected range in this row, and mouse handlers
+  activeCellToken?: string | null;
+  rangeCellTokens?: Set<string>;
+  onCellMouseDown?: (rowId: string, token: string, ev: ReactMouseEvent<HTMLElement>) => void;
+  onCellMouseEnter?: (rowId: string, token: string) => void;
 }
 
 export function SortableRow({
@@ -168,6 +190,7 @@ export function SortableRow({
   onIndent,
   onOutdent,
   onOpenComments,
+  onLogTime,
   onShowGroupEditHint,
   onAddBranchOption,
   onRenameBranchOption,
@@ -177,8 +200,15 @@ export function SortableRow({
   onSetPersonAvatar,
   allPersons,
   allBranches,
+  taskTypes,
   personProfiles,
   dynamicValues,
+  scheduleVariance,
+  progressMetrics,
+  timeRollup,
+  formulaValues,
+  groupEditableColumns,
+  unreadComments = 0,
   onUpdateDynamicCell,
   onAddDynamicTagOption,
   onRenameDynamicTagOption,
@@ -202,6 +232,10 @@ export function SortableRow({
   onStartEditName,
   onFinishEditName,
   onCancelEditName,
+  activeCellToken,
+  rangeCellTokens,
+  onCellMouseDown,
+  onCellMouseEnter,
 }: SortableRowProps) {
   const [rowMenuOpen, setRowMenuOpen] = useState(false);
   const [moveToOpen, setMoveToOpen] = useState(false);
@@ -226,6 +260,7 @@ export function SortableRow({
   const isPastDue = Boolean(project.endDate && project.endDate < new Date());
   const rowBgClass = hasChildren ? 'bg-bg-secondary' : 'bg-white';
   const groupReadonlyToneClass = hasChildren ? 'text-slate-600' : '';
+  const isGroupLocked = (columnId: string) => hasChildren && !groupEditableColumns?.has(columnId);
   const INDENT_PX = 24;
   const lineIndent = Math.max(8, dropTargetDepth * INDENT_PX + (dropPlacement === 'inside' ? 24 : 8));
   const pointIndent = Math.max(4, dropTargetDepth * INDENT_PX + (dropPlacement === 'inside' ? 20 : 4));
@@ -262,6 +297,16 @@ export function SortableRow({
     return beforeOptions.filter((p) => (p.name || '').toLowerCase().includes(q));
   }, [moveToQuery, beforeOptions]);
 
+  const gridCellProps = (token: string) => ({
+    'data-cell-token': token,
+    onMouseDown: (e: ReactMouseEvent<HTMLElement>) => onCellMouseDown?.(project.id, token, e),
+    onMouseEnter: () => onCellMouseEnter?.(project.id, token),
+  });
+  const gridCellClass = (token: string) => {
+    if (token === activeCellToken) return 'shadow-[inset_0_0_0_2px_#3B82F6]';
+    return rangeCellTokens?.has(token) ? 'shadow-[inset_0_0_0_999px_rgba(59,130,246,0.12)]' : '';
+  };
+
   const toInputDate = (value: Date | null): string | null => {
     if (!(value instanceof Date) || Number.isNaN(value.getTime())) return null;
     return format(value, 'yyyy-MM-dd');
@@ -410,6 +455,7 @@ export function SortableRow({
             {hasChildren && <button className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary inline-flex items-center gap-2" onClick={() => { onAddInside(project.id); setRowMenuOpen(false); }}><Plus size={13} />Agregar dentro</button>}
             <button className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary inline-flex items-center gap-2" onClick={() => { onDuplicateRow(project.id); setRowMenuOpen(false); }}><Copy size={13} />Duplicar fila</button>
             <button className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary inline-flex items-center gap-2" onClick={() => { onOpenComments(project.id); setRowMenuOpen(false); }}><MessageSquare size={13} />Comentarios...</button>
+            <button className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary inline-flex items-center gap-2" onClick={() => { onLogTime(project.id); setRowMenuOpen(false); }}><Clock size={13} />Registrar horas...</button>
             <button
               className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary inline-flex items-center gap-2"
               onClick={() => {
@@ -437,8 +483,18 @@ export function SortableRow({
           const col = rc.column;
           const cellValue = dynamicValues?.[col.id] ?? null;
           return (
-            <td key={rc.token} className={`relative px-2 py-2 border-b border-border text-[14px] ${rowBgClass} min-w-[140px] ${groupReadonlyToneClass}`}>
-              {col.type === 'checkbox' ? (
+            <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} relative px-2 py-2 border-b border-border text-[14px] ${rowBgClass} min-w-[140px] ${groupReadonlyToneClass}`}>
+              {col.type === 'formula' ? (() => {
+                const result = formulaValues?.[col.id];
+                return (
+                  <span
+                    className={`block truncate tabular-nums ${result?.error ? 'text-red-600' : 'text-text-primary'}`}
+                    title={result?.error || (col.config?.formula ? `=${String(col.config.formula)}` : undefined)}
+                  >
+                    {result?.error ? '#ERROR' : formatFormulaValue(result?.value ?? null)}
+                  </span>
+                );
+              })() : col.type === 'checkbox' ? (
                 <input type="checkbox" checked={Boolean(cellValue)} onChange={(e) => onUpdateDynamicCell(project.id, col.id, e.target.checked)} className="h-3.5 w-3.5 accent-[#3B82F6]" />
               ) : col.type === 'number' ? (
                 isProgressColumn(col) ? (
@@ -457,7 +513,7 @@ export function SortableRow({
               ) : (
                 <EditableTextCell value={typeof cellValue === 'string' ? cellValue : ''} onChange={(v) => onUpdateDynamicCell(project.id, col.id, v)} placeholder="Escribir..." />
               )}
-              {hasChildren && (
+              {hasChildren && col.type !== 'formula' && (
                 <GroupRowLockedOverlay onShowHint={onShowGroupEditHint} />
               )}
             </td>
@@ -467,7 +523,7 @@ export function SortableRow({
         switch (rc.id) {
           case 'project':
             return (
-              <td key={rc.token} className={`relative px-0 py-1 border-b border-border ${rowBgClass} min-w-[240px]`}>
+              <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} relative px-0 py-1 border-b border-border ${rowBgClass} min-w-[240px]`}>
                 {(() => {
                   const hierarchyLevel = project.hierarchyLevel ?? 0;
                   if (hierarchyLevel <= 0) return null;
@@ -494,11 +550,25 @@ export function SortableRow({
                   onIndent={onIndent}
                   onOutdent={onOutdent}
                 />
+                {unreadComments > 0 && editingNameId !== project.id && (
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onOpenComments(project.id);
+                    }}
+                    className="absolute right-1.5 top-1/2 -translate-y-1/2 inline-flex items-center gap-0.5 h-5 px-1.5 rounded-full bg-blue-600 text-white text-[10px] font-medium shadow-sm hover:bg-blue-700"
+                    title={unreadComments === 1 ? '1 comentario sin leer' : `${unreadComments} comentarios sin leer`}
+                  >
+                    <MessageSquare size={10} />
+                    {unreadComments > 9 ? '9+' : unreadComments}
+                  </button>
+                )}
               </td>
             );
           case 'branch':
             return (
-              <td key={rc.token} className={`relative px-2 py-2 border-b border-border ${rowBgClass} min-w-[120px] ${groupReadonlyToneClass}`}>
+              <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} relative px-2 py-2 border-b border-border ${rowBgClass} min-w-[120px] ${groupReadonlyToneClass}`}>
                 <EditableBranchTagCell
                   value={normalizeBranchList(project.branch)}
                   options={allBranches}
@@ -516,25 +586,25 @@ export function SortableRow({
             );
           case 'start':
             return (
-              <td key={rc.token} className={`relative px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
+              <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} relative px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
                 <EditableDateCell value={toInputDate(project.startDate)} onChange={(v) => onUpdate(project.id, { startDate: fromInputDate(v) })} />
-                {hasChildren && (
+                {isGroupLocked('start') && (
                   <GroupRowLockedOverlay onShowHint={onShowGroupEditHint} />
                 )}
               </td>
             );
           case 'end':
             return (
-              <td key={rc.token} className={`relative px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
+              <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} relative px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
                 <EditableDateCell value={toInputDate(project.endDate)} onChange={(v) => onUpdate(project.id, { endDate: fromInputDate(v) })} />
-                {hasChildren && (
+                {isGroupLocked('end') && (
                   <GroupRowLockedOverlay onShowHint={onShowGroupEditHint} />
                 )}
               </td>
             );
           case 'assignees':
             return (
-              <td key={rc.token} className={`relative px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
+              <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} relative px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
                 <RichEditableAssigneesCell
                   value={project.assignees || []}
                   options={allPersons}
@@ -554,33 +624,43 @@ export function SortableRow({
                   onSetPersonAvatar={onSetPersonAvatar}
                   onMergePersons={onMergePersonsGlobal ? (left, right, keep) => onMergePersonsGlobal(left, right, keep as 'left' | 'right') : undefined}
                 />
-                {hasChildren && (
+                {isGroupLocked('assignees') && (
                   <GroupRowLockedOverlay onShowHint={onShowGroupEditHint} />
                 )}
               </td>
             );
           case 'days':
             return (
-              <td key={rc.token} className={`relative px-2 py-2 border-b border-border text-center ${rowBgClass} ${groupReadonlyToneClass}`}>
+              <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} relative px-2 py-2 border-b border-border text-center ${rowBgClass} ${groupReadonlyToneClass}`}>
                 <EditableNumberCell value={project.daysRequired ?? 0} onChange={(v) => onUpdate(project.id, { daysRequired: Math.max(0, v ?? 0) })} min={0} />
-                {hasChildren && (
+                {isGroupLocked('days') && (
                   <GroupRowLockedOverlay onShowHint={onShowGroupEditHint} />
                 )}
               </td>
             );
           case 'priority':
             return (
-              <td key={rc.token} className={`relative px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
+              <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} relative px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
                 <StarRating value={project.priority || 0} onChange={(v) => onUpdate(project.id, { priority: v })} />
-                {hasChildren && (
+                {isGroupLocked('priority') && (
                   <GroupRowLockedOverlay onShowHint={onShowGroupEditHint} />
                 )}
               </td>
             );
           case 'type':
             return (
-              <td key={rc.token} className={`relative px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
-                <EditableSelectCell value={project.type || null} onChange={(v) => onUpdate(project.id, { type: (v as Project['type']) || 'Proyecto' })} options={['Proyecto', 'Lanzamiento', 'En radar']} />
+              <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} relative px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
+                {(() => {
+                  const taskType = findTaskType(project.type, taskTypes);
+                  return (
+                    <div className="flex items-center gap-1.5">
+                      {taskType && <TaskTypeIcon icon={taskType.icon} color={taskType.color} className="shrink-0" />}
+                      <div className="flex-1 min-w-0">
+                        <EditableSelectCell value={project.type || null} onChange={(v) => onUpdate(project.id, { type: v || defaultTaskTypeName(taskTypes) })} options={taskTypes.map((t) => t.name)} />
+                      </div>
+                    </div>
+                  );
+                })()}
                 {hasChildren && (
                   <GroupRowLockedOverlay onShowHint={onShowGroupEditHint} />
                 )}
@@ -589,13 +669,66 @@ export function SortableRow({
           case 'load':
             const loadAssignees = project.assignees?.length ?? 0;
             const displayLoad = loadAssignees > 0 ? project.dailyLoad / loadAssignees : project.dailyLoad;
-            return <td key={rc.token} className={`px-2 py-2 border-b border-border text-center text-[11px] ${rowBgClass} ${groupReadonlyToneClass}`}>{(displayLoad ?? 0) > 0 ? <LoadBubble load={displayLoad} size="sm" /> : <span className="text-[11px] text-text-secondary">Sin carga</span>}</td>;
+            return <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} px-2 py-2 border-b border-border text-center text-[11px] ${rowBgClass} ${groupReadonlyToneClass}`}>{(displayLoad ?? 0) > 0 ? <LoadBubble load={displayLoad} size="sm" /> : <span className="text-[11px] text-text-secondary">Sin carga</span>}</td>;
           case 'status':
             return (
-              <td key={rc.token} className={`px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
-                <StatusBadge status={getProjectStatus(project, dynamicValues)} />
+              <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} px-2 py-2 border-b border-border ${rowBgClass} ${groupReadonlyToneClass}`}>
+                <div className="flex items-center gap-1">
+                  <StatusBadge status={getProjectStatus(project, dynamicValues)} />
+                  {progressMetrics?.behind && (
+                    <span
+                      className="inline-flex items-center px-1.5 py-0.5 rounded-full text-[10px] font-medium border bg-red-50 text-red-700 border-red-200 whitespace-nowrap"
+                      title={`Plan ${Math.round(progressMetrics.planned)}% · Real ${Math.round(progressMetrics.actual ?? 0)}% · SPI ${formatSpi(progressMetrics.spi)}`}
+                    >
+                      SPI {formatSpi(progressMetrics.spi)}
+                    </span>
+                  )}
+                </div>
+              </td>
+            );
+          case 'startVar':
+          case 'finishVar': {
+            const variance = rc.id === 'startVar' ? scheduleVariance?.startVariance : scheduleVariance?.finishVariance;
+            const toneClass = variance === null || variance === undefined
+              ? 'text-text-secondary'
+              : variance > 0
+                ? 'text-[#B71C1C] font-medium'
+                : variance < 0
+                  ? 'text-[#2D6A2E] font-medium'
+                  : 'text-text-primary';
+            return (
+              <td
+                key={rc.token}
+                {...gridCellProps(rc.token)}
+                className={`${gridCellClass(rc.token)} px-2 py-2 border-b border-border text-center text-[12px] tabular-nums ${rowBgClass} ${toneClass}`}
+                title={scheduleVariance ? 'Días hábiles respecto a la línea base' : 'Sin datos en la línea base'}
+              >
+                {formatVariance(variance)}
+              </td>
+            );
+          }
+          case 'hoursEst':
+            return (
+              <td key={rc.token} {...gridCellProps(rc.token)} className={`${gridCellClass(rc.token)} px-2 py-2 border-b border-border text-center text-[12px] tabular-nums text-text-secondary ${rowBgClass}`}>
+                {timeRollup ? formatHours(timeRollup.estimatedHours) : '—'}
+              </td>
+            );
+          case 'hoursLogged': {
+            const over = !!timeRollup && timeRollup.estimatedHours > 0 && timeRollup.varianceHours > 0;
+            return (
+              <td
+                key={rc.token}
+                {...gridCellProps(rc.token)}
+                className={`${gridCellClass(rc.token)} px-2 py-2 border-b border-border text-center text-[12px] tabular-nums cursor-pointer hover:bg-bg-secondary ${rowBgClass} ${over ? 'text-[#B71C1C] font-medium' : 'text-text-primary'}`}
+                title={timeRollup && timeRollup.loggedHours > 0
+                  ? `${formatHours(timeRollup.loggedHours)} de ${formatHours(timeRollup.estimatedHours)} estimadas`
+                  : 'Registrar horas'}
+                onClick={() => onLogTime(project.id)}
+              >
+                {timeRollup && timeRollup.loggedHours > 0 ? formatHours(timeRollup.loggedHours) : '—'}
               </td>
             );
+          }
           default:
             return null;
         }
@@ -1,9 +1,9 @@
 import { useState } from 'react';
-import { GripVertical, Plus, Trash2, Copy, ChevronRight, ArrowLeft, ArrowRight, ArrowRightLeft, ArrowUpNarrowWide, ArrowDownWideNarrow, X, Check } from 'lucide-react';
+import { GripVertical, Plus, Trash2, Copy, ChevronRight, ArrowLeft, ArrowRight, ArrowRightLeft, ArrowUpNarrowWide, ArrowDownWideNarrow, X, Check, EyeOff, Sigma } from 'lucide-react';
 import type { DynamicColumn } from '@/lib/types';
 
 type DynamicDisplayType = DynamicColumn['type'] | 'progress' | 'stars';
-type ColumnKey = 'drag' | 'project' | 'branch' | 'start' | 'end' | 'assignees' | 'days' | 'priority' | 'type' | 'load' | 'status';
+type ColumnKey = 'drag' | 'project' | 'branch' | 'start' | 'end' | 'assignees' | 'days' | 'priority' | 'type' | 'load' | 'status' | 'startVar' | 'finishVar' | 'hoursEst' | 'hoursLogged';
 type SortKey = string;
 const dynamicTypeLabels: Record<DynamicDisplayType, string> = {
   text: 'Texto',
@@ -14,6 +14,7 @@ const dynamicTypeLabels: Record<DynamicDisplayType, string> = {
   select: 'Seleccion',
   tags: 'Etiquetas',
   checkbox: 'Casilla',
+  formula: 'Formula',
 };
 
 type RenderColumn = {
@@ -44,8 +45,10 @@ interface TableHeaderProps {
   onDuplicateDynamicColumn: (columnId: string) => void;
   onDeleteDynamicColumn: (columnId: string) => void;
   onSaveDynamicColumnOptions: (columnId: string, rawOptions: string) => void;
+  onEditFormula: (columnId: string) => void;
   onMoveColumnLeft: (token: string) => void;
   onMoveColumnRight: (token: string) => void;
+  onHideColumn: (token: string) => void;
   onSortColumn: (sortKey: string, dir: 'asc' | 'desc') => void;
   onClearSort: (sortKey: string) => void;
   currentSortKey: string | null;
@@ -69,8 +72,10 @@ export function TableHeader({
   onDuplicateDynamicColumn,
   onDeleteDynamicColumn,
   onSaveDynamicColumnOptions,
+  onEditFormula,
   onMoveColumnLeft,
   onMoveColumnRight,
+  onHideColumn,
   onSortColumn,
   onClearSort,
   currentSortKey,
@@ -198,6 +203,9 @@ export function TableHeader({
                   <button type="button" className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary inline-flex items-center gap-2" onClick={() => { onMoveColumnLeft(rc.token); onColumnMenuToggle(null); }}><ArrowLeft size={13} />Mover a la izquierda</button>
                   <button type="button" className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary inline-flex items-center gap-2" onClick={() => { onMoveColumnRight(rc.token); onColumnMenuToggle(null); }}><ArrowRight size={13} />Mover a la derecha</button>
                   <button type="button" className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary inline-flex items-center gap-2" onClick={() => { onOpenMoveCopy(rc.token); onColumnMenuToggle(null); }}><ArrowRightLeft size={13} />Mover / Copiar a...</button>
+                  {rc.token !== 'essential:project' && (
+                    <button type="button" className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary inline-flex items-center gap-2" onClick={() => { onHideColumn(rc.token); onColumnMenuToggle(null); }}><EyeOff size={13} />Ocultar columna</button>
+                  )}
                   {rc.kind === 'essential' && (
                     <>
                       <div className="my-1 border-t border-border" />
@@ -243,7 +251,7 @@ export function TableHeader({
                       </button>
                       {typePickerFor === rc.id && (
                         <div className="mx-1 mb-1 rounded-md border border-border bg-bg-secondary/50 p-1">
-                          {(['text', 'number', 'progress', 'stars', 'date', 'tags', 'checkbox'] as DynamicDisplayType[]).map((t) => {
+                          {(['text', 'number', 'progress', 'stars', 'date', 'tags', 'checkbox', 'formula'] as DynamicDisplayType[]).map((t) => {
                             const isCurrentType =
                               rc.column.type === t
                               || (t === 'progress' && rc.column.type === 'number' && rc.column.config?.display === 'progress')
@@ -266,6 +274,9 @@ export function TableHeader({
                           })}
                         </div>
                       )}
+                      {rc.column.type === 'formula' && (
+                        <button type="button" className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary inline-flex items-center gap-2" onClick={() => { onEditFormula(rc.id); onColumnMenuToggle(null); }}><Sigma size={13} />Editar formula</button>
+                      )}
                       <button type="button" className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary inline-flex items-center gap-2" onClick={() => { onDuplicateDynamicColumn(rc.id); onColumnMenuToggle(null); }}><Copy size={13} />Duplicar</button>
                       <div className="my-1 border-t border-border" />
                       <button type="button" className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg text-red-600 hover:bg-red-50 inline-flex items-center gap-2" onClick={() => { onDeleteDynamicColumn(rc.id); onColumnMenuToggle(null); }}><Trash2 size={13} />Eliminar</button>
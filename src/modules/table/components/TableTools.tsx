@@ -1,5 +1,10 @@
-import { Search, Plus, Download, ClipboardCopy, ChevronRight, ChevronDown } from 'lucide-react';
+import { useState } from 'react';
+import { Search, Plus, Download, ClipboardCopy, ChevronRight, ChevronDown, TrendingDown, EyeOff } from 'lucide-react';
 import { BulkMenu } from './BulkMenu';
+import { formatSpi, SPI_BEHIND_THRESHOLD, type PortfolioProgress } from '@/lib/earnedValue';
+import { DEFAULT_TASK_TYPES } from '@/lib/constants';
+
+const DEFAULT_RADAR_TYPE_NAMES = DEFAULT_TASK_TYPES.filter((t) => !t.countsTowardLoad).map((t) => t.name);
 
 interface TableToolsProps {
   search: string;
@@ -26,6 +31,13 @@ interface TableToolsProps {
   showRadar?: boolean;
   setShowRadar?: (show: boolean) => void;
   radarCount?: number;
+  // Board types that add no load; the toggle is named after them
+  radarTypeNames?: string[];
+  portfolioProgress?: PortfolioProgress;
+  showOnlyBehind?: boolean;
+  setShowOnlyBehind?: (show: boolean) => void;
+  hiddenColumns?: { token: string; label: string }[];
+  onShowColumn?: (token: string | 'all') => void;
 }
 
 export function TableTools({
@@ -52,8 +64,16 @@ export function TableTools({
   showRadar = false,
   setShowRadar,
   radarCount = 0,
+  radarTypeNames = DEFAULT_RADAR_TYPE_NAMES,
+  portfolioProgress,
+  showOnlyBehind = false,
+  setShowOnlyBehind,
+  hiddenColumns = [],
+  onShowColumn,
   toolbarRef,
 }: TableToolsProps) {
+  const [hiddenMenuOpen, setHiddenMenuOpen] = useState(false);
+
   return (
     <div ref={toolbarRef} className="py-2.5 pl-8 pr-8 flex items-center gap-2 flex-wrap">
       <div className="relative flex-1 max-w-sm">
@@ -80,13 +100,82 @@ export function TableTools({
               ? 'bg-[#E0E7FF] border-[#A5B4FC] text-[#3730A3]'
               : 'bg-white border-border text-text-secondary hover:text-text-primary hover:bg-bg-secondary'
           }`}
-          title={showRadar ? 'Ocultar proyectos en radar' : 'Mostrar proyectos en radar'}
+          title={`${showRadar ? 'Ocultar' : 'Mostrar'} tareas que no suman carga: ${radarTypeNames.join(', ')}`}
         >
           {showRadar ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
-          En radar ({radarCount})
+          {radarTypeNames.length === 1 ? radarTypeNames[0] : 'Sin carga'} ({radarCount})
         </button>
       )}
 
+      {/* Schedule performance over projects that report progress */}
+      {portfolioProgress && portfolioProgress.trackedCount > 0 && (
+        <span
+          className={`px-2 py-1 text-xs rounded-lg border tabular-nums ${
+            portfolioProgress.spi !== null && portfolioProgress.spi < SPI_BEHIND_THRESHOLD
+              ? 'bg-[#FEF2F2] border-[#FECACA] text-[#B71C1C]'
+              : 'bg-white border-border text-text-secondary'
+          }`}
+          title={`Avance planificado vs real en ${portfolioProgress.trackedCount} proyectos con progreso (ponderado por días requeridos)`}
+        >
+          Plan {Math.round(portfolioProgress.planned)}% · Real {Math.round(portfolioProgress.actual)}% · SPI {formatSpi(portfolioProgress.spi)}
+        </span>
+      )}
+      {setShowOnlyBehind && (showOnlyBehind || (portfolioProgress?.behindCount ?? 0) > 0) && (
+        <button
+          onClick={() => setShowOnlyBehind(!showOnlyBehind)}
+          className={`flex items-center gap-1 px-2 py-1 text-xs rounded-lg border transition-colors ${
+            showOnlyBehind
+              ? 'bg-[#FEF2F2] border-[#FECACA] text-[#B71C1C]'
+              : 'bg-white border-border text-text-secondary hover:text-text-primary hover:bg-bg-secondary'
+          }`}
+          title={showOnlyBehind ? 'Mostrar todos los proyectos' : 'Mostrar solo proyectos atrasados'}
+        >
+          <TrendingDown size={12} />
+          Atrasados ({portfolioProgress?.behindCount ?? 0})
+        </button>
+      )}
+
+      {onShowColumn && hiddenColumns.length > 0 && (
+        <div className="relative">
+          <button
+            onClick={() => setHiddenMenuOpen((open) => !open)}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded-lg border bg-white border-border text-text-secondary hover:text-text-primary hover:bg-bg-secondary transition-colors"
+            title="Columnas ocultas"
+          >
+            <EyeOff size={12} />
+            Ocultas ({hiddenColumns.length})
+          </button>
+          {hiddenMenuOpen && (
+            <div className="absolute left-0 top-full mt-1 z-[180] w-56 rounded-xl border border-border bg-white shadow-[0_10px_24px_rgba(15,23,42,0.08)] p-1.5">
+              {hiddenColumns.map((column) => (
+                <button
+                  key={column.token}
+                  type="button"
+                  onClick={() => {
+                    onShowColumn(column.token);
+                    if (hiddenColumns.length === 1) setHiddenMenuOpen(false);
+                  }}
+                  className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary truncate"
+                >
+                  Mostrar "{column.label}"
+                </button>
+              ))}
+              <div className="my-1 border-t border-border" />
+              <button
+                type="button"
+                onClick={() => {
+                  onShowColumn('all');
+                  setHiddenMenuOpen(false);
+                }}
+                className="w-full text-left px-2.5 py-1.5 text-xs rounded-lg hover:bg-bg-secondary font-medium"
+              >
+                Mostrar todas
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="flex-1" />
 
       <button
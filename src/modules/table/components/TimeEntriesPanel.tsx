@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import type { Project } from '@/lib/types';
+import type { TimeEntry } from '@/lib/timeEntriesRepository';
+import { formatHours, type TimeRollup } from '@/lib/timeTracking';
+import type { TimeEntryDraft } from '@/modules/table/hooks/useTimeEntries';
+
+interface TimeEntriesPanelProps {
+  project: Project | null;
+  // Entries logged directly on the task, newest first
+  entries: TimeEntry[];
+  rollup: TimeRollup | null;
+  allPersons: string[];
+  onClose: () => void;
+  onLogTime: (draft: TimeEntryDraft) => Promise<void>;
+  onDeleteEntry: (entryId: string) => void;
+}
+
+export function TimeEntriesPanel({
+  project,
+  entries,
+  rollup,
+  allPersons,
+  onClose,
+  onLogTime,
+  onDeleteEntry,
+}: TimeEntriesPanelProps) {
+  const personOptions = useMemo(() => {
+    if (!project) return allPersons;
+    const assigned = project.assignees.filter(Boolean);
+    return [...assigned, ...allPersons.filter((p) => !assigned.includes(p))];
+  }, [project, allPersons]);
+
+  const [person, setPerson] = useState('');
+  const [entryDate, setEntryDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [hours, setHours] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!project) return;
+    setPerson(project.assignees[0] || allPersons[0] || '');
+    setEntryDate(format(new Date(), 'yyyy-MM-dd'));
+    setHours('');
+    setNote('');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [project?.id]);
+
+  if (!project) return null;
+
+  const parsedHours = Number(hours.replace(',', '.'));
+  const canSubmit = !saving && !!person.trim() && !!entryDate && Number.isFinite(parsedHours) && parsedHours > 0 && parsedHours <= 24;
+
+  const submit = async () => {
+    if (!canSubmit) return;
+    setSaving(true);
+    try {
+      await onLogTime({ taskId: project.id, person, entryDate, hours: parsedHours, note });
+      setHours('');
+      setNote('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const byPerson = rollup ? Object.entries(rollup.byPerson).sort((a, b) => b[1] - a[1]) : [];
+  const overEstimate = !!rollup && rollup.estimatedHours > 0 && rollup.varianceHours > 0;
+
+  return (
+    <div className="fixed inset-0 z-[210] pointer-events-none">
+      <div
+        className="absolute inset-0 bg-black/15 pointer-events-auto"
+        onClick={onClose}
+      />
+      <aside role="dialog" aria-label="Registro de horas" className="absolute right-0 top-0 h-full w-full max-w-md bg-white border-l border-border shadow-[0_14px_30px_rgba(15,23,42,0.10)] pointer-events-auto flex flex-col">
+        <div className="px-4 py-3.5 border-b border-border flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-xs text-text-secondary">Registro de horas</p>
+            <p className="text-sm font-medium truncate">{project.name || 'Elemento'}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="h-7 w-7 rounded-md border border-border text-text-secondary hover:text-text-primary hover:bg-bg-secondary"
+            aria-label="Cerrar registro de horas"
+            title="Cerrar"
+          >
+            ×
+          </button>
+        </div>
+
+        {rollup && (
+          <div className="px-4 py-3 border-b border-border space-y-2">
+            <div className="flex items-center gap-4 text-xs">
+              <div>
+                <p className="text-text-secondary">Estimadas</p>
+                <p className="font-medium text-text-primary">{formatHours(rollup.estimatedHours)}</p>
+              </div>
+              <div>
+                <p className="text-text-secondary">Registradas</p>
+                <p className={`font-medium ${overEstimate ? 'text-[#B71C1C]' : 'text-text-primary'}`}>{formatHours(rollup.loggedHours)}</p>
+              </div>
+              <div>
+                <p className="text-text-secondary">Diferencia</p>
+                <p className={`font-medium ${overEstimate ? 'text-[#B71C1C]' : 'text-text-primary'}`}>
+                  {rollup.varianceHours > 0 ? '+' : ''}{formatHours(rollup.varianceHours)}
+                </p>
+              </div>
+            </div>
+            {byPerson.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {byPerson.map(([name, value]) => (
+                  <span key={name} className="px-2 py-0.5 rounded-full bg-bg-secondary border border-border text-[11px] text-text-secondary">
+                    {name} · {formatHours(value)}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto px-4 py-3 space-y-2">
+          {entries.length === 0 ? (
+            <p className="text-xs text-text-secondary">Aun no hay horas registradas en este elemento.</p>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="group rounded-xl border border-border bg-bg-secondary px-3 py-2.5">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-xs font-medium text-text-primary truncate">
+                      {entry.person} · {formatHours(entry.hours)}
+                    </p>
+                    <p className="text-xs text-text-secondary">
+                      {new Date(`${entry.entry_date}T00:00:00`).toLocaleDateString('es-ES', {
+                        weekday: 'short',
+                        day: 'numeric',
+                        month: 'short',
+                      })}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onDeleteEntry(entry.id)}
+                    className="opacity-0 group-hover:opacity-100 h-5 w-5 rounded-md border border-border text-text-secondary hover:text-[#B71C1C] hover:border-[#B71C1C] transition-all"
+                    title="Eliminar registro"
+                  >
+                    <span className="text-[10px]">×</span>
+                  </button>
+                </div>
+                {entry.note && (
+                  <p className="mt-1 text-xs text-text-primary whitespace-pre-wrap break-words">{entry.note}</p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-border space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <select
+              value={person}
+              onChange={(e) => setPerson(e.target.value)}
+              className="col-span-3 h-9 rounded-lg border border-border px-2 text-sm outline-none focus:ring-2 focus:ring-blue-100 bg-white"
+              aria-label="Persona"
+            >
+              {personOptions.length === 0 && <option value="">Sin personas</option>}
+              {personOptions.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={entryDate}
+              onChange={(e) => setEntryDate(e.target.value)}
+              className="col-span-2 h-9 rounded-lg border border-border px-3 text-sm outline-none focus:ring-2 focus:ring-blue-100"
+              aria-label="Fecha"
+            />
+            <input
+              value={hours}
+              onChange={(e) => setHours(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') void submit();
+              }}
+              inputMode="decimal"
+              placeholder="Horas"
+              className="h-9 rounded-lg border border-border px-3 text-sm outline-none focus:ring-2 focus:ring-blue-100"
+              aria-label="Horas"
+            />
+          </div>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Nota opcional..."
+            className="w-full h-16 resize-none rounded-lg border border-border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-100"
+          />
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 text-xs rounded-lg border border-border text-text-secondary hover:text-text-primary hover:bg-bg-secondary"
+            >
+              Cerrar
+            </button>
+            <button
+              onClick={() => void submit()}
+              disabled={!canSubmit}
+              className="px-3 py-1.5 text-xs rounded-lg bg-text-primary text-white hover:bg-[#171B22] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Registrar
+            </button>
+          </div>
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,404 @@
+import { useCallback, useEffect, useMemo, useState, type MouseEvent as ReactMouseEvent, type MutableRefObject, type RefObject } from 'react';
+import type { DynamicCellValue, TaskType } from '@/lib/types';
+import {
+  cellEditKind,
+  cellWrite,
+  emptyCellValue,
+  fillDownPairs,
+  formatCellText,
+  isCellEditable,
+  moveAddress,
+  parseCellText,
+  rangeAddresses,
+  rangeRect,
+  rangeTokensByRow,
+  tabAddress,
+  type CellAddress,
+  type CellRange,
+  type CellWrite,
+  type GridColumn,
+} from '../utils/cellGrid';
+import { parseTsv, pastedCellValue, toTsv, type GridPaste } from '../utils/clipboardGrid';
+
+export type CellMove = 'up' | 'down' | 'left' | 'right' | 'none';
+
+export interface CellOptions {
+  options: string[];
+  // Strict lists reject items that are not options
+  strict: boolean;
+}
+
+interface UseCellGridOptions {
+  rowIds: string[];
+  columns: GridColumn[];
+  rowRefs: MutableRefObject<Record<string, HTMLTableRowElement | null>>;
+  tableRootRef: RefObject<HTMLElement | null>;
+  canEdit: boolean;
+  isGroupRow: (rowId: string) => boolean;
+  // Built-in columns group rows keep their own value in, by column id
+  groupEditableColumns?: ReadonlySet<string>;
+  readValue: (rowId: string, column: GridColumn) => DynamicCellValue;
+  optionsFor: (column: GridColumn) => CellOptions;
+  applyWrites: (writes: CellWrite[]) => void;
+  // Pastes that run past the last row also create rows, so they are applied in one go
+  applyPaste: (paste: GridPaste) => void;
+  // The board's task types, which pasted type names must match
+  taskTypes?: TaskType[];
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  const tag = target.tagName.toLowerCase();
+  if (tag === 'input') return (target as HTMLInputElement).type !== 'checkbox';
+  return tag === 'textarea' || tag === 'select' || target.isContentEditable;
+}
+
+// Keys and clipboard events in fields, panels and dialogs are theirs, even while a cell stays active
+function isGridTarget(target: EventTarget | null): boolean {
+  if (isEditableTarget(target)) return false;
+  if (!(target instanceof HTMLElement)) return true;
+  return target === document.body || !!target.closest('[data-cell-token]');
+}
+
+export function findCellElement(rowRefs: UseCellGridOptions['rowRefs'], address: CellAddress): HTMLElement | null {
+  const row = rowRefs.current[address.rowId];
+  return row?.querySelector<HTMLElement>(`[data-cell-token="${CSS.escape(address.token)}"]`) ?? null;
+}
+
+/**
+ * Spreadsheet-style focus for the project table: one active cell, a rectangular
+ * range anchored on it, and an editor opened with Enter, F2 or by typing.
+ * Keys are read on the window while no field has focus, so the cell editors
+ * inside the rows keep working with the mouse as before.
+ */
+export function useCellGrid({
+  rowIds,
+  columns,
+  rowRefs,
+  tableRootRef,
+  canEdit,
+  isGroupRow,
+  groupEditableColumns,
+  readValue,
+  optionsFor,
+  applyWrites,
+  applyPaste,
+  taskTypes,
+}: UseCellGridOptions) {
+  const [range, setRange] = useState<CellRange | null>(null);
+  const [editing, setEditing] = useState<{ seed: string | null } | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const active = range?.anchor ?? null;
+  const tokens = useMemo(() => columns.map((c) => c.token), [columns]);
+  const columnByToken = useMemo(() => new Map(columns.map((c) => [c.token, c])), [columns]);
+
+  // Rows and columns come and go with filters and hidden columns
+  useEffect(() => {
+    if (!range) return;
+    const valid = (a: CellAddress) => rowIds.includes(a.rowId) && columnByToken.has(a.token);
+    if (!valid(range.anchor)) {
+      setRange(null);
+      setEditing(null);
+    } else if (!valid(range.focus)) {
+      setRange({ anchor: range.anchor, focus: range.anchor });
+    }
+  }, [range, rowIds, columnByToken]);
+
+  const canEditCell = useCallback((address: CellAddress) => {
+    const column = columnByToken.get(address.token);
+    return !!column && canEdit && isCellEditable(column, isGroupRow(address.rowId), groupEditableColumns);
+  }, [columnByToken, canEdit, isGroupRow, groupEditableColumns]);
+
+  const selectCell = useCallback((address: CellAddress | null, extend = false) => {
+    setEditing(null);
+    if (!address) {
+      setRange(null);
+      return;
+    }
+    setRange((prev) => (extend && prev ? { anchor: prev.anchor, focus: address } : { anchor: address, focus: address }));
+  }, []);
+
+  const startEditing = useCallback((seed: string | null = null) => {
+    if (!active || !canEditCell(active)) return;
+    setRange({ anchor: active, focus: active });
+    setEditing({ seed });
+  }, [active, canEditCell]);
+
+  const cancelEdit = useCallback(() => setEditing(null), []);
+
+  const move = useCallback((from: CellAddress, direction: CellMove): CellAddress => {
+    if (direction === 'none') return from;
+    if (direction === 'left' || direction === 'right') return tabAddress(from, rowIds, tokens, direction === 'left') ?? from;
+    return moveAddress(from, rowIds, tokens, direction === 'up' ? -1 : 1, 0) ?? from;
+  }, [rowIds, tokens]);
+
+  /** Stores the editor text; false when it does not fit the cell, so the editor stays open */
+  const commitEdit = useCallback((text: string, direction: CellMove): boolean => {
+    if (!active) return true;
+    const column = columnByToken.get(active.token);
+    if (!column) return true;
+    const { options, strict } = optionsFor(column);
+    const value = parseCellText(cellEditKind(column), text, options, strict);
+    if (value === undefined) return false;
+    const write = cellWrite(active.rowId, column, value);
+    if (write) applyWrites([write]);
+    setEditing(null);
+    const next = move(active, direction);
+    setRange({ anchor: next, focus: next });
+    return true;
+  }, [active, columnByToken, optionsFor, applyWrites, move]);
+
+  const writeRange = useCallback((valueFor: (target: CellAddress) => DynamicCellValue | undefined, cells: CellAddress[]) => {
+    const writes: CellWrite[] = [];
+    cells.forEach((cell) => {
+      const column = columnByToken.get(cell.token);
+      if (!column || !canEditCell(cell)) return;
+      const value = valueFor(cell);
+      if (value === undefined) return;
+      const write = cellWrite(cell.rowId, column, value);
+      if (write) writes.push(write);
+    });
+    if (writes.length > 0) applyWrites(writes);
+  }, [columnByToken, canEditCell, applyWrites]);
+
+  const clearRange = useCallback(() => {
+    if (!range) return;
+    writeRange((cell) => {
+      const column = columnByToken.get(cell.token);
+      return column ? emptyCellValue(cellEditKind(column)) : undefined;
+    }, rangeAddresses(range, rowIds, tokens));
+  }, [range, rowIds, tokens, columnByToken, writeRange]);
+
+  const fillDown = useCallback(() => {
+    if (!range) return;
+    const pairs = fillDownPairs(range, rowIds, tokens);
+    const sources = new Map(pairs.map((p) => [`${p.target.rowId}\u0000${p.target.token}`, p.source]));
+    writeRange((cell) => {
+      const source = sources.get(`${cell.rowId}\u0000${cell.token}`);
+      const column = columnByToken.get(cell.token);
+      return source && column ? readValue(source.rowId, column) : undefined;
+    }, pairs.map((p) => p.target));
+  }, [range, rowIds, tokens, columnByToken, readValue, writeRange]);
+
+  const toggleCheckbox = useCallback(() => {
+    if (!active) return;
+    const column = columnByToken.get(active.token);
+    if (!column || cellEditKind(column) !== 'checkbox' || !canEditCell(active)) return;
+    const next = !readValue(active.rowId, column);
+    writeRange(() => next, range ? rangeAddresses(range, rowIds, tokens) : [active]);
+  }, [active, range, rowIds, tokens, columnByToken, canEditCell, readValue, writeRange]);
+
+  /** The range as tab separated text, the way spreadsheets put it on the clipboard */
+  const copyRange = useCallback((): string | null => {
+    const rect = range ? rangeRect(range, rowIds, tokens) : null;
+    if (!rect) return null;
+    const rows: string[][] = [];
+    for (let r = rect.top; r <= rect.bottom; r += 1) {
+      const cells: string[] = [];
+      for (let c = rect.left; c <= rect.right; c += 1) {
+        const column = columnByToken.get(tokens[c]);
+        cells.push(column ? formatCellText(cellEditKind(column), readValue(rowIds[r], column)) : '');
+      }
+      rows.push(cells);
+    }
+    return toTsv(rows);
+  }, [range, rowIds, tokens, columnByToken, readValue]);
+
+  /**
+   * Pastes a block from the top-left cell of the range. One copied cell fills the
+   * whole range; columns past the last one are dropped and rows past the last
+   * one become new rows.
+   */
+  const pasteText = useCallback((text: string) => {
+    const rect = range ? rangeRect(range, rowIds, tokens) : null;
+    const block = parseTsv(text);
+    if (!rect || !canEdit || block.length === 0) return;
+    const single = block.length === 1 && block[0].length === 1;
+    const height = single ? rect.bottom - rect.top + 1 : block.length;
+    const blockWidth = single ? rect.right - rect.left + 1 : Math.max(...block.map((row) => row.length));
+    const width = Math.min(blockWidth, tokens.length - rect.left);
+    const paste: GridPaste = { writes: [], newRows: [], rejected: 0 };
+    for (let r = 0; r < height; r += 1) {
+      const rowId = rowIds[rect.top + r] as string | undefined;
+      const newRow: GridPaste['newRows'][number] = [];
+      for (let c = 0; c < width; c += 1) {
+        const raw = single ? block[0][0] : block[r][c];
+        const column = columnByToken.get(tokens[rect.left + c]);
+        if (raw === undefined || !column) continue;
+        if (rowId ? !canEditCell({ rowId, token: column.token }) : cellEditKind(column) === 'readonly') continue;
+        const { options, strict } = optionsFor(column);
+        const value = pastedCellValue(column, raw, options, strict, taskTypes);
+        if (value === undefined) {
+          if (raw.trim()) paste.rejected += 1;
+          continue;
+        }
+        if (!rowId) {
+          newRow.push({ column, value });
+          continue;
+        }
+        const write = cellWrite(rowId, column, value);
+        if (write) paste.writes.push(write);
+      }
+      if (!rowId) paste.newRows.push(newRow);
+    }
+    applyPaste(paste);
+    const lastRow = rowIds[Math.min(rect.top + height, rowIds.length) - 1];
+    setRange({ anchor: { rowId: rowIds[rect.top], token: tokens[rect.left] }, focus: { rowId: lastRow, token: tokens[rect.left + width - 1] } });
+  }, [range, rowIds, tokens, canEdit, columnByToken, canEditCell, optionsFor, applyPaste, taskTypes]);
+
+  useEffect(() => {
+    if (!active || editing) return;
+    const onCopy = (e: ClipboardEvent) => {
+      if (!isGridTarget(e.target) || !e.clipboardData) return;
+      const text = copyRange();
+      if (text === null) return;
+      e.preventDefault();
+      e.clipboardData.setData('text/plain', text);
+    };
+    const onPaste = (e: ClipboardEvent) => {
+      if (!isGridTarget(e.target) || !e.clipboardData) return;
+      e.preventDefault();
+      pasteText(e.clipboardData.getData('text/plain'));
+    };
+    document.addEventListener('copy', onCopy);
+    document.addEventListener('paste', onPaste);
+    return () => {
+      document.removeEventListener('copy', onCopy);
+      document.removeEventListener('paste', onPaste);
+    };
+  }, [active, editing, copyRange, pasteText]);
+
+  useEffect(() => {
+    if (!active || editing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || !isGridTarget(e.target)) return;
+      // Chords belong to commands (fill down, indent), except Shift which extends the range
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const arrows: Record<string, [number, number]> = {
+        ArrowUp: [-1, 0],
+        ArrowDown: [1, 0],
+        ArrowLeft: [0, -1],
+        ArrowRight: [0, 1],
+      };
+      const arrow = arrows[e.key];
+      if (arrow) {
+        e.preventDefault();
+        const from = e.shiftKey && range ? range.focus : active;
+        const next = moveAddress(from, rowIds, tokens, arrow[0], arrow[1]);
+        if (next) selectCell(next, e.shiftKey);
+        return;
+      }
+      switch (e.key) {
+        case 'Tab': {
+          e.preventDefault();
+          const next = tabAddress(active, rowIds, tokens, e.shiftKey);
+          if (next) selectCell(next);
+          return;
+        }
+        case 'Home':
+        case 'End': {
+          e.preventDefault();
+          const token = e.key === 'Home' ? tokens[0] : tokens[tokens.length - 1];
+          if (token) selectCell({ rowId: active.rowId, token }, e.shiftKey);
+          return;
+        }
+        case 'Enter':
+        case 'F2': {
+          e.preventDefault();
+          const column = columnByToken.get(active.token);
+          if (column && cellEditKind(column) === 'checkbox') toggleCheckbox();
+          else if (canEditCell(active)) startEditing();
+          else if (e.key === 'Enter') selectCell(move(active, e.shiftKey ? 'up' : 'down'));
+          return;
+        }
+        case 'Escape':
+          if (range && (range.focus.rowId !== active.rowId || range.focus.token !== active.token)) selectCell(active);
+          else selectCell(null);
+          return;
+        case 'Delete':
+        case 'Backspace':
+          e.preventDefault();
+          clearRange();
+          return;
+        default:
+          break;
+      }
+      if (e.key.length !== 1) return;
+      const column = columnByToken.get(active.token);
+      if (!column) return;
+      if (cellEditKind(column) === 'checkbox') {
+        if (e.key === ' ') {
+          e.preventDefault();
+          toggleCheckbox();
+        }
+        return;
+      }
+      if (!canEditCell(active)) return;
+      // Typing replaces the cell, as in a spreadsheet
+      e.preventDefault();
+      startEditing(e.key);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [active, range, editing, rowIds, tokens, columnByToken, canEditCell, selectCell, startEditing, clearRange, toggleCheckbox, move]);
+
+  // Keep the active cell in view while moving with the keyboard
+  useEffect(() => {
+    const focus = range?.focus;
+    if (!focus) return;
+    findCellElement(rowRefs, focus)?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [range?.focus, rowRefs]);
+
+  // Clicking anywhere outside the table leaves the grid
+  useEffect(() => {
+    if (!active) return;
+    const onDocPointerDown = (e: MouseEvent) => {
+      const target = e.target as Node | null;
+      if (target && tableRootRef.current?.contains(target)) return;
+      setRange(null);
+      setEditing(null);
+    };
+    document.addEventListener('mousedown', onDocPointerDown);
+    return () => document.removeEventListener('mousedown', onDocPointerDown);
+  }, [active, tableRootRef]);
+
+  useEffect(() => {
+    if (!dragging) return;
+    const stop = () => setDragging(false);
+    window.addEventListener('mouseup', stop);
+    return () => window.removeEventListener('mouseup', stop);
+  }, [dragging]);
+
+  const handleCellMouseDown = useCallback((rowId: string, token: string, e: ReactMouseEvent<HTMLElement>) => {
+    if (e.button !== 0) return;
+    // Shift and Ctrl clicks keep selecting whole rows
+    if (e.shiftKey || e.ctrlKey || e.metaKey) return;
+    selectCell({ rowId, token });
+    setDragging(true);
+  }, [selectCell]);
+
+  const handleCellMouseEnter = useCallback((rowId: string, token: string) => {
+    if (!dragging) return;
+    selectCell({ rowId, token }, true);
+  }, [dragging, selectCell]);
+
+  const rangeTokens = useMemo(
+    () => (range ? rangeTokensByRow(range, rowIds, tokens) : new Map<string, Set<string>>()),
+    [range, rowIds, tokens]
+  );
+
+  return {
+    active,
+    range,
+    rangeTokens,
+    editing,
+    activeColumn: active ? columnByToken.get(active.token) ?? null : null,
+    selectCell,
+    startEditing,
+    commitEdit,
+    cancelEdit,
+    fillDown,
+    handleCellMouseDown,
+    handleCellMouseEnter,
+  };
+}
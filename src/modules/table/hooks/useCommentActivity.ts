@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { isSupabaseConfigured } from '@/lib/supabaseClient';
+import {
+  listCommentActivity,
+  listCommentReads,
+  markTaskCommentsRead,
+  type TaskCommentActivity,
+  type TaskCommentRead,
+} from '@/lib/taskCommentsRepository';
+import { countUnreadComments } from '@/lib/commentThreads';
+
+/**
+ * Unread comment counts per task for the signed-in user. Refreshed on window
+ * focus; opening a task's comments marks them read right away, and the server
+ * marker follows when it can be reached.
+ */
+export function useCommentActivity(boardId: string | null, userId: string | null) {
+  const [activity, setActivity] = useState<TaskCommentActivity[]>([]);
+  const [reads, setReads] = useState<TaskCommentRead[]>([]);
+  const enabled = !!boardId && !!userId && isSupabaseConfigured;
+
+  const refresh = useCallback(async () => {
+    if (!enabled || !boardId || !userId) return;
+    try {
+      const [nextActivity, nextReads] = await Promise.all([
+        listCommentActivity(boardId),
+        listCommentReads(boardId, userId),
+      ]);
+      setActivity(nextActivity);
+      setReads(nextReads);
+    } catch (err) {
+      console.error('Comment activity load failed:', err);
+    }
+  }, [enabled, boardId, userId]);
+
+  useEffect(() => {
+    setActivity([]);
+    setReads([]);
+    void refresh();
+    if (typeof window === 'undefined') return;
+    const onFocus = () => {
+      void refresh();
+    };
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, [refresh]);
+
+  const markRead = useCallback((taskId: string) => {
+    if (!enabled || !boardId || !userId) return;
+    const readAt = new Date().toISOString();
+    setReads((prev) => [...prev.filter((r) => r.task_id !== taskId), { task_id: taskId, last_read_at: readAt }]);
+    markTaskCommentsRead(boardId, taskId, userId, readAt).catch((err) => {
+      console.error('Comment read marker failed:', err);
+    });
+  }, [enabled, boardId, userId]);
+
+  const unreadByTask = useMemo(
+    () => (userId ? countUnreadComments(activity, reads, userId) : new Map<string, number>()),
+    [activity, reads, userId]
+  );
+
+  return { unreadByTask, markRead, refresh };
+}
@@ -2,6 +2,8 @@ import { useCallback } from 'react';
 import type { Project } from '@/lib/types';
 import { computeProjectFields } from '@/lib/workloadEngine';
 import { exportToExcel, copyAsCSV } from '@/lib/exportUtils';
+import { defaultTaskTypeName } from '@/lib/taskTypes';
+import type { ScheduleVariance } from '@/lib/baselines';
 
 interface UseProjectTableActionsProps {
   state: {
@@ -10,6 +12,8 @@ interface UseProjectTableActionsProps {
     config: any;
   };
   dispatch: (action: any) => void;
+  // Present while a baseline is active; adds variance columns to the export
+  scheduleVariance?: Map<string, ScheduleVariance> | null;
   setBranchCatalog: (catalog: string[]) => void;
   setPersonCatalog?: (catalog: string[]) => void;
   setPersonProfiles: (profiles: Record<string, { avatarUrl?: string }>) => void;
@@ -32,6 +36,7 @@ const equalsIgnoreCase = (a: string, b: string): boolean => a.trim().toLowerCase
 export function useProjectTableActions({
   state,
   dispatch,
+  scheduleVariance,
   setBranchCatalog,
   setPersonCatalog,
   setPersonProfiles,
@@ -299,7 +304,7 @@ export function useProjectTableActions({
       assignees: [],
       daysRequired: 0,
       priority: 1,
-      type: 'Proyecto',
+      type: defaultTaskTypeName(state.config.taskTypes),
       blockedBy: null,
       blocksTo: null,
       reportedLoad: null,
@@ -330,7 +335,7 @@ export function useProjectTableActions({
         branch: Array.isArray(ref.branch) ? [...ref.branch] : [],
         startDate: ref.startDate ?? null,
         endDate: ref.endDate ?? null,
-        type: ref.type ?? 'Proyecto',
+        type: ref.type ?? defaultTaskTypeName(state.config.taskTypes),
       });
       dispatch({ type: 'ADD_PROJECT', payload: { project: newProject, position: 'above', referenceId } });
       setSelectedRowId(newProject.id);
@@ -368,7 +373,7 @@ export function useProjectTableActions({
         branch: Array.isArray(ref.branch) ? [...ref.branch] : [],
         startDate: ref.startDate ?? null,
         endDate: ref.endDate ?? null,
-        type: ref.type ?? 'Proyecto',
+        type: ref.type ?? defaultTaskTypeName(state.config.taskTypes),
       });
       dispatch({ type: 'ADD_PROJECT', payload: { project: newProject, position: 'below', referenceId: insertAfterId } });
       setSelectedRowId(newProject.id);
@@ -396,7 +401,7 @@ export function useProjectTableActions({
       branch: Array.isArray(ref.branch) ? [...ref.branch] : [],
       startDate: ref.startDate ?? null,
       endDate: ref.endDate ?? null,
-      type: ref.type ?? 'Proyecto',
+      type: ref.type ?? defaultTaskTypeName(state.config.taskTypes),
       isExpanded: true,
     });
     dispatch({ type: 'ADD_PROJECT', payload: { project: newProject, position: 'above', referenceId } });
@@ -413,7 +418,7 @@ export function useProjectTableActions({
       branch: Array.isArray(ref.branch) ? [...ref.branch] : [],
       startDate: ref.startDate ?? null,
       endDate: ref.endDate ?? null,
-      type: ref.type ?? 'Proyecto',
+      type: ref.type ?? defaultTaskTypeName(state.config.taskTypes),
       isExpanded: true,
     });
     dispatch({ type: 'ADD_PROJECT', payload: { project: newProject, position: 'below', referenceId } });
@@ -437,12 +442,12 @@ export function useProjectTableActions({
   }, [dispatch]);
 
   const handleExportExcel = useCallback(() => {
-    exportToExcel(state.projects, 'proyectos.xlsx');
-  }, [state.projects]);
+    exportToExcel(state.projects, 'proyectos.xlsx', scheduleVariance || undefined, state.config.taskTypes);
+  }, [state.projects, state.config.taskTypes, scheduleVariance]);
 
   const handleCopyCSV = useCallback(() => {
-    copyAsCSV(state.projects);
-  }, [state.projects]);
+    copyAsCSV(state.projects, state.config.taskTypes);
+  }, [state.projects, state.config.taskTypes]);
 
   const handleColumnWidthsChange = useCallback(() => {}, []);
   const handleMoveCopyColumn = useCallback(() => {}, []);
@@ -1,17 +1,6 @@
 import { useMemo, useRef, useState } from 'react';
 import type { DynamicColumn, DynamicCellValue } from '@/lib/types';
-
-// Define TaskComment interface locally since it's not exported from types
-interface TaskComment {
-  id: string;
-  taskId: string;
-  content: string;
-  createdAt: string;
-  authorId: string;
-  authorName: string;
-  linkUrl?: string;
-  linkTitle?: string;
-}
+import type { TaskComment } from '@/lib/taskCommentsRepository';
 
 type SortKey = keyof any;
 type SortDir = 'asc' | 'desc';
@@ -27,7 +16,11 @@ type ColumnKey =
   | 'priority'
   | 'type'
   | 'load'
-  | 'status';
+  | 'status'
+  | 'startVar'
+  | 'finishVar'
+  | 'hoursEst'
+  | 'hoursLogged';
 
 type EssentialColumnId =
   | 'project'
@@ -39,7 +32,11 @@ type EssentialColumnId =
   | 'priority'
   | 'type'
   | 'load'
-  | 'status';
+  | 'status'
+  | 'startVar'
+  | 'finishVar'
+  | 'hoursEst'
+  | 'hoursLogged';
 
 type ColumnToken = `essential:${EssentialColumnId}` | `dynamic:${string}`;
 type DynamicDisplayType = DynamicColumn['type'] | 'progress' | 'stars';
@@ -101,6 +98,7 @@ export function useProjectTableState() {
     position: number;
     name: string;
     type: DynamicDisplayType;
+    formula?: string;
   } | null>(null);
   
   // Column editing state
@@ -135,12 +133,17 @@ export function useProjectTableState() {
     type: 108,
     load: 92,
     status: 120,
+    startVar: 92,
+    finishVar: 92,
+    hoursEst: 92,
+    hoursLogged: 100,
   }), []);
   const [columnWidths, setColumnWidths] = useState<Record<ColumnKey, number>>(defaultColumnWidths);
   
   // Layout state
   const [layoutSeedOrder, setLayoutSeedOrder] = useState<ColumnToken[] | null>(null);
   const [columnOrder, setColumnOrder] = useState<ColumnToken[]>([]);
+  const [hiddenColumns, setHiddenColumns] = useState<ColumnToken[]>([]);
   
   // Refs
   const groupHintAtRef = useRef<number>(0);
@@ -167,6 +170,10 @@ export function useProjectTableState() {
     type: 80,
     load: 60,
     status: 72,
+    startVar: 60,
+    finishVar: 60,
+    hoursEst: 60,
+    hoursLogged: 60,
   }), []);
   
   const maxColumnWidths = useMemo<Record<ColumnKey, number>>(() => ({
@@ -181,6 +188,10 @@ export function useProjectTableState() {
     type: 320,
     load: 200,
     status: 200,
+    startVar: 160,
+    finishVar: 160,
+    hoursEst: 180,
+    hoursLogged: 180,
   }), []);
 
   return {
@@ -259,6 +270,7 @@ export function useProjectTableState() {
     // Layout
     layoutSeedOrder, setLayoutSeedOrder,
     columnOrder, setColumnOrder,
+    hiddenColumns, setHiddenColumns,
     
     // Refs
     groupHintAtRef,
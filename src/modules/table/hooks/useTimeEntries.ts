@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from 'react';
+import { isSupabaseConfigured } from '@/lib/supabaseClient';
+import { runOrQueue } from '@/lib/mutationOutbox';
+import {
+  listTimeEntries,
+  loadLocalTimeEntries,
+  saveLocalTimeEntries,
+  type TimeEntry,
+} from '@/lib/timeEntriesRepository';
+
+export interface TimeEntryDraft {
+  taskId: string;
+  person: string;
+  entryDate: string;
+  hours: number;
+  note: string;
+}
+
+/**
+ * Time entries of the active board. Cloud boards read from Supabase and keep
+ * the last list in localStorage for offline use; boards without cloud only use
+ * localStorage. Writes go through the outbox so they survive going offline.
+ */
+export function useTimeEntries(boardId: string | null, userId: string | null) {
+  const [entries, setEntries] = useState<TimeEntry[]>(() => loadLocalTimeEntries(boardId));
+  const useCloud = !!boardId && !!userId && isSupabaseConfigured;
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(loadLocalTimeEntries(boardId));
+    if (!useCloud || !boardId) return;
+    listTimeEntries(boardId)
+      .then((rows) => {
+        if (cancelled) return;
+        setEntries(rows);
+        saveLocalTimeEntries(boardId, rows);
+      })
+      .catch((err) => {
+        console.error('Time entries load failed:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, useCloud]);
+
+  const commit = useCallback((next: TimeEntry[]) => {
+    setEntries(next);
+    saveLocalTimeEntries(boardId, next);
+  }, [boardId]);
+
+  const logTime = useCallback(async (draft: TimeEntryDraft): Promise<TimeEntry | null> => {
+    if (!(draft.hours > 0) || !draft.person.trim()) return null;
+    const entry: TimeEntry = {
+      id: crypto.randomUUID(),
+      board_id: boardId || 'local',
+      task_id: draft.taskId,
+      person: draft.person.trim(),
+      entry_date: draft.entryDate,
+      hours: Math.round(draft.hours * 100) / 100,
+      note: draft.note.trim() || null,
+      user_id: userId,
+      created_at: new Date().toISOString(),
+    };
+    if (useCloud && boardId) {
+      const { created_at: _createdAt, ...newEntry } = entry;
+      await runOrQueue(boardId, { kind: 'timeEntry.add', entry: newEntry });
+    }
+    commit([entry, ...entries]);
+    return entry;
+  }, [boardId, userId, useCloud, entries, commit]);
+
+  const removeEntry = useCallback(async (entryId: string) => {
+    if (useCloud && boardId) {
+      await runOrQueue(boardId, { kind: 'timeEntry.delete', entryId });
+    }
+    commit(entries.filter((e) => e.id !== entryId));
+  }, [boardId, useCloud, entries, commit]);
+
+  return { entries, logTime, removeEntry };
+}
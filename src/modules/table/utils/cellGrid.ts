@@ -0,0 +1,309 @@
+import type { DynamicCellValue, DynamicColumn, Project, TaskType } from '@/lib/types';
+import { format } from '@/lib/dateUtils';
+import { normalizeBranchList } from '@/lib/branchUtils';
+import { defaultTaskTypeName } from '@/lib/taskTypes';
+import { isProgressColumn, isStarsColumn, normalizeProgressValue, normalizeStarsValue } from './table.utils';
+
+// Same shape as the table's render columns, so they can be passed as they are
+export type GridColumn =
+  | { kind: 'essential'; token: string; id: string }
+  | { kind: 'dynamic'; token: string; id: string; column: DynamicColumn };
+
+export interface CellAddress {
+  rowId: string;
+  token: string;
+}
+
+// The anchor stays put while Shift+arrows or a drag move the focus
+export interface CellRange {
+  anchor: CellAddress;
+  focus: CellAddress;
+}
+
+export interface CellRect {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export type CellEditKind = 'text' | 'number' | 'date' | 'select' | 'list' | 'checkbox' | 'stars' | 'progress' | 'readonly';
+
+export type CellWrite =
+  | { target: 'project'; rowId: string; updates: Partial<Project> }
+  | { target: 'dynamic'; rowId: string; columnId: string; value: DynamicCellValue };
+
+const ESSENTIAL_KINDS: Record<string, CellEditKind> = {
+  project: 'text',
+  branch: 'list',
+  start: 'date',
+  end: 'date',
+  assignees: 'list',
+  days: 'number',
+  priority: 'stars',
+  type: 'select',
+};
+
+export function cellEditKind(column: GridColumn): CellEditKind {
+  if (column.kind === 'essential') return ESSENTIAL_KINDS[column.id] || 'readonly';
+  const col = column.column;
+  // Formula values are computed, never typed
+  if (col.type === 'formula') return 'readonly';
+  if (col.type === 'checkbox') return 'checkbox';
+  if (col.type === 'number') {
+    if (isProgressColumn(col)) return 'progress';
+    if (isStarsColumn(col)) return 'stars';
+    return 'number';
+  }
+  if (col.type === 'date') return 'date';
+  if (col.type === 'select') return 'select';
+  if (col.type === 'tags') return 'list';
+  return 'text';
+}
+
+/**
+ * Group rows are computed from their children; only their name is typed in, plus
+ * the built-in columns the board's rollup rules leave to the group (`groupEditable`)
+ */
+export function isCellEditable(column: GridColumn, isGroupRow: boolean, groupEditable?: ReadonlySet<string>): boolean {
+  if (cellEditKind(column) === 'readonly') return false;
+  if (!isGroupRow || column.kind !== 'essential') return !isGroupRow;
+  return column.id === 'project' || !!groupEditable?.has(column.id);
+}
+
+function toIsoDate(value: Date | null): string | null {
+  if (!(value instanceof Date) || Number.isNaN(value.getTime())) return null;
+  return format(value, 'yyyy-MM-dd');
+}
+
+// Local noon, like the date cells, so the day survives time zone round-trips
+function fromIsoDate(value: DynamicCellValue): Date | null {
+  if (typeof value !== 'string') return null;
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!m) return null;
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), 12, 0, 0, 0);
+}
+
+export function readCell(
+  project: Project,
+  rowValues: Record<string, DynamicCellValue> | undefined,
+  column: GridColumn,
+  taskTypes: TaskType[]
+): DynamicCellValue {
+  if (column.kind === 'dynamic') return rowValues?.[column.column.id] ?? null;
+  switch (column.id) {
+    case 'project': return project.name;
+    case 'branch': return normalizeBranchList(project.branch);
+    case 'start': return toIsoDate(project.startDate);
+    case 'end': return toIsoDate(project.endDate);
+    case 'assignees': return [...(project.assignees || [])];
+    case 'days': return project.daysRequired ?? 0;
+    case 'priority': return project.priority ?? 0;
+    case 'type': return project.type ?? defaultTaskTypeName(taskTypes);
+    default: return null;
+  }
+}
+
+/** What the editor starts with on F2 or Enter */
+export function formatCellText(kind: CellEditKind, value: DynamicCellValue): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (kind === 'checkbox') return value ? 'Si' : '';
+  if (kind === 'date' && typeof value === 'string') {
+    const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    return m ? `${m[3]}/${m[2]}/${m[1]}` : value;
+  }
+  return String(value);
+}
+
+function matchOption(text: string, options: string[]): string | null {
+  const lower = text.toLowerCase();
+  return options.find((o) => o.toLowerCase() === lower) ?? null;
+}
+
+function parseDateText(text: string): string | null | undefined {
+  if (!text) return null;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text);
+  const local = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(text);
+  let year: number;
+  let month: number;
+  let day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (local) {
+    [day, month, year] = [Number(local[1]), Number(local[2]), Number(local[3])];
+    if (local[3].length === 2) year += 2000;
+  } else {
+    return undefined;
+  }
+  const date = new Date(year, month - 1, day, 12);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+  return format(date, 'yyyy-MM-dd');
+}
+
+const TRUE_WORDS = new Set(['si', 'sí', 'x', '1', 'true', 'verdadero', 'yes']);
+const FALSE_WORDS = new Set(['', 'no', '0', 'false', 'falso']);
+
+/**
+ * Typed text to a cell value. `undefined` means the text does not fit the
+ * cell (an unknown option, a bad date); `null` clears it. Lists only take
+ * unknown items when they are not `strict`, as branches and people do.
+ */
+export function parseCellText(kind: CellEditKind, raw: string, options: string[] = [], strict = false): DynamicCellValue | undefined {
+  const text = raw.trim();
+  switch (kind) {
+    case 'text':
+      return text;
+    case 'select':
+      if (!text) return null;
+      return options.length > 0 ? matchOption(text, options) ?? undefined : text;
+    case 'list': {
+      const seen = new Set<string>();
+      const items: string[] = [];
+      let unknown = false;
+      text.split(/[,;\n]/).map((t) => t.trim()).filter(Boolean).forEach((item) => {
+        const matched = matchOption(item, options);
+        if (!matched && strict) unknown = true;
+        const canonical = matched ?? item;
+        const key = canonical.toLowerCase();
+        if (seen.has(key)) return;
+        seen.add(key);
+        items.push(canonical);
+      });
+      return unknown ? undefined : items;
+    }
+    case 'number': {
+      if (!text) return null;
+      const n = Number(text.replace(',', '.'));
+      return Number.isFinite(n) ? n : undefined;
+    }
+    case 'stars': {
+      if (!text) return null;
+      const n = Number(text);
+      return Number.isFinite(n) && n >= 0 && n <= 5 ? normalizeStarsValue(n) : undefined;
+    }
+    case 'progress': {
+      if (!text) return null;
+      const n = Number(text.replace('%', '').replace(',', '.'));
+      return Number.isFinite(n) && n >= 0 && n <= 100 ? normalizeProgressValue(n) : undefined;
+    }
+    case 'date':
+      return parseDateText(text);
+    case 'checkbox': {
+      const lower = text.toLowerCase();
+      if (TRUE_WORDS.has(lower)) return true;
+      if (FALSE_WORDS.has(lower)) return false;
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Value written by Delete / Backspace */
+export function emptyCellValue(kind: CellEditKind): DynamicCellValue {
+  if (kind === 'list') return [];
+  if (kind === 'checkbox') return false;
+  if (kind === 'text') return '';
+  return null;
+}
+
+/** The project update or column upsert that stores `value`; null when there is nothing to write */
+export function cellWrite(rowId: string, column: GridColumn, value: DynamicCellValue): CellWrite | null {
+  if (column.kind === 'dynamic') return { target: 'dynamic', rowId, columnId: column.column.id, value };
+  const list = Array.isArray(value) ? value : [];
+  const num = typeof value === 'number' ? value : null;
+  switch (column.id) {
+    case 'project': {
+      const name = typeof value === 'string' ? value.trim() : '';
+      return name ? { target: 'project', rowId, updates: { name } } : null;
+    }
+    case 'branch': return { target: 'project', rowId, updates: { branch: list } };
+    case 'start': return { target: 'project', rowId, updates: { startDate: fromIsoDate(value) } };
+    case 'end': return { target: 'project', rowId, updates: { endDate: fromIsoDate(value) } };
+    case 'assignees': return { target: 'project', rowId, updates: { assignees: list } };
+    case 'days': return { target: 'project', rowId, updates: { daysRequired: Math.max(0, num ?? 0) } };
+    case 'priority': return { target: 'project', rowId, updates: { priority: num ?? 0 } };
+    case 'type': {
+      // Only the board's type names get here (strict options); clearing keeps the type
+      const type = typeof value === 'string' ? value.trim() : '';
+      return type ? { target: 'project', rowId, updates: { type } } : null;
+    }
+    default: return null;
+  }
+}
+
+// ── Navigation ──
+
+export function moveAddress(address: CellAddress, rowIds: string[], tokens: string[], dRow: number, dCol: number): CellAddress | null {
+  const row = rowIds.indexOf(address.rowId);
+  const col = tokens.indexOf(address.token);
+  if (row < 0 || col < 0) return null;
+  const nextRow = Math.max(0, Math.min(rowIds.length - 1, row + dRow));
+  const nextCol = Math.max(0, Math.min(tokens.length - 1, col + dCol));
+  return { rowId: rowIds[nextRow], token: tokens[nextCol] };
+}
+
+/** Tab order: along the row, then on to the next row's first cell */
+export function tabAddress(address: CellAddress, rowIds: string[], tokens: string[], backwards: boolean): CellAddress | null {
+  const row = rowIds.indexOf(address.rowId);
+  const col = tokens.indexOf(address.token);
+  if (row < 0 || col < 0) return null;
+  const flat = row * tokens.length + col + (backwards ? -1 : 1);
+  if (flat < 0 || flat >= rowIds.length * tokens.length) return address;
+  return { rowId: rowIds[Math.floor(flat / tokens.length)], token: tokens[flat % tokens.length] };
+}
+
+export function rangeRect(range: CellRange, rowIds: string[], tokens: string[]): CellRect | null {
+  const rows = [rowIds.indexOf(range.anchor.rowId), rowIds.indexOf(range.focus.rowId)];
+  const cols = [tokens.indexOf(range.anchor.token), tokens.indexOf(range.focus.token)];
+  if (rows.some((i) => i < 0) || cols.some((i) => i < 0)) return null;
+  return {
+    top: Math.min(rows[0], rows[1]),
+    bottom: Math.max(rows[0], rows[1]),
+    left: Math.min(cols[0], cols[1]),
+    right: Math.max(cols[0], cols[1]),
+  };
+}
+
+/** Tokens inside the range, per row, for painting the selection */
+export function rangeTokensByRow(range: CellRange, rowIds: string[], tokens: string[]): Map<string, Set<string>> {
+  const rect = rangeRect(range, rowIds, tokens);
+  const byRow = new Map<string, Set<string>>();
+  if (!rect) return byRow;
+  const rowTokens = new Set(tokens.slice(rect.left, rect.right + 1));
+  for (let r = rect.top; r <= rect.bottom; r += 1) byRow.set(rowIds[r], rowTokens);
+  return byRow;
+}
+
+export function rangeAddresses(range: CellRange, rowIds: string[], tokens: string[]): CellAddress[] {
+  const rect = rangeRect(range, rowIds, tokens);
+  if (!rect) return [];
+  const cells: CellAddress[] = [];
+  for (let r = rect.top; r <= rect.bottom; r += 1) {
+    for (let c = rect.left; c <= rect.right; c += 1) cells.push({ rowId: rowIds[r], token: tokens[c] });
+  }
+  return cells;
+}
+
+/**
+ * Ctrl+D pairs: each column's top cell is copied into the cells below it.
+ * A single-row range copies from the row above, as spreadsheets do.
+ */
+export function fillDownPairs(range: CellRange, rowIds: string[], tokens: string[]): { source: CellAddress; target: CellAddress }[] {
+  const rect = rangeRect(range, rowIds, tokens);
+  if (!rect) return [];
+  const sourceRow = rect.bottom > rect.top ? rect.top : rect.top - 1;
+  const firstTarget = rect.bottom > rect.top ? rect.top + 1 : rect.top;
+  if (sourceRow < 0) return [];
+  const pairs: { source: CellAddress; target: CellAddress }[] = [];
+  for (let c = rect.left; c <= rect.right; c += 1) {
+    for (let r = firstTarget; r <= rect.bottom; r += 1) {
+      pairs.push({
+        source: { rowId: rowIds[sourceRow], token: tokens[c] },
+        target: { rowId: rowIds[r], token: tokens[c] },
+      });
+    }
+  }
+  return pairs;
+}
@@ -0,0 +1,103 @@
+import type { DynamicCellValue, TaskType } from '@/lib/types';
+import { DEFAULT_TASK_TYPES } from '@/lib/constants';
+import { findTaskType } from '@/lib/taskTypes';
+import { format } from '@/lib/dateUtils';
+import { parseAssignees } from '@/lib/assigneeHelpers';
+import { normalizeBranchList } from '@/lib/branchUtils';
+import { parseExcelDate, parsePriority, parseType } from '@/components/import-wizard/helpers/dataTransformer';
+import { cellEditKind, parseCellText, type CellWrite, type GridColumn } from './cellGrid';
+
+// A pasted block: writes over existing cells, values for rows the block adds at the end
+export interface GridPaste {
+  writes: CellWrite[];
+  newRows: { column: GridColumn; value: DynamicCellValue }[][];
+  // Cells whose text did not fit their column and were left as they were
+  rejected: number;
+}
+
+/**
+ * Rows of cells from clipboard text as Excel and Google Sheets write it:
+ * tab separated, one line per row, quoted when a cell holds tabs, newlines or quotes.
+ */
+export function parseTsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = 0;
+  const source = text.replace(/\r\n?/g, '\n').replace(/\n$/, '');
+  if (!source) return [];
+  while (i < source.length) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') quoted = false;
+      else cell += char;
+      i += 1;
+      continue;
+    }
+    if (char === '"' && cell === '') quoted = true;
+    else if (char === '\t') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += char;
+    i += 1;
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows;
+}
+
+export function toTsv(rows: string[][]): string {
+  const quote = (cell: string) => (/[\t\n"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return rows.map((row) => row.map(quote).join('\t')).join('\n');
+}
+
+function toIsoDate(raw: string): string | null | undefined {
+  if (!raw) return null;
+  const date = parseExcelDate(raw);
+  return date ? format(date, 'yyyy-MM-dd') : undefined;
+}
+
+/**
+ * Pasted text to a cell value. Built-in columns follow the import wizard's rules
+ * (dates, priority, type, people and branches), dynamic ones the cell editor's.
+ * `undefined` leaves the cell as it was. Types must be one of the board's `taskTypes`.
+ */
+export function pastedCellValue(
+  column: GridColumn,
+  raw: string,
+  options: string[] = [],
+  strict = false,
+  taskTypes: TaskType[] = DEFAULT_TASK_TYPES
+): DynamicCellValue | undefined {
+  const text = raw.trim();
+  if (column.kind === 'dynamic') {
+    if (column.column.type === 'date') return toIsoDate(text);
+    return parseCellText(cellEditKind(column), text, options, strict);
+  }
+  switch (column.id) {
+    case 'project': return text || undefined;
+    case 'branch': return normalizeBranchList(text ? text.split(/[;,|/]+/).map((x) => x.trim()) : []);
+    case 'start':
+    case 'end': return toIsoDate(text);
+    case 'assignees': return parseAssignees(text);
+    case 'days': {
+      const days = Number(text);
+      // Empty text still pastes as 0
+      return Number.isFinite(days) ? days : undefined;
+    }
+    case 'priority': return parsePriority(text);
+    case 'type': return findTaskType(text, taskTypes) ? parseType(text, taskTypes) : undefined;
+    default: return undefined;
+  }
+}
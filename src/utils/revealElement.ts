@@ -0,0 +1,15 @@
+const REVEAL_TINT = '#FEF3C7';
+
+/** Scrolls an element to the middle of its scroller and briefly tints it so the eye lands on it */
+export function revealElement(el: HTMLElement | null | undefined, options: { scroll?: boolean } = {}): void {
+  if (!el) return;
+  if (options.scroll !== false) el.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'smooth' });
+  if (typeof el.animate !== 'function') return;
+  // Cells paint their own background, so they are tinted along with the row
+  [el, ...Array.from(el.children)].forEach((node) => {
+    (node as HTMLElement).animate(
+      [{ backgroundColor: REVEAL_TINT }, { backgroundColor: REVEAL_TINT, offset: 0.6 }, {}],
+      { duration: 1800, easing: 'ease-out' }
+    );
+  });
+}
@@ -48,10 +48,11 @@ create table if not exists public.tasks (
   assignees text[] not null default '{}',
   days_required numeric not null default 0,
   priority int not null default 0,
-  type text not null default 'Proyecto' check (type in ('Proyecto', 'Lanzamiento', 'En radar')),
+  type text not null default 'Proyecto',
   blocked_by text,
   blocks_to text,
   reported_load numeric,
+  version int not null default 1,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now(),
   constraint tasks_parent_fk
@@ -70,15 +71,159 @@ create table if not exists public.board_versions (
   changed_projects int not null default 0,
   fingerprint text not null default '',
   payload jsonb not null,
+  pinned boolean not null default false,
+  label text null,
   created_at timestamptz not null default now()
 );
 
+create table if not exists public.time_entries (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references public.boards(id) on delete cascade,
+  task_id text not null,
+  person text not null,
+  entry_date date not null,
+  hours numeric(6,2) not null check (hours > 0),
+  note text null,
+  user_id uuid null references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references public.boards(id) on delete cascade,
+  task_id text not null,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  body text not null,
+  author_label text null,
+  author_avatar_url text null,
+  parent_id uuid null references public.task_comments(id) on delete cascade,
+  edited_at timestamptz null,
+  edit_history jsonb not null default '[]'::jsonb,
+  mentions text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+-- Existing databases: threaded comments add replies, edit history and @mentions.
+alter table if exists public.task_comments add column if not exists parent_id uuid null references public.task_comments(id) on delete cascade;
+alter table if exists public.task_comments add column if not exists edited_at timestamptz null;
+alter table if exists public.task_comments add column if not exists edit_history jsonb not null default '[]'::jsonb;
+alter table if exists public.task_comments add column if not exists mentions text[] not null default '{}';
+
+create table if not exists public.task_comment_reactions (
+  comment_id uuid not null references public.task_comments(id) on delete cascade,
+  board_id uuid not null references public.boards(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  emoji text not null,
+  created_at timestamptz not null default now(),
+  primary key (comment_id, user_id, emoji)
+);
+
+create table if not exists public.task_comment_reads (
+  board_id uuid not null references public.boards(id) on delete cascade,
+  task_id text not null,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  last_read_at timestamptz not null default now(),
+  primary key (board_id, task_id, user_id)
+);
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references public.boards(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  kind text not null check (kind in ('assignment', 'mention', 'due', 'blocked')),
+  task_id text null,
+  title text not null,
+  body text null,
+  actor_label text null,
+  dedupe_key text not null,
+  read_at timestamptz null,
+  created_at timestamptz not null default now(),
+  unique (board_id, user_id, dedupe_key)
+);
+
+create table if not exists public.notification_preferences (
+  board_id uuid not null references public.boards(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  person text null,
+  assignment boolean not null default true,
+  mention boolean not null default true,
+  due boolean not null default true,
+  blocked boolean not null default true,
+  due_days_ahead int not null default 2,
+  updated_at timestamptz not null default now(),
+  primary key (board_id, user_id)
+);
+
+create table if not exists public.saved_views (
+  id uuid primary key,
+  board_id uuid not null references public.boards(id) on delete cascade,
+  owner_id uuid null references auth.users(id) on delete cascade,
+  owner_label text null,
+  name text not null,
+  shared boolean not null default false,
+  config jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Append-only audit trail: no update or delete policies, so rows cannot be rewritten.
+create table if not exists public.activity_log (
+  id uuid primary key,
+  board_id uuid not null references public.boards(id) on delete cascade,
+  task_id text null,
+  task_name text not null,
+  actor_id uuid null references auth.users(id) on delete set null,
+  actor_label text null,
+  action text not null,
+  changes jsonb not null default '[]'::jsonb,
+  detail text null,
+  created_at timestamptz not null default now()
+);
+
+-- Existing databases: command palette key bindings, { "<command id>": "Ctrl+Shift+P" | null }.
+alter table public.profiles add column if not exists key_bindings jsonb not null default '{}'::jsonb;
 create index if not exists idx_workspace_members_user on public.workspace_members(user_id);
 create index if not exists idx_boards_workspace on public.boards(workspace_id);
+-- Existing databases: how group rows summarize their tasks, see RollupRules in src/lib/types.ts.
+alter table public.boards add column if not exists rollup_rules jsonb not null default '{}'::jsonb;
+-- Existing databases: task types are defined per board (see TaskType in src/lib/types.ts),
+-- so tasks.type holds any type name and the old fixed-list check goes away.
+alter table public.boards add column if not exists task_types jsonb not null default '[]'::jsonb;
+alter table public.tasks drop constraint if exists tasks_type_check;
+-- Existing databases: add the row version used for concurrent edit detection.
+alter table public.tasks add column if not exists version int not null default 1;
+
+create or replace function public.tasks_touch()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version := old.version + 1;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_touch on public.tasks;
+create trigger tasks_touch
+before update on public.tasks
+for each row execute function public.tasks_touch();
+
 create index if not exists idx_tasks_board on public.tasks(board_id);
 create index if not exists idx_tasks_parent on public.tasks(parent_id);
 create index if not exists idx_tasks_board_sort on public.tasks(board_id, sort_order);
+-- Existing databases: pinned/named versions are exempt from retention pruning.
+alter table public.board_versions add column if not exists pinned boolean not null default false;
+alter table public.board_versions add column if not exists label text null;
 create index if not exists idx_board_versions_board_created on public.board_versions(board_id, created_at desc);
+create index if not exists idx_time_entries_board_task on public.time_entries(board_id, task_id);
+create index if not exists idx_task_comments_board_task on public.task_comments(board_id, task_id, created_at desc);
+create index if not exists idx_task_comments_parent on public.task_comments(parent_id);
+create index if not exists idx_task_comment_reactions_board on public.task_comment_reactions(board_id);
+create index if not exists idx_notifications_board_user_created on public.notifications(board_id, user_id, created_at desc);
+create index if not exists idx_saved_views_board on public.saved_views(board_id);
+create index if not exists idx_activity_log_board_created on public.activity_log(board_id, created_at desc);
+create index if not exists idx_activity_log_board_task on public.activity_log(board_id, task_id, created_at desc);
 
 alter table public.profiles enable row level security;
 alter table public.workspaces enable row level security;
@@ -86,6 +231,14 @@ alter table public.workspace_members enable row level security;
 alter table public.boards enable row level security;
 alter table public.tasks enable row level security;
 alter table public.board_versions enable row level security;
+alter table public.time_entries enable row level security;
+alter table public.task_comments enable row level security;
+alter table public.task_comment_reactions enable row level security;
+alter table public.task_comment_reads enable row level security;
+alter table public.notifications enable row level security;
+alter table public.notification_preferences enable row level security;
+alter table public.activity_log enable row level security;
+alter table public.saved_views enable row level security;
 
 drop policy if exists "profiles_select_own" on public.profiles;
 create policy "profiles_select_own" on public.profiles
@@ -328,3 +481,255 @@ with check (
     where b.id = board_versions.board_id and wm.user_id = auth.uid() and wm.role in ('owner', 'editor')
   )
 );
+
+drop policy if exists "board_versions_update_owner_editor" on public.board_versions;
+create policy "board_versions_update_owner_editor" on public.board_versions
+for update to authenticated
+using (
+  exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = board_versions.board_id and wm.user_id = auth.uid() and wm.role in ('owner', 'editor')
+  )
+);
+
+drop policy if exists "board_versions_delete_owner_editor" on public.board_versions;
+create policy "board_versions_delete_owner_editor" on public.board_versions
+for delete to authenticated
+using (
+  exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = board_versions.board_id and wm.user_id = auth.uid() and wm.role in ('owner', 'editor')
+  )
+);
+
+drop policy if exists "time_entries_select_member" on public.time_entries;
+create policy "time_entries_select_member" on public.time_entries
+for select to authenticated
+using (
+  exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = time_entries.board_id and wm.user_id = auth.uid()
+  )
+);
+
+drop policy if exists "time_entries_insert_owner_editor" on public.time_entries;
+create policy "time_entries_insert_owner_editor" on public.time_entries
+for insert to authenticated
+with check (
+  exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = time_entries.board_id and wm.user_id = auth.uid() and wm.role in ('owner', 'editor')
+  )
+);
+
+drop policy if exists "time_entries_delete_owner_editor" on public.time_entries;
+create policy "time_entries_delete_owner_editor" on public.time_entries
+for delete to authenticated
+using (
+  exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = time_entries.board_id and wm.user_id = auth.uid() and wm.role in ('owner', 'editor')
+  )
+);
+
+drop policy if exists "task_comments_select_member" on public.task_comments;
+create policy "task_comments_select_member" on public.task_comments
+for select to authenticated
+using (
+  exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = task_comments.board_id and wm.user_id = auth.uid()
+  )
+);
+
+drop policy if exists "task_comments_insert_own" on public.task_comments;
+create policy "task_comments_insert_own" on public.task_comments
+for insert to authenticated
+with check (
+  user_id = auth.uid()
+  and exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = task_comments.board_id and wm.user_id = auth.uid()
+  )
+);
+
+drop policy if exists "task_comments_update_own" on public.task_comments;
+create policy "task_comments_update_own" on public.task_comments
+for update to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+drop policy if exists "task_comments_delete_own" on public.task_comments;
+create policy "task_comments_delete_own" on public.task_comments
+for delete to authenticated
+using (user_id = auth.uid());
+
+drop policy if exists "task_comment_reactions_select_member" on public.task_comment_reactions;
+create policy "task_comment_reactions_select_member" on public.task_comment_reactions
+for select to authenticated
+using (
+  exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = task_comment_reactions.board_id and wm.user_id = auth.uid()
+  )
+);
+
+drop policy if exists "task_comment_reactions_insert_own" on public.task_comment_reactions;
+create policy "task_comment_reactions_insert_own" on public.task_comment_reactions
+for insert to authenticated
+with check (
+  user_id = auth.uid()
+  and exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = task_comment_reactions.board_id and wm.user_id = auth.uid()
+  )
+);
+
+drop policy if exists "task_comment_reactions_delete_own" on public.task_comment_reactions;
+create policy "task_comment_reactions_delete_own" on public.task_comment_reactions
+for delete to authenticated
+using (user_id = auth.uid());
+
+drop policy if exists "task_comment_reads_select_own" on public.task_comment_reads;
+create policy "task_comment_reads_select_own" on public.task_comment_reads
+for select to authenticated
+using (user_id = auth.uid());
+
+drop policy if exists "task_comment_reads_insert_own" on public.task_comment_reads;
+create policy "task_comment_reads_insert_own" on public.task_comment_reads
+for insert to authenticated
+with check (user_id = auth.uid());
+
+drop policy if exists "task_comment_reads_update_own" on public.task_comment_reads;
+create policy "task_comment_reads_update_own" on public.task_comment_reads
+for update to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+drop policy if exists "notifications_select_own" on public.notifications;
+create policy "notifications_select_own" on public.notifications
+for select to authenticated
+using (user_id = auth.uid());
+
+-- Any board member may notify another member of the same board
+drop policy if exists "notifications_insert_member" on public.notifications;
+create policy "notifications_insert_member" on public.notifications
+for insert to authenticated
+with check (
+  exists (
+    select 1
+    from public.boards b
+    join public.workspace_members sender on sender.workspace_id = b.workspace_id and sender.user_id = auth.uid()
+    join public.workspace_members recipient on recipient.workspace_id = b.workspace_id and recipient.user_id = notifications.user_id
+    where b.id = notifications.board_id
+  )
+);
+
+drop policy if exists "notifications_update_own" on public.notifications;
+create policy "notifications_update_own" on public.notifications
+for update to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+drop policy if exists "notification_preferences_select_member" on public.notification_preferences;
+create policy "notification_preferences_select_member" on public.notification_preferences
+for select to authenticated
+using (
+  exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = notification_preferences.board_id and wm.user_id = auth.uid()
+  )
+);
+
+drop policy if exists "notification_preferences_insert_own" on public.notification_preferences;
+create policy "notification_preferences_insert_own" on public.notification_preferences
+for insert to authenticated
+with check (user_id = auth.uid());
+
+drop policy if exists "notification_preferences_update_own" on public.notification_preferences;
+create policy "notification_preferences_update_own" on public.notification_preferences
+for update to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+drop policy if exists "activity_log_select_member" on public.activity_log;
+create policy "activity_log_select_member" on public.activity_log
+for select to authenticated
+using (
+  exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = activity_log.board_id and wm.user_id = auth.uid()
+  )
+);
+
+drop policy if exists "activity_log_insert_member" on public.activity_log;
+create policy "activity_log_insert_member" on public.activity_log
+for insert to authenticated
+with check (
+  actor_id = auth.uid()
+  and exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = activity_log.board_id and wm.user_id = auth.uid()
+  )
+);
+
+drop policy if exists "saved_views_select_own_or_shared" on public.saved_views;
+create policy "saved_views_select_own_or_shared" on public.saved_views
+for select to authenticated
+using (
+  (owner_id = auth.uid() or shared)
+  and exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = saved_views.board_id and wm.user_id = auth.uid()
+  )
+);
+
+drop policy if exists "saved_views_insert_own" on public.saved_views;
+create policy "saved_views_insert_own" on public.saved_views
+for insert to authenticated
+with check (
+  owner_id = auth.uid()
+  and exists (
+    select 1
+    from public.boards b
+    join public.workspace_members wm on wm.workspace_id = b.workspace_id
+    where b.id = saved_views.board_id and wm.user_id = auth.uid()
+  )
+);
+
+drop policy if exists "saved_views_update_own" on public.saved_views;
+create policy "saved_views_update_own" on public.saved_views
+for update to authenticated
+using (owner_id = auth.uid())
+with check (owner_id = auth.uid());
+
+drop policy if exists "saved_views_delete_own" on public.saved_views;
+create policy "saved_views_delete_own" on public.saved_views
+for delete to authenticated
+using (owner_id = auth.uid());